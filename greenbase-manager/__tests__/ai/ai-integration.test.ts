@@ -4,6 +4,7 @@ import { SourceMetadata } from '@/lib/ai/confidence-scoring'
 // Mock dependencies
 jest.mock('@/lib/ai/azure-openai', () => ({
   getAzureOpenAIService: () => ({
+    getModels: jest.fn().mockResolvedValue({ chat: 'gpt-4', embedding: 'text-embedding-ada-002' }),
     chatCompletion: jest.fn().mockImplementation((messages) => {
       const systemMessage = messages.find((m: any) => m.role === 'system')?.content || ''
       const userMessage = messages.find((m: any) => m.role === 'user')?.content || ''
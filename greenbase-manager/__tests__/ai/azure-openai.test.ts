@@ -0,0 +1,60 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { APIConnectionError, BadRequestError, InternalServerError, RateLimitError } from 'openai'
+import { AzureOpenAIService } from '@/lib/ai/azure-openai'
+import { RateLimiter } from '@/lib/ai/rate-limiter'
+
+const completion = {
+  choices: [{ message: { content: 'Restart the router.' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+}
+
+function createService(create: jest.Mock<() => Promise<typeof completion>>) {
+  const service = new AzureOpenAIService()
+  // Clock that advances only when the limiter sleeps
+  let now = 0
+  const clock = { now: () => now, sleep: async (ms: number) => { now += ms } }
+  Object.assign(service, {
+    client: { chat: { completions: { create } } },
+    deploymentName: 'chat',
+    model: 'gpt-4',
+    chatRateLimiter: new RateLimiter({ tokensPerMinute: 1_000_000, requestsPerMinute: 1000 }, clock),
+    transientRetry: { ...service['transientRetry'], sleep: async () => {} }
+  })
+  return service
+}
+
+describe('AzureOpenAIService', () => {
+  it('should retry server errors and dropped connections', async () => {
+    const create = jest.fn<() => Promise<typeof completion>>()
+      .mockRejectedValueOnce(new InternalServerError(503, undefined, 'Service unavailable', new Headers()))
+      .mockRejectedValueOnce(new APIConnectionError({ cause: new Error('socket hang up') }))
+      .mockResolvedValueOnce(completion)
+
+    const result = await createService(create).chatCompletion([{ role: 'user', content: 'The router is down' }])
+
+    expect(result.content).toBe('Restart the router.')
+    expect(create).toHaveBeenCalledTimes(3)
+  })
+
+  it('should give up after repeated transient failures', async () => {
+    const create = jest.fn<() => Promise<typeof completion>>()
+      .mockRejectedValue(new InternalServerError(500, undefined, 'Internal error', new Headers()))
+
+    await expect(createService(create).chatCompletion([{ role: 'user', content: 'Hello' }])).rejects.toThrow('Chat completion failed')
+    expect(create).toHaveBeenCalledTimes(3)
+  })
+
+  it('should leave throttling to the rate limiter and not retry client errors', async () => {
+    const throttled = jest.fn<() => Promise<typeof completion>>()
+      .mockRejectedValueOnce(new RateLimitError(429, undefined, 'Too many requests', new Headers({ 'retry-after-ms': '1' })))
+      .mockResolvedValueOnce(completion)
+    const rejected = jest.fn<() => Promise<typeof completion>>()
+      .mockRejectedValue(new BadRequestError(400, undefined, 'Bad request', new Headers()))
+
+    await createService(throttled).chatCompletion([{ role: 'user', content: 'Hello' }])
+    await expect(createService(rejected).chatCompletion([{ role: 'user', content: 'Hello' }])).rejects.toThrow('Bad request')
+
+    expect(throttled).toHaveBeenCalledTimes(2)
+    expect(rejected).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals'
+import { detectLanguage, dominantLanguage } from '@/lib/ai/language-detection'
+import { PromptTemplates, type ContentStructuringInput } from '@/lib/ai/prompt-templates'
+
+const structuringInput: ContentStructuringInput = {
+  sourceContent: ['Das neue Onboarding beginnt am Montag.'],
+  sourceType: 'teams',
+  metadata: { sourceCount: 1, totalLength: 38, piiEntitiesFound: 0 }
+}
+
+describe('detectLanguage', () => {
+  it('should tell English, German and Spanish apart', () => {
+    expect(detectLanguage('The release is planned for Friday and we will share the notes with the team.')).toBe('en')
+    expect(detectLanguage('Die Freigabe ist für Freitag geplant und wir teilen die Notizen mit dem Team.')).toBe('de')
+    expect(detectLanguage('El lanzamiento está previsto para el viernes y compartiremos las notas con el equipo.')).toBe('es')
+  })
+
+  it('should return undefined for text too short or unlike any supported language', () => {
+    expect(detectLanguage('OK')).toBeUndefined()
+    expect(detectLanguage('https://example.com/build/1234')).toBeUndefined()
+    expect(detectLanguage('Le déploiement est prévu vendredi.')).toBeUndefined()
+  })
+})
+
+describe('dominantLanguage', () => {
+  it('should weight languages by the length of their texts', () => {
+    expect(dominantLanguage([
+      { language: 'en', length: 40 },
+      { language: 'en', length: 40 },
+      { language: 'de', length: 200 },
+      { language: undefined, length: 500 }
+    ])).toBe('de')
+    expect(dominantLanguage([{ language: undefined, length: 10 }])).toBeUndefined()
+  })
+})
+
+describe('PromptTemplates.contentStructuring', () => {
+  it('should keep the source language unless a canonical language is requested', () => {
+    const source = PromptTemplates.contentStructuring({ ...structuringInput, sourceLanguage: 'de', outputLanguage: 'de' })
+    expect(source.system).toContain('Write in German, the language of the source content; do not translate it')
+
+    const canonical = PromptTemplates.contentStructuring({ ...structuringInput, sourceLanguage: 'de', outputLanguage: 'en' })
+    expect(canonical.system).toContain('Write in English, translating any source content in other languages faithfully')
+
+    const undetected = PromptTemplates.contentStructuring(structuringInput)
+    expect(undetected.system).toContain('Write in the language the source content is written in')
+  })
+})
@@ -1,4 +1,4 @@
-import { getPIIRedactionService, PIIRedactionOptions } from '@/lib/ai/pii-redaction'
+import { getPIIRedactionService, PIIRedactionOptions, combineRedactions, maskEntityText } from '@/lib/ai/pii-redaction'
 
 // Mock Azure AI Language client
 jest.mock('@azure/ai-language-text', () => ({
@@ -170,4 +170,26 @@ describe('PIIRedactionService', () => {
       expect(result.entities.length).toBeGreaterThan(0)
     })
   })
+
+  describe('stored redactions', () => {
+    it('should mask entity texts so the original PII is not kept', async () => {
+      const result = maskEntityText(await piiService.redactPII('Mail jane@example.org today'))
+
+      expect(result.entities[0].text).toBe('*'.repeat('jane@example.org'.length))
+      expect(result.redactedText).toBe(`Mail ${'*'.repeat(16)} today`)
+    })
+
+    it('should combine redactions as if the texts were redacted together', async () => {
+      const texts = ['Call 555-123-4567', 'No PII here', 'Mail jane@example.org']
+      const separator = '\n\n---\n\n'
+
+      const combined = combineRedactions(await piiService.batchRedactPII(texts), separator)
+      const together = await piiService.redactPII(texts.join(separator))
+
+      expect(combined.redactedText).toBe(together.redactedText)
+      expect(combined.originalLength).toBe(together.originalLength)
+      expect(combined.entities.map(entity => [entity.category, entity.offset, entity.length]).sort())
+        .toEqual(together.entities.map(entity => [entity.category, entity.offset, entity.length]).sort())
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals'
+import { RateLimiter, type RateLimiterClock } from '@/lib/ai/rate-limiter'
+
+// Clock that advances only when the limiter sleeps
+function createFakeClock(): RateLimiterClock & { sleeps: number[] } {
+  let now = 0
+  const sleeps: number[] = []
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async ms => {
+      sleeps.push(ms)
+      now += ms
+    }
+  }
+}
+
+// One token per millisecond and ten requests per second; bursts of 10,000 tokens or 100 requests
+const limits = { tokensPerMinute: 60_000, requestsPerMinute: 600 }
+
+describe('RateLimiter', () => {
+  it('should admit a burst immediately and then wait for tokens to refill', async () => {
+    const clock = createFakeClock()
+    const limiter = new RateLimiter(limits, clock)
+
+    await limiter.acquire(8000)
+    expect(clock.now()).toBe(0)
+
+    await limiter.acquire(4000)
+    expect(clock.now()).toBe(2000)
+  })
+
+  it('should serve callers in arrival order', async () => {
+    const clock = createFakeClock()
+    const limiter = new RateLimiter(limits, clock)
+    const order: string[] = []
+
+    await Promise.all([
+      limiter.acquire(9000).then(() => order.push('large')),
+      limiter.acquire(3000).then(() => order.push('small')),
+      limiter.acquire(100).then(() => order.push('tiny'))
+    ])
+
+    expect(order).toEqual(['large', 'small', 'tiny'])
+  })
+
+  it('should pause for Retry-After and halve the rate when throttled, then recover', async () => {
+    const clock = createFakeClock()
+    const limiter = new RateLimiter(limits, clock)
+
+    limiter.recordThrottle(5000)
+    await limiter.acquire(1000)
+
+    // 5 seconds paused, then 1,000 tokens at half a token per millisecond
+    expect(clock.now()).toBe(7000)
+    expect(limiter.getRateFactor()).toBe(0.5)
+
+    for (let i = 0; i < 10; i++) limiter.recordSuccess()
+    expect(limiter.getRateFactor()).toBe(1)
+  })
+
+  it('should let a request larger than the burst through once the bucket is full', async () => {
+    const clock = createFakeClock()
+    const limiter = new RateLimiter(limits, clock)
+
+    await limiter.acquire(15000)
+    expect(clock.now()).toBe(0)
+
+    // The oversized request left the bucket 5,000 tokens in debt
+    await limiter.acquire(1000)
+    expect(clock.now()).toBe(6000)
+  })
+})
+
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  encodingForModel,
+  estimateChatTokens,
+  estimateCost,
+  estimateTokens,
+  fitToTokenBudget,
+  truncateToTokens
+} from '@/lib/ai/token-estimator'
+
+describe('Token counting', () => {
+  it('should count tokens with the BPE tokenizer of the model', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('Restart the VPN client')).toBe(4)
+    expect(estimateTokens('重启客户端', 'gpt-4')).toBe(5)
+    expect(estimateTokens('重启客户端', 'gpt-4o')).toBe(3)
+    expect(estimateTokens('Der Kühlschrank läuft.', 'gpt-4o-mini')).toBe(5)
+  })
+
+  it('should select the encoding by model name', () => {
+    expect(encodingForModel('gpt-4')).toBe('cl100k_base')
+    expect(encodingForModel('gpt-35-turbo')).toBe('cl100k_base')
+    expect(encodingForModel('text-embedding-3-small')).toBe('cl100k_base')
+    expect(encodingForModel('gpt-4o-2024-08-06')).toBe('o200k_base')
+    expect(encodingForModel('o3-mini')).toBe('o200k_base')
+  })
+
+  it('should count special tokens as plain text', () => {
+    expect(estimateTokens('<|endoftext|>')).toBe(7)
+  })
+
+  it('should add the chat format overhead per message', () => {
+    const tokens = estimateChatTokens([
+      { role: 'system', content: 'abcd' },
+      { role: 'user', content: 'abcdefgh' }
+    ])
+
+    expect(tokens).toBe(3 + (4 + 1) + (4 + 1))
+  })
+
+  it('should truncate texts to fit a token budget in order', () => {
+    expect(truncateToTokens('Restart the VPN client', 2)).toBe('Restart the')
+    expect(fitToTokenBudget(['Restart the VPN client', 'Restart the VPN client', 'abcd'], 6)).toEqual([
+      'Restart the VPN client',
+      'Restart the'
+    ])
+    expect(fitToTokenBudget(['Restart the VPN client', 'abcd'], 5, 'gpt-4', 1)).toEqual(['Restart the VPN client'])
+  })
+
+  it('should price prompt and completion tokens separately', () => {
+    expect(estimateCost('gpt-4', { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(0.06)
+    expect(estimateCost('custom', { promptTokens: 2000, completionTokens: 0 }, {
+      custom: { promptPer1K: 0.5, completionPer1K: 1 }
+    })).toBeCloseTo(1)
+  })
+
+  it('should reject models without pricing', () => {
+    expect(() => estimateCost('unknown-model', { promptTokens: 1, completionTokens: 1 })).toThrow('No pricing configured')
+  })
+})
@@ -4,6 +4,7 @@ import { testSupabase, cleanupTestData, ensureTestUser, createTestApprovedDocume
 // Mock Azure OpenAI service
 jest.mock('@/lib/ai/azure-openai', () => ({
   getAzureOpenAIService: () => ({
+    getModels: jest.fn().mockResolvedValue({ chat: 'gpt-4', embedding: 'text-embedding-ada-002' }),
     generateEmbedding: jest.fn().mockResolvedValue({
       embedding: Array(1536).fill(0.1), // Mock embedding vector
       usage: { promptTokens: 10, totalTokens: 10 }
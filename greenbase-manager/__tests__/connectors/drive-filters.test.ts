@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals'
+import { globToRegExp, matchesDriveFilters, validateDriveFilters } from '../../src/lib/connectors/drive-filters'
+import { DriveItem } from '../../src/lib/oauth/types'
+
+function file(name: string, extra: Partial<DriveItem> = {}): DriveItem {
+  return {
+    id: name,
+    name,
+    webUrl: `https://drive.example/${name}`,
+    file: { mimeType: 'application/pdf' },
+    createdDateTime: '2024-03-01T10:00:00Z',
+    lastModifiedDateTime: '2024-03-02T10:00:00Z',
+    size: 2048,
+    ...extra
+  }
+}
+
+describe('Drive filters', () => {
+  it('keeps single stars within a path segment and lets double stars span folders', () => {
+    expect(globToRegExp('*.pdf').test('Handbook.PDF')).toBe(true)
+    expect(globToRegExp('HR/*.pdf').test('HR/Old/leave.pdf')).toBe(false)
+    expect(globToRegExp('HR/**/*.pdf').test('HR/Old/leave.pdf')).toBe(true)
+    expect(globToRegExp('HR/**/*.pdf').test('HR/leave.pdf')).toBe(true)
+    expect(globToRegExp('draft-?.md').test('draft-1.md')).toBe(true)
+    expect(globToRegExp('notes (v2).md').test('notes (v2).md')).toBe(true)
+  })
+
+  it('matches name patterns anywhere and lets excludes win over includes', () => {
+    const filters = { includePatterns: ['*.pdf'], excludePatterns: ['Archive/**'] }
+
+    expect(matchesDriveFilters(file('leave.pdf'), 'HR/leave.pdf', filters)).toBe(true)
+    expect(matchesDriveFilters(file('leave.pdf'), 'Archive/2019/leave.pdf', filters)).toBe(false)
+    expect(matchesDriveFilters(file('notes.txt', { file: { mimeType: 'text/plain' } }), 'notes.txt', filters)).toBe(false)
+  })
+
+  it('applies MIME type, size and modified-since limits', () => {
+    expect(matchesDriveFilters(file('a.pdf'), 'a.pdf', { mimeTypes: ['text/*'] })).toBe(false)
+    expect(matchesDriveFilters(file('a.pdf'), 'a.pdf', { mimeTypes: ['text/*', 'application/pdf'] })).toBe(true)
+    expect(matchesDriveFilters(file('a.pdf'), 'a.pdf', { maxFileSizeBytes: 1024 })).toBe(false)
+    // Google-native documents report no size
+    expect(matchesDriveFilters(file('doc', { size: undefined }), 'doc', { maxFileSizeBytes: 1024 })).toBe(true)
+    expect(matchesDriveFilters(file('a.pdf'), 'a.pdf', { modifiedSince: '2024-03-05T00:00:00Z' })).toBe(false)
+    expect(matchesDriveFilters(file('a.pdf'), 'a.pdf', { modifiedSince: '2024-03-01' })).toBe(true)
+  })
+
+  it('rejects invalid filters', () => {
+    expect(() => validateDriveFilters({ maxDepth: 2, includePatterns: ['*.md'], mimeTypes: ['text/*'] })).not.toThrow()
+    expect(() => validateDriveFilters({ maxDepth: -1 })).toThrow('Max depth')
+    expect(() => validateDriveFilters({ excludePatterns: [''] })).toThrow('Exclude patterns')
+    expect(() => validateDriveFilters({ mimeTypes: ['pdf'] })).toThrow('MIME types')
+    expect(() => validateDriveFilters({ modifiedSince: 'last week' })).toThrow('Modified since')
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+
+jest.mock('../../src/lib/config')
+
+import { SlackConnector } from '../../src/lib/connectors'
+import { SlackService } from '../../src/lib/oauth/slack'
+
+const selection = { teamId: 'T1', channelId: 'C1', displayName: 'Acme - #engineering' }
+const source = { id: 'source-1', type: 'slack' as const, userId: 'user-1', selectedSlackChannels: [selection] }
+
+// Minimal fake of the Slack Web API methods the connector uses
+const history = [
+  { ts: '1700000300.000200', text: 'Deploys go through <https://ci.example.com|the pipeline>', user: 'U2' },
+  { ts: '1700000100.000100', text: 'How do we deploy? cc <@U2>', user: 'U1', thread_ts: '1700000100.000100', reply_count: 1, latest_reply: '1700000200.000100' },
+  { ts: '1700000150.000000', subtype: 'channel_join', text: '<@U3> has joined the channel', user: 'U3' }
+]
+
+const replies = [
+  history[1],
+  {
+    ts: '1700000200.000100',
+    thread_ts: '1700000100.000100',
+    text: '*Always* run `make deploy` &amp; watch the logs',
+    user: 'U2',
+    reactions: [{ name: '+1', count: 2, users: ['U1', 'U3'] }]
+  }
+]
+
+const users: Record<string, string> = { U1: 'Ada', U2: 'Grace', U3: 'Linus' }
+
+let server: Server
+const requests: string[] = []
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url!, 'http://localhost')
+    requests.push(`${url.pathname}?${url.searchParams}`)
+
+    const reply = (body: object) => {
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify(body))
+    }
+
+    if (request.headers.authorization !== 'Bearer xoxp-test') {
+      return reply({ ok: false, error: 'invalid_auth' })
+    }
+
+    switch (url.pathname) {
+      case '/auth.test':
+        return reply({ ok: true, team_id: 'T1', team: 'Acme', url: 'https://acme.slack.com/' })
+      case '/conversations.list':
+        // Two pages to exercise cursor pagination
+        return url.searchParams.get('cursor')
+          ? reply({ ok: true, channels: [{ id: 'C2', name: 'random', is_member: true }], response_metadata: { next_cursor: '' } })
+          : reply({
+            ok: true,
+            channels: [{ id: 'C1', name: 'engineering', is_member: true }, { id: 'C9', name: 'not-joined', is_member: false }],
+            response_metadata: { next_cursor: 'page-2' }
+          })
+      case '/conversations.history': {
+        const oldest = Number(url.searchParams.get('oldest') || 0)
+        return reply({ ok: true, messages: history.filter(message => Number(message.ts) > oldest) })
+      }
+      case '/conversations.replies':
+        return reply({ ok: true, messages: replies })
+      case '/users.info':
+        return reply({ ok: true, user: { name: 'x', profile: { display_name: users[url.searchParams.get('user')!] } } })
+      default:
+        return reply({ ok: false, error: 'unknown_method' })
+    }
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  process.env.SLACK_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  delete process.env.SLACK_API_BASE_URL
+  await new Promise(resolve => server.close(resolve))
+})
+
+function createConnector(): SlackConnector {
+  // A fresh service per test so cached user names don't leak between tests
+  const slackService = Object.assign(new SlackService(), {
+    keyVaultService: { getOAuthTokens: async () => ({ accessToken: 'xoxp-test', refreshToken: 'slack_no_rotation' }) }
+  })
+  return Object.assign(new SlackConnector(), { slackService })
+}
+
+describe('SlackConnector against a fake Slack API', () => {
+  it('lists joined channels across pages as selectable containers', async () => {
+    const containers = await createConnector().listContainers('user-1')
+
+    expect(containers.map(container => container.name)).toEqual(['#engineering', '#random'])
+    expect(containers[0]).toMatchObject({
+      id: 'T1/C1',
+      kind: 'channel',
+      selection: selection,
+      webUrl: 'https://acme.slack.com/archives/C1'
+    })
+  })
+
+  it('fetches threads with replies and maps each message to a chunk', async () => {
+    const connector = createConnector()
+    const { items, cursor } = await connector.fetchItems(source, selection)
+
+    expect(items.map(thread => thread.root.ts)).toEqual(['1700000100.000100', '1700000150.000000', '1700000300.000200'])
+    expect(cursor).toBe('1700000300.000200')
+
+    const chunks = (await Promise.all(items.map(thread => connector.toContentChunks(source, selection, thread)))).flat()
+
+    // The join event is dropped
+    expect(chunks.map(chunk => chunk.id)).toEqual([
+      'slack_C1_1700000100.000100',
+      'slack_C1_1700000200.000100',
+      'slack_C1_1700000300.000200'
+    ])
+
+    expect(chunks[0]).toMatchObject({
+      content: 'How do we deploy? cc @Grace',
+      sourceType: 'slack',
+      sourceId: 'T1/C1',
+      metadata: { author: 'Ada', channelName: 'Acme - #engineering', teamName: 'Acme', threadId: '1700000100.000100', mentions: ['Grace'] }
+    })
+    expect(chunks[1]).toMatchObject({
+      content: '**Always** run `make deploy` & watch the logs',
+      metadata: {
+        author: 'Grace',
+        replyToId: '1700000100.000100',
+        url: 'https://acme.slack.com/archives/C1/p1700000200000100?thread_ts=1700000100.000100&cid=C1',
+        reactions: { '+1': 2 },
+        reactedBy: ['Ada', 'Linus']
+      }
+    })
+    expect(chunks[2].content).toBe('Deploys go through [the pipeline](https://ci.example.com)')
+    expect(chunks[1].metadata.timestamp).toEqual(new Date(1700000200000.1))
+  })
+
+  it('only returns threads with activity after the cursor on incremental syncs', async () => {
+    const { items, cursor } = await createConnector().fetchItems(source, selection, '1700000250.000000')
+
+    expect(items.map(thread => thread.root.ts)).toEqual(['1700000300.000200'])
+    expect(cursor).toBe('1700000300.000200')
+    // History is re-read from a week before the cursor so new replies on recent threads are found
+    expect(requests).toContainEqual(expect.stringContaining(`oldest=${1700000250 - 7 * 24 * 60 * 60}`))
+  })
+})
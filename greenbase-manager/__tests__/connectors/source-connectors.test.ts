@@ -0,0 +1,338 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('../../src/lib/config')
+jest.mock('../../src/lib/azure-keyvault')
+
+import {
+  getSourceConnectorRegistry,
+  TeamsConnector,
+  TeamsMeetingsConnector,
+  GoogleDriveConnector,
+  MicrosoftDriveConnector
+} from '../../src/lib/connectors'
+import { FakeTranscriptionBackend, TranscriptionService } from '../../src/lib/transcription'
+import { DriveItem, MeetingArtifact, TeamsMessage, TeamsMessageDelta } from '../../src/lib/oauth/types'
+
+const source = { id: 'source-1', type: 'teams' as const, userId: 'user-1' }
+
+function message(id: string, content: string, extra: Partial<TeamsMessage> = {}): TeamsMessage {
+  return {
+    id,
+    messageType: 'message',
+    createdDateTime: '2024-03-01T10:00:00Z',
+    body: { content, contentType: 'html' },
+    from: { user: { displayName: 'Ada', id: 'ada' } },
+    ...extra
+  }
+}
+
+function driveItem(id: string, extra: Partial<DriveItem> = {}): DriveItem {
+  return {
+    id,
+    name: `${id}.docx`,
+    webUrl: `https://drive.example/${id}`,
+    file: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    createdDateTime: '2024-03-01T10:00:00Z',
+    lastModifiedDateTime: '2024-03-02T10:00:00Z',
+    ...extra
+  }
+}
+
+function meetingArtifact(id: string, kind: MeetingArtifact['kind'], extra: Partial<MeetingArtifact> = {}): MeetingArtifact {
+  return { id, kind, meetingId: 'meeting-1', createdDateTime: '2024-03-01T11:00:00Z', ...extra }
+}
+
+// Transcription through the offline backend, which reads recordings as scripts
+function fakeTranscriptionService(): TranscriptionService {
+  const service = new TranscriptionService()
+  Object.assign(service, { backend: new FakeTranscriptionBackend(), defaultLocales: ['en-US'] })
+  return service
+}
+
+describe('SourceConnectorRegistry', () => {
+  it('registers a connector for every source type', () => {
+    const registry = getSourceConnectorRegistry()
+
+    expect(registry.getConnector('teams').provider).toBe('microsoft')
+    expect(registry.getConnector('teams_meetings').cursorNamespace).toBe('teamsMeetings')
+    expect(registry.getConnector('google_drive').provider).toBe('google')
+    expect(registry.getConnector('onedrive').displayName).toBe('OneDrive')
+    expect(registry.getConnector('sharepoint').cursorNamespace).toBe('oneDriveFolders')
+    expect(registry.hasConnector('dropbox')).toBe(false)
+  })
+
+  it('lists the source types of the connectors that match', () => {
+    const registry = getSourceConnectorRegistry()
+
+    expect(registry.getSourceTypes(connector => connector.provider === 'microsoft').sort())
+      .toEqual(['onedrive', 'sharepoint', 'teams', 'teams_meetings'])
+    expect(registry.getSourceTypes(connector => Boolean(connector.selectsDriveFolders)).sort())
+      .toEqual(['google_drive', 'onedrive', 'sharepoint'])
+  })
+
+  it('throws for unknown source types', () => {
+    expect(() => getSourceConnectorRegistry().getConnector('dropbox' as never)).toThrow('No connector registered')
+  })
+})
+
+describe('TeamsConnector', () => {
+  const selection = { teamId: 'team-1', channelId: 'channel-1', displayName: 'Engineering - General' }
+
+  it('maps a thread to one chunk per message, dropping system messages', async () => {
+    const connector = new TeamsConnector()
+    const chunks = await connector.toContentChunks(source, selection, {
+      root: message('m1', '<p>How do we deploy?</p>'),
+      replies: [
+        message('m2', '<p>Run the pipeline</p>', { replyToId: 'm1' }),
+        message('m3', '', { messageType: 'systemEventMessage' })
+      ]
+    })
+
+    expect(chunks.map(chunk => chunk.id)).toEqual(['teams_m1', 'teams_m2'])
+    expect(chunks[1]).toMatchObject({
+      content: 'Run the pipeline',
+      sourceType: 'teams',
+      sourceId: 'team-1/channel-1',
+      metadata: { threadId: 'm1', replyToId: 'm1', teamName: 'Engineering', author: 'Ada' }
+    })
+  })
+
+  it('fetches replies for every root message in the delta', async () => {
+    const connector = new TeamsConnector()
+    const graph = {
+      getChannelMessagesDelta: jest.fn<(...args: Array<string | undefined>) => Promise<TeamsMessageDelta>>(async () => ({ messages: [message('m1', 'Root')], deltaLink: 'delta-2' })),
+      getMessageReplies: jest.fn(async () => [message('m2', 'Reply', { replyToId: 'm1' })])
+    }
+    Object.assign(connector, { microsoftService: graph })
+
+    const result = await connector.fetchItems(source, selection, 'delta-1')
+
+    expect(graph.getChannelMessagesDelta).toHaveBeenCalledWith('user-1', 'team-1', 'channel-1', 'delta-1')
+    expect(result.cursor).toBe('delta-2')
+    expect(result.items[0].replies.map(reply => reply.id)).toEqual(['m2'])
+  })
+})
+
+describe('GoogleDriveConnector', () => {
+  it('keeps only changed files inside the selected folder on incremental syncs', async () => {
+    const connector = new GoogleDriveConnector()
+    Object.assign(connector, {
+      googleService: {
+        getChanges: jest.fn(async () => ({
+          items: [driveItem('a', { parents: ['folder-1'] }), driveItem('b', { parents: ['folder-2'] })],
+          newStartPageToken: 'token-2'
+        })),
+        getFolderStructure: jest.fn(async () => [])
+      }
+    })
+
+    const result = await connector.fetchItems({ ...source, type: 'google_drive' }, 'folder-1', 'token-1')
+
+    expect(result).toEqual({ items: [expect.objectContaining({ id: 'a' })], cursor: 'token-2' })
+  })
+
+  it('places changed files in subfolders by path and applies the source filters', async () => {
+    const connector = new GoogleDriveConnector()
+    const getFolderStructure = jest.fn<(...args: unknown[]) => Promise<DriveItem[]>>(async () => [
+      driveItem('policies', { name: 'Policies', file: undefined, folder: { childCount: 1 }, parents: ['folder-1'] }),
+      driveItem('archive', { name: 'Archive', file: undefined, folder: { childCount: 1 }, parents: ['policies'] })
+    ])
+    Object.assign(connector, {
+      googleService: {
+        getChanges: jest.fn(async () => ({
+          items: [
+            driveItem('leave', { name: 'leave.docx', parents: ['policies'] }),
+            driveItem('old', { name: 'old.docx', parents: ['archive'] }),
+            driveItem('elsewhere', { parents: ['folder-2'] })
+          ],
+          newStartPageToken: 'token-2'
+        })),
+        getFolderStructure
+      }
+    })
+
+    const result = await connector.fetchItems(
+      { ...source, type: 'google_drive', driveFilters: { maxDepth: 2, excludePatterns: ['**/Archive/**'] } },
+      'folder-1',
+      'token-1'
+    )
+
+    expect(result.items.map(item => item.id)).toEqual(['leave'])
+    expect(getFolderStructure).toHaveBeenCalledWith('user-1', 'folder-1', 2, { foldersOnly: true })
+  })
+
+  it('lists the folder tree one level below max depth on initial syncs', async () => {
+    const connector = new GoogleDriveConnector()
+    const getFolderStructure = jest.fn<(...args: unknown[]) => Promise<DriveItem[]>>(async () => [
+      driveItem('readme', { name: 'README.md', file: { mimeType: 'text/markdown' }, parents: ['folder-1'] }),
+      driveItem('guides', { name: 'Guides', file: undefined, folder: { childCount: 2 }, parents: ['folder-1'] }),
+      driveItem('setup', { name: 'setup.md', file: { mimeType: 'text/markdown' }, parents: ['guides'] }),
+      driveItem('video', { name: 'setup.mp4', file: { mimeType: 'video/mp4' }, parents: ['guides'] })
+    ])
+    Object.assign(connector, {
+      googleService: {
+        getChangesStartPageToken: jest.fn(async () => 'token-1'),
+        getFolderStructure
+      }
+    })
+
+    const result = await connector.fetchItems(
+      { ...source, type: 'google_drive', driveFilters: { maxDepth: 1, includePatterns: ['Guides/*'], mimeTypes: ['text/*'] } },
+      'folder-1'
+    )
+
+    expect(result).toEqual({ items: [expect.objectContaining({ id: 'setup' })], cursor: 'token-1' })
+    expect(getFolderStructure).toHaveBeenCalledWith('user-1', 'folder-1', 2)
+  })
+
+  it('skips folders when mapping items to chunks', async () => {
+    const connector = new GoogleDriveConnector()
+    const folder = driveItem('f', { file: undefined, folder: { childCount: 2 } })
+
+    await expect(connector.toContentChunks({ ...source, type: 'google_drive' }, 'folder-1', folder)).resolves.toEqual([])
+  })
+
+  it('transcribes audio files into one chunk per speaker turn', async () => {
+    const connector = new GoogleDriveConnector()
+    const script = '[00:00:00] Ada: Welcome to the retro.\n[00:00:04] Ada: First topic is the release.\n[00:01:10] Charles: It slipped a week.'
+    Object.assign(connector, {
+      googleService: { getFileMedia: jest.fn(async () => Buffer.from(script)) },
+      transcriptionService: fakeTranscriptionService()
+    })
+    const recording = driveItem('rec', { name: 'retro.m4a', file: { mimeType: 'audio/mp4' } })
+
+    const chunks = await connector.toContentChunks({ ...source, type: 'google_drive' }, 'folder-1', recording)
+
+    expect(chunks.map(chunk => chunk.id)).toEqual(['drive_rec_0', 'drive_rec_1'])
+    expect(chunks[0]).toMatchObject({
+      content: 'Welcome to the retro. First topic is the release.',
+      metadata: { author: 'Ada', fileName: 'retro.m4a', mediaOffsetMs: 0 }
+    })
+    expect(chunks[1].metadata).toMatchObject({ author: 'Charles', mediaOffsetMs: 70_000 })
+    expect(chunks[1].metadata.timestamp).toEqual(new Date('2024-03-01T10:01:10Z'))
+  })
+
+  it('describes video files as media to transcribe and documents as text', () => {
+    const connector = new GoogleDriveConnector()
+    const recording = driveItem('rec', { name: 'demo.mp4', file: { mimeType: 'video/mp4' }, video: { duration: 125_000 } })
+
+    expect(connector.describeMedia(recording)).toEqual({ name: 'demo.mp4', durationMs: 125_000 })
+    expect(connector.describeMedia(driveItem('doc'))).toBeNull()
+  })
+})
+
+describe('TeamsMeetingsConnector', () => {
+  it('prefers Teams transcripts over recordings of the same call and advances the cursor', async () => {
+    const connector = new TeamsMeetingsConnector()
+    Object.assign(connector, {
+      microsoftService: {
+        getMeetingTranscripts: jest.fn(async () => [
+          meetingArtifact('t1', 'transcript', { contentCorrelationId: 'call-1', createdDateTime: '2024-03-01T11:00:00Z' })
+        ]),
+        getMeetingRecordings: jest.fn(async () => [
+          meetingArtifact('r1', 'recording', { contentCorrelationId: 'call-1', createdDateTime: '2024-03-01T11:05:00Z' }),
+          meetingArtifact('r2', 'recording', { contentCorrelationId: 'call-2', createdDateTime: '2024-03-02T09:00:00Z' }),
+          meetingArtifact('r0', 'recording', { contentCorrelationId: 'call-0', createdDateTime: '2024-02-28T09:00:00Z' })
+        ])
+      }
+    })
+
+    const result = await connector.fetchItems({ ...source, type: 'teams_meetings' }, 'organized', '2024-02-28T09:00:00Z')
+
+    expect(result.items.map(item => item.id)).toEqual(['t1', 'r2'])
+    expect(result.cursor).toBe('2024-03-02T09:00:00Z')
+  })
+
+  it('describes recordings as media lasting until the recording ended', () => {
+    const connector = new TeamsMeetingsConnector()
+    const recording = meetingArtifact('r1', 'recording', { endDateTime: '2024-03-01T11:30:00Z' })
+
+    expect(connector.describeMedia(recording)).toEqual({ name: 'Recording of meeting meeting-1', durationMs: 30 * 60 * 1000 })
+    expect(connector.describeMedia(meetingArtifact('t1', 'transcript'))).toBeNull()
+  })
+
+  it('maps a Teams transcript to speaker turns of the meeting', async () => {
+    const connector = new TeamsMeetingsConnector()
+    Object.assign(connector, {
+      microsoftService: {
+        getOnlineMeeting: jest.fn(async () => ({
+          id: 'meeting-1',
+          subject: 'Release planning',
+          startDateTime: '2024-03-01T10:00:00Z',
+          joinWebUrl: 'https://teams.example/meet/1'
+        })),
+        getMeetingTranscriptContent: jest.fn(async () => [
+          'WEBVTT',
+          '',
+          '00:00:01.000 --> 00:00:03.500',
+          '<v Ada Lovelace>We ship on Friday.</v>',
+          '',
+          '00:00:04.000 --> 00:00:06.000',
+          '<v Charles Babbage>Only if QA signs off.</v>'
+        ].join('\n'))
+      }
+    })
+
+    const chunks = await connector.toContentChunks({ ...source, type: 'teams_meetings' }, 'organized', meetingArtifact('t1', 'transcript'))
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks[1]).toMatchObject({
+      id: 'teams_meeting_transcript_t1_1',
+      content: 'Only if QA signs off.',
+      sourceType: 'teams_meetings',
+      sourceId: 'meeting-1',
+      metadata: { author: 'Charles Babbage', meetingTitle: 'Release planning', mediaOffsetMs: 4000, url: 'https://teams.example/meet/1' }
+    })
+    expect(chunks[1].metadata.timestamp).toEqual(new Date('2024-03-01T10:00:04Z'))
+  })
+})
+
+describe('MicrosoftDriveConnector', () => {
+  it('lists SharePoint sites first, then libraries of a site as selectable roots', async () => {
+    const connector = new MicrosoftDriveConnector('sharepoint')
+    Object.assign(connector, {
+      microsoftService: {
+        getSharePointSites: jest.fn(async () => [{ id: 'site-1', displayName: 'HR', webUrl: 'https://sp/hr' }]),
+        getDocumentLibraries: jest.fn(async () => [
+          { id: 'drive-1', name: 'Policies', webUrl: 'https://sp/hr/policies', driveType: 'documentLibrary', siteId: 'site-1' }
+        ])
+      }
+    })
+
+    const [site] = await connector.listContainers('user-1')
+    expect(site).toMatchObject({ id: 'site:site-1', kind: 'site', hasChildren: true })
+    expect(site.selection).toBeUndefined()
+
+    const [library] = await connector.listContainers('user-1', { parentId: site.id })
+    expect(library).toMatchObject({
+      id: 'drive-1/root',
+      kind: 'library',
+      selection: { driveId: 'drive-1', itemId: 'root', siteId: 'site-1', displayName: 'Policies' }
+    })
+  })
+
+  it('resolves the root alias when filtering a drive delta to the selected library', async () => {
+    const connector = new MicrosoftDriveConnector('onedrive')
+    Object.assign(connector, {
+      microsoftService: {
+        getDriveItem: jest.fn(async () => driveItem('root-id')),
+        getDriveDelta: jest.fn(async () => ({
+          items: [
+            driveItem('a', { parentReference: { id: 'root-id' } }),
+            driveItem('b', { parentReference: { id: 'nested-folder' } })
+          ],
+          deltaLink: 'delta-2'
+        }))
+      }
+    })
+
+    const result = await connector.fetchItems(
+      { ...source, type: 'onedrive' },
+      { driveId: 'drive-1', itemId: 'root', displayName: 'OneDrive' },
+      'delta-1'
+    )
+
+    expect(result.items.map(item => item.id)).toEqual(['a'])
+    expect(result.cursor).toBe('delta-2')
+  })
+})
@@ -0,0 +1,89 @@
+import { testSupabase, cleanupTestData, ensureTestUser, testData } from '../setup'
+
+type TestContext = Awaited<ReturnType<typeof ensureTestUser>>
+
+describe('Approved Documents Triggers', () => {
+  let org: TestContext['org'], manager: TestContext['user']
+
+  beforeAll(async () => {
+    await cleanupTestData()
+    const { org: testOrg, user: testUser } = await ensureTestUser()
+    org = testOrg
+    manager = testUser
+  })
+
+  afterAll(async () => {
+    await cleanupTestData()
+  })
+
+  async function createDraft(language: string | null) {
+    const { data } = await testSupabase
+      .from('draft_documents')
+      .insert({ ...testData.draftDocument, language, organization_id: org.id })
+      .select()
+      .single()
+    return data!
+  }
+
+  async function approve(draftId: string, overrides: { language?: string } = {}) {
+    const { data, error } = await testSupabase
+      .from('approved_documents')
+      .insert({
+        ...testData.approvedDocument,
+        ...overrides,
+        draft_document_id: draftId,
+        organization_id: org.id,
+        approved_by: manager.id
+      })
+      .select()
+      .single()
+    expect(error).toBeNull()
+    return data!
+  }
+
+  describe('language', () => {
+    test('is copied from the approved draft', async () => {
+      const draft = await createDraft('de')
+
+      const document = await approve(draft.id)
+
+      expect(document.language).toBe('de')
+    })
+
+    test('set by the approval is kept', async () => {
+      const draft = await createDraft('de')
+
+      const document = await approve(draft.id, { language: 'en' })
+
+      expect(document.language).toBe('en')
+    })
+  })
+
+  describe('content fingerprints', () => {
+    test('of the approved draft are linked to the new document', async () => {
+      const { data: source } = await testSupabase
+        .from('connected_sources')
+        .insert({ user_id: manager.id, type: 'teams', name: 'Fingerprinted Teams' })
+        .select()
+        .single()
+      const draft = await createDraft(null)
+      const otherDraft = await createDraft(null)
+      await testSupabase.from('content_fingerprints').insert([
+        { source_id: source!.id, organization_id: org.id, item_key: 'teams_1', content_hash: 'hash-1', draft_document_id: draft.id },
+        { source_id: source!.id, organization_id: org.id, item_key: 'teams_2', content_hash: 'hash-2', draft_document_id: otherDraft.id }
+      ])
+
+      const document = await approve(draft.id)
+
+      const { data: fingerprints } = await testSupabase
+        .from('content_fingerprints')
+        .select('item_key, approved_document_id')
+        .eq('source_id', source!.id)
+        .order('item_key')
+      expect(fingerprints).toEqual([
+        { item_key: 'teams_1', approved_document_id: document.id },
+        { item_key: 'teams_2', approved_document_id: null }
+      ])
+    })
+  })
+})
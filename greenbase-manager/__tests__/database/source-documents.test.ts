@@ -0,0 +1,78 @@
+import { testSupabase, cleanupTestData, ensureTestUser, testData } from '../setup'
+
+type TestContext = Awaited<ReturnType<typeof ensureTestUser>>
+
+describe('Source Documents Functions', () => {
+  let org: TestContext['org']
+
+  beforeAll(async () => {
+    await cleanupTestData()
+    const { org: testOrg } = await ensureTestUser()
+    org = testOrg
+  })
+
+  afterAll(async () => {
+    await cleanupTestData()
+  })
+
+  async function createDraft() {
+    const { data } = await testSupabase
+      .from('draft_documents')
+      .insert({ ...testData.draftDocument, organization_id: org.id })
+      .select()
+      .single()
+    return data!
+  }
+
+  function sourceDocument(sourceId: string, sourceType = 'teams') {
+    return { source_type: sourceType, source_id: sourceId, redacted_content: `Message ${sourceId}`, metadata: {} }
+  }
+
+  async function listSources(draftId: string) {
+    const { data } = await testSupabase
+      .from('source_documents')
+      .select('source_id, redacted_content, original_content')
+      .eq('draft_document_id', draftId)
+      .order('source_id')
+    return data
+  }
+
+  describe('replace_source_documents function', () => {
+    test('should replace the sources of a draft', async () => {
+      const draft = await createDraft()
+      await testSupabase.rpc('replace_source_documents', {
+        draft_id: draft.id,
+        documents: [sourceDocument('teams_1'), sourceDocument('teams_2')]
+      })
+
+      const { error } = await testSupabase.rpc('replace_source_documents', {
+        draft_id: draft.id,
+        documents: [sourceDocument('teams_2'), sourceDocument('teams_3')]
+      })
+
+      expect(error).toBeNull()
+      expect(await listSources(draft.id)).toEqual([
+        { source_id: 'teams_2', redacted_content: 'Message teams_2', original_content: null },
+        { source_id: 'teams_3', redacted_content: 'Message teams_3', original_content: null }
+      ])
+    })
+
+    test('should keep the previous sources when a row is rejected', async () => {
+      const draft = await createDraft()
+      await testSupabase.rpc('replace_source_documents', {
+        draft_id: draft.id,
+        documents: [sourceDocument('teams_1')]
+      })
+
+      const { error } = await testSupabase.rpc('replace_source_documents', {
+        draft_id: draft.id,
+        documents: [sourceDocument('teams_2'), sourceDocument('teams_3', 'not_a_source')]
+      })
+
+      expect(error).not.toBeNull()
+      expect(await listSources(draft.id)).toEqual([
+        { source_id: 'teams_1', redacted_content: 'Message teams_1', original_content: null }
+      ])
+    })
+  })
+})
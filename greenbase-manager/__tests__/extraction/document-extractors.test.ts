@@ -0,0 +1,201 @@
+import JSZip from 'jszip'
+import { getDocumentExtractorRegistry, ExtractionError, parseCsv } from '@/lib/extraction'
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+const R = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+
+async function buildPackage(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip()
+  for (const [path, content] of Object.entries(parts)) {
+    zip.file(path, content)
+  }
+  return await zip.generateAsync({ type: 'nodebuffer' })
+}
+
+function relationships(targets: Record<string, string>): string {
+  const entries = Object.entries(targets)
+    .map(([id, target]) => `<Relationship Id="${id}" Type="x" Target="${target}"/>`)
+    .join('')
+  return `<?xml version="1.0"?><Relationships>${entries}</Relationships>`
+}
+
+function paragraph(text: string, properties = ''): string {
+  return `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`
+}
+
+function minimalPdf(text: string): Buffer {
+  const stream = `BT /F1 12 Tf 72 712 Td (${text}) Tj ET`
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`
+  return Buffer.from(pdf, 'latin1')
+}
+
+describe('Document extractors', () => {
+  const registry = getDocumentExtractorRegistry()
+
+  describe('registry', () => {
+    it('should resolve extractors by MIME type, ignoring parameters and case', () => {
+      expect(registry.canExtract(DOCX)).toBe(true)
+      expect(registry.canExtract('Text/Plain; charset=utf-8')).toBe(true)
+      expect(registry.canExtract('application/msword')).toBe(false)
+    })
+
+    it('should reject unsupported types with an ExtractionError', async () => {
+      await expect(registry.extract(Buffer.from(''), 'image/png')).rejects.toBeInstanceOf(ExtractionError)
+    })
+
+    it('should reject corrupt Office files', async () => {
+      await expect(registry.extract(Buffer.from('not a zip'), DOCX)).rejects.toMatchObject({ code: 'INVALID_PACKAGE' })
+    })
+  })
+
+  describe('DOCX', () => {
+    it('should preserve headings, lists and tables', async () => {
+      const content = await buildPackage({
+        'word/document.xml': `<?xml version="1.0"?><w:document ${W}><w:body>
+          ${paragraph('Deployment Guide', '<w:pStyle w:val="Heading1"/>')}
+          ${paragraph('Intro &amp; scope')}
+          ${paragraph('Prerequisites', '<w:pStyle w:val="CustomHeading"/>')}
+          ${paragraph('Install Node', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>')}
+          ${paragraph('Use version 20', '<w:numPr><w:ilvl w:val="1"/><w:numId w:val="2"/></w:numPr>')}
+          ${paragraph('Install pnpm', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>')}
+          <w:tbl>
+            <w:tr><w:tc>${paragraph('Env')}</w:tc><w:tc>${paragraph('URL')}</w:tc></w:tr>
+            <w:tr><w:tc>${paragraph('prod')}</w:tc><w:tc>${paragraph('a|b')}</w:tc></w:tr>
+          </w:tbl>
+          <w:p><w:r><w:t>Deleted</w:t></w:r><w:del><w:r><w:delText>gone</w:delText></w:r></w:del></w:p>
+        </w:body></w:document>`,
+        'word/styles.xml': `<?xml version="1.0"?><w:styles ${W}>
+          <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+          <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>
+          <w:style w:type="paragraph" w:styleId="CustomHeading"><w:name w:val="My heading"/><w:basedOn w:val="Heading2"/></w:style>
+        </w:styles>`,
+        'word/numbering.xml': `<?xml version="1.0"?><w:numbering ${W}>
+          <w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>
+          <w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum>
+          <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+          <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+        </w:numbering>`
+      })
+
+      const result = await registry.extract(content, DOCX)
+
+      expect(result.text).toBe([
+        '# Deployment Guide',
+        'Intro & scope',
+        '## Prerequisites',
+        '1. Install Node\n  - Use version 20\n2. Install pnpm',
+        '| Env | URL |\n| --- | --- |\n| prod | a\\|b |',
+        'Deleted'
+      ].join('\n\n'))
+    })
+  })
+
+  describe('XLSX', () => {
+    it('should render each sheet as a table with shared and inline strings', async () => {
+      const content = await buildPackage({
+        'xl/workbook.xml': `<?xml version="1.0"?><workbook ${R}><sheets>
+          <sheet name="Owners" sheetId="1" r:id="rId1"/>
+          <sheet name="Empty" sheetId="2" r:id="rId2"/>
+        </sheets></workbook>`,
+        'xl/_rels/workbook.xml.rels': relationships({ rId1: 'worksheets/sheet1.xml', rId2: 'worksheets/sheet2.xml' }),
+        'xl/sharedStrings.xml': '<?xml version="1.0"?><sst><si><t>Service</t></si><si><r><t>Own</t></r><r><t>er</t></r></si><si><t>billing</t></si></sst>',
+        'xl/worksheets/sheet1.xml': `<?xml version="1.0"?><worksheet><sheetData>
+          <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>On call</t></is></c></row>
+          <row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2" t="b"><v>1</v></c></row>
+        </sheetData></worksheet>`,
+        'xl/worksheets/sheet2.xml': '<?xml version="1.0"?><worksheet><sheetData/></worksheet>'
+      })
+
+      const result = await registry.extract(content, XLSX)
+
+      expect(result.metadata.sheetNames).toEqual(['Owners', 'Empty'])
+      expect(result.text).toBe('## Owners\n\n| Service | Owner | On call |\n| --- | --- | --- |\n| billing |  | TRUE |')
+    })
+  })
+
+  describe('PPTX', () => {
+    it('should render slides in presentation order with titles, bullets, tables and notes', async () => {
+      const slide = (title: string, body: string) => `<?xml version="1.0"?><p:sld ${P}><p:cSld><p:spTree>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+        ${body}
+      </p:spTree></p:cSld></p:sld>`
+
+      const content = await buildPackage({
+        'ppt/presentation.xml': `<?xml version="1.0"?><p:presentation ${P} ${R}><p:sldIdLst>
+          <p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/>
+        </p:sldIdLst></p:presentation>`,
+        'ppt/_rels/presentation.xml.rels': relationships({ rId1: 'slides/slide2.xml', rId2: 'slides/slide1.xml' }),
+        'ppt/slides/slide1.xml': slide('Roadmap', `
+          <p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody>
+            <a:p><a:r><a:t>Q1 launch</a:t></a:r></a:p>
+            <a:p><a:pPr lvl="1"/><a:r><a:t>Beta customers</a:t></a:r></a:p>
+          </p:txBody></p:sp>
+          <p:sp><p:nvSpPr><p:nvPr/></p:nvSpPr><p:txBody><a:p><a:r><a:t>Confidential</a:t></a:r></a:p></p:txBody></p:sp>`),
+        'ppt/slides/_rels/slide1.xml.rels': relationships({ rId9: '../notesSlides/notesSlide1.xml' }),
+        'ppt/notesSlides/notesSlide1.xml': `<?xml version="1.0"?><p:notes ${P}><p:cSld><p:spTree>
+          <p:sp><p:nvSpPr><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Mention the pilot</a:t></a:r></a:p></p:txBody></p:sp>
+        </p:spTree></p:cSld></p:notes>`,
+        'ppt/slides/slide2.xml': slide('Owners', `
+          <p:graphicFrame><a:graphic><a:graphicData><a:tbl>
+            <a:tr><a:tc><a:txBody><a:p><a:r><a:t>Team</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+            <a:tr><a:tc><a:txBody><a:p><a:r><a:t>Platform</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+          </a:tbl></a:graphicData></a:graphic></p:graphicFrame>`)
+      })
+
+      const result = await registry.extract(content, PPTX)
+
+      expect(result.metadata.slideCount).toBe(2)
+      expect(result.text).toBe([
+        '## Slide 1: Roadmap',
+        '- Q1 launch\n  - Beta customers',
+        'Confidential',
+        '**Notes:** Mention the pilot',
+        '## Slide 2: Owners',
+        '| Team |\n| --- |\n| Platform |'
+      ].join('\n\n'))
+    })
+  })
+
+  describe('PDF', () => {
+    it('should extract the text layer and page count', async () => {
+      const result = await registry.extract(minimalPdf('Quarterly incident review'), 'application/pdf')
+
+      expect(result.metadata.pageCount).toBe(1)
+      expect(result.text).toContain('Quarterly incident review')
+    })
+  })
+
+  describe('text', () => {
+    it('should convert CSV to a table', async () => {
+      const result = await registry.extract(Buffer.from('\uFEFFname,notes\r\nalpha,"has, comma"\n'), 'text/csv')
+
+      expect(result.text).toBe('| name | notes |\n| --- | --- |\n| alpha | has, comma |')
+    })
+
+    it('should parse quoted fields with newlines and escaped quotes', () => {
+      expect(parseCsv('a,"line1\nline2","say ""hi"""')).toEqual([['a', 'line1\nline2', 'say "hi"']])
+    })
+  })
+})
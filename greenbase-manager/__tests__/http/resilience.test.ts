@@ -0,0 +1,78 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { getRetryAfterMs, isRetryableError, parseRetryAfterMs, withRetry } from '@/lib/http'
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) })
+}
+
+describe('HTTP resilience', () => {
+  describe('withRetry', () => {
+    it('should wait for the Retry-After the server asks for', async () => {
+      const sleeps: number[] = []
+      const request = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(httpError(429, { 'Retry-After': '7' }))
+        .mockResolvedValueOnce('ok')
+
+      const result = await withRetry(request, { sleep: async ms => { sleeps.push(ms) } })
+
+      expect(result).toBe('ok')
+      expect(sleeps).toEqual([7000])
+    })
+
+    it('should back off exponentially without Retry-After and give up after the last attempt', async () => {
+      const sleeps: number[] = []
+      const request = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503))
+
+      await expect(withRetry(request, {
+        maxAttempts: 3,
+        baseDelayMs: 1000,
+        sleep: async ms => { sleeps.push(ms) }
+      })).rejects.toThrow('HTTP 503')
+
+      expect(request).toHaveBeenCalledTimes(3)
+      // Jittered between half and all of 1s, then 2s
+      expect(sleeps[0]).toBeGreaterThanOrEqual(500)
+      expect(sleeps[0]).toBeLessThanOrEqual(1000)
+      expect(sleeps[1]).toBeGreaterThanOrEqual(1000)
+      expect(sleeps[1]).toBeLessThanOrEqual(2000)
+    })
+
+    it('should not retry client errors', async () => {
+      const request = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(404))
+
+      await expect(withRetry(request, { sleep: async () => {} })).rejects.toThrow('HTTP 404')
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('should read status and headers from Graph, gaxios and network errors', () => {
+    const graphError = Object.assign(new Error('Throttled'), { statusCode: 429, headers: new Headers({ 'Retry-After': '2' }) })
+    const gaxiosError = Object.assign(new Error('Rate limit'), { response: { status: 429, headers: { 'retry-after': '3' } } })
+    const azureError = httpError(429, { 'retry-after-ms': '250', 'retry-after': '1' })
+
+    expect(getRetryAfterMs(graphError)).toBe(2000)
+    expect(getRetryAfterMs(gaxiosError)).toBe(3000)
+    expect(getRetryAfterMs(azureError)).toBe(250)
+    expect(isRetryableError(gaxiosError)).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true)
+    expect(isRetryableError(new Error('Invalid JSON'))).toBe(false)
+  })
+
+  it('should retry Drive 403s only when they report a rate limit', () => {
+    const forbidden = (reason: string) => Object.assign(new Error(reason), {
+      response: { status: 403, data: { error: { code: 403, errors: [{ domain: 'usageLimits', reason }] } } }
+    })
+
+    expect(isRetryableError(forbidden('userRateLimitExceeded'))).toBe(true)
+    expect(isRetryableError(Object.assign(forbidden('rateLimitExceeded'), { response: { status: 403 }, errors: [{ reason: 'rateLimitExceeded' }] }))).toBe(true)
+    expect(isRetryableError(forbidden('insufficientFilePermissions'))).toBe(false)
+    expect(isRetryableError(httpError(403))).toBe(false)
+  })
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfterMs('3')).toBe(3000)
+    expect(parseRetryAfterMs('Wed, 21 Oct 2015 07:28:05 GMT', Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'))).toBe(5000)
+    expect(parseRetryAfterMs('soon')).toBeUndefined()
+    expect(parseRetryAfterMs(null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { compareChunkingStrategies, type EvaluationDocument, type EvaluationQuestion } from '@/lib/ingestion/chunking-evaluation'
+
+// One dimension per topic, so texts on the same topic point the same way
+const TOPICS = [/laptop|vpn/gi, /expense|receipt/gi, /parking|badge/gi]
+const embedTexts = async (texts: string[]) =>
+  texts.map(text => [...TOPICS.map(topic => (text.match(topic) || []).length), 0.1])
+
+const documents: EvaluationDocument[] = [
+  {
+    id: 'it-handbook',
+    content: '# IT\n\n## Laptops\n\nEvery laptop ships with the VPN client.\n\n## Office\n\nParking permits come with your badge.'
+  },
+  {
+    id: 'finance-handbook',
+    content: '# Finance\n\nSubmit each expense with its receipt within thirty days.'
+  }
+]
+
+const questions: EvaluationQuestion[] = [
+  { question: 'Is the VPN on my laptop?', documentId: 'it-handbook', answer: 'Every laptop ships with the VPN client.' },
+  { question: 'When is an expense receipt due?', documentId: 'finance-handbook', answer: 'within thirty days' },
+  { question: 'How do I get parking?', documentId: 'it-handbook', answer: 'Parking permits come with your badge.' }
+]
+
+describe('compareChunkingStrategies', () => {
+  it('should report the retrieval hit rate of each strategy', async () => {
+    const reports = await compareChunkingStrategies(documents, questions, embedTexts, {
+      strategies: ['markdown', 'semantic'],
+      topK: 1,
+      minTokens: 1
+    })
+
+    expect(reports.map(report => report.strategy)).toEqual(['markdown', 'semantic'])
+    const markdown = reports[0]
+    expect(markdown.chunkCount).toBe(3)
+    expect(markdown.questions).toBe(3)
+    expect(markdown.hits).toBe(3)
+    expect(markdown.hitRate).toBe(1)
+    expect(reports[1].hitRate).toBeGreaterThan(0)
+  })
+
+  it('should embed each distinct text once across strategies', async () => {
+    const embed = jest.fn(embedTexts)
+
+    await compareChunkingStrategies(documents, questions, embed, { strategies: ['markdown', 'fixed', 'paragraph'] })
+
+    const embedded = embed.mock.calls.flatMap(([texts]) => texts)
+    expect(new Set(embedded).size).toBe(embedded.length)
+  })
+
+  it('should reject answers that are not quoted from their document', async () => {
+    await expect(compareChunkingStrategies(documents, [
+      { question: 'Who approves leave?', documentId: 'finance-handbook', answer: 'Your manager approves leave.' }
+    ], embedTexts)).rejects.toThrow('not found in document finance-handbook')
+  })
+})
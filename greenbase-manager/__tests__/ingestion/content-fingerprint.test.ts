@@ -0,0 +1,71 @@
+import {
+  computeContentHash,
+  diffFingerprints,
+  normalizeForFingerprint,
+  ContentFingerprint
+} from '@/lib/ingestion/content-fingerprint-store'
+
+jest.mock('@/lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn()
+}))
+
+describe('Content fingerprints', () => {
+  describe('normalizeForFingerprint', () => {
+    it('should ignore markup and whitespace differences', () => {
+      expect(normalizeForFingerprint('<p>Deploy  the\n\napp</p>&nbsp;')).toBe('Deploy the app')
+    })
+
+    it('should normalize Unicode compatibility forms', () => {
+      expect(normalizeForFingerprint('ﬁle')).toBe('file')
+    })
+  })
+
+  describe('computeContentHash', () => {
+    it('should produce the same hash for formatting-only changes', () => {
+      expect(computeContentHash('<div>Release notes</div>')).toBe(computeContentHash('Release   notes\n'))
+    })
+
+    it('should produce a different hash when the text changes', () => {
+      expect(computeContentHash('Release notes v1')).not.toBe(computeContentHash('Release notes v2'))
+    })
+
+    it('should return a hex encoded SHA-256 digest', () => {
+      expect(computeContentHash('anything')).toMatch(/^[0-9a-f]{64}$/)
+    })
+  })
+
+  describe('diffFingerprints', () => {
+    const items = [
+      { id: 'teams_1', content: 'Unchanged message' },
+      { id: 'teams_2', content: 'Edited message' },
+      { id: 'teams_3', content: 'Brand new message' }
+    ]
+
+    const existing = new Map<string, ContentFingerprint>([
+      ['teams_1', { itemKey: 'teams_1', contentHash: computeContentHash('Unchanged message'), draftDocumentId: 'draft-1' }],
+      ['teams_2', { itemKey: 'teams_2', contentHash: computeContentHash('Original message'), approvedDocumentId: 'doc-2' }]
+    ])
+
+    it('should skip items whose content hash is unchanged', () => {
+      const diff = diffFingerprints(items, existing)
+
+      expect(diff.unchanged.map(entry => entry.item.id)).toEqual(['teams_1'])
+    })
+
+    it('should keep the previous fingerprint for changed items so they can be linked', () => {
+      const diff = diffFingerprints(items, existing)
+
+      expect(diff.changed.map(entry => entry.item.id)).toEqual(['teams_2', 'teams_3'])
+      expect(diff.changed[0].previous?.approvedDocumentId).toBe('doc-2')
+      expect(diff.changed[0].contentHash).toBe(computeContentHash('Edited message'))
+      expect(diff.changed[1].previous).toBeUndefined()
+    })
+
+    it('should treat every item as changed when nothing has been recorded', () => {
+      const diff = diffFingerprints(items, new Map())
+
+      expect(diff.changed).toHaveLength(3)
+      expect(diff.unchanged).toHaveLength(0)
+    })
+  })
+})
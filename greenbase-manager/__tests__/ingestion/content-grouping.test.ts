@@ -0,0 +1,197 @@
+import { groupContentChunks, groupContentChunksSemantically, groupByTimeWindow } from '@/lib/ingestion/content-grouping'
+import type { ContentChunk } from '@/lib/ingestion/content-ingestion-service'
+
+const HOUR = 60 * 60 * 1000
+const base = new Date('2024-03-10T09:00:00Z').getTime()
+
+function teamsChunk(id: string, minutes: number, threadId?: string, replyToId?: string): ContentChunk {
+  return {
+    id: `teams_${id}`,
+    content: `Message ${id}`,
+    sourceType: 'teams',
+    sourceId: 'team-1/channel-1',
+    metadata: {
+      timestamp: new Date(base + minutes * 60 * 1000),
+      threadId,
+      replyToId
+    }
+  }
+}
+
+function driveChunk(id: string, offsetMs: number): ContentChunk {
+  return {
+    id: `drive_${id}`,
+    content: `File ${id}`,
+    sourceType: 'google_drive',
+    sourceId: id,
+    metadata: { timestamp: new Date(base + offsetMs) }
+  }
+}
+
+function textChunk(id: string, sourceId: string, content: string, minutes: number, threadId?: string, replyToId?: string): ContentChunk {
+  return {
+    id,
+    content,
+    sourceType: 'slack',
+    sourceId,
+    metadata: {
+      timestamp: new Date(base + minutes * 60 * 1000),
+      threadId,
+      replyToId
+    }
+  }
+}
+
+// Deterministic stand-in for the embedding model: one axis per topic keyword
+const TOPICS = ['vpn', 'expense', 'laptop']
+async function embedByTopic(texts: string[]): Promise<number[][]> {
+  return texts.map(text => TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0)))
+}
+
+describe('Content grouping', () => {
+  describe('groupContentChunks', () => {
+    it('should group a thread together regardless of how long it ran', () => {
+      const chunks = [
+        teamsChunk('root', 0, 'root'),
+        teamsChunk('reply-1', 30, 'root', 'root'),
+        teamsChunk('reply-2', 60 * 24, 'root', 'root') // a day later
+      ]
+
+      const groups = groupContentChunks(chunks)
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0].map(chunk => chunk.id)).toEqual(['teams_root', 'teams_reply-1', 'teams_reply-2'])
+    })
+
+    it('should keep separate threads in separate groups even when interleaved in time', () => {
+      const chunks = [
+        teamsChunk('a', 0, 'a'),
+        teamsChunk('b', 1, 'b'),
+        teamsChunk('a-reply', 2, 'a', 'a'),
+        teamsChunk('b-reply', 3, 'b', 'b')
+      ]
+
+      const groups = groupContentChunks(chunks)
+
+      expect(groups.map(group => group.map(chunk => chunk.id))).toEqual([
+        ['teams_a', 'teams_a-reply'],
+        ['teams_b', 'teams_b-reply']
+      ])
+    })
+
+    it('should put the root message first even if a reply has an earlier timestamp', () => {
+      const chunks = [
+        teamsChunk('reply', 0, 'root', 'root'),
+        teamsChunk('root', 5, 'root')
+      ]
+
+      const [group] = groupContentChunks(chunks)
+
+      expect(group[0].id).toBe('teams_root')
+    })
+
+    it('should fall back to time-window grouping for unthreaded content', () => {
+      const chunks = [
+        driveChunk('file-1', 0),
+        teamsChunk('root', 10, 'root')
+      ]
+
+      const groups = groupContentChunks(chunks)
+
+      expect(groups).toHaveLength(2)
+      expect(groups[0][0].id).toBe('drive_file-1')
+    })
+  })
+
+  describe('groupByTimeWindow', () => {
+    it('should split groups when the source changes or the gap exceeds an hour', () => {
+      const chunks = [
+        driveChunk('a', 0),
+        driveChunk('a', 10 * 60 * 1000),
+        driveChunk('b', 20 * 60 * 1000),
+        driveChunk('b', 20 * 60 * 1000 + 2 * HOUR)
+      ]
+
+      const groups = groupByTimeWindow(chunks)
+
+      expect(groups.map(group => group.length)).toEqual([2, 1, 1])
+    })
+
+    it('should cap groups at ten chunks', () => {
+      const chunks = Array.from({ length: 12 }, (_, i) => driveChunk('same', i * 1000))
+
+      const groups = groupByTimeWindow(chunks)
+
+      expect(groups.map(group => group.length)).toEqual([10, 2])
+    })
+  })
+
+  describe('groupContentChunksSemantically', () => {
+    it('should group chunks on the same topic across channels and days', async () => {
+      const chunks = [
+        textChunk('vpn-1', 'T1/C-it', 'How do I set up the VPN?', 0),
+        textChunk('expense-1', 'T1/C-finance', 'Where do I submit an expense report?', 30),
+        textChunk('vpn-2', 'T1/C-general', 'VPN keeps disconnecting after the update', 60 * 24 * 7)
+      ]
+
+      const groups = await groupContentChunksSemantically(chunks, embedByTopic)
+
+      expect(groups.map(group => group.map(chunk => chunk.id))).toEqual([
+        ['vpn-1', 'vpn-2'],
+        ['expense-1']
+      ])
+    })
+
+    it('should embed each thread once and keep it whole', async () => {
+      const embed = jest.fn(embedByTopic)
+      const chunks = [
+        textChunk('root', 'T1/C-it', 'New laptop request process?', 0, 'root'),
+        textChunk('reply', 'T1/C-it', 'Use the portal form', 5, 'root', 'root'),
+        textChunk('single', 'T1/C-it', 'Laptop stickers are in the office', 10)
+      ]
+
+      const groups = await groupContentChunksSemantically(chunks, embed)
+
+      expect(embed).toHaveBeenCalledTimes(1)
+      expect(embed.mock.calls[0][0]).toHaveLength(2)
+      expect(groups.map(group => group.map(chunk => chunk.id))).toEqual([['root', 'reply', 'single']])
+    })
+
+    it('should not merge clusters beyond the maximum group size', async () => {
+      const chunks = Array.from({ length: 5 }, (_, i) => textChunk(`vpn-${i}`, 'T1/C-it', `VPN question ${i}`, i))
+
+      const groups = await groupContentChunksSemantically(chunks, embedByTopic, { maxGroupSize: 2 })
+
+      expect(groups.map(group => group.length)).toEqual([2, 2, 1])
+    })
+
+    it('should only cluster units within a batch of the ones that started closest together', async () => {
+      const chunks = [
+        textChunk('vpn-1', 'T1/C-it', 'VPN setup', 0),
+        textChunk('expense-1', 'T1/C-finance', 'Expense deadline', 1),
+        textChunk('vpn-2', 'T1/C-it', 'VPN drops', 2),
+        textChunk('expense-2', 'T1/C-finance', 'Expense receipts', 3)
+      ]
+
+      const groups = await groupContentChunksSemantically(chunks, embedByTopic, { maxBatchUnits: 2 })
+
+      expect(groups.map(group => group.map(chunk => chunk.id))).toEqual([
+        ['vpn-1'],
+        ['expense-1'],
+        ['vpn-2'],
+        ['expense-2']
+      ])
+    })
+
+    it('should leave dissimilar chunks in their own groups', async () => {
+      const chunks = [
+        textChunk('vpn', 'T1/C-it', 'VPN access', 0),
+        textChunk('laptop', 'T1/C-it', 'Laptop refresh', 1)
+      ]
+
+      const groups = await groupContentChunksSemantically(chunks, embedByTopic)
+
+      expect(groups).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,262 @@
+import { describe, it, expect } from '@jest/globals'
+import { DocumentChunking } from '@/lib/ingestion/document-chunking'
+import { estimateTokens } from '@/lib/ai/token-estimator'
+
+describe('DocumentChunking sentence splitting', () => {
+  it('should not break German sentences after abbreviations', () => {
+    const content = 'Bitte bringt z. B. Laptops mit. Dr. Weber leitet das Treffen. Raum Nr. 4 ist reserviert.'
+
+    const chunks = DocumentChunking.chunkBySentences(content, 1, 0, 'de')
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'Bitte bringt z. B. Laptops mit.',
+      'Dr. Weber leitet das Treffen.',
+      'Raum Nr. 4 ist reserviert.'
+    ])
+  })
+
+  it('should keep Spanish questions and their punctuation intact', () => {
+    const content = '¿Quién revisa el informe? La Sra. García lo revisa. ¡Gracias!'
+
+    const chunks = DocumentChunking.chunkBySentences(content, 1, 0, 'es')
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '¿Quién revisa el informe?',
+      'La Sra. García lo revisa.',
+      '¡Gracias!'
+    ])
+  })
+
+  it('should end size-limited chunks at a sentence boundary', () => {
+    const sentence = 'Die Version 2.5 wird z. B. am Montag ausgerollt und danach geprüft. '
+    const content = sentence.repeat(12)
+
+    const chunks = DocumentChunking.chunkDocument(content, { maxTokens: 100, overlapTokens: 0, language: 'de' })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.content.endsWith('geprüft.')).toBe(true)
+    }
+  })
+})
+
+
+describe('DocumentChunking Markdown chunking', () => {
+  const handbook = [
+    '# Onboarding',
+    '',
+    'Welcome to the team.',
+    '',
+    '## Laptop setup',
+    '',
+    '1. Install the VPN client.',
+    '2. Run the setup script:',
+    '',
+    '```bash',
+    './setup.sh --profile dev',
+    '',
+    'echo done',
+    '```',
+    '',
+    '## Accounts',
+    '',
+    '| System | Owner |',
+    '| --- | --- |',
+    '| GitHub | IT |',
+    '| Slack | Ops |'
+  ].join('\n')
+
+  it('should split on heading sections and carry the heading path', () => {
+    const chunks = DocumentChunking.chunkMarkdown(handbook)
+
+    expect(chunks.map(chunk => chunk.metadata.headingPath)).toEqual([
+      ['Onboarding'],
+      ['Onboarding', 'Laptop setup'],
+      ['Onboarding', 'Accounts']
+    ])
+    expect(chunks[1].content).toContain('```bash\n./setup.sh --profile dev\n\necho done\n```')
+    expect(chunks[2].content).toBe('## Accounts\n\n| System | Owner |\n| --- | --- |\n| GitHub | IT |\n| Slack | Ops |')
+    expect(handbook.slice(chunks[2].metadata.startOffset, chunks[2].metadata.endOffset)).toBe(
+      handbook.slice(handbook.indexOf('## Accounts'))
+    )
+    expect(DocumentChunking.embeddingText(chunks[1])).toMatch(/^Onboarding > Laptop setup\n\n## Laptop setup\n/)
+  })
+
+  it('should repeat table headers and code fences when splitting oversized blocks', () => {
+    const rows = Array.from({ length: 40 }, (_, i) => `| Server ${i} | Region ${i} |`)
+    const code = Array.from({ length: 40 }, (_, i) => `deploy --server ${i} --region eu`)
+    const content = [
+      '# Inventory',
+      '| Server | Region |',
+      '|---|---|',
+      ...rows,
+      '',
+      '```',
+      ...code,
+      '```'
+    ].join('\n')
+
+    const chunks = DocumentChunking.chunkMarkdown(content, { maxTokens: 120 })
+    const tables = chunks.filter(chunk => chunk.content.includes('| Server '))
+    const scripts = chunks.filter(chunk => chunk.content.includes('deploy --server'))
+
+    expect(tables.length).toBeGreaterThan(1)
+    expect(scripts.length).toBeGreaterThan(1)
+    for (const chunk of tables) {
+      expect(chunk.content).toMatch(/(^|\n)\| Server \| Region \|\n\|---\|---\|\n\| Server \d+/)
+    }
+    for (const chunk of scripts) {
+      expect(chunk.content).toMatch(/^```\n[\s\S]*\n```$/)
+    }
+    expect(chunks.every(chunk => chunk.metadata.headingPath?.join(' > ') === 'Inventory')).toBe(true)
+    expect(tables.flatMap(chunk => chunk.content.match(/\| Server \d+ /g) || [])).toHaveLength(40)
+  })
+
+  it('should keep list items whole and drop headings without content', () => {
+    const items = Array.from({ length: 12 }, (_, i) =>
+      `- Step ${i}: check the badge reader\n  and sign the visitor log`
+    )
+    const content = ['# Office', '## Security', ...items].join('\n')
+
+    const chunks = DocumentChunking.chunkMarkdown(content, { maxTokens: 60 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks[0].content.startsWith('## Security\n\n- Step 0')).toBe(true)
+    for (const chunk of chunks) {
+      expect(chunk.metadata.headingPath).toEqual(['Office', 'Security'])
+      expect(chunk.content.match(/- Step \d+/g)?.length).toBe(chunk.content.match(/sign the visitor log/g)?.length)
+    }
+  })
+})
+
+describe('DocumentChunking token limits', () => {
+  it('should keep every chunk within the token budget of the model', () => {
+    const code = Array.from({ length: 60 }, (_, i) => `const value${i} = await fetchRecord({ id: ${i}, retries: 3 })`).join('\n')
+    const japanese = 'ノートパソコンの設定は情報システム部が担当します。'.repeat(40)
+
+    for (const content of [code, japanese]) {
+      for (const model of ['text-embedding-ada-002', 'gpt-4o']) {
+        const chunks = DocumentChunking.chunkDocument(content, { maxTokens: 120, overlapTokens: 10, model })
+
+        expect(chunks.length).toBeGreaterThan(1)
+        for (const chunk of chunks) {
+          expect(estimateTokens(chunk.content, model)).toBeLessThanOrEqual(120)
+        }
+      }
+    }
+  })
+
+  it('should keep sentence and paragraph chunks within the token budget of the model', async () => {
+    const runOn = 'The printer on the third floor jams when the paper tray is overfilled and '.repeat(20) + 'needs a reset.'
+    const content = `${runOn}\n\nShort note.\n\n${'Check the toner level. '.repeat(12).trim()}`
+
+    for (const strategy of ['sentence', 'paragraph'] as const) {
+      const chunks = await DocumentChunking.chunkWithStrategy(content, { strategy, maxTokens: 60, model: 'gpt-4o' })
+
+      expect(chunks.length).toBeGreaterThan(3)
+      for (const chunk of chunks) {
+        expect(estimateTokens(chunk.content, 'gpt-4o')).toBeLessThanOrEqual(60)
+        expect(chunk.metadata.tokenCount).toBe(estimateTokens(chunk.content, 'gpt-4o'))
+        expect(content.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.content)
+      }
+    }
+  })
+})
+
+describe('DocumentChunking semantic chunking', () => {
+  // One dimension per topic, so sentences on the same topic are identical vectors
+  const TOPICS = [/laptop|vpn|password/gi, /expense|receipt|invoice/gi]
+  const embed = async (texts: string[]) =>
+    texts.map(text => [...TOPICS.map(topic => (text.match(topic) || []).length), 0.1])
+
+  const content = [
+    'Every new hire receives a laptop on day one.',
+    'The laptop ships with the VPN client installed.',
+    'Reset your VPN password in the self-service portal.',
+    'Submit each expense within thirty days.',
+    'Attach the receipt to every expense line.',
+    'Finance pays the invoice at the end of the month.'
+  ].join(' ')
+
+  it('should cut where adjacent sentences change topic', async () => {
+    const chunks = await DocumentChunking.chunkSemantically(content, embed, { minTokens: 5, maxTokens: 500 })
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks[0].content.endsWith('self-service portal.')).toBe(true)
+    expect(chunks[1].content.startsWith('Submit each expense')).toBe(true)
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.content)
+    }
+  })
+
+  it('should respect the minimum and maximum chunk sizes', async () => {
+    const unsplit = await DocumentChunking.chunkSemantically(content, embed, { minTokens: 1000, maxTokens: 1000 })
+    const capped = await DocumentChunking.chunkSemantically(content, embed, { minTokens: 5, maxTokens: 25 })
+
+    expect(unsplit).toHaveLength(1)
+    expect(capped.length).toBeGreaterThan(2)
+    expect(capped.every(chunk => chunk.metadata.tokenCount <= 25)).toBe(true)
+  })
+
+  it('should cut a sentence over the maximum into token windows', async () => {
+    const longSentence = `The VPN client ${Array.from({ length: 60 }, (_, i) => `setting${i}`).join(', ')} must stay enabled.`
+    const withLongSentence = `${longSentence} Submit each expense within thirty days.`
+
+    const chunks = await DocumentChunking.chunkSemantically(withLongSentence, embed, { minTokens: 5, maxTokens: 40 })
+
+    expect(chunks.length).toBeGreaterThan(2)
+    expect(chunks.every(chunk => chunk.metadata.tokenCount <= 40)).toBe(true)
+    expect(chunks.map(chunk => chunk.metadata.chunkIndex)).toEqual(chunks.map((_, index) => index))
+    expect(chunks[chunks.length - 1].content).toBe('Submit each expense within thirty days.')
+    for (const chunk of chunks) {
+      expect(withLongSentence.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.content)
+    }
+  })
+
+  it('should be selectable as a strategy and require an embedding function', async () => {
+    const chunks = await DocumentChunking.chunkWithStrategy(content, { strategy: 'semantic', minTokens: 5 }, embed)
+
+    expect(chunks).toHaveLength(2)
+    await expect(DocumentChunking.chunkWithStrategy(content, { strategy: 'semantic' })).rejects.toThrow('embedding function')
+  })
+})
+
+describe('DocumentChunking offsets', () => {
+  const expectExactSpans = (content: string, chunks: ReturnType<typeof DocumentChunking.chunkDocument>) => {
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.content)
+    }
+  }
+
+  it('should return exact spans for repeated sentences', () => {
+    const content = 'Restart the router.\nRestart the router!  Then call IT? Restart the router. Wait a minute.'
+
+    const chunks = DocumentChunking.chunkBySentences(content, 2, 1)
+
+    expect(chunks.map(chunk => chunk.metadata.startOffset)).toEqual([0, 20, 41, 55])
+    expect(chunks[0].content).toBe('Restart the router.\nRestart the router!')
+    expect(chunks[1].content).toBe('Restart the router!  Then call IT?')
+    expectExactSpans(content, chunks)
+  })
+
+  it('should return exact spans for repeated paragraphs', () => {
+    const content = 'Check the cable.\n\n  Check the cable.\n \nReplace the modem.\n\n\nCheck the cable.\n'
+
+    const chunks = DocumentChunking.chunkByParagraphs(content, 2, 0)
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'Check the cable.\n\n  Check the cable.',
+      'Replace the modem.\n\n\nCheck the cable.'
+    ])
+    expectExactSpans(content, chunks)
+  })
+
+  it('should return exact spans for size-limited chunks', () => {
+    const content = '  Replace the toner when the light blinks.  \n'.repeat(30)
+
+    const chunks = DocumentChunking.chunkDocument(content, { maxTokens: 40, overlapTokens: 5 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expectExactSpans(content, chunks)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { DraftApprovalService, DraftApprovalError } from '../../src/lib/ingestion/draft-approval-service'
+
+const approver = { id: 'user-1', organizationId: 'org-1' }
+const content = '# VPN access\n\nRequest a profile in the IT portal.'
+
+type Row = Record<string, unknown>
+type Write = { table: string; action: 'insert' | 'update'; values: Row; filters: Row }
+
+// Just enough of the Supabase query builder for the draft claim and approved_documents writes
+function createFakeSupabase(tables: Record<string, Row[]>, failInsert = false) {
+  const writes: Write[] = []
+
+  const from = (table: string) => {
+    const filters: Row = {}
+    let write: Write | null = null
+
+    const matching = () => (tables[table] || []).filter(row =>
+      Object.entries(filters).every(([column, value]) => row[column] === value)
+    )
+    const run = () => {
+      if (write?.action === 'insert') {
+        writes.push(write)
+        if (failInsert) {
+          return { data: null, error: { message: 'insert failed' } }
+        }
+        return { data: { id: 'doc-new' }, error: null }
+      }
+      // Filters are matched before an update applies, like a WHERE clause
+      const rows = matching()
+      if (write) {
+        writes.push({ ...write, filters: { ...filters } })
+        rows.forEach(row => Object.assign(row, write!.values))
+      }
+      return { data: rows[0] ?? null, error: null }
+    }
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters[column] = value
+        return query
+      },
+      update: (values: Row) => {
+        write = { table, action: 'update', values, filters }
+        return query
+      },
+      insert: (values: Row) => {
+        write = { table, action: 'insert', values, filters }
+        return query
+      },
+      maybeSingle: async () => run(),
+      single: async () => run(),
+      then: (resolve: (result: unknown) => unknown) => resolve(run())
+    }
+    return query
+  }
+
+  return { supabase: { from }, writes }
+}
+
+function createService(tables: Record<string, Row[]>, failInsert = false) {
+  const { supabase, writes } = createFakeSupabase(tables, failInsert)
+  const embedDocument = jest.fn<(documentId: string, content: string, organizationId: string) => Promise<object>>(
+    async documentId => ({ id: 'embed-1', documentId, status: 'completed' })
+  )
+
+  const service = new DraftApprovalService()
+  Object.assign(service, { supabase, vectorSearchService: { embedDocument } })
+
+  return { service, writes, embedDocument }
+}
+
+function draft(overrides: Row = {}): Row {
+  return {
+    id: 'draft-1',
+    organization_id: 'org-1',
+    status: 'pending',
+    title: 'VPN access',
+    content,
+    summary: 'How to get VPN access',
+    topics: ['it', 'vpn'],
+    language: 'de',
+    supersedes_document_id: null,
+    ...overrides
+  }
+}
+
+describe('Draft approval', () => {
+  it('should record the draft on a new approved document and index it', async () => {
+    const drafts = [draft()]
+    const { service, writes, embedDocument } = createService({ draft_documents: drafts })
+
+    const result = await service.approveDraft('draft-1', approver)
+
+    expect(result).toEqual({ documentId: 'doc-new', version: 1, superseded: false, indexed: true })
+    const insert = writes.find(write => write.table === 'approved_documents')
+    expect(insert).toMatchObject({
+      action: 'insert',
+      values: {
+        title: 'VPN access',
+        summary: 'How to get VPN access',
+        tags: ['it', 'vpn'],
+        organization_id: 'org-1',
+        approved_by: 'user-1',
+        // The insert triggers copy the language and link fingerprints through this column
+        draft_document_id: 'draft-1'
+      }
+    })
+    expect(insert!.values).not.toHaveProperty('language')
+    expect(drafts[0].status).toBe('approved')
+    expect(embedDocument).toHaveBeenCalledWith('doc-new', content, 'org-1')
+  })
+
+  it('should write a superseding draft over its document as the next version', async () => {
+    const documents = [{ id: 'doc-1', organization_id: 'org-1', version: 2, draft_document_id: 'draft-0' }]
+    const { service, writes } = createService({
+      draft_documents: [draft({ supersedes_document_id: 'doc-1' })],
+      approved_documents: documents
+    })
+
+    const result = await service.approveDraft('draft-1', approver)
+
+    expect(result).toMatchObject({ documentId: 'doc-1', version: 3, superseded: true })
+    expect(writes.some(write => write.action === 'insert')).toBe(false)
+    expect(documents[0]).toMatchObject({ version: 3, draft_document_id: 'draft-1', language: 'de', approved_by: 'user-1' })
+  })
+
+  it('should add the draft as a new document when the one it superseded is gone', async () => {
+    const { service } = createService({
+      draft_documents: [draft({ supersedes_document_id: 'doc-deleted' })],
+      approved_documents: []
+    })
+
+    await expect(service.approveDraft('draft-1', approver)).resolves.toMatchObject({ documentId: 'doc-new', superseded: false })
+  })
+
+  it('should reject drafts that are not pending or belong to another organization', async () => {
+    const { service, embedDocument } = createService({
+      draft_documents: [draft({ status: 'approved' }), draft({ id: 'draft-2', organization_id: 'org-2' })]
+    })
+
+    await expect(service.approveDraft('draft-1', approver)).rejects.toMatchObject({ code: 'DRAFT_NOT_PENDING' })
+    await expect(service.approveDraft('draft-2', approver)).rejects.toMatchObject({ code: 'DRAFT_NOT_FOUND' })
+    expect(embedDocument).not.toHaveBeenCalled()
+  })
+
+  it('should return the draft to the approval queue when the document cannot be written', async () => {
+    const drafts = [draft()]
+    const { service, embedDocument } = createService({ draft_documents: drafts }, true)
+
+    const approval = service.approveDraft('draft-1', approver)
+
+    await expect(approval).rejects.toThrow(DraftApprovalError)
+    await expect(approval).rejects.toMatchObject({ code: 'APPROVAL_FAILED' })
+    expect(drafts[0].status).toBe('pending')
+    expect(embedDocument).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,193 @@
+import {
+  decodeEncodedWords,
+  parseEmail,
+  splitMbox
+} from '@/lib/ingestion/email-parser'
+import { normalizeEmailSubject, threadEmails } from '@/lib/ingestion/email-threading'
+import { normalizeEmailMessage, stripQuotedReply, stripSignature } from '@/lib/ingestion/email-message-normalizer'
+
+function eml(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\r\n'), 'utf8')
+}
+
+const question = eml([
+  'Message-ID: <q1@example.com>',
+  'From: "Ada Lovelace" <ada@example.com>',
+  'To: it@example.com',
+  'Subject: How do I get VPN access?',
+  'Date: Mon, 04 Mar 2024 09:00:00 +0000',
+  '',
+  'Hi, how do I get VPN access as a new starter?',
+  '',
+  '-- ',
+  'Ada Lovelace | Analytics'
+])
+
+const answer = eml([
+  'Message-ID: <a1@example.com>',
+  'In-Reply-To: <q1@example.com>',
+  'References: <q1@example.com>',
+  'From: Grace Hopper <grace@example.com>',
+  'Subject: RE: How do I get VPN access?',
+  'Date: Mon, 04 Mar 2024 10:30:00 +0000',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Request it in the IT portal under Access =E2=86=92 VPN, then install the cli=',
+  'ent.',
+  '',
+  'On Mon, 4 Mar 2024 at 09:00, Ada Lovelace <ada@example.com> wrote:',
+  '> Hi, how do I get VPN access as a new starter?',
+  '--b1',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>HTML version</p>',
+  '--b1--'
+])
+
+describe('Email archive ingestion', () => {
+  describe('parseEmail', () => {
+    it('should parse headers and prefer the plain text alternative', () => {
+      const message = parseEmail(answer)
+
+      expect(message).toMatchObject({
+        messageId: 'a1@example.com',
+        inReplyTo: 'q1@example.com',
+        references: ['q1@example.com'],
+        from: 'Grace Hopper',
+        subject: 'RE: How do I get VPN access?',
+        date: new Date('2024-03-04T10:30:00Z')
+      })
+      expect(message.body).toContain('Access → VPN, then install the client.')
+      expect(message.body).not.toContain('HTML version')
+    })
+
+    it('should decode encoded-word headers, base64 bodies and list attachments', () => {
+      const message = parseEmail(eml([
+        'Subject: =?UTF-8?B?UsOpc3Vtw6k=?= =?ISO-8859-1?Q?_f=FCr_Onboarding?=',
+        'Content-Type: multipart/mixed; boundary=outer',
+        '',
+        'Preamble is ignored',
+        '--outer',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('Checklist attached ✅').toString('base64'),
+        '--outer',
+        'Content-Type: application/pdf; name="checklist.pdf"',
+        'Content-Disposition: attachment; filename="checklist.pdf"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        'JVBERi0xLjQK',
+        '--outer--'
+      ]))
+
+      expect(message.subject).toBe('Résumé für Onboarding')
+      expect(message.body).toBe('Checklist attached ✅')
+      expect(message.attachments).toEqual(['checklist.pdf'])
+      // No Message-ID header: one is derived from the content so re-imports match
+      expect(message.messageId).toMatch(/@generated$/)
+    })
+
+    it('should convert HTML-only bodies to Markdown', () => {
+      const message = parseEmail(eml([
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<html><head><style>p { color: red }</style></head><body><p>Use <strong>staging</strong> first</p></body></html>'
+      ]))
+
+      expect(message.body).toBe('Use **staging** first')
+    })
+  })
+
+  describe('decodeEncodedWords', () => {
+    it('should leave plain text untouched', () => {
+      expect(decodeEncodedWords('Weekly sync')).toBe('Weekly sync')
+    })
+  })
+
+  describe('splitMbox', () => {
+    it('should split on separator lines and unescape >From lines', () => {
+      const mbox = Buffer.from([
+        'From ada@example.com Mon Mar  4 09:00:00 2024',
+        'Subject: First',
+        '',
+        '>From the docs: restart first.',
+        'From here on it is body text',
+        '',
+        'From MAILER-DAEMON Mon Mar  4 10:30:00 2024',
+        'Subject: Second',
+        '',
+        'Body'
+      ].join('\n'))
+
+      const messages = splitMbox(mbox).map(parseEmail)
+
+      expect(messages.map(message => message.subject)).toEqual(['First', 'Second'])
+      expect(messages[0].body).toBe('From the docs: restart first.\nFrom here on it is body text')
+    })
+  })
+
+  describe('threadEmails', () => {
+    it('should group replies with their thread and order messages by date', () => {
+      const unrelated = parseEmail(eml(['Message-ID: <x@example.com>', 'Subject: Lunch?', 'Date: Mon, 04 Mar 2024 08:00:00 +0000', '', 'Pizza?']))
+      // Replies to a message missing from the archive still join through shared References
+      const lateReply = parseEmail(eml([
+        'Message-ID: <a2@example.com>',
+        'In-Reply-To: <missing@example.com>',
+        'References: <q1@example.com> <missing@example.com>',
+        'Date: Tue, 05 Mar 2024 09:00:00 +0000',
+        'Subject: Re: How do I get VPN access?',
+        '',
+        'Thanks!'
+      ]))
+
+      const threads = threadEmails([lateReply, parseEmail(answer), unrelated, parseEmail(question), parseEmail(question)])
+
+      expect(threads.map(thread => thread.subject)).toEqual(['Lunch?', 'How do I get VPN access?'])
+      expect(threads[1].id).toBe('q1@example.com')
+      expect(threads[1].messages.map(message => message.messageId)).toEqual(['q1@example.com', 'a1@example.com', 'a2@example.com'])
+    })
+
+    it('should strip reply and forward prefixes from subjects', () => {
+      expect(normalizeEmailSubject('Re: AW: Fwd: Laptop setup')).toBe('Laptop setup')
+    })
+  })
+
+  describe('quoted replies and signatures', () => {
+    it('should cut Outlook-style quoted headers', () => {
+      const body = [
+        'Yes, use the shared mailbox.',
+        '',
+        'From: Ada Lovelace <ada@example.com>',
+        'Sent: Monday, March 4, 2024 9:00 AM',
+        'Subject: Shared mailbox?'
+      ].join('\n')
+
+      expect(stripQuotedReply(body).trim()).toBe('Yes, use the shared mailbox.')
+    })
+
+    it('should cut wrapped Gmail attributions and signatures', () => {
+      const body = [
+        'Ask in #it-help.',
+        'Sent from my iPhone',
+        '',
+        'On Mon, Mar 4, 2024 at 9:00 AM Ada Lovelace <',
+        'ada@example.com> wrote:',
+        '> Where do I ask?'
+      ].join('\n')
+
+      expect(stripSignature(stripQuotedReply(body)).trim()).toBe('Ask in #it-help.')
+    })
+
+    it('should normalize a message to its own text', () => {
+      expect(normalizeEmailMessage(parseEmail(question))).toBe('Hi, how do I get VPN access as a new starter?')
+      expect(normalizeEmailMessage(parseEmail(answer))).toBe(
+        'Request it in the IT portal under Access → VPN, then install the client.'
+      )
+    })
+  })
+})
@@ -0,0 +1,422 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { ContentIngestionService, IngestionJobError } from '../../src/lib/ingestion/content-ingestion-service'
+import { computeContentHash, type ContentFingerprint } from '../../src/lib/ingestion/content-fingerprint-store'
+import type { ContentProcessingOptions, PIIRedactionResult } from '../../src/lib/ai'
+import type { ContentChunk, IngestionJob, IngestionJobGroup, IngestionSettings, IngestionSource } from '../../src/lib/ingestion'
+
+const source: IngestionSource = {
+  id: 'source-1',
+  type: 'slack',
+  userId: 'manager@example.com',
+  organizationId: 'org-1',
+  name: 'Acme Slack',
+  isActive: true
+}
+
+function chunk(id: string): ContentChunk {
+  return {
+    id,
+    content: `Message ${id}`,
+    sourceType: 'slack',
+    sourceId: 'T1/C1',
+    metadata: { timestamp: new Date('2024-03-10T09:00:00Z') }
+  }
+}
+
+function group(index: number, status: IngestionJobGroup['status'] = 'pending'): IngestionJobGroup {
+  const item = chunk(`slack_${index}`)
+  return {
+    id: `group-${index}`,
+    jobId: 'job-1',
+    groupIndex: index,
+    status,
+    attempts: status === 'pending' ? 0 : 1,
+    chunkIds: [item.id],
+    items: [{
+      item,
+      contentHash: computeContentHash(item.content),
+      redaction: { redactedText: item.content, entities: [], originalLength: item.content.length, redactedLength: item.content.length }
+    }],
+    error: status === 'failed' ? 'Model timeout' : undefined
+  }
+}
+
+function job(status: IngestionJob['status'] = 'running'): IngestionJob {
+  return {
+    id: 'job-1',
+    sourceId: source.id,
+    organizationId: source.organizationId,
+    status,
+    startedAt: new Date(),
+    itemsProcessed: 0,
+    itemsTotal: 0,
+    itemErrors: [],
+    timings: {}
+  }
+}
+
+// In-memory job store holding one job's groups and outcomes
+function createFakeJobStore(groups: IngestionJobGroup[], storedJob: IngestionJob = job()) {
+  // Group outcomes; drafts linked before an attempt finished are kept apart
+  const updates: Array<{ groupId: string; changes: Partial<IngestionJobGroup> }> = []
+  const draftLinks: Array<{ groupId: string; draftId?: string }> = []
+  const progress: number[] = []
+  let cancelRequestedAt: Date | null = null
+
+  return {
+    updates,
+    draftLinks,
+    progress,
+    store: {
+      getJob: async () => storedJob,
+      updateJob: async (jobId: string, changes: Partial<IngestionJob>) => {
+        if (changes.itemsProcessed !== undefined) progress.push(changes.itemsProcessed)
+      },
+      getGroups: async (jobId: string, statuses?: IngestionJobGroup['status'][]) =>
+        groups.filter(g => !statuses || statuses.includes(g.status)).map(g => ({ ...g })),
+      updateGroup: async (groupId: string, changes: Partial<IngestionJobGroup>) => {
+        if (changes.status) {
+          updates.push({ groupId, changes })
+        } else {
+          draftLinks.push({ groupId, draftId: changes.draftId })
+        }
+      },
+      getResumeState: async () => ({ options: {}, pendingCursors: { slackChannels: { 'T1/C1': '1710061200.000100' } } }),
+      requestCancel: async () => {
+        cancelRequestedAt = new Date()
+      },
+      clearCancelRequest: async () => {
+        cancelRequestedAt = null
+      },
+      isCancelRequested: async (jobId: string, since: Date) => Boolean(cancelRequestedAt && cancelRequestedAt >= since)
+    }
+  }
+}
+
+function createService(
+  groups: IngestionJobGroup[],
+  options: {
+    storedJob?: IngestionJob
+    fingerprints?: Map<string, ContentFingerprint>
+    concurrency?: number
+    settings?: Partial<IngestionSettings>
+  } = {}
+) {
+  const jobStore = createFakeJobStore(groups, options.storedJob)
+  const processContentGroup = jest.fn<(chunks: ContentChunk[], options?: ContentProcessingOptions, redactions?: PIIRedactionResult[]) => Promise<{ title: string }>>(
+    async chunks => ({ title: chunks[0].id })
+  )
+  const saveSyncState = jest.fn<(source: IngestionSource, cursors: unknown) => Promise<void>>(async () => {})
+  const storeOriginalContent = jest.fn<(organizationId: string, items: Array<{ item: ContentChunk }>) => Promise<void>>(async () => {})
+
+  const service = new ContentIngestionService()
+  Object.assign(service, {
+    jobStore: jobStore.store,
+    fingerprintStore: { getFingerprints: async () => options.fingerprints || new Map() },
+    settingsStore: { getSettings: async () => ({ concurrency: options.concurrency ?? 1, ...options.settings }) },
+    retryPolicy: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+    processContentGroup,
+    resolveDraftTarget: async () => ({}),
+    storeProcessedDocument: async (document: { title: string }) => `draft-for-${document.title}`,
+    storeSourceDocuments: async () => {},
+    recordGroupFingerprints: async () => {},
+    storeOriginalContent,
+    saveSyncState
+  })
+
+  return {
+    service,
+    processContentGroup,
+    saveSyncState,
+    storeOriginalContent,
+    updates: jobStore.updates,
+    draftLinks: jobStore.draftLinks,
+    progress: jobStore.progress
+  }
+}
+
+describe('Ingestion job recovery', () => {
+  it('should retry a failing group with backoff and record each group outcome', async () => {
+    const { service, processContentGroup, updates } = createService([group(0), group(1)])
+    processContentGroup
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+
+    const resumed = await service.resumeIngestion(source, job())
+
+    expect(processContentGroup).toHaveBeenCalledTimes(4)
+    expect(updates).toEqual([
+      { groupId: 'group-0', changes: expect.objectContaining({ status: 'completed', attempts: 3, draftId: 'draft-for-slack_0' }) },
+      { groupId: 'group-1', changes: expect.objectContaining({ status: 'completed', attempts: 1, draftId: 'draft-for-slack_1' }) }
+    ])
+    expect(resumed.status).toBe('completed')
+    expect(resumed.itemErrors).toEqual([])
+  })
+
+  it('should give up on a group after the last attempt and carry on with the rest', async () => {
+    const { service, processContentGroup, updates } = createService([group(0), group(1)])
+    processContentGroup.mockImplementation(async chunks => {
+      if (chunks[0].id === 'slack_0') throw new Error('Content filter triggered')
+      return { title: chunks[0].id }
+    })
+
+    const resumed = await service.resumeIngestion(source, job())
+
+    expect(updates.map(update => update.changes.status)).toEqual(['failed', 'completed'])
+    expect(resumed.status).toBe('completed')
+    expect(resumed.itemErrors).toEqual([
+      { item: 'Group 0 (1 items: slack_0)', error: 'Content filter triggered' }
+    ])
+  })
+
+  it('should resume only unfinished groups and then save the pending cursors', async () => {
+    const { service, processContentGroup, saveSyncState } = createService([group(0, 'completed'), group(1)])
+
+    const resumed = await service.resumeIngestion(source, job())
+
+    expect(processContentGroup.mock.calls.map(([chunks]) => chunks[0].id)).toEqual(['slack_1'])
+    expect(saveSyncState).toHaveBeenCalledWith(source, { slackChannels: { 'T1/C1': '1710061200.000100' } })
+    expect(resumed.itemsProcessed).toBe(2)
+  })
+
+  it('should skip a group whose items were drafted before the interruption', async () => {
+    const item = group(0).items[0]
+    const fingerprints = new Map([[item.item.id, { itemKey: item.item.id, contentHash: item.contentHash, draftDocumentId: 'draft-7' }]])
+    const { service, processContentGroup, updates } = createService([group(0)], { fingerprints })
+
+    await service.resumeIngestion(source, job())
+
+    expect(processContentGroup).not.toHaveBeenCalled()
+    expect(updates[0].changes).toMatchObject({ status: 'completed', draftId: 'draft-7' })
+  })
+
+  it('should stop before the next group when the job is cancelled', async () => {
+    const { service, processContentGroup, saveSyncState } = createService([group(0), group(1)])
+    const running = job()
+    processContentGroup.mockImplementation(async chunks => {
+      await service.cancelJob(running.id)
+      return { title: chunks[0].id }
+    })
+
+    await service.resumeIngestion(source, running)
+
+    expect(processContentGroup).toHaveBeenCalledTimes(1)
+    expect(saveSyncState).not.toHaveBeenCalled()
+    expect(running.status).toBe('cancelled')
+    expect(service.isJobActive(running.id)).toBe(false)
+  })
+
+  it('should retry only failed groups of a finished job', async () => {
+    const finished = job('completed')
+    const { service, processContentGroup, saveSyncState } = createService(
+      [group(0, 'completed'), group(1, 'failed')],
+      { storedJob: finished }
+    )
+
+    await service.retryJob(finished.id)
+    // The retry runs in the background
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(processContentGroup.mock.calls.map(([chunks]) => chunks[0].id)).toEqual(['slack_1'])
+    expect(saveSyncState).not.toHaveBeenCalled()
+    expect(finished.status).toBe('completed')
+  })
+
+  it('should not let the cancel of an earlier run stop a retried job that is resumed', async () => {
+    const cancelled = { ...job('cancelled'), cancelRequestedAt: new Date() }
+    const { service, processContentGroup } = createService([group(0, 'completed'), group(1)], { storedJob: cancelled })
+
+    await service.retryJob(cancelled.id)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(cancelled.cancelRequestedAt).toBeUndefined()
+
+    // Interrupted again before it finished, then picked up by the scheduler
+    const resumed = await service.resumeIngestion(source, { ...cancelled, status: 'running' })
+
+    expect(resumed.status).toBe('completed')
+    expect(processContentGroup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should draft groups concurrently up to the organization limit', async () => {
+    const groups = [0, 1, 2, 3, 4].map(index => group(index))
+    const { service, processContentGroup, updates, progress } = createService(groups, { concurrency: 2 })
+    let inFlight = 0
+    let maxInFlight = 0
+    processContentGroup.mockImplementation(async chunks => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      // Later groups finish first, so outcomes arrive out of order
+      await new Promise(resolve => setTimeout(resolve, chunks[0].id === 'slack_0' ? 20 : 1))
+      inFlight--
+      return { title: chunks[0].id }
+    })
+
+    const resumed = await service.resumeIngestion(source, job())
+
+    expect(maxInFlight).toBe(2)
+    expect(updates.map(update => update.groupId)).toEqual(['group-1', 'group-2', 'group-3', 'group-4', 'group-0'])
+    expect(progress).toEqual([0, 1, 2, 3, 4, 5])
+    expect(resumed.itemsProcessed).toBe(5)
+  })
+
+  it('should let in-flight groups finish but start no more once cancelled', async () => {
+    const groups = [0, 1, 2, 3].map(index => group(index))
+    const { service, processContentGroup, saveSyncState } = createService(groups, { concurrency: 2 })
+    const running = job()
+    processContentGroup.mockImplementation(async chunks => {
+      if (chunks[0].id === 'slack_0') await service.cancelJob(running.id)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      return { title: chunks[0].id }
+    })
+
+    await service.resumeIngestion(source, running)
+
+    expect(processContentGroup.mock.calls.map(([chunks]) => chunks[0].id)).toEqual(['slack_0', 'slack_1'])
+    expect(saveSyncState).not.toHaveBeenCalled()
+    expect(running.status).toBe('cancelled')
+  })
+
+  it("should draft groups in the organization's canonical language when configured", async () => {
+    const { service, processContentGroup } = createService([group(0)], {
+      settings: { draftLanguageMode: 'canonical', canonicalLanguage: 'es' }
+    })
+
+    await service.resumeIngestion(source, job())
+
+    expect(processContentGroup).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ draftLanguageMode: 'canonical', canonicalLanguage: 'es' }),
+      [expect.objectContaining({ redactedText: 'Message slack_0' })]
+    )
+  })
+
+  it('should reuse the draft of an attempt that failed after writing it', async () => {
+    const { service, updates, draftLinks } = createService([group(0)])
+    const resolveDraftTarget = jest.fn(async (_fingerprints: unknown, groupDraftId?: string) => ({ existingDraftId: groupDraftId }))
+    let draftsCreated = 0
+    const storeProcessedDocument = async (_document: unknown, _organizationId: string, target: { existingDraftId?: string }) =>
+      target.existingDraftId ?? `draft-${++draftsCreated}`
+    const storeSourceDocuments = jest.fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValue(undefined)
+    Object.assign(service, { resolveDraftTarget, storeProcessedDocument, storeSourceDocuments })
+
+    await service.resumeIngestion(source, job())
+
+    expect(draftsCreated).toBe(1)
+    expect(resolveDraftTarget.mock.calls.map(([, groupDraftId]) => groupDraftId)).toEqual([undefined, 'draft-1'])
+    expect(draftLinks).toEqual([{ groupId: 'group-0', draftId: 'draft-1' }])
+    expect(updates).toEqual([
+      { groupId: 'group-0', changes: expect.objectContaining({ status: 'completed', attempts: 2, draftId: 'draft-1' }) }
+    ])
+  })
+
+  it('should keep touching the job while a slow group is drafted, and stop once it finishes', async () => {
+    const { service, processContentGroup } = createService([group(0)])
+    const jobStore = service['jobStore']
+    const heartbeats: number[] = []
+    Object.assign(service, {
+      heartbeatIntervalMs: 5,
+      jobStore: {
+        ...jobStore,
+        updateJob: async (jobId: string, changes: Partial<IngestionJob>) => {
+          if (Object.keys(changes).join() === 'timings') heartbeats.push(Date.now())
+          await jobStore.updateJob(jobId, changes)
+        }
+      }
+    })
+    processContentGroup.mockImplementationOnce(async chunks => {
+      await new Promise(resolve => setTimeout(resolve, 60))
+      return { title: chunks[0].id }
+    })
+
+    await service.resumeIngestion(source, job())
+    const count = heartbeats.length
+    await new Promise(resolve => setTimeout(resolve, 30))
+
+    expect(count).toBeGreaterThanOrEqual(2)
+    expect(heartbeats).toHaveLength(count)
+  })
+
+  it('should redact items before grouping them and storing them in the checkpoint', async () => {
+    const { service, storeOriginalContent } = createService([])
+    const saveCheckpoint = jest.fn<(jobId: string, groups: IngestionJobGroup['items'][]) => Promise<IngestionJobGroup[]>>(
+      async () => []
+    )
+    const groupChunks = jest.fn(async (_source: IngestionSource, chunks: ContentChunk[]) => [chunks])
+    Object.assign(service, {
+      jobStore: { ...service['jobStore'], saveCheckpoint },
+      fetchSourceContent: async () => [{ ...chunk('slack_0'), content: 'Ask ada@example.com' }],
+      groupChunks,
+      piiService: {
+        batchRedactPII: async (texts: string[]) => texts.map(text => ({
+          redactedText: text.replace('ada@example.com', '*'.repeat(15)),
+          entities: [{ text: 'ada@example.com', category: 'Email', confidenceScore: 0.9, offset: 4, length: 15 }],
+          originalLength: text.length,
+          redactedLength: text.length
+        }))
+      }
+    })
+
+    await service['processIngestion'](source, job(), {})
+
+    const [[stored]] = saveCheckpoint.mock.calls[0][1]
+    expect(stored.item.content).toBe('Ask ***************')
+    expect(stored.redaction.entities).toEqual([expect.objectContaining({ category: 'Email', text: '***************' })])
+    expect(JSON.stringify(saveCheckpoint.mock.calls)).not.toContain('ada@example.com')
+    expect(groupChunks.mock.calls[0][1].map(item => item.content)).toEqual(['Ask ***************'])
+    // Only the restricted originals table gets the unredacted text
+    expect(storeOriginalContent.mock.calls.map(([organizationId, items]) => [organizationId, items.map(entry => entry.item.content)]))
+      .toEqual([['org-1', ['Ask ada@example.com']]])
+  })
+
+  it('should draft uploaded content once claimed, linking the uploads instead of recording fingerprints', async () => {
+    const { service, updates } = createService([])
+    const getFingerprints = jest.fn(async () => new Map())
+    const linkUploadedArtifacts = jest.fn<(draftId: string, items: IngestionJobGroup['items']) => Promise<void>>(async () => {})
+    const saveCheckpoint = jest.fn(async (jobId: string, groups: IngestionJobGroup['items'][]) =>
+      groups.map((items, index) => ({ ...group(index), items, chunkIds: items.map(entry => entry.item.id) }))
+    )
+    const claim = jest.fn(async (groups: IngestionJobGroup['items'][]) => groups.slice(1))
+    Object.assign(service, {
+      jobStore: { ...service['jobStore'], saveCheckpoint },
+      fingerprintStore: { getFingerprints },
+      linkUploadedArtifacts,
+      piiService: {
+        batchRedactPII: async (texts: string[]) => texts.map(text => ({
+          redactedText: text.replace('ada@example.com', '*'.repeat(15)),
+          entities: [],
+          originalLength: text.length,
+          redactedLength: text.length
+        }))
+      }
+    })
+    const upload = (id: string, content: string): ContentChunk => ({ ...chunk(id), content, sourceType: 'email', sourceId: `artifact-${id}` })
+
+    await service['processUploadIngestion'](
+      { ...job('pending'), sourceId: undefined },
+      [[upload('email_1', 'Duplicate thread')], [upload('email_2', 'Ask ada@example.com'), upload('email_3', 'Thanks')]],
+      claim,
+      {}
+    )
+
+    expect(claim.mock.calls[0][0].map(items => items.map(entry => entry.item.content))).toEqual([
+      ['Duplicate thread'],
+      ['Ask ***************', 'Thanks']
+    ])
+    expect(saveCheckpoint.mock.calls[0][1]).toHaveLength(1)
+    expect(linkUploadedArtifacts.mock.calls.map(([draftId, items]) => [draftId, items.map(entry => entry.item.sourceId)])).toEqual([
+      ['draft-for-email_2', ['artifact-email_2', 'artifact-email_3']]
+    ])
+    expect(getFingerprints).not.toHaveBeenCalled()
+    expect(updates).toEqual([{ groupId: 'group-0', changes: expect.objectContaining({ status: 'completed' }) }])
+  })
+
+  it('should refuse to retry a running job or cancel a finished one', async () => {
+    const { service: runningService } = createService([group(0, 'failed')], { storedJob: job('running') })
+    const { service: finishedService } = createService([group(0, 'failed')], { storedJob: job('completed') })
+
+    await expect(runningService.retryJob('job-1')).rejects.toMatchObject({ code: 'JOB_ACTIVE' })
+    await expect(finishedService.cancelJob('job-1')).rejects.toBeInstanceOf(IngestionJobError)
+  })
+})
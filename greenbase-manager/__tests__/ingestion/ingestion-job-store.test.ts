@@ -0,0 +1,177 @@
+import { describe, it, expect } from '@jest/globals'
+import { IngestionJobStore } from '../../src/lib/ingestion/ingestion-job-store'
+import type { IngestionJob } from '../../src/lib/ingestion'
+
+type QueryResult = { data?: unknown; error: { message: string } | null }
+
+// Records every builder call and resolves each awaited query with the next queued result
+function createFakeSupabase(results: QueryResult[] = []) {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = []
+
+  function from(table: string) {
+    const resolve = async () => results.shift() ?? { data: null, error: null }
+    const query: Record<string, unknown> = {
+      maybeSingle: () => {
+        calls.push({ table, method: 'maybeSingle', args: [] })
+        return resolve()
+      },
+      then: (onFulfilled: (value: QueryResult) => unknown, onRejected?: (reason: unknown) => unknown) =>
+        resolve().then(onFulfilled, onRejected)
+    }
+    for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'in', 'gte', 'lt', 'order', 'limit']) {
+      query[method] = (...args: unknown[]) => {
+        calls.push({ table, method, args })
+        return query
+      }
+    }
+    return query
+  }
+
+  return { client: { from }, calls }
+}
+
+function createStore(results: QueryResult[] = []) {
+  const supabase = createFakeSupabase(results)
+  const store = new IngestionJobStore()
+  Object.assign(store, { supabase: supabase.client })
+  return { store, calls: supabase.calls }
+}
+
+const jobRow = {
+  id: 'job-1',
+  source_id: 'source-1',
+  organization_id: 'org-1',
+  status: 'completed',
+  started_at: '2026-03-02T10:00:00.000Z',
+  completed_at: '2026-03-02T10:05:00.000Z',
+  items_processed: 12,
+  items_total: 12,
+  error: null,
+  item_errors: [{ item: 'msg-3', error: 'Empty message' }],
+  timings: { fetchMs: 800, processMs: 4200 },
+  cancel_requested_at: null
+}
+
+describe('IngestionJobStore', () => {
+  it('should insert a new job with its processing options', async () => {
+    const { store, calls } = createStore()
+    const job: IngestionJob = {
+      id: 'job-1',
+      sourceId: 'source-1',
+      organizationId: 'org-1',
+      status: 'pending',
+      startedAt: new Date('2026-03-02T10:00:00.000Z'),
+      itemsProcessed: 0,
+      itemsTotal: 0,
+      itemErrors: [],
+      timings: {}
+    }
+
+    await store.createJob(job, { enableTopicIdentification: false })
+
+    expect(calls).toEqual([{
+      table: 'ingestion_jobs',
+      method: 'insert',
+      args: [{
+        id: 'job-1',
+        source_id: 'source-1',
+        organization_id: 'org-1',
+        status: 'pending',
+        items_processed: 0,
+        items_total: 0,
+        item_errors: [],
+        timings: {},
+        processing_options: { enableTopicIdentification: false },
+        started_at: '2026-03-02T10:00:00.000Z'
+      }]
+    }])
+  })
+
+  it('should update only the fields that changed', async () => {
+    const { store, calls } = createStore()
+
+    await store.updateJob('job-1', {
+      status: 'completed',
+      itemsProcessed: 12,
+      completedAt: new Date('2026-03-02T10:05:00.000Z')
+    })
+
+    expect(calls).toEqual([
+      {
+        table: 'ingestion_jobs',
+        method: 'update',
+        args: [{ status: 'completed', items_processed: 12, completed_at: '2026-03-02T10:05:00.000Z' }]
+      },
+      { table: 'ingestion_jobs', method: 'eq', args: ['id', 'job-1'] }
+    ])
+  })
+
+  it('should throw when an update fails', async () => {
+    const { store } = createStore([{ error: { message: 'connection lost' } }])
+
+    await expect(store.updateJob('job-1', { status: 'failed' }))
+      .rejects.toThrow('Failed to update ingestion job job-1: connection lost')
+  })
+
+  it('should map a job row scoped to its organization', async () => {
+    const { store, calls } = createStore([{ data: jobRow, error: null }])
+
+    const job = await store.getJob('job-1', { organizationId: 'org-1' })
+
+    expect(calls.filter(call => call.method === 'eq').map(call => call.args)).toEqual([
+      ['id', 'job-1'],
+      ['organization_id', 'org-1']
+    ])
+    expect(job).toEqual({
+      id: 'job-1',
+      sourceId: 'source-1',
+      organizationId: 'org-1',
+      status: 'completed',
+      startedAt: new Date('2026-03-02T10:00:00.000Z'),
+      completedAt: new Date('2026-03-02T10:05:00.000Z'),
+      itemsProcessed: 12,
+      itemsTotal: 12,
+      error: undefined,
+      itemErrors: [{ item: 'msg-3', error: 'Empty message' }],
+      timings: { fetchMs: 800, processMs: 4200 },
+      cancelRequestedAt: undefined
+    })
+  })
+
+  it('should return null for an unknown job', async () => {
+    const { store } = createStore([{ data: null, error: null }])
+
+    await expect(store.getJob('job-404')).resolves.toBeNull()
+  })
+
+  it('should list the newest jobs of a source first, up to the limit', async () => {
+    const failedRow = {
+      ...jobRow,
+      id: 'job-0',
+      status: 'failed',
+      completed_at: null,
+      error: 'Token expired',
+      item_errors: null,
+      timings: null,
+      cancel_requested_at: '2026-03-01T09:01:00.000Z'
+    }
+    const { store, calls } = createStore([{ data: [jobRow, failedRow], error: null }])
+
+    const jobs = await store.getJobsBySource('source-1', { limit: 2 })
+
+    expect(calls.slice(1)).toEqual([
+      { table: 'ingestion_jobs', method: 'eq', args: ['source_id', 'source-1'] },
+      { table: 'ingestion_jobs', method: 'order', args: ['started_at', { ascending: false }] },
+      { table: 'ingestion_jobs', method: 'limit', args: [2] }
+    ])
+    expect(jobs.map(job => job.id)).toEqual(['job-1', 'job-0'])
+    expect(jobs[1]).toEqual(expect.objectContaining({
+      status: 'failed',
+      completedAt: undefined,
+      error: 'Token expired',
+      itemErrors: [],
+      timings: {},
+      cancelRequestedAt: new Date('2026-03-01T09:01:00.000Z')
+    }))
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { ContentIngestionService, IngestionJobError } from '../../src/lib/ingestion/content-ingestion-service'
+import { computeContentHash } from '../../src/lib/ingestion/content-fingerprint-store'
+import type { ContentChunk, IngestionSource } from '../../src/lib/ingestion'
+
+const base = new Date('2024-03-10T09:00:00Z').getTime()
+
+const source: IngestionSource = {
+  id: 'source-1',
+  type: 'slack',
+  userId: 'manager@example.com',
+  organizationId: 'org-1',
+  name: 'Acme Slack',
+  selectedSlackChannels: [{ teamId: 'T1', channelId: 'C1', displayName: 'Acme - #it' }],
+  syncCursors: { slackChannels: { 'T1/C1': '1710061200.000100' } },
+  groupingStrategy: 'time_window',
+  isActive: true
+}
+
+function chunk(id: string, content: string, minutes: number): ContentChunk {
+  return {
+    id,
+    content,
+    sourceType: 'slack',
+    sourceId: 'T1/C1',
+    metadata: { author: 'Ada', timestamp: new Date(base + minutes * 60 * 1000) }
+  }
+}
+
+const chunks = [
+  chunk('slack_1', 'Email ada@example.com for VPN access', 0),
+  chunk('slack_2', 'The VPN profile is in the IT portal', 5),
+  // More than an hour later, so a separate group
+  chunk('slack_3', 'Expense reports are due on the 5th', 120),
+  chunk('slack_4', 'Unchanged since the last sync', 130)
+]
+
+function createService() {
+  const connector = {
+    cursorNamespace: 'slackChannels',
+    getSelections: () => source.selectedSlackChannels!,
+    getSelectionKey: () => 'T1/C1',
+    describeSelection: () => 'Acme - #it',
+    fetchItems: jest.fn(async () => ({ items: chunks, cursor: '1710070000.000100' })),
+    toContentChunks: async (_source: unknown, _selection: unknown, item: ContentChunk) => [item]
+  }
+  const processContent = jest.fn()
+  const getSupabase = jest.fn(async () => {
+    throw new Error('Dry runs must not touch the database')
+  })
+
+  const service = new ContentIngestionService()
+  Object.assign(service, {
+    connectorRegistry: { getConnector: () => connector },
+    fingerprintStore: {
+      getFingerprints: async () => new Map([
+        ['slack_4', { itemKey: 'slack_4', contentHash: computeContentHash('Unchanged since the last sync') }]
+      ])
+    },
+    piiService: {
+      batchRedactPII: async (texts: string[]) => texts.map(text => ({
+        redactedText: text.replace('ada@example.com', '[EMAIL]'),
+        entities: text.includes('ada@example.com') ? [{ category: 'Email', offset: 6, length: 15 }] : []
+      }))
+    },
+    openAIService: { getModels: async () => ({ chat: 'gpt-4', embedding: 'text-embedding-ada-002' }) },
+    getSupabase
+  })
+  // The real AI service estimates; any model call would go through processContent
+  Object.assign((service as unknown as { aiService: object }).aiService, { processContent })
+
+  return { service, connector, processContent, getSupabase }
+}
+
+describe('Ingestion preview', () => {
+  it('should group and redact new content without model calls or writes', async () => {
+    const { service, processContent, getSupabase } = createService()
+
+    const preview = await service.previewIngestion(source)
+
+    expect(preview).toMatchObject({
+      itemsFetched: 4,
+      itemsUnchanged: 1,
+      groupCount: 2,
+      groupingStrategy: 'time_window',
+      upperBound: false,
+      model: 'gpt-4'
+    })
+    expect(preview.sampleGroups[0]).toEqual({
+      chunkIds: ['slack_1', 'slack_2'],
+      piiEntitiesFound: 1,
+      redactedContent: 'Email [EMAIL] for VPN access\n\n---\n\nThe VPN profile is in the IT portal'
+    })
+    expect(processContent).not.toHaveBeenCalled()
+    expect(getSupabase).not.toHaveBeenCalled()
+    // Cursors are only read
+    expect(source.syncCursors).toEqual({ slackChannels: { 'T1/C1': '1710061200.000100' } })
+  })
+
+  it('should estimate tokens per pipeline step and price them', async () => {
+    const { service } = createService()
+
+    const { tokens, estimatedCostUsd, maxCostUsd } = await service.previewIngestion(source, {}, { sampleGroups: 1 })
+
+    expect(tokens.steps.structuring.promptTokens).toBeGreaterThan(0)
+    expect(tokens.steps.structuring.maxCompletionTokens).toBe(4000)
+    expect(tokens.steps.topicIdentification.maxCompletionTokens).toBe(400)
+    expect(tokens.steps.confidenceAssessment.maxCompletionTokens).toBe(1000)
+    expect(tokens.embedding).toBe(0)
+    expect(tokens.prompt).toBe(
+      tokens.steps.structuring.promptTokens + tokens.steps.topicIdentification.promptTokens + tokens.steps.confidenceAssessment.promptTokens
+    )
+    expect(estimatedCostUsd).toBeCloseTo((tokens.prompt * 0.03 + tokens.completion * 0.06) / 1000)
+    expect(maxCostUsd).toBeGreaterThan(estimatedCostUsd)
+  })
+
+  it('should bound semantically grouped sources by one group per item and include embedding tokens', async () => {
+    const { service } = createService()
+
+    const preview = await service.previewIngestion({ ...source, groupingStrategy: 'semantic' })
+    const timeWindows = await service.previewIngestion(source)
+
+    expect(preview).toMatchObject({ groupingStrategy: 'semantic', upperBound: true, groupCount: 3 })
+    expect(preview.sampleGroups.map(group => group.chunkIds)).toEqual([['slack_1'], ['slack_2'], ['slack_3']])
+    expect(preview.tokens.embedding).toBeGreaterThan(0)
+    expect(preview.tokens.prompt).toBeGreaterThan(timeWindows.tokens.prompt)
+  })
+
+  it('should group by time windows unless the source opted into semantic grouping', async () => {
+    const { service } = createService()
+
+    const preview = await service.previewIngestion({ ...source, groupingStrategy: undefined })
+
+    expect(preview).toMatchObject({ groupingStrategy: 'time_window', upperBound: false, groupCount: 2 })
+    expect(preview.tokens.embedding).toBe(0)
+  })
+
+  it('should price the configured models unless the request names others', async () => {
+    const { service } = createService()
+    Object.assign(service, {
+      openAIService: { getModels: async () => ({ chat: 'gpt-4o', embedding: 'text-embedding-3-small' }) }
+    })
+
+    const configured = await service.previewIngestion(source)
+    const requested = await service.previewIngestion(source, {}, { model: 'gpt-4' })
+
+    expect(configured.model).toBe('gpt-4o')
+    expect(requested.model).toBe('gpt-4')
+    expect(requested.estimatedCostUsd).toBeGreaterThan(configured.estimatedCostUsd)
+  })
+
+  it('should reject models without pricing before fetching anything', async () => {
+    const { service, connector } = createService()
+
+    const preview = service.previewIngestion(source, {}, { model: 'gpt-5-unknown' })
+
+    await expect(preview).rejects.toThrow(IngestionJobError)
+    await expect(preview).rejects.toMatchObject({ code: 'UNKNOWN_MODEL' })
+    expect(connector.fetchItems).not.toHaveBeenCalled()
+  })
+
+  it('should list audio and video with their duration instead of transcribing them', async () => {
+    const { service, connector } = createService()
+    const toContentChunks = jest.fn(async (_source: unknown, _selection: unknown, item: ContentChunk) => [item])
+    Object.assign(connector, {
+      toContentChunks,
+      describeMedia: (item: ContentChunk) => item.id === 'slack_3' ? { name: 'standup.mp4', durationMs: 90_000 } : null
+    })
+
+    const preview = await service.previewIngestion(source)
+
+    expect(toContentChunks.mock.calls.map(([, , item]) => item.id)).toEqual(['slack_1', 'slack_2', 'slack_4'])
+    expect(preview.media).toEqual({ items: [{ name: 'standup.mp4', durationMs: 90_000 }], totalDurationMs: 90_000 })
+    expect(preview.itemsFetched).toBe(3)
+  })
+})
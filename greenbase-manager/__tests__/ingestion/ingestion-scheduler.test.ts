@@ -0,0 +1,211 @@
+import { CronExpression } from '@/lib/ingestion/cron-expression'
+import { getFailureBackoffUntil, getNextScheduledRun, IngestionScheduler, SyncScheduleError, validateSyncSchedule } from '@/lib/ingestion/ingestion-scheduler'
+import { IngestionJobError, type IngestionJob } from '@/lib/ingestion/content-ingestion-service'
+
+// The scheduler module pulls in the ingestion service; keep its external dependencies inert
+jest.mock('@/lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn()
+}))
+
+describe('CronExpression', () => {
+  it('should find the next matching minute for a step expression', () => {
+    const cron = CronExpression.parse('*/15 * * * *')
+    const next = cron.nextAfter(new Date('2024-03-10T10:07:30Z'))
+
+    expect(next.toISOString()).toBe('2024-03-10T10:15:00.000Z')
+  })
+
+  it('should always return a time strictly after the given date', () => {
+    const cron = CronExpression.parse('0 * * * *')
+    const next = cron.nextAfter(new Date('2024-03-10T10:00:00Z'))
+
+    expect(next.toISOString()).toBe('2024-03-10T11:00:00.000Z')
+  })
+
+  it('should roll over to the next matching weekday', () => {
+    // 2024-03-09 is a Saturday; next weekday 06:00 is Monday 2024-03-11
+    const cron = CronExpression.parse('0 6 * * 1-5')
+    const next = cron.nextAfter(new Date('2024-03-09T12:00:00Z'))
+
+    expect(next.toISOString()).toBe('2024-03-11T06:00:00.000Z')
+  })
+
+  it('should roll over months and years', () => {
+    const cron = CronExpression.parse('30 2 1 1 *')
+    const next = cron.nextAfter(new Date('2024-06-15T00:00:00Z'))
+
+    expect(next.toISOString()).toBe('2025-01-01T02:30:00.000Z')
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month OR Sunday; 2024-03-03 is a Sunday
+    const cron = CronExpression.parse('0 0 1 * 0')
+    const next = cron.nextAfter(new Date('2024-03-01T12:00:00Z'))
+
+    expect(next.toISOString()).toBe('2024-03-03T00:00:00.000Z')
+  })
+
+  it('should treat 7 as Sunday', () => {
+    const cron = CronExpression.parse('0 9 * * 7')
+    const next = cron.nextAfter(new Date('2024-03-04T00:00:00Z'))
+
+    expect(next.toISOString()).toBe('2024-03-10T09:00:00.000Z')
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(CronExpression.isValid('* * * *')).toBe(false)
+    expect(CronExpression.isValid('60 * * * *')).toBe(false)
+    expect(CronExpression.isValid('*/0 * * * *')).toBe(false)
+    expect(CronExpression.isValid('5-1 * * * *')).toBe(false)
+    expect(CronExpression.isValid('0,30 8-18/2 * 1,6 1-5')).toBe(true)
+  })
+})
+
+describe('getNextScheduledRun', () => {
+  it('should make never-synced sources due immediately', () => {
+    const next = getNextScheduledRun({ type: 'interval', intervalMinutes: 60 }, null)
+
+    expect(next.getTime()).toBeLessThanOrEqual(Date.now())
+  })
+
+  it('should add the interval to the last sync time', () => {
+    const next = getNextScheduledRun(
+      { type: 'interval', intervalMinutes: 90 },
+      new Date('2024-03-10T10:00:00Z')
+    )
+
+    expect(next.toISOString()).toBe('2024-03-10T11:30:00.000Z')
+  })
+
+  it('should use the cron expression relative to the last sync time', () => {
+    const next = getNextScheduledRun(
+      { type: 'cron', expression: '0 6 * * *' },
+      new Date('2024-03-10T10:00:00Z')
+    )
+
+    expect(next.toISOString()).toBe('2024-03-11T06:00:00.000Z')
+  })
+})
+
+describe('validateSyncSchedule', () => {
+  it('should reject intervals that are too frequent', () => {
+    expect(() => validateSyncSchedule({ type: 'interval', intervalMinutes: 1 })).toThrow()
+  })
+
+  it('should reject invalid cron expressions', () => {
+    expect(() => validateSyncSchedule({ type: 'cron', expression: 'every hour' })).toThrow()
+  })
+
+  it('should reject out-of-range jitter', () => {
+    expect(() => validateSyncSchedule({ type: 'interval', intervalMinutes: 60, jitterSeconds: -5 })).toThrow()
+  })
+
+  it('should reject a schedule that is not an object with a typed error', () => {
+    for (const schedule of [null, 'hourly', [], { type: 'interval', intervalMinutes: '30' }]) {
+      expect(() => validateSyncSchedule(schedule)).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }))
+    }
+    expect(() => validateSyncSchedule({ type: 'cron', expression: 'every hour' })).toThrow(SyncScheduleError)
+  })
+
+  it('should accept valid schedules', () => {
+    expect(() => validateSyncSchedule({ type: 'interval', intervalMinutes: 30, jitterSeconds: 60 })).not.toThrow()
+    expect(() => validateSyncSchedule({ type: 'cron', expression: '0 */4 * * *' })).not.toThrow()
+  })
+})
+
+function createJob(status: IngestionJob['status'], completedAt: string): IngestionJob {
+  return {
+    id: `job-${completedAt}`,
+    sourceId: 'source-1',
+    organizationId: 'org-1',
+    status,
+    startedAt: new Date(new Date(completedAt).getTime() - 60 * 1000),
+    completedAt: new Date(completedAt),
+    itemsProcessed: 0,
+    itemsTotal: 0,
+    itemErrors: [],
+    timings: {}
+  }
+}
+
+describe('getFailureBackoffUntil', () => {
+  it('should not hold back a source whose latest run succeeded', () => {
+    expect(getFailureBackoffUntil([])).toBeNull()
+    expect(getFailureBackoffUntil([
+      createJob('completed', '2024-03-10T10:00:00Z'),
+      createJob('failed', '2024-03-10T09:00:00Z')
+    ])).toBeNull()
+  })
+
+  it('should double the wait after each consecutive failure', () => {
+    const once = getFailureBackoffUntil([createJob('failed', '2024-03-10T10:00:00Z')])
+    const twice = getFailureBackoffUntil([
+      createJob('failed', '2024-03-10T10:00:00Z'),
+      createJob('failed', '2024-03-10T09:50:00Z'),
+      createJob('completed', '2024-03-10T09:00:00Z')
+    ])
+
+    expect(once?.toISOString()).toBe('2024-03-10T10:05:00.000Z')
+    expect(twice?.toISOString()).toBe('2024-03-10T10:10:00.000Z')
+  })
+
+  it('should cap the wait at six hours', () => {
+    const jobs = Array.from({ length: 8 }, (_, i) => createJob('failed', new Date(Date.UTC(2024, 2, 10, 10 - i)).toISOString()))
+
+    expect(getFailureBackoffUntil(jobs)?.toISOString()).toBe('2024-03-10T16:00:00.000Z')
+  })
+})
+
+describe('IngestionScheduler', () => {
+  const sourceRow = {
+    id: 'source-1',
+    type: 'teams',
+    name: 'Support',
+    user_id: 'user-1',
+    sync_schedule: { type: 'interval', intervalMinutes: 60 },
+    last_sync_at: '2024-03-10T08:00:00Z',
+    users: { organization_id: 'org-1' }
+  }
+
+  function createScheduler(recentJobs: IngestionJob[]) {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      not: async () => ({ data: [sourceRow], error: null })
+    }
+    const runIngestion = jest.fn(async () => createJob('completed', '2024-03-10T10:30:00Z'))
+    const scheduler = new IngestionScheduler()
+    Object.assign(scheduler, {
+      supabase: { from: () => query },
+      jobStore: {
+        getInterruptedJobs: async () => [],
+        getJobsBySource: async () => recentJobs,
+        hasActiveJob: async () => false
+      },
+      ingestionService: { runIngestion }
+    })
+    return { scheduler, runIngestion }
+  }
+
+  it('should run a due source again once its failure backoff has passed', async () => {
+    const { scheduler, runIngestion } = createScheduler([createJob('failed', '2024-03-10T10:00:00Z')])
+
+    expect(await scheduler.tick(new Date('2024-03-10T10:01:00Z'))).toEqual([])
+    expect(await scheduler.tick(new Date('2024-03-10T10:06:00Z'))).toEqual(['source-1'])
+    expect(runIngestion).toHaveBeenCalledTimes(1)
+  })
+
+  it('should quietly skip a source whose job another process started first', async () => {
+    const { scheduler, runIngestion } = createScheduler([])
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    runIngestion.mockRejectedValueOnce(new IngestionJobError('Source source-1 already has an active ingestion job', 'JOB_ACTIVE'))
+
+    await scheduler.tick(new Date('2024-03-10T10:00:00Z'))
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(consoleError).not.toHaveBeenCalled()
+    consoleError.mockRestore()
+    // The source is free to run on a later tick
+    expect(await scheduler.tick(new Date('2024-03-10T10:01:00Z'))).toEqual(['source-1'])
+  })
+})
@@ -0,0 +1,295 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { ManualUploadService, ManualUploadError, resolveUploadMimeType } from '../../src/lib/ingestion/manual-upload-service'
+import { computeContentHash } from '../../src/lib/ingestion/content-fingerprint-store'
+import type { ContentChunk, IngestionJob } from '../../src/lib/ingestion'
+import type { RedactedItem, UploadGroupClaim } from '../../src/lib/ingestion/content-ingestion-service'
+
+const uploadedBy = { id: 'user-1', email: 'manager@example.com' }
+
+type QueryError = { code?: string; message: string }
+
+// Just enough of the Supabase query builder for the uploaded_artifacts lookups and writes
+function createFakeSupabase(existingHashes: string[] = [], errors: { insert?: QueryError; update?: QueryError } = {}) {
+  const inserted: Array<Record<string, unknown>> = []
+  const updated: Array<{ id: unknown; changes: Record<string, unknown> }> = []
+  const deleted: Array<{ table: string; id: unknown }> = []
+  const filters: Record<string, unknown> = {}
+
+  const from = (table: string) => {
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters[column] = value
+        return query
+      },
+      maybeSingle: async () => ({
+        data: existingHashes.includes(filters.content_hash as string) ? { id: 'artifact-0', file_name: 'original.md' } : null,
+        error: null
+      }),
+      in: async (_column: string, hashes: string[]) => ({
+        data: hashes.filter(hash => existingHashes.includes(hash)).map(hash => ({ content_hash: hash })),
+        error: null
+      }),
+      insert: async (row: Record<string, unknown>) => {
+        inserted.push(row)
+        return { error: errors.insert ?? null }
+      },
+      upsert: (rows: Array<Record<string, unknown>>) => ({
+        select: async () => {
+          inserted.push(...rows)
+          return { data: rows.map(row => ({ id: row.id })), error: errors.insert ?? null }
+        }
+      }),
+      update: (changes: Record<string, unknown>) => ({
+        eq: async (_column: string, id: unknown) => {
+          updated.push({ id, changes })
+          return { error: errors.update ?? null }
+        }
+      }),
+      delete: () => ({
+        eq: async (_column: string, id: unknown) => {
+          deleted.push({ table, id })
+          return { error: null }
+        }
+      })
+    }
+    return query
+  }
+
+  return { client: { from }, inserted, updated, deleted }
+}
+
+describe('resolveUploadMimeType', () => {
+  it('should prefer a supported MIME type and fall back to the extension', () => {
+    expect(resolveUploadMimeType('notes.txt', 'text/markdown; charset=utf-8')).toBe('text/markdown')
+    expect(resolveUploadMimeType('Runbook.MD', '')).toBe('text/markdown')
+    expect(resolveUploadMimeType('spec.docx', 'application/octet-stream'))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+  })
+
+  it('should reject formats that cannot be uploaded', () => {
+    expect(resolveUploadMimeType('deck.pptx', 'application/octet-stream')).toBeNull()
+    expect(resolveUploadMimeType('README')).toBeNull()
+  })
+})
+
+// Redacts the word "deploy" so tests can tell redacted text from the original
+const batchRedactPII = async (texts: string[]) => texts.map(text => ({
+  redactedText: text.replace(/deploy/g, '******'),
+  entities: [],
+  originalLength: text.length,
+  redactedLength: text.length
+}))
+
+describe('ManualUploadService', () => {
+  let ingestManualContent: jest.Mock<(chunks: ContentChunk[], organizationId: string, options?: unknown, redactions?: unknown[]) => Promise<{ document: { title: string }; draftId: string }>>
+  let startUploadIngestion: jest.Mock<(organizationId: string, groups: ContentChunk[][], claim: UploadGroupClaim) => Promise<IngestionJob>>
+
+  beforeEach(() => {
+    ingestManualContent = jest.fn(async () => ({ document: { title: 'Deploy runbook' }, draftId: 'draft-1' }))
+    startUploadIngestion = jest.fn(async organizationId => ({
+      id: 'job-1',
+      organizationId,
+      status: 'pending',
+      startedAt: new Date(),
+      itemsProcessed: 0,
+      itemsTotal: 0,
+      itemErrors: [],
+      timings: {}
+    }))
+  })
+
+  function createService(existingHashes: string[] = [], errors: Parameters<typeof createFakeSupabase>[1] = {}) {
+    const supabase = createFakeSupabase(existingHashes, errors)
+    const service = new ManualUploadService()
+    Object.assign(service, {
+      supabase: supabase.client,
+      ingestionService: { ingestManualContent, startUploadIngestion },
+      piiService: { batchRedactPII }
+    })
+    return { service, inserted: supabase.inserted, updated: supabase.updated, deleted: supabase.deleted }
+  }
+
+  it('should draft an uploaded file with a source reference to its artifact', async () => {
+    const { service, inserted, updated } = createService()
+
+    const { artifact } = await service.ingestFile({
+      organizationId: 'org-1',
+      uploadedBy,
+      fileName: 'runbook.md',
+      data: Buffer.from('# Deploy\n\nRun `make deploy`.\n')
+    })
+
+    const [chunks, organizationId] = ingestManualContent.mock.calls[0]
+    expect(organizationId).toBe('org-1')
+    expect(chunks).toEqual([expect.objectContaining({
+      id: `upload_${artifact.id}`,
+      content: '# Deploy\n\nRun `make deploy`.',
+      sourceType: 'upload',
+      sourceId: artifact.id,
+      metadata: expect.objectContaining({
+        author: 'manager@example.com',
+        fileName: 'runbook.md',
+        url: `/api/uploads/${artifact.id}`
+      })
+    })])
+
+    expect(artifact).toMatchObject({ kind: 'file', mimeType: 'text/markdown', draftDocumentId: 'draft-1' })
+    expect(inserted).toEqual([expect.objectContaining({
+      id: artifact.id,
+      organization_id: 'org-1',
+      uploaded_by: 'user-1',
+      redacted_text: '# Deploy\n\nRun `make ******`.'
+    })])
+    expect(JSON.stringify(inserted)).not.toContain('make deploy')
+    expect(ingestManualContent.mock.calls[0][3]).toEqual([expect.objectContaining({ redactedText: '# Deploy\n\nRun `make ******`.' })])
+    expect(inserted[0]).not.toHaveProperty('draft_document_id')
+    expect(updated).toEqual([{ id: artifact.id, changes: { draft_document_id: 'draft-1' } }])
+  })
+
+  it('should title pasted text and treat it as Markdown', async () => {
+    const { service } = createService()
+
+    const { artifact } = await service.ingestText({ organizationId: 'org-1', uploadedBy, text: 'Line one\r\nLine two' })
+
+    expect(artifact).toMatchObject({ kind: 'paste', fileName: 'Pasted text', mimeType: 'text/markdown' })
+    expect(ingestManualContent.mock.calls[0][0][0].content).toBe('Line one\nLine two')
+  })
+
+  it('should reject unsupported and empty uploads without drafting them', async () => {
+    const { service } = createService()
+
+    await expect(service.ingestFile({ organizationId: 'org-1', uploadedBy, fileName: 'deck.pptx', data: Buffer.from('x') }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_TYPE' })
+    await expect(service.ingestText({ organizationId: 'org-1', uploadedBy, text: '   \n ' }))
+      .rejects.toBeInstanceOf(ManualUploadError)
+
+    expect(ingestManualContent).not.toHaveBeenCalled()
+  })
+
+  it('should reject content that was already uploaded', async () => {
+    const { service } = createService([computeContentHash('Already here')])
+
+    await expect(service.ingestText({ organizationId: 'org-1', uploadedBy, text: 'Already here' }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_UPLOAD' })
+    expect(ingestManualContent).not.toHaveBeenCalled()
+  })
+
+  it('should not draft content whose hash another upload claimed first', async () => {
+    const { service } = createService([], { insert: { code: '23505', message: 'duplicate key value violates unique constraint' } })
+
+    await expect(service.ingestText({ organizationId: 'org-1', uploadedBy, text: 'Uploaded twice at once' }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_UPLOAD' })
+    expect(ingestManualContent).not.toHaveBeenCalled()
+  })
+
+  it('should release the content hash when drafting fails', async () => {
+    const { service, inserted, deleted } = createService()
+    ingestManualContent.mockRejectedValueOnce(new Error('Model timeout'))
+
+    await expect(service.ingestText({ organizationId: 'org-1', uploadedBy, text: 'Try again later' })).rejects.toThrow('Model timeout')
+
+    expect(deleted).toEqual([{ table: 'uploaded_artifacts', id: inserted[0].id }])
+  })
+
+  it('should delete the draft when it cannot be linked to its artifact', async () => {
+    const { service, inserted, deleted } = createService([], { update: { message: 'connection lost' } })
+
+    await expect(service.ingestText({ organizationId: 'org-1', uploadedBy, text: 'Orphaned draft' }))
+      .rejects.toThrow('Failed to link uploaded artifact to its draft: connection lost')
+
+    expect(deleted).toEqual([
+      { table: 'draft_documents', id: 'draft-1' },
+      { table: 'uploaded_artifacts', id: inserted[0].id }
+    ])
+  })
+
+  const mbox = [
+    'From ada@example.com Mon Mar  4 09:00:00 2024',
+    'Message-ID: <q1@example.com>',
+    'From: Ada <ada@example.com>',
+    'Subject: VPN access?',
+    'Date: Mon, 04 Mar 2024 09:00:00 +0000',
+    '',
+    'How do I deploy VPN access?',
+    '',
+    'From grace@example.com Mon Mar  4 10:00:00 2024',
+    'Message-ID: <a1@example.com>',
+    'In-Reply-To: <q1@example.com>',
+    'From: Grace <grace@example.com>',
+    'Subject: Re: VPN access?',
+    'Date: Mon, 04 Mar 2024 10:00:00 +0000',
+    '',
+    'Use the IT portal.',
+    '',
+    'On Mon, 4 Mar 2024, Ada wrote:',
+    '> How do I deploy VPN access?'
+  ].join('\n')
+  const eml = 'Message-ID: <other@example.com>\nSubject: Parking\nDate: Tue, 05 Mar 2024 09:00:00 +0000\n\nLevel 2 is reserved.'
+  const mailboxFiles = [
+    { fileName: 'export.mbox', data: Buffer.from(mbox) },
+    { fileName: 'parking.eml', data: Buffer.from(eml) }
+  ]
+
+  // What the ingestion job hands to the claim once it has redacted the items
+  async function redactGroups(groups: ContentChunk[][]): Promise<RedactedItem[][]> {
+    return await Promise.all(groups.map(async group => {
+      const redactions = await batchRedactPII(group.map(chunk => chunk.content))
+      return group.map((chunk, index) => ({
+        item: { ...chunk, content: redactions[index].redactedText },
+        contentHash: computeContentHash(chunk.content),
+        redaction: redactions[index]
+      }))
+    }))
+  }
+
+  it('should draft each thread of a mailbox in a background job with one item per message', async () => {
+    const { service, inserted } = createService()
+
+    const result = await service.ingestMailbox({ organizationId: 'org-1', uploadedBy, files: mailboxFiles })
+
+    expect(result.job.id).toBe('job-1')
+    expect(result.threads.map(thread => thread.subject)).toEqual(['VPN access?', 'Parking'])
+    expect(result.duplicates).toEqual([])
+    // Nothing is stored until the job has redacted the messages
+    expect(inserted).toEqual([])
+
+    const [organizationId, groups, claim] = startUploadIngestion.mock.calls[0]
+    expect(organizationId).toBe('org-1')
+    expect(groups.map(group => group.map(chunk => [chunk.id, chunk.content, chunk.metadata.author]))).toEqual([
+      [['email_q1@example.com', 'How do I deploy VPN access?', 'Ada'], ['email_a1@example.com', 'Use the IT portal.', 'Grace']],
+      [['email_other@example.com', 'Level 2 is reserved.', undefined]]
+    ])
+    expect(groups[0][1]).toMatchObject({
+      sourceType: 'email',
+      metadata: { threadId: 'q1@example.com', replyToId: 'q1@example.com', fileName: 'export.mbox' }
+    })
+
+    const redacted = await redactGroups(groups)
+    expect(await claim(redacted, result.job)).toEqual(redacted)
+    expect(inserted.map(row => [row.id, row.kind, row.ingestion_job_id, row.redacted_text])).toEqual([
+      [groups[0][0].sourceId, 'email_thread', 'job-1', 'How do I ****** VPN access?\n\n---\n\nUse the IT portal.'],
+      [groups[1][0].sourceId, 'email_thread', 'job-1', 'Level 2 is reserved.']
+    ])
+    expect(JSON.stringify(inserted)).not.toContain('deploy')
+  })
+
+  it('should leave threads that were already uploaded out of the mailbox job', async () => {
+    const first = createService()
+    await first.service.ingestMailbox({ organizationId: 'org-1', uploadedBy, files: mailboxFiles })
+    const [, groups, claim] = startUploadIngestion.mock.calls[0]
+    await claim(await redactGroups(groups), { id: 'job-1' } as IngestionJob)
+    const parkingHash = first.inserted[1].content_hash as string
+
+    const { service } = createService([parkingHash])
+    const result = await service.ingestMailbox({ organizationId: 'org-1', uploadedBy, files: mailboxFiles })
+
+    expect(result.threads.map(thread => thread.subject)).toEqual(['VPN access?'])
+    expect(result.duplicates.map(thread => thread.subject)).toEqual(['Parking'])
+    expect(startUploadIngestion.mock.calls[1][1]).toHaveLength(1)
+
+    const { service: repeated } = createService(first.inserted.map(row => row.content_hash as string))
+    await expect(repeated.ingestMailbox({ organizationId: 'org-1', uploadedBy, files: mailboxFiles }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_UPLOAD' })
+  })
+})
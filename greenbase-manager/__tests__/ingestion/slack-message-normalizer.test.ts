@@ -0,0 +1,55 @@
+import {
+  getSlackMentionedUserIds,
+  isSlackSystemMessage,
+  normalizeSlackMessage,
+  slackMrkdwnToMarkdown
+} from '@/lib/ingestion/slack-message-normalizer'
+
+const userNames = new Map([['U1', 'Ada'], ['U2', 'Grace']])
+
+describe('Slack message normalizer', () => {
+  describe('slackMrkdwnToMarkdown', () => {
+    it('should convert bold, strike and links', () => {
+      expect(slackMrkdwnToMarkdown('*Never* ~skip~ <https://wiki/x|the checklist> or <https://wiki/y>'))
+        .toBe('**Never** ~~skip~~ [the checklist](https://wiki/x) or https://wiki/y')
+    })
+
+    it('should resolve user, channel and broadcast mentions', () => {
+      expect(slackMrkdwnToMarkdown('<@U1> see <#C1|general>, <!here> and <@U9|sam>', userNames))
+        .toBe('@Ada see #general, @here and @sam')
+    })
+
+    it('should leave code untouched apart from entity decoding', () => {
+      expect(slackMrkdwnToMarkdown('Run `a *b* &amp;&amp; c` then *deploy*'))
+        .toBe('Run `a *b* && c` then **deploy**')
+    })
+  })
+
+  it('should collect mentioned user ids', () => {
+    expect(getSlackMentionedUserIds('<@U1> and <@U2|grace>')).toEqual(['U1', 'U2'])
+  })
+
+  it('should treat channel events as system messages', () => {
+    expect(isSlackSystemMessage({ ts: '1', subtype: 'channel_join', text: '<@U1> has joined' })).toBe(true)
+    expect(isSlackSystemMessage({ ts: '1', subtype: 'thread_broadcast', text: 'hi' })).toBe(false)
+    expect(isSlackSystemMessage({ ts: '1', text: 'hi' })).toBe(false)
+  })
+
+  describe('normalizeSlackMessage', () => {
+    it('should list shared files after the text', () => {
+      const content = normalizeSlackMessage({
+        ts: '1',
+        subtype: 'file_share',
+        text: 'Runbook attached',
+        files: [{ id: 'F1', name: 'runbook.pdf', permalink: 'https://acme.slack.com/files/F1' }]
+      })
+
+      expect(content).toBe('Runbook attached\n\n[Attachment: runbook.pdf](https://acme.slack.com/files/F1)')
+    })
+
+    it('should return null for events and empty messages', () => {
+      expect(normalizeSlackMessage({ ts: '1', subtype: 'channel_topic', text: 'set the topic' })).toBeNull()
+      expect(normalizeSlackMessage({ ts: '1', text: '   ' })).toBeNull()
+    })
+  })
+})
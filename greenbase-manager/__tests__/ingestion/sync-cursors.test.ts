@@ -0,0 +1,62 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { ContentIngestionService } from '../../src/lib/ingestion/content-ingestion-service'
+import type { ContentChunk, IngestionSource } from '../../src/lib/ingestion'
+import type { SyncCursors } from '../../src/lib/oauth/types'
+
+const source: IngestionSource = {
+  id: 'source-1',
+  type: 'teams',
+  userId: 'manager@example.com',
+  organizationId: 'org-1',
+  name: 'Engineering Teams',
+  isActive: true
+}
+
+function chunk(id: string): ContentChunk {
+  return {
+    id,
+    content: `Message ${id}`,
+    sourceType: 'teams',
+    sourceId: 'team-1/general',
+    metadata: { timestamp: new Date('2024-03-10T09:00:00Z') }
+  }
+}
+
+// Connector over three channels; the "broken" channel fails to list its changes
+function createService() {
+  const fetchItems = jest.fn(async (_source: IngestionSource, channel: string, cursor?: string) => {
+    if (channel === 'broken') throw new Error('Graph returned 503')
+    return { items: [chunk(`teams_${channel}`)], cursor: `${channel}-delta-${cursor ? 'next' : 'initial'}` }
+  })
+  const connector = {
+    cursorNamespace: 'teamChannels',
+    getSelections: () => ['general', 'broken', 'random'],
+    getSelectionKey: (channel: string) => channel,
+    describeSelection: (channel: string) => `channel ${channel}`,
+    fetchItems,
+    toContentChunks: async (_source: unknown, _channel: unknown, item: ContentChunk) => [item]
+  }
+
+  const service = new ContentIngestionService()
+  Object.assign(service, { connectorRegistry: { getConnector: () => connector } })
+  return { service, fetchItems }
+}
+
+describe('Sync cursors', () => {
+  it('should advance the cursor of each fetched selection and keep it for one that failed', async () => {
+    const { service, fetchItems } = createService()
+    const cursors: SyncCursors = { teamChannels: { general: 'general-delta-1', broken: 'broken-delta-1' } }
+
+    const chunks = await service['fetchSourceContent'](source, cursors)
+
+    expect(fetchItems.mock.calls.map(([, channel, cursor]) => [channel, cursor])).toEqual([
+      ['general', 'general-delta-1'],
+      ['broken', 'broken-delta-1'],
+      ['random', undefined]
+    ])
+    expect(chunks.map(item => item.id)).toEqual(['teams_general', 'teams_random'])
+    expect(cursors).toEqual({
+      teamChannels: { general: 'general-delta-next', broken: 'broken-delta-1', random: 'random-delta-initial' }
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import {
+  decodeHtmlEntities,
+  htmlToMarkdown,
+  isSystemMessage,
+  normalizeTeamsMessage
+} from '@/lib/ingestion/teams-message-normalizer'
+import type { TeamsMessage } from '@/lib/oauth/types'
+
+function htmlMessage(content: string, overrides: Partial<TeamsMessage> = {}): TeamsMessage {
+  return {
+    id: '1',
+    messageType: 'message',
+    createdDateTime: '2024-03-10T09:00:00Z',
+    body: { content, contentType: 'html' },
+    from: { user: { displayName: 'Megan Bowen', id: 'user-1' } },
+    ...overrides
+  }
+}
+
+describe('Teams message normalizer', () => {
+  describe('decodeHtmlEntities', () => {
+    it('should decode named and numeric entities', () => {
+      expect(decodeHtmlEntities('a &amp; b &lt;c&gt; &#39;d&#39; &#x1F600; &nbsp;')).toBe("a & b <c> 'd' 😀  ")
+    })
+
+    it('should leave unknown entities untouched', () => {
+      expect(decodeHtmlEntities('&unknown;')).toBe('&unknown;')
+    })
+  })
+
+  describe('htmlToMarkdown', () => {
+    it('should convert inline formatting and links', () => {
+      const markdown = htmlToMarkdown(
+        '<div>Use <strong>staging</strong> for <em>all</em> tests, see <a href="https://wiki/x">the wiki</a> or <code>npm test</code></div>'
+      )
+
+      expect(markdown).toBe('Use **staging** for _all_ tests, see [the wiki](https://wiki/x) or `npm test`')
+    })
+
+    it('should keep each div on its own line and separate paragraphs', () => {
+      expect(htmlToMarkdown('<div><div>First line</div><div>Second line</div></div><p>New paragraph</p>'))
+        .toBe('First line\nSecond line\n\nNew paragraph')
+    })
+
+    it('should convert ordered, unordered and nested lists', () => {
+      const markdown = htmlToMarkdown('<ol><li>Build</li><li>Deploy<ul><li>staging</li><li>prod</li></ul></li></ol>')
+
+      expect(markdown).toBe('1. Build\n2. Deploy\n  - staging\n  - prod')
+    })
+
+    it('should preserve whitespace in code blocks', () => {
+      const markdown = htmlToMarkdown('<p>Run:</p><pre><code>npm ci\n  npm run build</code></pre>')
+
+      expect(markdown).toBe('Run:\n\n```\nnpm ci\n  npm run build\n```')
+    })
+
+    it('should render headings, quotes and tables', () => {
+      const markdown = htmlToMarkdown(
+        '<h2>Runbook</h2><blockquote>Never deploy on Fridays</blockquote>' +
+        '<table><tr><th>Env</th><th>Owner</th></tr><tr><td>prod</td><td>Ops</td></tr></table>'
+      )
+
+      expect(markdown).toBe(
+        '## Runbook\n\n> Never deploy on Fridays\n\n| Env | Owner |\n| --- | --- |\n| prod | Ops |'
+      )
+    })
+
+    it('should resolve mentions to display names', () => {
+      const markdown = htmlToMarkdown('<p><at id="0">Megan</at> please review</p>', {
+        mentions: [{ id: 0, mentionText: 'Megan', mentioned: { user: { displayName: 'Megan Bowen', id: 'user-1' } } }]
+      })
+
+      expect(markdown).toBe('@Megan Bowen please review')
+    })
+
+    it('should fall back to the mention text when the mention is unknown', () => {
+      expect(htmlToMarkdown('<at id="3">Adele</at> thanks')).toBe('@Adele thanks')
+    })
+
+    it('should use emoji alt text and drop images without a description', () => {
+      expect(htmlToMarkdown('Done <emoji id="1f44d" alt="👍" title="Like"></emoji><img src="https://x/y.png">'))
+        .toBe('Done 👍')
+    })
+  })
+
+  describe('normalizeTeamsMessage', () => {
+    it('should drop system event messages', () => {
+      expect(normalizeTeamsMessage(htmlMessage('<systemEventMessage/>', { messageType: 'systemEventMessage' }))).toBeNull()
+      expect(isSystemMessage(htmlMessage('<systemEventMessage/>'))).toBe(true)
+    })
+
+    it('should turn attachment placeholders into references', () => {
+      const message = htmlMessage('<p>Spec attached</p><attachment id="att-1"></attachment>', {
+        attachments: [{ id: 'att-1', contentType: 'reference', contentUrl: 'https://files/spec.docx', name: 'spec.docx' }]
+      })
+
+      expect(normalizeTeamsMessage(message)).toBe('Spec attached\n\n[Attachment: spec.docx](https://files/spec.docx)')
+    })
+
+    it('should drop quoted-reply and card placeholders', () => {
+      const message = htmlMessage('<attachment id="q"></attachment><p>Agreed</p><attachment id="card"></attachment>', {
+        attachments: [
+          { id: 'q', contentType: 'messageReference', content: '{"messagePreview":"Old"}' },
+          { id: 'card', contentType: 'application/vnd.microsoft.card.adaptive', content: '{}' }
+        ]
+      })
+
+      expect(normalizeTeamsMessage(message)).toBe('Agreed')
+    })
+
+    it('should append attachments that had no inline placeholder', () => {
+      const message = htmlMessage('<p>See file</p>', {
+        attachments: [{ id: 'att-2', contentType: 'reference', contentUrl: 'https://files/plan.xlsx', name: 'plan.xlsx' }]
+      })
+
+      expect(normalizeTeamsMessage(message)).toBe('See file\n\n[Attachment: plan.xlsx](https://files/plan.xlsx)')
+    })
+
+    it('should pass plain text bodies through', () => {
+      const message = htmlMessage('  plain text  ', { body: { content: '  plain text  ', contentType: 'text' } })
+
+      expect(normalizeTeamsMessage(message)).toBe('plain text')
+    })
+
+    it('should return null when nothing is left', () => {
+      expect(normalizeTeamsMessage(htmlMessage('<div> </div>'))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('../../src/lib/config')
+jest.mock('../../src/lib/azure-keyvault')
+
+import { MicrosoftGraphService, encodeMicrosoftAuthState, parseMicrosoftAuthState } from '../../src/lib/oauth/microsoft-graph'
+import { getSourceProvider } from '../../src/lib/oauth/oauth-service'
+
+describe('Microsoft OAuth state', () => {
+  it('keeps the bare userId for Teams so older authorizations still complete', () => {
+    expect(encodeMicrosoftAuthState('user@example.com')).toBe('user@example.com')
+    expect(parseMicrosoftAuthState('user@example.com')).toEqual({ userId: 'user@example.com', sourceType: 'teams' })
+  })
+
+  it('round-trips OneDrive and SharePoint source types', () => {
+    for (const sourceType of ['onedrive', 'sharepoint'] as const) {
+      const state = encodeMicrosoftAuthState('user@example.com', sourceType)
+      expect(state).not.toContain('@')
+      expect(parseMicrosoftAuthState(state)).toEqual({ userId: 'user@example.com', sourceType })
+    }
+  })
+
+  it('treats unrecognised prefixes as a plain userId', () => {
+    expect(parseMicrosoftAuthState('dropbox.dXNlcg')).toEqual({ userId: 'dropbox.dXNlcg', sourceType: 'teams' })
+  })
+})
+
+describe('Microsoft Graph scopes', () => {
+  it('only asks for meeting access when meetings are connected', async () => {
+    const getAuthCodeUrl = jest.fn<(request: { scopes: string[] }) => Promise<string>>(async () => 'https://login.microsoftonline.com/authorize')
+    const service = new MicrosoftGraphService()
+    Object.assign(service, { msalApp: { getAuthCodeUrl } })
+
+    await service.getAuthUrl('user@example.com', 'teams')
+    await service.getAuthUrl('user@example.com', 'teams_meetings')
+
+    const [teamsScopes, meetingScopes] = getAuthCodeUrl.mock.calls.map(([request]) => request.scopes)
+    expect(teamsScopes).toContain('https://graph.microsoft.com/ChannelMessage.Read.All')
+    expect(teamsScopes.some(scope => scope.includes('OnlineMeeting'))).toBe(false)
+    expect(meetingScopes).toContain('https://graph.microsoft.com/OnlineMeetingTranscript.Read.All')
+    expect(meetingScopes).not.toContain('https://graph.microsoft.com/ChannelMessage.Read.All')
+  })
+})
+
+describe('getSourceProvider', () => {
+  it('maps every Microsoft source type to the microsoft provider', () => {
+    expect(getSourceProvider('teams')).toBe('microsoft')
+    expect(getSourceProvider('onedrive')).toBe('microsoft')
+    expect(getSourceProvider('sharepoint')).toBe('microsoft')
+    expect(getSourceProvider('google_drive')).toBe('google')
+  })
+})
@@ -12,6 +12,16 @@ jest.mock('../../src/lib/azure-keyvault')
 jest.mock('@supabase/supabase-js')
 
 import { getOAuthService } from '../../src/lib/oauth/oauth-service'
+import { SourceConnectorRegistry, getSourceConnectorRegistry } from '../../src/lib/connectors/connector-registry'
+import type { ProviderAuthAdapter } from '../../src/lib/connectors/types'
+
+// The registered connectors, with a fake auth adapter for one provider
+function registryWith(adapter: object): SourceConnectorRegistry {
+  const registry = new SourceConnectorRegistry()
+  getSourceConnectorRegistry().getConnectors().forEach(connector => registry.register(connector))
+  registry.registerAuthAdapter(adapter as ProviderAuthAdapter)
+  return registry
+}
 
 describe('OAuth Security Compliance', () => {
   let oauthService: any
@@ -30,7 +40,9 @@ describe('OAuth Security Compliance', () => {
         scopes: ['scope1']
       }
 
-      const mockMicrosoftService = {
+      const mockMicrosoftAuth = {
+        provider: 'microsoft',
+        defaultSourceType: 'teams',
         exchangeCodeForTokens: jest.fn().mockResolvedValue(mockTokens)
       }
 
@@ -49,7 +61,7 @@ describe('OAuth Security Compliance', () => {
         })
       }
 
-      oauthService.microsoftService = mockMicrosoftService
+      oauthService.connectorRegistry = registryWith(mockMicrosoftAuth)
       oauthService.keyVaultService = mockKeyVaultService
       oauthService.supabase = mockSupabase
 
@@ -118,7 +130,7 @@ describe('OAuth Security Compliance', () => {
       
       // SECURITY CHECK: Verify database query excludes token columns
       expect(mockSupabase.select).toHaveBeenCalledWith(
-        'id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, last_sync_at, is_active'
+        'id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, selected_drive_folders, selected_slack_channels, sync_cursors, grouping_strategy, drive_filters, last_sync_at, is_active'
       )
 
       // Verify tokens are included in response (from Key Vault)
@@ -133,55 +145,84 @@ describe('OAuth Security Compliance', () => {
       })
     })
 
-    it('should delete tokens from Key Vault when disconnecting source', async () => {
-      const mockKeyVaultService = {
-        deleteOAuthTokens: jest.fn().mockResolvedValue(undefined)
-      }
-
-      const mockMicrosoftService = {
-        revokeTokens: jest.fn().mockResolvedValue(undefined)
-      }
-
-      const mockSupabase = {
-        from: jest.fn().mockReturnThis(),
+    // The source lookup, its deactivation, then the lookup of other active sources of the provider
+    function disconnectQueries(remainingSources: Array<{ id: string }>) {
+      const sourceQuery = {
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
         single: jest.fn().mockResolvedValue({
           data: { id: 'source123', type: 'teams', user_id: 'user123', is_active: true },
           error: null
-        }),
-        update: jest.fn().mockReturnThis()
+        })
       }
-
-      // Mock the chained calls for select query
-      const mockSelectChain = {
+      const updateQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn(() => ({ eq: jest.fn(async () => ({ error: null })) }))
+      }
+      const remainingQuery = {
+        select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({
-          data: { id: 'source123', type: 'teams', user_id: 'user123', is_active: true },
-          error: null
-        })
+        in: jest.fn<(column: string, types: string[]) => unknown>().mockReturnThis(),
+        limit: jest.fn(async () => ({ data: remainingSources, error: null }))
+      }
+
+      return {
+        remainingQuery,
+        supabase: {
+          from: jest.fn()
+            .mockReturnValueOnce(sourceQuery)
+            .mockReturnValueOnce(updateQuery)
+            .mockReturnValueOnce(remainingQuery)
+        }
+      }
+    }
+
+    it('should delete tokens from Key Vault when disconnecting source', async () => {
+      const mockKeyVaultService = {
+        deleteOAuthTokens: jest.fn().mockResolvedValue(undefined)
       }
 
-      // Mock the chained calls for update query
-      const mockUpdateChain = {
-        eq: jest.fn().mockResolvedValue({ error: null })
+      const mockMicrosoftAuth = {
+        provider: 'microsoft',
+        revokeTokens: jest.fn().mockResolvedValue(undefined)
       }
 
-      mockSupabase.eq = jest.fn()
-        .mockReturnValueOnce(mockSelectChain) // First call for select
-        .mockReturnValueOnce(mockUpdateChain) // Second call for update
+      const { supabase, remainingQuery } = disconnectQueries([])
 
       oauthService.keyVaultService = mockKeyVaultService
-      oauthService.microsoftService = mockMicrosoftService
-      oauthService.supabase = mockSupabase
+      oauthService.connectorRegistry = registryWith(mockMicrosoftAuth)
+      oauthService.supabase = supabase
 
       await oauthService.disconnectSource('user123', 'source123')
 
+      // Only sources sharing the Microsoft tokens count
+      expect(remainingQuery.in.mock.calls[0][1].sort()).toEqual(['onedrive', 'sharepoint', 'teams', 'teams_meetings'])
+
       // SECURITY CHECK: Verify tokens deleted from Key Vault
       expect(mockKeyVaultService.deleteOAuthTokens).toHaveBeenCalledWith('user123', 'microsoft')
       
       // SECURITY CHECK: Verify provider tokens revoked
-      expect(mockMicrosoftService.revokeTokens).toHaveBeenCalledWith('user123')
+      expect(mockMicrosoftAuth.revokeTokens).toHaveBeenCalledWith('user123')
+    })
+
+    it('should keep the provider tokens while another active source still uses them', async () => {
+      const mockKeyVaultService = {
+        deleteOAuthTokens: jest.fn().mockResolvedValue(undefined)
+      }
+
+      const mockMicrosoftAuth = {
+        provider: 'microsoft',
+        revokeTokens: jest.fn().mockResolvedValue(undefined)
+      }
+
+      oauthService.keyVaultService = mockKeyVaultService
+      oauthService.connectorRegistry = registryWith(mockMicrosoftAuth)
+      oauthService.supabase = disconnectQueries([{ id: 'onedrive-source' }]).supabase
+
+      await oauthService.disconnectSource('user123', 'source123')
+
+      expect(mockMicrosoftAuth.revokeTokens).not.toHaveBeenCalled()
+      expect(mockKeyVaultService.deleteOAuthTokens).not.toHaveBeenCalled()
     })
   })
 
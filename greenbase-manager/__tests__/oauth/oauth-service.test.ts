@@ -12,6 +12,16 @@ jest.mock('../../src/lib/azure-keyvault')
 jest.mock('@supabase/supabase-js')
 
 import { getOAuthService } from '../../src/lib/oauth/oauth-service'
+import { SourceConnectorRegistry, getSourceConnectorRegistry } from '../../src/lib/connectors/connector-registry'
+import type { ProviderAuthAdapter } from '../../src/lib/connectors/types'
+
+// The registered connectors, with a fake auth adapter for one provider
+function registryWith(adapter: object): SourceConnectorRegistry {
+  const registry = new SourceConnectorRegistry()
+  getSourceConnectorRegistry().getConnectors().forEach(connector => registry.register(connector))
+  registry.registerAuthAdapter(adapter as ProviderAuthAdapter)
+  return registry
+}
 
 describe('OAuthService', () => {
   let oauthService: any
@@ -23,33 +33,44 @@ describe('OAuthService', () => {
 
   describe('getAuthUrl', () => {
     it('should generate Microsoft auth URL', async () => {
-      const mockMicrosoftService = {
+      const mockMicrosoftAuth = {
+        provider: 'microsoft',
+        defaultSourceType: 'teams',
         getAuthUrl: jest.fn().mockResolvedValue('https://login.microsoftonline.com/oauth2/authorize?...')
       }
       
-      // Mock the Microsoft service
-      oauthService.microsoftService = mockMicrosoftService
+      // Mock the Microsoft auth adapter
+      oauthService.connectorRegistry = registryWith(mockMicrosoftAuth)
       
       const authUrl = await oauthService.getAuthUrl('microsoft', 'user123')
       
-      expect(mockMicrosoftService.getAuthUrl).toHaveBeenCalledWith('user123')
+      expect(mockMicrosoftAuth.getAuthUrl).toHaveBeenCalledWith('user123', 'teams')
       expect(authUrl).toBe('https://login.microsoftonline.com/oauth2/authorize?...')
     })
 
     it('should generate Google auth URL', async () => {
-      const mockGoogleService = {
+      const mockGoogleAuth = {
+        provider: 'google',
+        defaultSourceType: 'google_drive',
         getAuthUrl: jest.fn().mockResolvedValue('https://accounts.google.com/oauth2/auth?...')
       }
       
-      // Mock the Google service
-      oauthService.googleService = mockGoogleService
+      // Mock the Google auth adapter
+      oauthService.connectorRegistry = registryWith(mockGoogleAuth)
       
       const authUrl = await oauthService.getAuthUrl('google', 'user123')
       
-      expect(mockGoogleService.getAuthUrl).toHaveBeenCalledWith('user123')
+      expect(mockGoogleAuth.getAuthUrl).toHaveBeenCalledWith('user123', 'google_drive')
       expect(authUrl).toBe('https://accounts.google.com/oauth2/auth?...')
     })
 
+    it('should reject a source type of another provider', async () => {
+      oauthService.connectorRegistry = registryWith({ provider: 'microsoft', defaultSourceType: 'teams', getAuthUrl: jest.fn() })
+
+      await expect(oauthService.getAuthUrl('microsoft', 'user123', 'google_drive'))
+        .rejects.toThrow('Source type google_drive is not connected through microsoft')
+    })
+
     it('should throw error for unsupported provider', async () => {
       await expect(oauthService.getAuthUrl('unsupported' as any, 'user123'))
         .rejects.toThrow('Unsupported provider: unsupported')
@@ -65,7 +86,9 @@ describe('OAuthService', () => {
         scopes: ['scope1', 'scope2']
       }
 
-      const mockMicrosoftService = {
+      const mockMicrosoftAuth = {
+        provider: 'microsoft',
+        defaultSourceType: 'teams',
         exchangeCodeForTokens: jest.fn().mockResolvedValue(mockTokens)
       }
 
@@ -93,13 +116,13 @@ describe('OAuthService', () => {
         })
       }
 
-      oauthService.microsoftService = mockMicrosoftService
+      oauthService.connectorRegistry = registryWith(mockMicrosoftAuth)
       oauthService.keyVaultService = mockKeyVaultService
       oauthService.supabase = mockSupabase
 
       const result = await oauthService.handleCallback('microsoft', 'auth_code_123', 'user123', 'Microsoft Teams')
 
-      expect(mockMicrosoftService.exchangeCodeForTokens).toHaveBeenCalledWith('auth_code_123', 'user123')
+      expect(mockMicrosoftAuth.exchangeCodeForTokens).toHaveBeenCalledWith('auth_code_123', 'user123', 'teams')
       expect(mockKeyVaultService.storeOAuthTokens).toHaveBeenCalledWith('user123', 'microsoft', 'access_token_123', 'refresh_token_123')
       expect(mockSupabase.from).toHaveBeenCalledWith('connected_sources')
       expect(result).toEqual({
@@ -0,0 +1,148 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { MicrosoftGraphService } from '../../src/lib/oauth/microsoft-graph'
+import { GoogleDriveService } from '../../src/lib/oauth/google-drive'
+
+type GraphPage = {
+  value: Array<{ id: string; deletedDateTime?: string }>
+  '@odata.nextLink'?: string
+  '@odata.deltaLink'?: string
+}
+
+// Graph client whose requests resolve through a handler keyed by URL
+function createFakeGraphClient(handler: (url: string) => GraphPage) {
+  const requested: string[] = []
+  const client = {
+    api: (url: string) => {
+      const request = {
+        top: () => request,
+        orderby: () => request,
+        query: () => request,
+        middlewareOptions: () => request,
+        get: async () => {
+          requested.push(url)
+          return handler(url)
+        }
+      }
+      return request
+    }
+  }
+  return { client, requested }
+}
+
+function throttled() {
+  return Object.assign(new Error('Too many requests'), { statusCode: 429, headers: new Headers({ 'Retry-After': '0' }) })
+}
+
+describe('Provider pagination and throttling', () => {
+  it('should follow every Graph nextLink and retry a throttled page', async () => {
+    let throttledOnce = false
+    const { client, requested } = createFakeGraphClient(url => {
+      if (url === '/me/drive/root/children') return { value: [{ id: 'a' }], '@odata.nextLink': 'page-2' }
+      if (url === 'page-2' && !throttledOnce) {
+        throttledOnce = true
+        throw throttled()
+      }
+      if (url === 'page-2') return { value: [{ id: 'b' }], '@odata.nextLink': 'page-3' }
+      return { value: [{ id: 'c' }] }
+    })
+    const service = new MicrosoftGraphService()
+    Object.assign(service, { getGraphClient: async () => client })
+
+    const items = await service.getDriveItems('user@example.com')
+
+    expect(items.map(item => item.id)).toEqual(['a', 'b', 'c'])
+    expect(requested).toEqual(['/me/drive/root/children', 'page-2', 'page-2', 'page-3'])
+  })
+
+  it('should stop paging channel messages once the limit is reached', async () => {
+    const { client, requested } = createFakeGraphClient(url =>
+      url === 'page-2'
+        ? { value: [{ id: 'm3' }, { id: 'm4' }], '@odata.nextLink': 'page-3' }
+        : { value: [{ id: 'm1' }, { id: 'm2' }], '@odata.nextLink': 'page-2' }
+    )
+    const service = new MicrosoftGraphService()
+    Object.assign(service, { getGraphClient: async () => client })
+
+    const messages = await service.getChannelMessages('user@example.com', 'team-1', 'channel-1', 3)
+
+    expect(messages.map(message => message.id)).toEqual(['m1', 'm2', 'm3'])
+    expect(requested).toHaveLength(2)
+  })
+
+  it('should read every page of a Google Drive folder', async () => {
+    const file = (id: string) => ({ id, name: `${id}.md`, mimeType: 'text/markdown', webViewLink: `https://drive/${id}` })
+    const list = jest.fn(async ({ pageToken }: { pageToken?: string }) =>
+      pageToken
+        ? { data: { files: [file('f2')] } }
+        : { data: { files: [file('f1')], nextPageToken: 'token-2' } }
+    )
+    const service = new GoogleDriveService()
+    Object.assign(service, { getDriveClient: async () => ({ files: { list } }) })
+
+    const items = await service.getDriveItems('user@example.com', 'folder-1')
+
+    expect(items.map(item => item.id)).toEqual(['f1', 'f2'])
+    expect(list.mock.calls.map(([params]) => params.pageToken)).toEqual([undefined, 'token-2'])
+  })
+
+  it('should follow Graph delta pages to the deltaLink and resume from it', async () => {
+    const { client, requested } = createFakeGraphClient(url => {
+      if (url === '/teams/team-1/channels/channel-1/messages/delta') return { value: [{ id: 'm1' }], '@odata.nextLink': 'delta-page-2' }
+      if (url === 'delta-page-2') {
+        return { value: [{ id: 'm2', deletedDateTime: '2024-03-01T10:00:00Z' }, { id: 'm3' }], '@odata.deltaLink': 'delta-link-2' }
+      }
+      if (url === 'delta-link-2') return { value: [{ id: 'm4' }], '@odata.deltaLink': 'delta-link-3' }
+      return { value: [] }
+    })
+    const service = new MicrosoftGraphService()
+    Object.assign(service, { getGraphClient: async () => client })
+
+    const initial = await service.getChannelMessagesDelta('user@example.com', 'team-1', 'channel-1')
+    const incremental = await service.getChannelMessagesDelta('user@example.com', 'team-1', 'channel-1', initial.deltaLink)
+
+    expect(initial.messages.map(message => message.id)).toEqual(['m1', 'm3'])
+    expect(initial.deltaLink).toBe('delta-link-2')
+    expect(incremental.messages.map(message => message.id)).toEqual(['m4'])
+    expect(incremental.deltaLink).toBe('delta-link-3')
+    expect(requested).toEqual(['/teams/team-1/channels/channel-1/messages/delta', 'delta-page-2', 'delta-link-2'])
+  })
+
+  it('should fail a Graph delta query that ends without a deltaLink', async () => {
+    const { client } = createFakeGraphClient(() => ({ value: [{ id: 'm1' }] }))
+    const service = new MicrosoftGraphService()
+    Object.assign(service, { getGraphClient: async () => client })
+
+    await expect(service.getChannelMessagesDelta('user@example.com', 'team-1', 'channel-1'))
+      .rejects.toMatchObject({ code: 'GET_MESSAGES_DELTA_ERROR', message: expect.stringContaining('did not return a delta link') })
+  })
+
+  it('should walk Drive change pages to the newStartPageToken, skipping removed and trashed files', async () => {
+    const change = (fileId: string, extra: Record<string, unknown> = {}) => ({
+      fileId,
+      removed: false,
+      file: { id: fileId, name: `${fileId}.md`, mimeType: 'text/markdown', webViewLink: `https://drive/${fileId}`, parents: ['folder-1'], ...extra }
+    })
+    const list = jest.fn(async ({ pageToken }: { pageToken?: string }) =>
+      pageToken === 'token-1'
+        ? { data: { changes: [change('a'), { fileId: 'b', removed: true }, change('c', { trashed: true })], nextPageToken: 'token-1b' } }
+        : { data: { changes: [change('d')], newStartPageToken: 'token-2' } }
+    )
+    const service = new GoogleDriveService()
+    Object.assign(service, { getDriveClient: async () => ({ changes: { list } }) })
+
+    const changes = await service.getChanges('user@example.com', 'token-1')
+
+    expect(changes.items.map(item => item.id)).toEqual(['a', 'd'])
+    expect(changes.newStartPageToken).toBe('token-2')
+    expect(list.mock.calls.map(([params]) => params.pageToken)).toEqual(['token-1', 'token-1b'])
+  })
+
+  it('should fail Drive changes that end without a newStartPageToken', async () => {
+    const list = jest.fn(async () => ({ data: { changes: [] } }))
+    const service = new GoogleDriveService()
+    Object.assign(service, { getDriveClient: async () => ({ changes: { list } }) })
+
+    await expect(service.getChanges('user@example.com', 'token-1'))
+      .rejects.toMatchObject({ code: 'GET_CHANGES_ERROR', message: expect.stringContaining('new start page token') })
+  })
+})
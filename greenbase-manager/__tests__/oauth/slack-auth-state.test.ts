@@ -0,0 +1,44 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('../../src/lib/config')
+jest.mock('../../src/lib/azure-keyvault')
+
+import { SlackService } from '../../src/lib/oauth/slack'
+
+function createService(clientSecret = 'slack-secret') {
+  const service = new SlackService()
+  Object.assign(service, { config: { oauth: { slack: { clientId: 'client-1', clientSecret } } } })
+  return service
+}
+
+async function authState(service: SlackService): Promise<string> {
+  return new URL(await service.getAuthUrl('manager@example.com')).searchParams.get('state')!
+}
+
+describe('Slack OAuth state', () => {
+  it('signs the state instead of passing the bare userId', async () => {
+    const service = createService()
+
+    const state = await authState(service)
+
+    expect(state).not.toContain('manager@example.com')
+    expect(await authState(service)).not.toBe(state)
+    await expect(service.verifyAuthState(state)).resolves.toBe('manager@example.com')
+  })
+
+  it('rejects a bare userId, a state signed with another secret and an expired state', async () => {
+    const service = createService()
+    const forged = await authState(createService('other-secret'))
+    const issued = await authState(service)
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000)
+
+    try {
+      await expect(service.verifyAuthState('manager@example.com')).rejects.toMatchObject({ code: 'INVALID_STATE' })
+      await expect(service.verifyAuthState(forged)).rejects.toThrow('Invalid Slack OAuth state')
+      await expect(service.verifyAuthState(issued)).rejects.toThrow('Slack OAuth state has expired')
+    } finally {
+      jest.restoreAllMocks()
+    }
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('../../src/lib/config')
+jest.mock('../../src/lib/azure-keyvault')
+
+import {
+  FakeTranscriptionBackend,
+  TranscriptionService,
+  TranscriptionError,
+  parseWebVtt,
+  type Transcript,
+  type TranscriptionBackend
+} from '../../src/lib/transcription'
+
+describe('parseWebVtt', () => {
+  it('should attribute cues to their voice and drop other markup', () => {
+    const transcript = parseWebVtt([
+      'WEBVTT',
+      '',
+      'cue-1',
+      '00:00:01.500 --> 00:00:04.000',
+      '<v Ada Lovelace>The <b>migration</b> is done &amp; tested.</v>',
+      '',
+      '01:02:03.000 --> 01:02:05.250',
+      'Unattributed closing remark'
+    ].join('\r\n'))
+
+    expect(transcript.segments).toEqual([
+      { speaker: 'Ada Lovelace', startMs: 1500, endMs: 4000, text: 'The migration is done & tested.' },
+      { speaker: undefined, startMs: 3_723_000, endMs: 3_725_250, text: 'Unattributed closing remark' }
+    ])
+    expect(transcript.durationMs).toBe(3_725_250)
+  })
+})
+
+describe('FakeTranscriptionBackend', () => {
+  it('should read scripted recordings and end each line where the next begins', async () => {
+    const backend = new FakeTranscriptionBackend()
+    const script = '[00:05] Ada: Shall we ship?\n[00:09] Charles: Only if the migration is done.'
+
+    const transcript = await backend.transcribe(Buffer.from(script), 'audio/wav')
+
+    expect(transcript.segments).toEqual([
+      { speaker: 'Ada', startMs: 5000, endMs: 9000, text: 'Shall we ship?' },
+      { speaker: 'Charles', startMs: 9000, endMs: 11_400, text: 'Only if the migration is done.' }
+    ])
+  })
+})
+
+describe('TranscriptionService', () => {
+  function createService(backend: TranscriptionBackend): TranscriptionService {
+    const service = new TranscriptionService()
+    Object.assign(service, { backend, defaultLocales: ['en-US', 'de-DE'] })
+    return service
+  }
+
+  it('should pass the configured locales to the backend unless the caller chooses', async () => {
+    const transcribe = jest.fn<TranscriptionBackend['transcribe']>(async (): Promise<Transcript> => ({ segments: [] }))
+    const service = createService({ name: 'stub', transcribe })
+
+    await service.transcribe(Buffer.from('audio'), 'video/mp4')
+    await service.transcribe(Buffer.from('audio'), 'audio/mpeg', { locales: ['es-ES'] })
+
+    expect(transcribe.mock.calls.map(call => call[2])).toEqual([{ locales: ['en-US', 'de-DE'] }, { locales: ['es-ES'] }])
+  })
+
+  it('should reject files without speech and wrap backend failures', async () => {
+    const service = createService({
+      name: 'stub',
+      transcribe: async () => {
+        throw new Error('socket hang up')
+      }
+    })
+
+    await expect(service.transcribe(Buffer.from('text'), 'application/pdf')).rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' })
+    await expect(service.transcribe(Buffer.from('audio'), 'audio/wav')).rejects.toEqual(
+      expect.objectContaining({ code: 'TRANSCRIPTION_FAILED', message: 'Transcription with stub failed: socket hang up' })
+    )
+    await expect(service.transcribe(Buffer.alloc(0), 'audio/wav')).rejects.toBeInstanceOf(TranscriptionError)
+  })
+})
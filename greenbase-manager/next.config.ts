@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // pdf-parse loads its bundled pdf.js build with a dynamic require that bundling breaks
+  serverExternalPackages: ['pdf-parse'],
 };
 
 export default nextConfig;
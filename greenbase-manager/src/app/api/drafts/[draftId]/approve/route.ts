@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDraftApprovalService, DraftApprovalError } from '../../../../../lib/ingestion'
+import { requireManager } from '../../../../../lib/auth-server'
+
+const ERROR_STATUS: Record<string, number> = {
+  DRAFT_NOT_FOUND: 404,
+  DRAFT_NOT_PENDING: 409
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { draftId } = await params
+    const approval = await getDraftApprovalService().approveDraft(draftId, {
+      id: user.id,
+      organizationId: user.organizationId
+    })
+
+    return NextResponse.json({ approval })
+  } catch (error) {
+    if (error instanceof DraftApprovalError && ERROR_STATUS[error.code]) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Approve draft error:', error)
+    return NextResponse.json(
+      { error: 'Failed to approve draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getIngestionSettingsStore,
+  validateIngestionConcurrency,
+  validateDraftLanguageSettings,
+  validateChunkingStrategy
+} from '../../../../lib/ingestion'
+import { requireManager } from '../../../../lib/auth-server'
+
+export async function GET() {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const settings = await getIngestionSettingsStore().getSettings(user.organizationId)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Get ingestion settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get ingestion settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { concurrency, draftLanguageMode, canonicalLanguage, chunkingStrategy } = await request.json()
+
+    if (concurrency === undefined && draftLanguageMode === undefined && canonicalLanguage === undefined && chunkingStrategy === undefined) {
+      return NextResponse.json({ error: 'No settings to update' }, { status: 400 })
+    }
+
+    const validationError = (concurrency !== undefined ? validateIngestionConcurrency(concurrency) : null)
+      || validateDraftLanguageSettings({ draftLanguageMode, canonicalLanguage })
+      || (chunkingStrategy !== undefined ? validateChunkingStrategy(chunkingStrategy) : null)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const settings = await getIngestionSettingsStore().updateSettings(user.organizationId, {
+      concurrency,
+      draftLanguageMode,
+      canonicalLanguage,
+      chunkingStrategy
+    })
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Update ingestion settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update ingestion settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
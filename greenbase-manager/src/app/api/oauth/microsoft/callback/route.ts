@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { parseMicrosoftAuthState } from '../../../../../lib/oauth/microsoft-graph'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const code = searchParams.get('code')
-    const state = searchParams.get('state') // This contains the userId
+    const state = searchParams.get('state') // This contains the userId and source type
     const error = searchParams.get('error')
 
     if (error) {
@@ -21,12 +22,15 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const { userId, sourceType } = parseMicrosoftAuthState(state)
+
     const oauthService = getOAuthService()
     const connectedSource = await oauthService.handleCallback(
       'microsoft',
       code,
-      state, // userId from state parameter
-      'Microsoft Teams' // Default name, can be customized later
+      userId,
+      undefined, // Default name for the source type, can be customized later
+      sourceType
     )
 
     // Redirect to success page with source ID
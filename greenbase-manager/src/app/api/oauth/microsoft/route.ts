@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getOAuthService } from '../../../../lib/oauth/oauth-service'
+import { OAuthError, SourceType } from '../../../../lib/oauth/types'
 import { getServerSession } from 'next-auth'
 
 export async function GET(request: NextRequest) {
@@ -8,11 +9,20 @@ export async function GET(request: NextRequest) {
     // In production, this should get the user ID from the session
     const testUserId = 'test-user-123'
 
+    // ?sourceType= connects another source of a connector registered for Microsoft, e.g. onedrive,
+    // instead of Teams channels. The OAuth service rejects types that are not connected through Microsoft.
+    const { searchParams } = new URL(request.url)
+    const sourceType = (searchParams.get('sourceType') || undefined) as SourceType | undefined
+
     const oauthService = getOAuthService()
-    const authUrl = await oauthService.getAuthUrl('microsoft', testUserId)
+    const authUrl = await oauthService.getAuthUrl('microsoft', testUserId, sourceType)
 
     return NextResponse.json({ authUrl })
   } catch (error: any) {
+    if (error instanceof OAuthError && error.code === 'UNSUPPORTED_SOURCE_TYPE') {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 })
+    }
+
     console.error('Microsoft OAuth initiation error:', error)
     return NextResponse.json(
       { error: 'Failed to initiate Microsoft OAuth', details: error.message },
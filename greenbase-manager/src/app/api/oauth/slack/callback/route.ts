@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { getSlackService } from '../../../../../lib/oauth/slack'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const state = searchParams.get('state') // Signed userId of the user who started the install
+    const error = searchParams.get('error')
+
+    if (error) {
+      console.error('Slack OAuth error:', error)
+      return NextResponse.redirect(
+        new URL(`/dashboard/sources?error=${encodeURIComponent(error)}`, request.url)
+      )
+    }
+
+    if (!code || !state) {
+      return NextResponse.redirect(
+        new URL('/dashboard/sources?error=missing_parameters', request.url)
+      )
+    }
+
+    const userId = await getSlackService().verifyAuthState(state)
+
+    const oauthService = getOAuthService()
+    const connectedSource = await oauthService.handleCallback(
+      'slack',
+      code,
+      userId,
+      'Slack' // Default name, can be customized later
+    )
+
+    // Redirect to success page with source ID
+    return NextResponse.redirect(
+      new URL(`/dashboard/sources?success=slack&sourceId=${connectedSource.id}`, request.url)
+    )
+  } catch (error) {
+    console.error('Slack OAuth callback error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.redirect(
+      new URL(`/dashboard/sources?error=${encodeURIComponent(message)}`, request.url)
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getOAuthService } from '../../../../lib/oauth/oauth-service'
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const oauthService = getOAuthService()
+    const authUrl = await oauthService.getAuthUrl('slack', session.user.email)
+
+    return NextResponse.json({ authUrl })
+  } catch (error) {
+    console.error('Slack OAuth initiation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to initiate Slack OAuth', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { getServerSession } from 'next-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Works for every source type: top-level containers first, then ?parentId=<container id> to drill in
+    const { searchParams } = new URL(request.url)
+    const parentId = searchParams.get('parentId')
+    const search = searchParams.get('search')
+    const { sourceId } = await params
+
+    const oauthService = getOAuthService()
+    const containers = await oauthService.getSourceContainers(session.user.email, sourceId, {
+      parentId: parentId || undefined,
+      search: search || undefined
+    })
+
+    return NextResponse.json({ containers })
+  } catch (error) {
+    console.error('Get source containers error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get source containers', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -15,20 +15,23 @@ export async function GET(
 
     const { searchParams } = new URL(request.url)
     const folderId = searchParams.get('folderId')
+    // Required for OneDrive/SharePoint sources, whose folders live in a specific drive or library
+    const driveId = searchParams.get('driveId')
     const { sourceId } = await params
 
     const oauthService = getOAuthService()
     const folders = await oauthService.getDriveFolders(
       session.user.email, 
       sourceId, 
-      folderId || undefined
+      folderId || undefined,
+      driveId || undefined
     )
 
     return NextResponse.json({ folders })
   } catch (error: any) {
-    console.error('Get Drive folders error:', error)
+    console.error('Get drive folders error:', error)
     return NextResponse.json(
-      { error: 'Failed to get Drive folders', details: error.message },
+      { error: 'Failed to get drive folders', details: error.message },
       { status: 500 }
     )
   }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { OAuthError } from '../../../../../lib/oauth/types'
+import { getServerSession } from 'next-auth'
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_GROUPING_STRATEGY: 400,
+  SOURCE_NOT_FOUND: 404
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { strategy } = body
+    const { sourceId } = await params
+
+    const oauthService = getOAuthService()
+    await oauthService.updateGroupingStrategy(session.user.email, sourceId, strategy)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof OAuthError && ERROR_STATUS[error.code]) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Update grouping strategy error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update grouping strategy', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getContentIngestionService } from '../../../../../lib/ingestion'
+import { requireManager } from '../../../../../lib/auth-server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const jobId = searchParams.get('jobId')
+    const limit = searchParams.get('limit')
+    const { sourceId } = await params
+
+    if (limit !== null && !/^[1-9]\d*$/.test(limit)) {
+      return NextResponse.json({ error: 'Limit must be a positive whole number' }, { status: 400 })
+    }
+
+    const ingestionService = getContentIngestionService()
+
+    if (jobId) {
+      const job = await ingestionService.getIngestionJob(jobId, { organizationId: user.organizationId })
+
+      if (!job || job.sourceId !== sourceId) {
+        return NextResponse.json({ error: 'Ingestion job not found' }, { status: 404 })
+      }
+
+      // Group outcomes without the content still waiting to be processed
+      const groups = (await ingestionService.getJobGroups(job.id)).map(group => ({ ...group, items: undefined }))
+
+      return NextResponse.json({ job, groups })
+    }
+
+    // Scope history to the manager's organization
+    const jobs = await ingestionService.getJobsBySource(sourceId, {
+      organizationId: user.organizationId,
+      limit: limit ? Number(limit) : undefined
+    })
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Get ingestion jobs error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get ingestion jobs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { getServerSession } from 'next-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    // Required for SharePoint sources; OneDrive sources list the user's own drives
+    const siteId = searchParams.get('siteId')
+    const { sourceId } = await params
+
+    const oauthService = getOAuthService()
+    const libraries = await oauthService.getDocumentLibraries(
+      session.user.email,
+      sourceId,
+      siteId || undefined
+    )
+
+    return NextResponse.json({ libraries })
+  } catch (error) {
+    console.error('Get document libraries error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get document libraries', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
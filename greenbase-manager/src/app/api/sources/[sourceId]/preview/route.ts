@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getContentIngestionService, getIngestionScheduler, IngestionJobError } from '../../../../../lib/ingestion'
+import { requireManager } from '../../../../../lib/auth-server'
+
+// Dry run of an ingestion: nothing is drafted, stored or sent to the model
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { sourceId } = await params
+    // All fields are optional, so an empty body is fine
+    const body = await request.json().catch(() => ({}))
+    const { model, embeddingModel, sampleGroups, existingTopics, enableTopicIdentification } = body
+
+    const source = await getIngestionScheduler().getIngestionSource(sourceId)
+    if (!source || source.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Connected source not found' }, { status: 404 })
+    }
+
+    const preview = await getContentIngestionService().previewIngestion(
+      source,
+      { existingTopics, enableTopicIdentification },
+      { model, embeddingModel, sampleGroups }
+    )
+
+    return NextResponse.json({ preview })
+  } catch (error) {
+    if (error instanceof IngestionJobError && error.code === 'UNKNOWN_MODEL') {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 })
+    }
+
+    console.error('Ingestion preview error:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview ingestion', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
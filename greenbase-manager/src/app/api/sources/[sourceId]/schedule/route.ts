@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getIngestionScheduler, SyncScheduleError } from '../../../../../lib/ingestion'
+import { getServerSession } from 'next-auth'
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_SCHEDULE: 400,
+  SOURCE_NOT_FOUND: 404
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+
+    const { schedule, paused } = body
+    const { sourceId } = await params
+
+    const scheduler = getIngestionScheduler()
+
+    // schedule: null clears the schedule, undefined leaves it unchanged
+    if (schedule !== undefined) {
+      await scheduler.setSchedule(session.user.email, sourceId, schedule)
+    }
+
+    if (paused === true) {
+      await scheduler.pauseSource(session.user.email, sourceId)
+    } else if (paused === false) {
+      await scheduler.resumeSource(session.user.email, sourceId)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SyncScheduleError && ERROR_STATUS[error.code]) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Update sync schedule error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update sync schedule', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -14,7 +14,7 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { selectedChannels, selectedFolders } = body
+    const { selectedChannels, selectedFolders, selectedDriveFolders, selectedSlackChannels } = body
     const { sourceId } = await params
 
     const oauthService = getOAuthService()
@@ -22,7 +22,10 @@ export async function PUT(
       session.user.email,
       sourceId,
       selectedChannels,
-      selectedFolders
+      selectedFolders,
+      undefined,
+      selectedDriveFolders,
+      selectedSlackChannels
     )
 
     return NextResponse.json({ success: true })
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOAuthService } from '../../../../../lib/oauth/oauth-service'
+import { getServerSession } from 'next-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sourceId: string }> }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+    const { sourceId } = await params
+
+    const oauthService = getOAuthService()
+    const sites = await oauthService.getSharePointSites(
+      session.user.email,
+      sourceId,
+      search || undefined
+    )
+
+    return NextResponse.json({ sites })
+  } catch (error) {
+    console.error('Get SharePoint sites error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get SharePoint sites', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
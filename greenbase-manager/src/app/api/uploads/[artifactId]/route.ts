@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getManualUploadService } from '../../../../lib/ingestion'
+import { requireManager } from '../../../../lib/auth-server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ artifactId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { artifactId } = await params
+    const upload = await getManualUploadService().getArtifact(artifactId, user.organizationId)
+
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ upload })
+  } catch (error) {
+    console.error('Get upload error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get upload', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getContentIngestionService, IngestionJobError } from '../../../../../../lib/ingestion'
+import { requireManager } from '../../../../../../lib/auth-server'
+
+const ERROR_STATUS: Record<string, number> = {
+  JOB_NOT_FOUND: 404,
+  JOB_ACTIVE: 409,
+  JOB_NOT_ACTIVE: 409,
+  NOTHING_TO_RETRY: 409
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { jobId } = await params
+    const ingestionService = getContentIngestionService()
+
+    const existing = await ingestionService.getIngestionJob(jobId, { organizationId: user.organizationId })
+    if (!existing || existing.sourceId) {
+      return NextResponse.json({ error: 'Ingestion job not found' }, { status: 404 })
+    }
+
+    const job = await ingestionService.cancelJob(jobId, { organizationId: user.organizationId })
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    if (error instanceof IngestionJobError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] || 500 })
+    }
+
+    console.error('Cancel upload job error:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel ingestion job', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getContentIngestionService } from '../../../../../lib/ingestion'
+import { requireManager } from '../../../../../lib/auth-server'
+
+/**
+ * Progress of the ingestion job drafting an uploaded mailbox
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { jobId } = await params
+    const ingestionService = getContentIngestionService()
+
+    const job = await ingestionService.getIngestionJob(jobId, { organizationId: user.organizationId })
+    if (!job || job.sourceId) {
+      return NextResponse.json({ error: 'Ingestion job not found' }, { status: 404 })
+    }
+
+    // Group outcomes without the content still waiting to be processed
+    const groups = (await ingestionService.getJobGroups(job.id)).map(group => ({ ...group, items: undefined }))
+
+    return NextResponse.json({ job, groups })
+  } catch (error) {
+    console.error('Get upload job error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get ingestion job', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getManualUploadService, isEmailArchive, ManualUploadError, ManualUploadResult } from '../../../lib/ingestion'
+import { requireManager } from '../../../lib/auth-server'
+
+type UploadOutcome =
+  | { fileName: string; artifactId: string; draftId?: string; title: string }
+  // Mailbox threads are drafted in the background; the job reports how they went
+  | { fileName: string; jobId: string }
+  | { fileName: string; error: string; code: string }
+
+const ERROR_STATUS: Record<string, number> = {
+  EMPTY_CONTENT: 400,
+  DUPLICATE_UPLOAD: 409,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_TYPE: 415,
+  EXTRACTION_FAILED: 422
+}
+
+export async function GET(request: NextRequest) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const limit = new URL(request.url).searchParams.get('limit')
+    if (limit !== null && !/^[1-9]\d*$/.test(limit)) {
+      return NextResponse.json({ error: 'Limit must be a positive whole number' }, { status: 400 })
+    }
+
+    const uploads = await getManualUploadService().getRecentArtifacts(
+      user.organizationId,
+      limit ? Number(limit) : undefined
+    )
+
+    return NextResponse.json({ uploads })
+  } catch (error) {
+    console.error('Get uploads error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get uploads', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Upload files (multipart form data, one or more `files` fields) or paste text (JSON `{ title?, text }`).
+ * Every upload is drafted separately and reported on its own, so one bad file doesn't reject the rest.
+ * Mailbox exports (.mbox) and .eml messages in the same request are threaded together, one draft per thread,
+ * and drafted by a background ingestion job that can be followed at /api/uploads/jobs/[jobId].
+ */
+export async function POST(request: NextRequest) {
+  let user
+  try {
+    user = await requireManager()
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const uploadService = getManualUploadService()
+  const uploadedBy = { id: user.id, email: user.email }
+  const outcomes: UploadOutcome[] = []
+
+  const recordOutcome = (fileName: string, result?: ManualUploadResult, error?: unknown) => {
+    if (result) {
+      outcomes.push({ fileName, artifactId: result.artifact.id, draftId: result.artifact.draftDocumentId, title: result.document.title })
+    } else {
+      outcomes.push({
+        fileName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof ManualUploadError ? error.code : 'PROCESSING_FAILED'
+      })
+    }
+  }
+
+  const ingest = async (fileName: string, upload: () => Promise<ManualUploadResult>) => {
+    try {
+      recordOutcome(fileName, await upload())
+    } catch (error) {
+      console.error(`Upload of ${fileName} failed:`, error)
+      recordOutcome(fileName, undefined, error)
+    }
+  }
+
+  try {
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const files = (await request.formData()).getAll('files').filter((entry): entry is File => typeof entry !== 'string')
+
+      if (files.length === 0) {
+        return NextResponse.json({ error: 'At least one file is required' }, { status: 400 })
+      }
+
+      const mailboxFiles = files.filter(file => isEmailArchive(file.name, file.type))
+      if (mailboxFiles.length > 0) {
+        try {
+          const { job, threads, duplicates } = await uploadService.ingestMailbox({
+            organizationId: user.organizationId,
+            uploadedBy,
+            files: await Promise.all(mailboxFiles.map(async file => ({
+              fileName: file.name,
+              mimeType: file.type,
+              data: Buffer.from(await file.arrayBuffer())
+            })))
+          })
+          threads.forEach(thread => outcomes.push({ fileName: thread.subject, jobId: job.id }))
+          duplicates.forEach(thread => recordOutcome(
+            thread.subject,
+            undefined,
+            new ManualUploadError(`${thread.subject} was already uploaded`, 'DUPLICATE_UPLOAD')
+          ))
+        } catch (error) {
+          console.error('Mailbox upload failed:', error)
+          recordOutcome(mailboxFiles.map(file => file.name).join(', '), undefined, error)
+        }
+      }
+
+      for (const file of files.filter(file => !mailboxFiles.includes(file))) {
+        await ingest(file.name, async () => uploadService.ingestFile({
+          organizationId: user.organizationId,
+          uploadedBy,
+          fileName: file.name,
+          mimeType: file.type,
+          data: Buffer.from(await file.arrayBuffer())
+        }))
+      }
+    } else {
+      const { title, text } = await request.json()
+
+      if (typeof text !== 'string' || !text.trim()) {
+        return NextResponse.json({ error: 'Text is required' }, { status: 400 })
+      }
+
+      await ingest(title || 'Pasted text', () => uploadService.ingestText({
+        organizationId: user.organizationId,
+        uploadedBy,
+        title: typeof title === 'string' ? title : undefined,
+        text
+      }))
+    }
+
+    // Only fail the request as a whole when nothing could be ingested
+    const firstFailure = outcomes.find(outcome => 'error' in outcome)
+    const status = firstFailure && outcomes.every(outcome => 'error' in outcome)
+      ? ERROR_STATUS[firstFailure.code] || 500
+      : 200
+
+    return NextResponse.json({ uploads: outcomes }, { status })
+  } catch (error) {
+    console.error('Upload error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process upload', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
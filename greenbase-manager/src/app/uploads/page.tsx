@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { FileUp, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+
+// Mirrors the formats accepted by the upload API
+const ACCEPTED_FILES = '.md,.markdown,.txt,.docx,.pdf,.mbox,.eml'
+
+type UploadOutcome =
+  | { fileName: string; artifactId: string; draftId?: string; title: string }
+  | { fileName: string; error: string; code: string }
+
+export default function UploadsPage() {
+  const [files, setFiles] = useState<File[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const [title, setTitle] = useState('')
+  const [text, setText] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [outcomes, setOutcomes] = useState<UploadOutcome[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (body: BodyInit, headers?: HeadersInit) => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/uploads', { method: 'POST', body, headers })
+      const result = await response.json()
+
+      if (result.uploads) {
+        setOutcomes(previous => [...result.uploads, ...previous])
+        return true
+      }
+
+      setError(result.details || result.error || 'Upload failed')
+      return false
+    } catch {
+      setError('Upload failed')
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const uploadFiles = async () => {
+    const form = new FormData()
+    files.forEach(file => form.append('files', file))
+    if (await submit(form)) {
+      setFiles([])
+    }
+  }
+
+  const submitText = async () => {
+    if (await submit(JSON.stringify({ title, text }), { 'Content-Type': 'application/json' })) {
+      setTitle('')
+      setText('')
+    }
+  }
+
+  return (
+    <div className="mx-auto flex max-w-3xl flex-col gap-6 p-8">
+      <div>
+        <h1 className="text-2xl font-semibold">Add knowledge</h1>
+        <p className="text-muted-foreground text-sm">
+          Upload documents or paste text that doesn&apos;t live in a connected source. Each upload becomes a draft in the approval queue.
+        </p>
+      </div>
+
+      <Tabs defaultValue="files">
+        <TabsList>
+          <TabsTrigger value="files">Upload files</TabsTrigger>
+          <TabsTrigger value="paste">Paste text</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="files">
+          <Card>
+            <CardHeader>
+              <CardTitle>Upload files</CardTitle>
+              <CardDescription>
+                Markdown, text, DOCX or PDF, up to 10 MB each. Mailbox exports (.mbox or .eml files) are split into one draft per thread.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-4">
+              <label
+                className={`flex cursor-pointer flex-col items-center gap-2 rounded-md border-2 border-dashed p-8 text-center text-sm ${isDragging ? 'border-primary bg-accent' : ''}`}
+                onDragOver={event => { event.preventDefault(); setIsDragging(true) }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={event => {
+                  event.preventDefault()
+                  setIsDragging(false)
+                  setFiles(previous => [...previous, ...Array.from(event.dataTransfer.files)])
+                }}
+              >
+                <FileUp className="text-muted-foreground size-8" />
+                <span>Drop files here or click to choose</span>
+                <input
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_FILES}
+                  className="hidden"
+                  onChange={event => setFiles(previous => [...previous, ...Array.from(event.target.files || [])])}
+                />
+              </label>
+
+              {files.length > 0 && (
+                <ul className="text-sm">
+                  {files.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center justify-between py-1">
+                      <span>{file.name}</span>
+                      <Button variant="ghost" size="sm" onClick={() => setFiles(previous => previous.filter((_, i) => i !== index))}>
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <Button onClick={uploadFiles} disabled={files.length === 0 || isSubmitting}>
+                {isSubmitting && <Loader2 className="animate-spin" />}
+                Upload {files.length > 0 ? `${files.length} file${files.length === 1 ? '' : 's'}` : ''}
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="paste">
+          <Card>
+            <CardHeader>
+              <CardTitle>Paste text</CardTitle>
+              <CardDescription>Plain text or Markdown</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-4">
+              <input
+                value={title}
+                onChange={event => setTitle(event.target.value)}
+                placeholder="Title (optional)"
+                className="border-input rounded-md border bg-transparent px-3 py-2 text-sm"
+              />
+              <Textarea
+                value={text}
+                onChange={event => setText(event.target.value)}
+                placeholder="Paste content here"
+                className="min-h-48"
+              />
+              <Button onClick={submitText} disabled={!text.trim() || isSubmitting}>
+                {isSubmitting && <Loader2 className="animate-spin" />}
+                Create draft
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {outcomes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="flex flex-col gap-2 text-sm">
+              {outcomes.map((outcome, index) => (
+                <li key={index} className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium">{outcome.fileName}</div>
+                    <div className="text-muted-foreground">
+                      {'error' in outcome ? outcome.error : `Drafted as "${outcome.title}"`}
+                    </div>
+                  </div>
+                  {'error' in outcome
+                    ? <Badge variant="destructive">Failed</Badge>
+                    : <Badge variant="secondary">Pending review</Badge>}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+/**
+ * Next.js server startup hook. Starts the background ingestion scheduler when enabled.
+ */
+export async function register() {
+  // The scheduler needs Node APIs and a long-lived process; never start it on the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.INGESTION_SCHEDULER_ENABLED !== 'true') {
+    return
+  }
+
+  const { getIngestionScheduler } = await import('./lib/ingestion/ingestion-scheduler')
+  getIngestionScheduler().start({
+    tickIntervalMs: process.env.INGESTION_SCHEDULER_TICK_MS ? parseInt(process.env.INGESTION_SCHEDULER_TICK_MS) : undefined
+  })
+}
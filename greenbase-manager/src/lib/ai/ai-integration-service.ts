@@ -1,7 +1,10 @@
 import { getAzureOpenAIService, ChatMessage } from './azure-openai'
-import { getPIIRedactionService, PIIRedactionResult } from './pii-redaction'
+import { getPIIRedactionService, PIIRedactionResult, combineRedactions } from './pii-redaction'
 import { PromptTemplates, ContentStructuringInput, TopicIdentificationInput, ConfidenceAssessmentInput } from './prompt-templates'
 import { ConfidenceScoring, ConfidenceResult, SourceMetadata, ConfidenceWeights } from './confidence-scoring'
+import { SourceType } from '../oauth/types'
+import { DEFAULT_TOKENIZER_MODEL, estimateChatTokens, estimateTokens, fitToTokenBudget, getContextWindow } from './token-estimator'
+import { detectLanguage, DraftLanguageMode, SupportedLanguage, DEFAULT_CANONICAL_LANGUAGE } from './language-detection'
 
 export interface ProcessedContent {
   id: string
@@ -12,11 +15,13 @@ export interface ProcessedContent {
   confidence: ConfidenceResult
   piiRedaction: PIIRedactionResult
   sourceReferences: SourceReference[]
+  // Detected language of the source content; undefined when it could not be told
+  language?: SupportedLanguage
   metadata: ContentMetadata
 }
 
 export interface SourceReference {
-  sourceType: 'teams' | 'google_drive'
+  sourceType: SourceType
   sourceId: string
   url?: string
   snippet: string
@@ -28,6 +33,8 @@ export interface ContentMetadata {
   processedAt: Date
   processingVersion: string
   aiModelUsed: string
+  // Language the draft was asked to be written in, when known
+  outputLanguage?: SupportedLanguage
   tokenUsage: {
     total: number
     structuring: number
@@ -42,10 +49,45 @@ export interface ContentProcessingOptions {
     categories?: string[]
     confidenceThreshold?: number
   }
+  // Redaction of each source when sourceContent is already redacted; it is then not redacted again
+  sourceRedactions?: PIIRedactionResult[]
   enableTopicIdentification?: boolean
   existingTopics?: string[]
+  // Language of the source content when already known, e.g. from its chunks; detected otherwise
+  sourceLanguage?: SupportedLanguage
+  // Defaults to drafting in the source language
+  draftLanguageMode?: DraftLanguageMode
+  canonicalLanguage?: SupportedLanguage
 }
 
+export type ContentPipelineStep = 'structuring' | 'topicIdentification' | 'confidenceAssessment'
+
+// Completion settings for each model call made by processContent
+export const CONTENT_PIPELINE_STEPS: Record<ContentPipelineStep, { temperature: number; maxTokens: number }> = {
+  structuring: { temperature: 0.3, maxTokens: 2000 },
+  topicIdentification: { temperature: 0.1, maxTokens: 200 },
+  confidenceAssessment: { temperature: 0.1, maxTokens: 500 }
+}
+
+// Completion settings for answerQuestion
+const ANSWER_COMPLETION = { temperature: 0.3, maxTokens: 1000 }
+
+// How prompt templates join source content and context documents
+const DOCUMENT_SEPARATOR = '\n\n---\n\n'
+
+// Typical reply lengths for the steps whose output size does not depend on the input
+const TYPICAL_TOPIC_COMPLETION_TOKENS = 25
+const TYPICAL_CONFIDENCE_COMPLETION_TOKENS = 120
+
+export interface StepTokenEstimate {
+  promptTokens: number
+  completionTokens: number
+  // Upper bound set by the step's maxTokens
+  maxCompletionTokens: number
+}
+
+export type ContentProcessingEstimate = Record<ContentPipelineStep, StepTokenEstimate>
+
 class AIIntegrationService {
   private openAIService = getAzureOpenAIService()
   private piiService = getPIIRedactionService()
@@ -63,29 +105,34 @@ class AIIntegrationService {
     try {
       // Step 1: PII Redaction
       console.log('Starting PII redaction...')
-      const combinedContent = sourceContent.join('\n\n---\n\n')
-      const piiRedaction = await this.piiService.redactPII(
-        combinedContent,
-        options.piiRedactionOptions
-      )
+      const separator = '\n\n---\n\n'
+      const combinedContent = sourceContent.join(separator)
+      const piiRedaction = options.sourceRedactions
+        ? combineRedactions(options.sourceRedactions, separator)
+        : await this.piiService.redactPII(combinedContent, options.piiRedactionOptions)
 
       // Step 2: Content Structuring
       console.log('Starting content structuring...')
-      const structuringInput: ContentStructuringInput = {
+      const { chat: model } = await this.openAIService.getModels()
+      const sourceLanguage = options.sourceLanguage ?? detectLanguage(combinedContent)
+      const outputLanguage = this.resolveOutputLanguage(sourceLanguage, options)
+      const structuringInput = this.fitStructuringInput({
         sourceContent: [piiRedaction.redactedText],
         sourceType: sourceReferences[0]?.sourceType || 'teams',
         metadata: {
           sourceCount: sourceContent.length,
           totalLength: combinedContent.length,
           piiEntitiesFound: piiRedaction.entities.length
-        }
-      }
+        },
+        sourceLanguage,
+        outputLanguage
+      }, model)
 
       const structuringPrompt = PromptTemplates.contentStructuring(structuringInput)
       const structuringResult = await this.openAIService.chatCompletion([
         { role: 'system', content: structuringPrompt.system },
         { role: 'user', content: structuringPrompt.user }
-      ], { temperature: 0.3, maxTokens: 2000 })
+      ], CONTENT_PIPELINE_STEPS.structuring)
 
       totalTokens += structuringResult.usage.totalTokens
 
@@ -103,7 +150,7 @@ class AIIntegrationService {
         const topicResult = await this.openAIService.chatCompletion([
           { role: 'system', content: topicPrompt.system },
           { role: 'user', content: topicPrompt.user }
-        ], { temperature: 0.1, maxTokens: 200 })
+        ], CONTENT_PIPELINE_STEPS.topicIdentification)
 
         topicTokens = topicResult.usage.totalTokens
         totalTokens += topicTokens
@@ -134,7 +181,7 @@ class AIIntegrationService {
       const confidenceResult = await this.openAIService.chatCompletion([
         { role: 'system', content: confidencePrompt.system },
         { role: 'user', content: confidencePrompt.user }
-      ], { temperature: 0.1, maxTokens: 500 })
+      ], CONTENT_PIPELINE_STEPS.confidenceAssessment)
 
       totalTokens += confidenceResult.usage.totalTokens
 
@@ -170,10 +217,12 @@ class AIIntegrationService {
         confidence,
         piiRedaction,
         sourceReferences,
+        language: sourceLanguage,
         metadata: {
           processedAt: new Date(),
           processingVersion: this.processingVersion,
-          aiModelUsed: 'gpt-4',
+          aiModelUsed: model,
+          outputLanguage,
           tokenUsage: {
             total: totalTokens,
             structuring: structuringResult.usage.totalTokens,
@@ -188,6 +237,68 @@ class AIIntegrationService {
     }
   }
 
+  /**
+   * Estimate the tokens processContent would use for already redacted content, without calling
+   * the model. The structured document is assumed to be about as long as its input, which sizes
+   * the prompts of the later steps. Tokens are counted with the tokenizer of the given chat model.
+   */
+  estimateContentProcessing(
+    redactedContent: string,
+    piiEntitiesFound: number,
+    sourceReferences: SourceReference[],
+    sourceMetadata: SourceMetadata[],
+    options: ContentProcessingOptions = {},
+    model: string = DEFAULT_TOKENIZER_MODEL
+  ): ContentProcessingEstimate {
+    const sourceLanguage = options.sourceLanguage ?? detectLanguage(redactedContent)
+    const structuringInput = this.fitStructuringInput({
+      sourceContent: [redactedContent],
+      sourceType: sourceReferences[0]?.sourceType || 'teams',
+      metadata: {
+        sourceCount: sourceReferences.length,
+        totalLength: redactedContent.length,
+        piiEntitiesFound
+      },
+      sourceLanguage,
+      outputLanguage: this.resolveOutputLanguage(sourceLanguage, options)
+    }, model)
+    const structuringPrompt = PromptTemplates.contentStructuring(structuringInput)
+    const structuredContent = structuringInput.sourceContent.join(DOCUMENT_SEPARATOR)
+    const inputTokens = estimateTokens(structuredContent, model)
+    const structuredTokens = Math.min(CONTENT_PIPELINE_STEPS.structuring.maxTokens, inputTokens)
+
+    const topicPrompt = PromptTemplates.topicIdentification({ content: '', existingTopics: options.existingTopics })
+    const confidencePrompt = PromptTemplates.confidenceAssessment({
+      structuredContent: '',
+      sourceQuality: this.calculateSourceQuality(sourceMetadata),
+      // Characters of the input the structured tokens would cover
+      contentLength: inputTokens > 0 ? Math.round(structuredContent.length * structuredTokens / inputTokens) : 0,
+      sourceCount: sourceReferences.length
+    })
+
+    const promptTokens = (prompt: { system: string; user: string }) => countPromptTokens(prompt, model)
+
+    return {
+      structuring: {
+        promptTokens: promptTokens(structuringPrompt),
+        completionTokens: structuredTokens,
+        maxCompletionTokens: CONTENT_PIPELINE_STEPS.structuring.maxTokens
+      },
+      topicIdentification: options.enableTopicIdentification === false
+        ? { promptTokens: 0, completionTokens: 0, maxCompletionTokens: 0 }
+        : {
+          promptTokens: promptTokens(topicPrompt) + structuredTokens,
+          completionTokens: TYPICAL_TOPIC_COMPLETION_TOKENS,
+          maxCompletionTokens: CONTENT_PIPELINE_STEPS.topicIdentification.maxTokens
+        },
+      confidenceAssessment: {
+        promptTokens: promptTokens(confidencePrompt) + structuredTokens,
+        completionTokens: TYPICAL_CONFIDENCE_COMPLETION_TOKENS,
+        maxCompletionTokens: CONTENT_PIPELINE_STEPS.confidenceAssessment.maxTokens
+      }
+    }
+  }
+
   async recognizeIntent(
     userInput: string,
     availableDocuments: string[]
@@ -222,15 +333,21 @@ class AIIntegrationService {
     confidence: number
     tokensUsed: number
   }> {
-    const prompt = PromptTemplates.questionAnswering(question, contextDocuments)
+    const { chat: model } = await this.openAIService.getModels()
+
+    // Drop the lowest ranked documents that would overflow the model's context window
+    const budget = getContextWindow(model) - ANSWER_COMPLETION.maxTokens -
+      countPromptTokens(PromptTemplates.questionAnswering(question, []), model)
+    const fittedDocuments = fitToTokenBudget(contextDocuments, budget, model, estimateTokens(DOCUMENT_SEPARATOR, model))
+    const prompt = PromptTemplates.questionAnswering(question, fittedDocuments)
     
     const result = await this.openAIService.chatCompletion([
       { role: 'system', content: prompt.system },
       { role: 'user', content: prompt.user }
-    ], { temperature: 0.3, maxTokens: 1000 })
+    ], ANSWER_COMPLETION)
 
     // Simple confidence estimation based on response characteristics
-    const confidence = this.estimateAnswerConfidence(result.content, contextDocuments.length)
+    const confidence = this.estimateAnswerConfidence(result.content, fittedDocuments.length)
 
     return {
       answer: result.content,
@@ -266,6 +383,35 @@ class AIIntegrationService {
     return totalQuality / sourceMetadata.length
   }
 
+  /**
+   * Language the draft should be written in: the organization's canonical language, or the
+   * source's own. Undefined leaves the model to follow the source when detection failed.
+   */
+  private resolveOutputLanguage(
+    sourceLanguage: SupportedLanguage | undefined,
+    options: ContentProcessingOptions
+  ): SupportedLanguage | undefined {
+    return options.draftLanguageMode === 'canonical'
+      ? options.canonicalLanguage ?? DEFAULT_CANONICAL_LANGUAGE
+      : sourceLanguage
+  }
+
+  /**
+   * Truncate the source content so the structuring prompt and its completion fit the model's
+   * context window
+   */
+  private fitStructuringInput(input: ContentStructuringInput, model: string): ContentStructuringInput {
+    const budget = getContextWindow(model) - CONTENT_PIPELINE_STEPS.structuring.maxTokens -
+      countPromptTokens(PromptTemplates.contentStructuring({ ...input, sourceContent: [] }), model)
+    const sourceContent = fitToTokenBudget(input.sourceContent, budget, model, estimateTokens(DOCUMENT_SEPARATOR, model))
+
+    if (sourceContent.join(DOCUMENT_SEPARATOR) !== input.sourceContent.join(DOCUMENT_SEPARATOR)) {
+      console.warn(`Source content exceeds the ${model} context window and was truncated to ${budget} tokens`)
+    }
+
+    return { ...input, sourceContent }
+  }
+
   private extractTitleAndSummary(content: string): { title: string; summary: string } {
     const lines = content.split('\n').filter(line => line.trim())
     
@@ -329,10 +475,18 @@ class AIIntegrationService {
   }
 
   private generateId(): string {
-    return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    // Used as the draft_documents primary key, which is a UUID column
+    return crypto.randomUUID()
   }
 }
 
+function countPromptTokens(prompt: { system: string; user: string }, model: string): number {
+  return estimateChatTokens([
+    { role: 'system', content: prompt.system },
+    { role: 'user', content: prompt.user }
+  ], model)
+}
+
 // Singleton instance
 let aiIntegrationService: AIIntegrationService | null = null
 
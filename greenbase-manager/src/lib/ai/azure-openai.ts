@@ -1,6 +1,9 @@
-import { AzureOpenAI } from 'openai'
+import { APIConnectionError, AzureOpenAI, RateLimitError } from 'openai'
 import '@azure/openai/types'
 import { getConfigService } from '../config'
+import { getRetryAfterMs, isRetryableError, withRetry, type RetryOptions } from '../http'
+import { RateLimiter } from './rate-limiter'
+import { estimateChatTokens, estimateTokens } from './token-estimator'
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant'
@@ -38,10 +41,24 @@ interface EmbeddingData {
   index: number
 }
 
+// Attempts of one request that keep being throttled before giving up
+const MAX_THROTTLED_ATTEMPTS = 6
+// Attempts of one request that keep failing with server errors, timeouts or dropped connections
+const MAX_TRANSIENT_ATTEMPTS = 3
+
 class AzureOpenAIService {
   private client: AzureOpenAI | null = null
   private deploymentName: string = ''
   private embeddingDeploymentName: string = ''
+  private model: string = ''
+  private embeddingModel: string = ''
+  private chatRateLimiter: RateLimiter | null = null
+  private embeddingRateLimiter: RateLimiter | null = null
+  private transientRetry: RetryOptions = {
+    maxAttempts: MAX_TRANSIENT_ATTEMPTS,
+    operation: 'Azure OpenAI request',
+    shouldRetry: isTransientError
+  }
 
   async initialize(): Promise<void> {
     if (this.client) return
@@ -51,11 +68,26 @@ class AzureOpenAIService {
     this.client = new AzureOpenAI({
       apiKey: config.azure.openai.apiKey,
       endpoint: config.azure.openai.endpoint,
-      apiVersion: "2024-02-01"
+      apiVersion: "2024-02-01",
+      // Throttled requests are retried through the rate limiters, which slow down every caller,
+      // and transient failures in withRateLimit
+      maxRetries: 0
     })
     
     this.deploymentName = config.azure.openai.deploymentName
     this.embeddingDeploymentName = config.azure.openai.embeddingDeploymentName
+    this.model = config.azure.openai.model
+    this.embeddingModel = config.azure.openai.embeddingModel
+    this.chatRateLimiter = new RateLimiter(config.azure.openai.rateLimits.chat)
+    this.embeddingRateLimiter = new RateLimiter(config.azure.openai.rateLimits.embedding)
+  }
+
+  /**
+   * Models behind the chat and embedding deployments, for counting tokens the way they do
+   */
+  async getModels(): Promise<{ chat: string; embedding: string }> {
+    await this.initialize()
+    return { chat: this.model, embedding: this.embeddingModel }
   }
 
   async chatCompletion(
@@ -64,20 +96,26 @@ class AzureOpenAIService {
   ): Promise<ChatCompletionResult> {
     await this.initialize()
     
-    if (!this.client) {
+    const client = this.client
+    if (!client || !this.chatRateLimiter) {
       throw new Error('Azure OpenAI client not initialized')
     }
 
+    const maxTokens = options.maxTokens || 2000
+
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
-        messages,
-        max_tokens: options.maxTokens || 2000,
-        temperature: options.temperature || 0.7,
-        top_p: options.topP || 1,
-        frequency_penalty: options.frequencyPenalty || 0,
-        presence_penalty: options.presencePenalty || 0,
-      })
+      // Azure counts max_tokens against the quota when the request is made
+      const response = await this.withRateLimit(this.chatRateLimiter, estimateChatTokens(messages, this.model) + maxTokens, () =>
+        client.chat.completions.create({
+          model: this.deploymentName,
+          messages,
+          max_tokens: maxTokens,
+          temperature: options.temperature || 0.7,
+          top_p: options.topP || 1,
+          frequency_penalty: options.frequencyPenalty || 0,
+          presence_penalty: options.presencePenalty || 0,
+        })
+      )
 
       const choice = response.choices[0]
       if (!choice?.message?.content) {
@@ -102,15 +140,18 @@ class AzureOpenAIService {
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
     await this.initialize()
     
-    if (!this.client) {
+    const client = this.client
+    if (!client || !this.embeddingRateLimiter) {
       throw new Error('Azure OpenAI client not initialized')
     }
 
     try {
-      const response = await this.client.embeddings.create({
-        model: this.embeddingDeploymentName,
-        input: [text]
-      })
+      const response = await this.withRateLimit(this.embeddingRateLimiter, estimateTokens(text, this.embeddingModel), () =>
+        client.embeddings.create({
+          model: this.embeddingDeploymentName,
+          input: [text]
+        })
+      )
 
       const embedding = response.data[0]?.embedding
       if (!embedding) {
@@ -133,7 +174,9 @@ class AzureOpenAIService {
   async generateBatchEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
     await this.initialize()
     
-    if (!this.client) {
+    const client = this.client
+    const rateLimiter = this.embeddingRateLimiter
+    if (!client || !rateLimiter) {
       throw new Error('Azure OpenAI client not initialized')
     }
 
@@ -145,10 +188,13 @@ class AzureOpenAIService {
       const batch = texts.slice(i, i + batchSize)
       
       try {
-        const response = await this.client.embeddings.create({
-          model: this.embeddingDeploymentName,
-          input: batch
-        })
+        const batchTokens = batch.reduce((total, text) => total + estimateTokens(text, this.embeddingModel), 0)
+        const response = await this.withRateLimit(rateLimiter, batchTokens, () =>
+          client.embeddings.create({
+            model: this.embeddingDeploymentName,
+            input: batch
+          })
+        )
 
         const batchResults = response.data.map((item: EmbeddingData) => ({
           embedding: item.embedding,
@@ -167,6 +213,36 @@ class AzureOpenAIService {
 
     return results
   }
+
+  /**
+   * Run a request once the deployment's rate limiter admits it, retrying when Azure throttles it
+   * or fails transiently
+   */
+  private async withRateLimit<T>(rateLimiter: RateLimiter, tokens: number, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await rateLimiter.acquire(tokens)
+
+      try {
+        const result = await withRetry(request, this.transientRetry)
+        rateLimiter.recordSuccess()
+        return result
+      } catch (error) {
+        if (!(error instanceof RateLimitError) || attempt >= MAX_THROTTLED_ATTEMPTS) {
+          throw error
+        }
+
+        rateLimiter.recordThrottle(getRetryAfterMs(error))
+      }
+    }
+  }
+}
+
+/**
+ * Server errors, timeouts and dropped connections; throttling is not transient here, as the
+ * rate limiter handles it
+ */
+function isTransientError(error: unknown): boolean {
+  return error instanceof APIConnectionError || (!(error instanceof RateLimitError) && isRetryableError(error))
 }
 
 // Singleton instance
@@ -1,3 +1,5 @@
+import { SourceType } from '../oauth/types'
+
 export interface ConfidenceFactors {
   contentClarity: number      // 0-1: Readability and structure
   sourceConsistency: number   // 0-1: Agreement across sources  
@@ -20,7 +22,7 @@ export interface ConfidenceResult {
 }
 
 export interface SourceMetadata {
-  type: 'teams' | 'google_drive'
+  type: SourceType
   authorCount: number
   messageCount?: number
   fileSize?: number
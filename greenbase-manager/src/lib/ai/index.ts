@@ -4,6 +4,9 @@ export * from './ai-integration-service'
 export * from './confidence-scoring'
 export * from './pii-redaction'
 export * from './prompt-templates'
+export * from './token-estimator'
+export * from './rate-limiter'
+export * from './language-detection'
 
 // Main service getters
 export { getAzureOpenAIService } from './azure-openai'
@@ -0,0 +1,84 @@
+// ISO 639-1 codes of the languages content is written in across the organization
+export const SUPPORTED_LANGUAGES = ['en', 'de', 'es'] as const
+
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number]
+
+// Draft in the language the sources were written in, or translate every draft to one canonical language
+export type DraftLanguageMode = 'source' | 'canonical'
+
+export const DEFAULT_CANONICAL_LANGUAGE: SupportedLanguage = 'en'
+
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  en: 'English',
+  de: 'German',
+  es: 'Spanish'
+}
+
+// Frequent function words, none shared between the lists
+const STOPWORDS: Record<SupportedLanguage, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'are', 'was', 'were', 'of', 'to', 'in', 'that', 'it', 'for', 'with', 'on', 'this',
+    'be', 'have', 'has', 'not', 'we', 'you', 'will', 'can', 'should', 'from', 'at', 'by', 'or', 'our', 'they'
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'sind', 'nicht', 'ein', 'eine', 'mit', 'für', 'auf', 'den', 'dem', 'zu',
+    'von', 'wir', 'ich', 'sie', 'auch', 'wird', 'werden', 'bitte', 'noch', 'im', 'bei', 'dass', 'oder', 'aber', 'haben'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'es', 'son', 'de', 'que', 'en', 'un', 'una', 'con', 'para', 'por',
+    'se', 'del', 'al', 'lo', 'como', 'pero', 'más', 'está', 'están', 'muy', 'también', 'hay', 'nosotros', 'esta', 'sus'
+  ])
+}
+
+// Letters and marks that only one of the languages uses
+const DISTINCTIVE_CHARACTERS: Partial<Record<SupportedLanguage, RegExp>> = {
+  de: /[äöüß]/g,
+  es: /[ñ¿¡áíóú]/g
+}
+
+// Below this many hits the text is too short or too mixed to call
+const MIN_LANGUAGE_SCORE = 3
+// Enough words to settle the language of long documents
+const MAX_WORDS_SCORED = 2000
+
+/**
+ * Detect which supported language a text is written in from its function words and letters.
+ * Returns undefined when the text is too short, ambiguous, or in another language.
+ */
+export function detectLanguage(text: string): SupportedLanguage | undefined {
+  const words = (text.toLowerCase().match(/\p{L}+/gu) || []).slice(0, MAX_WORDS_SCORED)
+  const scores = SUPPORTED_LANGUAGES.map(language => {
+    const stopwords = words.filter(word => STOPWORDS[language].has(word)).length
+    const characters = DISTINCTIVE_CHARACTERS[language]
+    return { language, score: stopwords + (characters ? (text.match(characters) || []).length : 0) }
+  }).sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scores
+  return best.score >= MIN_LANGUAGE_SCORE && best.score > runnerUp.score ? best.language : undefined
+}
+
+/**
+ * The language most of a set of texts is written in, weighting each text by its length
+ */
+export function dominantLanguage(
+  texts: Array<{ language?: SupportedLanguage; length: number }>
+): SupportedLanguage | undefined {
+  const weights = new Map<SupportedLanguage, number>()
+  for (const { language, length } of texts) {
+    if (language) {
+      weights.set(language, (weights.get(language) || 0) + length)
+    }
+  }
+
+  let dominant: SupportedLanguage | undefined
+  for (const [language, weight] of weights) {
+    if (!dominant || weight > weights.get(dominant)!) {
+      dominant = language
+    }
+  }
+  return dominant
+}
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value)
+}
@@ -23,6 +23,44 @@ export interface PIIRedactionOptions {
   maskingCharacter?: string
 }
 
+/**
+ * Copy of a redaction that is safe to keep next to the redacted text: each entity's text is
+ * replaced by the mask that replaced it, so the original PII is not stored
+ */
+export function maskEntityText(result: PIIRedactionResult): PIIRedactionResult {
+  return {
+    ...result,
+    entities: result.entities.map(entity => ({
+      ...entity,
+      text: result.redactedText.slice(entity.offset, entity.offset + entity.length)
+    }))
+  }
+}
+
+/**
+ * Redaction of texts joined with the separator, built from the redactions of each text.
+ * Masks keep the length of what they replace, so entity offsets only shift by the text before them.
+ */
+export function combineRedactions(redactions: PIIRedactionResult[], separator: string): PIIRedactionResult {
+  let offset = 0
+  const entities: PIIEntity[] = []
+
+  for (const redaction of redactions) {
+    entities.push(...redaction.entities.map(entity => ({ ...entity, offset: entity.offset + offset })))
+    offset += redaction.redactedText.length + separator.length
+  }
+
+  const redactedText = redactions.map(redaction => redaction.redactedText).join(separator)
+  const separators = Math.max(redactions.length - 1, 0) * separator.length
+
+  return {
+    redactedText,
+    entities,
+    originalLength: redactions.reduce((total, redaction) => total + redaction.originalLength, separators),
+    redactedLength: redactedText.length
+  }
+}
+
 class PIIRedactionService {
   private client: TextAnalysisClient | null = null
 
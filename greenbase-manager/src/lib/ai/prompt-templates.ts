@@ -1,11 +1,18 @@
+import { SourceType } from '../oauth/types'
+import { LANGUAGE_NAMES, SupportedLanguage } from './language-detection'
+
 export interface ContentStructuringInput {
   sourceContent: string[]
-  sourceType: 'teams' | 'google_drive'
+  sourceType: SourceType
   metadata: {
     sourceCount: number
     totalLength: number
     piiEntitiesFound: number
   }
+  // Detected language of the source content, if any
+  sourceLanguage?: SupportedLanguage
+  // Language to write the document in; defaults to the language of the source content
+  outputLanguage?: SupportedLanguage
 }
 
 export interface TopicIdentificationInput {
@@ -32,6 +39,7 @@ Guidelines:
 - Use proper markdown formatting
 - Preserve important details and context
 - Ensure the content flows logically
+- ${this.outputLanguageGuideline(input)}
 
 The content has been processed for PII removal (${input.metadata.piiEntitiesFound} entities found).`,
 
@@ -147,4 +155,16 @@ ${contextDocuments.join('\n\n---\n\n')}
 Please provide a helpful answer based on the context provided.`
     }
   }
+
+  private static outputLanguageGuideline(input: ContentStructuringInput): string {
+    const { sourceLanguage, outputLanguage } = input
+
+    if (!outputLanguage) {
+      return 'Write in the language the source content is written in; do not translate it'
+    }
+    if (outputLanguage === sourceLanguage) {
+      return `Write in ${LANGUAGE_NAMES[outputLanguage]}, the language of the source content; do not translate it`
+    }
+    return `Write in ${LANGUAGE_NAMES[outputLanguage]}, translating any source content in other languages faithfully`
+  }
 }
\ No newline at end of file
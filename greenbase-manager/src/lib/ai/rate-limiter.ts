@@ -0,0 +1,118 @@
+import type { DeploymentRateLimits } from '../config'
+
+export interface RateLimiterClock {
+  now(): number
+  sleep(ms: number): Promise<void>
+}
+
+const systemClock: RateLimiterClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Azure enforces quotas over windows of a few seconds, so bursts are capped at 10 seconds' worth of the per-minute quota
+const BURST_WINDOW_MS = 10_000
+const MIN_RATE_FACTOR = 0.1
+// Share of the full rate won back by each successful request after throttling
+const RATE_RECOVERY_STEP = 0.05
+const DEFAULT_RETRY_AFTER_MS = 10_000
+
+/**
+ * Token buckets for one deployment's tokens-per-minute and requests-per-minute quotas.
+ * Throttling halves the refill rate and holds every caller until Retry-After has passed;
+ * each later success restores a little of the rate.
+ */
+export class RateLimiter {
+  private tokens: number
+  private requests: number
+  private lastRefill: number
+  private rateFactor = 1
+  private pausedUntil = 0
+  // Callers are served in arrival order, so large requests are not starved by small ones
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private limits: DeploymentRateLimits,
+    private clock: RateLimiterClock = systemClock
+  ) {
+    this.tokens = this.tokenCapacity()
+    this.requests = this.requestCapacity()
+    this.lastRefill = clock.now()
+  }
+
+  /**
+   * Wait until a request of the given number of tokens fits within the limits, and reserve it
+   */
+  acquire(tokens: number): Promise<void> {
+    const turn = this.queue.then(() => this.reserve(tokens))
+    this.queue = turn
+    return turn
+  }
+
+  recordSuccess(): void {
+    this.rateFactor = Math.min(1, this.rateFactor + RATE_RECOVERY_STEP)
+  }
+
+  recordThrottle(retryAfterMs: number = DEFAULT_RETRY_AFTER_MS): void {
+    this.refill()
+    this.rateFactor = Math.max(MIN_RATE_FACTOR, this.rateFactor / 2)
+    this.pausedUntil = Math.max(this.pausedUntil, this.clock.now() + retryAfterMs)
+    // Resume from empty buckets so waiting callers restart gradually rather than all at once
+    this.tokens = Math.min(this.tokens, 0)
+    this.requests = Math.min(this.requests, 0)
+  }
+
+  getRateFactor(): number {
+    return this.rateFactor
+  }
+
+  private async reserve(tokens: number): Promise<void> {
+    for (;;) {
+      this.refill()
+
+      const now = this.clock.now()
+      if (now < this.pausedUntil) {
+        await this.clock.sleep(this.pausedUntil - now)
+        continue
+      }
+
+      // A request larger than the burst allowance waits for a full bucket and leaves it in debt
+      const needed = Math.min(tokens, this.tokenCapacity())
+      const wait = Math.max(
+        (needed - this.tokens) / this.perMs(this.limits.tokensPerMinute),
+        (1 - this.requests) / this.perMs(this.limits.requestsPerMinute)
+      )
+
+      if (wait <= 0) {
+        this.tokens -= tokens
+        this.requests -= 1
+        return
+      }
+
+      await this.clock.sleep(Math.ceil(wait))
+    }
+  }
+
+  private refill(): void {
+    const now = this.clock.now()
+    // Nothing accrues while paused after throttling
+    const from = Math.max(this.lastRefill, Math.min(this.pausedUntil, now))
+    const elapsed = now - from
+    this.lastRefill = now
+
+    this.tokens = Math.min(this.tokenCapacity(), this.tokens + elapsed * this.perMs(this.limits.tokensPerMinute))
+    this.requests = Math.min(this.requestCapacity(), this.requests + elapsed * this.perMs(this.limits.requestsPerMinute))
+  }
+
+  private perMs(perMinute: number): number {
+    return perMinute * this.rateFactor / 60_000
+  }
+
+  private tokenCapacity(): number {
+    return this.limits.tokensPerMinute * BURST_WINDOW_MS / 60_000
+  }
+
+  private requestCapacity(): number {
+    return Math.max(1, this.limits.requestsPerMinute * BURST_WINDOW_MS / 60_000)
+  }
+}
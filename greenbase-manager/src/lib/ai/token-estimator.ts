@@ -0,0 +1,154 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+import o200k_base from 'js-tiktoken/ranks/o200k_base'
+import type { ChatMessage } from './azure-openai'
+
+// USD per 1K tokens at Azure OpenAI pay-as-you-go list prices
+export interface ModelPricing {
+  promptPer1K: number
+  completionPer1K: number
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4': { promptPer1K: 0.03, completionPer1K: 0.06 },
+  'gpt-4-32k': { promptPer1K: 0.06, completionPer1K: 0.12 },
+  'gpt-4-turbo': { promptPer1K: 0.01, completionPer1K: 0.03 },
+  'gpt-4o': { promptPer1K: 0.005, completionPer1K: 0.015 },
+  'gpt-4o-mini': { promptPer1K: 0.00015, completionPer1K: 0.0006 },
+  'gpt-35-turbo': { promptPer1K: 0.0005, completionPer1K: 0.0015 },
+  'text-embedding-ada-002': { promptPer1K: 0.0001, completionPer1K: 0 },
+  'text-embedding-3-small': { promptPer1K: 0.00002, completionPer1K: 0 }
+}
+
+// Tokens a model reads and writes in one request, prompt and completion together
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-35-turbo': 16385,
+  'text-embedding-ada-002': 8191,
+  'text-embedding-3-small': 8191
+}
+
+// Model whose tokenizer counts when the caller does not name one
+export const DEFAULT_TOKENIZER_MODEL = 'gpt-4'
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base'
+
+// Tokens the chat format adds around each message, and to prime the reply
+const TOKENS_PER_MESSAGE = 4
+const TOKENS_PER_REPLY = 3
+
+// GPT-4o and later models tokenize with o200k; GPT-4, GPT-3.5 and the embedding models with cl100k
+const O200K_MODEL_PATTERN = /^(?:gpt-4o|gpt-4\.[15]|gpt-5|o\d)/
+
+const ENCODING_RANKS: Record<TokenizerEncoding, TiktokenBPE> = { cl100k_base, o200k_base }
+const tokenizers = new Map<TokenizerEncoding, Tiktoken>()
+
+/**
+ * The BPE encoding a model tokenizes with. Unknown names, such as fine-tunes, get cl100k.
+ */
+export function encodingForModel(model: string): TokenizerEncoding {
+  return O200K_MODEL_PATTERN.test(model.toLowerCase()) ? 'o200k_base' : 'cl100k_base'
+}
+
+/**
+ * Count the tokens of a text with the tokenizer of a model. Special tokens such as <|endoftext|>
+ * count as the plain text they are sent as.
+ */
+export function estimateTokens(text: string, model: string = DEFAULT_TOKENIZER_MODEL): number {
+  return text ? encode(text, model).length : 0
+}
+
+/**
+ * Count the prompt tokens of a chat completion request
+ */
+export function estimateChatTokens(messages: ChatMessage[], model: string = DEFAULT_TOKENIZER_MODEL): number {
+  return messages.reduce((total, message) => total + TOKENS_PER_MESSAGE + estimateTokens(message.content, model), TOKENS_PER_REPLY)
+}
+
+/**
+ * Cut a text to at most a number of tokens, keeping its start
+ */
+export function truncateToTokens(text: string, maxTokens: number, model: string = DEFAULT_TOKENIZER_MODEL): string {
+  const tokens = encode(text, model)
+  if (tokens.length <= maxTokens) {
+    return text
+  }
+
+  // A cut inside a multi-byte character decodes to a replacement character
+  return getTokenizer(model).decode(tokens.slice(0, Math.max(0, maxTokens))).replace(/\uFFFD+$/, '')
+}
+
+/**
+ * Keep texts, in order, while they fit a token budget. The first text that does not fit is
+ * truncated to the tokens left and the rest are dropped.
+ */
+export function fitToTokenBudget(
+  texts: string[],
+  maxTokens: number,
+  model: string = DEFAULT_TOKENIZER_MODEL,
+  separatorTokens: number = 0
+): string[] {
+  const fitted: string[] = []
+  let remaining = maxTokens
+
+  for (const text of texts) {
+    const separator = fitted.length > 0 ? separatorTokens : 0
+    const tokens = estimateTokens(text, model) + separator
+    if (tokens <= remaining) {
+      fitted.push(text)
+      remaining -= tokens
+      continue
+    }
+
+    const truncated = truncateToTokens(text, remaining - separator, model)
+    if (truncated.trim()) {
+      fitted.push(truncated)
+    }
+    break
+  }
+
+  return fitted
+}
+
+/**
+ * Context window of a model, falling back to the default model's for unknown names
+ */
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? MODEL_CONTEXT_WINDOWS[DEFAULT_TOKENIZER_MODEL]
+}
+
+/**
+ * Price a number of prompt and completion tokens for a model. Throws for models without pricing.
+ */
+export function estimateCost(
+  model: string,
+  tokens: { promptTokens: number; completionTokens: number },
+  pricing: Record<string, ModelPricing> = MODEL_PRICING
+): number {
+  const modelPricing = pricing[model]
+  if (!modelPricing) {
+    throw new Error(`No pricing configured for model "${model}"`)
+  }
+
+  return (tokens.promptTokens / 1000) * modelPricing.promptPer1K
+    + (tokens.completionTokens / 1000) * modelPricing.completionPer1K
+}
+
+function getTokenizer(model: string): Tiktoken {
+  const encoding = encodingForModel(model)
+  let tokenizer = tokenizers.get(encoding)
+  if (!tokenizer) {
+    // Building the rank table takes a moment, so each encoding is built once per process
+    tokenizer = new Tiktoken(ENCODING_RANKS[encoding])
+    tokenizers.set(encoding, tokenizer)
+  }
+  return tokenizer
+}
+
+function encode(text: string, model: string): number[] {
+  return getTokenizer(model).encode(text, [], [])
+}
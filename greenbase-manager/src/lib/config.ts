@@ -16,10 +16,22 @@ export interface AppConfig {
       apiKey: string
       deploymentName: string
       embeddingDeploymentName: string
+      // Models behind the deployments, whose names are free-form, for token counting
+      model: string
+      embeddingModel: string
+      // Quota of each deployment, shared by every caller in this process
+      rateLimits: {
+        chat: DeploymentRateLimits
+        embedding: DeploymentRateLimits
+      }
     }
     speech: {
       key: string
       region: string
+      // 'fake' transcribes scripted recordings offline, for local development
+      transcriptionBackend: 'azure' | 'fake'
+      // Locales recordings may be spoken in, e.g. en-US
+      transcriptionLocales: string[]
     }
   }
   oauth: {
@@ -31,6 +43,10 @@ export interface AppConfig {
       clientId: string
       clientSecret: string
     }
+    slack: {
+      clientId: string
+      clientSecret: string
+    }
   }
   nextAuth: {
     url: string
@@ -38,6 +54,20 @@ export interface AppConfig {
   }
 }
 
+export interface DeploymentRateLimits {
+  tokensPerMinute: number
+  requestsPerMinute: number
+}
+
+// Azure assigns 6 requests per minute for every 1,000 tokens per minute of quota
+function deploymentRateLimits(tokensPerMinute: string | undefined, requestsPerMinute: string | undefined): DeploymentRateLimits {
+  const tokens = Number(tokensPerMinute) || 120000
+  return {
+    tokensPerMinute: tokens,
+    requestsPerMinute: Number(requestsPerMinute) || Math.floor(tokens / 1000 * 6)
+  }
+}
+
 class ConfigService {
   private config: AppConfig | null = null
   private keyVaultService = getKeyVaultService()
@@ -76,7 +106,13 @@ class ConfigService {
             : process.env.AZURE_OPENAI_DEPLOYMENT_NAME!,
           embeddingDeploymentName: isProduction
             ? await this.keyVaultService.getSecret('azure-openai-embedding-deployment-name') || ''
-            : process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME!
+            : process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME!,
+          model: process.env.AZURE_OPENAI_MODEL || 'gpt-4',
+          embeddingModel: process.env.AZURE_OPENAI_EMBEDDING_MODEL || 'text-embedding-ada-002',
+          rateLimits: {
+            chat: deploymentRateLimits(process.env.AZURE_OPENAI_TPM_LIMIT, process.env.AZURE_OPENAI_RPM_LIMIT),
+            embedding: deploymentRateLimits(process.env.AZURE_OPENAI_EMBEDDING_TPM_LIMIT, process.env.AZURE_OPENAI_EMBEDDING_RPM_LIMIT)
+          }
         },
         speech: {
           key: isProduction
@@ -84,7 +120,12 @@ class ConfigService {
             : process.env.AZURE_SPEECH_KEY!,
           region: isProduction
             ? await this.keyVaultService.getSecret('azure-speech-region') || ''
-            : process.env.AZURE_SPEECH_REGION!
+            : process.env.AZURE_SPEECH_REGION!,
+          transcriptionBackend: process.env.TRANSCRIPTION_BACKEND === 'fake' ? 'fake' : 'azure',
+          transcriptionLocales: (process.env.AZURE_SPEECH_TRANSCRIPTION_LOCALES || 'en-US,de-DE,es-ES')
+            .split(',')
+            .map(locale => locale.trim())
+            .filter(Boolean)
         }
       },
       oauth: {
@@ -103,6 +144,14 @@ class ConfigService {
           clientSecret: isProduction
             ? await this.keyVaultService.getSecret('google-client-secret') || ''
             : process.env.GOOGLE_CLIENT_SECRET!
+        },
+        slack: {
+          clientId: isProduction
+            ? await this.keyVaultService.getSecret('slack-client-id') || ''
+            : process.env.SLACK_CLIENT_ID!,
+          clientSecret: isProduction
+            ? await this.keyVaultService.getSecret('slack-client-secret') || ''
+            : process.env.SLACK_CLIENT_SECRET!
         }
       },
       nextAuth: {
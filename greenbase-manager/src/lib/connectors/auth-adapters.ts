@@ -0,0 +1,84 @@
+import { getMicrosoftGraphService } from '../oauth/microsoft-graph'
+import { getGoogleDriveService } from '../oauth/google-drive'
+import { getSlackService } from '../oauth/slack'
+import { MicrosoftSourceType, OAuthTokens, SourceType } from '../oauth/types'
+import { ProviderAuthAdapter } from './types'
+
+/**
+ * Microsoft sign-in for Teams, meetings, OneDrive and SharePoint. Each source type asks for its
+ * own Graph scopes and rides along in the OAuth state.
+ */
+export class MicrosoftAuthAdapter implements ProviderAuthAdapter {
+  readonly provider = 'microsoft' as const
+  readonly defaultSourceType = 'teams' as const
+
+  private microsoftService = getMicrosoftGraphService()
+
+  async getAuthUrl(userId: string, sourceType: SourceType): Promise<string> {
+    return await this.microsoftService.getAuthUrl(userId, sourceType as MicrosoftSourceType)
+  }
+
+  async exchangeCodeForTokens(code: string, userId: string, sourceType: SourceType): Promise<OAuthTokens> {
+    return await this.microsoftService.exchangeCodeForTokens(code, userId, sourceType as MicrosoftSourceType)
+  }
+
+  async refreshTokens(userId: string): Promise<OAuthTokens> {
+    return await this.microsoftService.refreshTokens(userId)
+  }
+
+  async revokeTokens(userId: string): Promise<void> {
+    await this.microsoftService.revokeTokens(userId)
+  }
+}
+
+/**
+ * Google sign-in for Google Drive
+ */
+export class GoogleAuthAdapter implements ProviderAuthAdapter {
+  readonly provider = 'google' as const
+  readonly defaultSourceType = 'google_drive' as const
+
+  private googleService = getGoogleDriveService()
+
+  async getAuthUrl(userId: string): Promise<string> {
+    return await this.googleService.getAuthUrl(userId)
+  }
+
+  async exchangeCodeForTokens(code: string, userId: string): Promise<OAuthTokens> {
+    return await this.googleService.exchangeCodeForTokens(code, userId)
+  }
+
+  async refreshTokens(userId: string): Promise<OAuthTokens> {
+    return await this.googleService.refreshTokens(userId)
+  }
+
+  async revokeTokens(userId: string): Promise<void> {
+    await this.googleService.revokeTokens(userId)
+  }
+}
+
+/**
+ * Slack sign-in with a user token
+ */
+export class SlackAuthAdapter implements ProviderAuthAdapter {
+  readonly provider = 'slack' as const
+  readonly defaultSourceType = 'slack' as const
+
+  private slackService = getSlackService()
+
+  async getAuthUrl(userId: string): Promise<string> {
+    return await this.slackService.getAuthUrl(userId)
+  }
+
+  async exchangeCodeForTokens(code: string, userId: string): Promise<OAuthTokens> {
+    return await this.slackService.exchangeCodeForTokens(code, userId)
+  }
+
+  async refreshTokens(userId: string): Promise<OAuthTokens> {
+    return await this.slackService.refreshTokens(userId)
+  }
+
+  async revokeTokens(userId: string): Promise<void> {
+    await this.slackService.revokeTokens(userId)
+  }
+}
@@ -0,0 +1,78 @@
+import { OAuthProvider, SourceType } from '../oauth/types'
+import { ConnectorError, ProviderAuthAdapter, SourceConnector } from './types'
+import { TeamsConnector } from './teams-connector'
+import { TeamsMeetingsConnector } from './teams-meetings-connector'
+import { GoogleDriveConnector } from './google-drive-connector'
+import { MicrosoftDriveConnector } from './microsoft-drive-connector'
+import { SlackConnector } from './slack-connector'
+import { GoogleAuthAdapter, MicrosoftAuthAdapter, SlackAuthAdapter } from './auth-adapters'
+
+/**
+ * Registry of source connectors keyed by source type, and of the auth adapters of their OAuth
+ * providers. New ingestion sources plug in by registering a connector (and an adapter for a new
+ * provider); callers never switch on the source type or provider themselves.
+ */
+class SourceConnectorRegistry {
+  private connectors = new Map<SourceType, SourceConnector>()
+  private authAdapters = new Map<OAuthProvider, ProviderAuthAdapter>()
+
+  register(connector: SourceConnector): void {
+    this.connectors.set(connector.type, connector)
+  }
+
+  getConnector(type: SourceType): SourceConnector {
+    const connector = this.connectors.get(type)
+    if (!connector) {
+      throw new ConnectorError(`No connector registered for source type ${type}`, 'UNSUPPORTED_SOURCE_TYPE')
+    }
+    return connector
+  }
+
+  hasConnector(type: string): type is SourceType {
+    return this.connectors.has(type as SourceType)
+  }
+
+  getConnectors(): SourceConnector[] {
+    return Array.from(this.connectors.values())
+  }
+
+  /**
+   * Source types of the registered connectors that match, e.g. every type connected through one provider
+   */
+  getSourceTypes(matches: (connector: SourceConnector) => boolean): SourceType[] {
+    return this.getConnectors().filter(matches).map(connector => connector.type)
+  }
+
+  registerAuthAdapter(adapter: ProviderAuthAdapter): void {
+    this.authAdapters.set(adapter.provider, adapter)
+  }
+
+  getAuthAdapter(provider: OAuthProvider): ProviderAuthAdapter {
+    const adapter = this.authAdapters.get(provider)
+    if (!adapter) {
+      throw new ConnectorError(`Unsupported provider: ${provider}`, 'UNSUPPORTED_PROVIDER')
+    }
+    return adapter
+  }
+}
+
+// Singleton instance
+let sourceConnectorRegistry: SourceConnectorRegistry | null = null
+
+export function getSourceConnectorRegistry(): SourceConnectorRegistry {
+  if (!sourceConnectorRegistry) {
+    sourceConnectorRegistry = new SourceConnectorRegistry()
+    sourceConnectorRegistry.register(new TeamsConnector())
+    sourceConnectorRegistry.register(new TeamsMeetingsConnector())
+    sourceConnectorRegistry.register(new GoogleDriveConnector())
+    sourceConnectorRegistry.register(new MicrosoftDriveConnector('onedrive'))
+    sourceConnectorRegistry.register(new MicrosoftDriveConnector('sharepoint'))
+    sourceConnectorRegistry.register(new SlackConnector())
+    sourceConnectorRegistry.registerAuthAdapter(new MicrosoftAuthAdapter())
+    sourceConnectorRegistry.registerAuthAdapter(new GoogleAuthAdapter())
+    sourceConnectorRegistry.registerAuthAdapter(new SlackAuthAdapter())
+  }
+  return sourceConnectorRegistry
+}
+
+export { SourceConnectorRegistry }
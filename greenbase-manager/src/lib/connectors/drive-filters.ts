@@ -0,0 +1,115 @@
+import { DriveIngestionFilters, DriveItem } from '../oauth/types'
+
+export const DEFAULT_DRIVE_MAX_DEPTH = 5
+export const MAX_DRIVE_MAX_DEPTH = 20
+
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/([\w.+-]+|\*)$/
+
+/**
+ * Compile a glob to a case-insensitive regular expression. `*` and `?` stay within one path
+ * segment; `**` spans any number of segments, including none when followed by a slash.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const character = pattern[i]
+
+    if (character === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (character === '*') {
+      source += '[^/]*'
+    } else if (character === '?') {
+      source += '[^/]'
+    } else {
+      source += character.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Match a pattern against a file: patterns with a slash match its path below the selected folder,
+ * others only its name
+ */
+export function matchesGlob(pattern: string, name: string, path: string): boolean {
+  return globToRegExp(pattern).test(pattern.includes('/') ? path : name)
+}
+
+/**
+ * Whether a fetched Drive file should be ingested. Excludes win over includes; folders never match.
+ */
+export function matchesDriveFilters(item: DriveItem, path: string, filters: DriveIngestionFilters = {}): boolean {
+  if (!item.file) {
+    return false
+  }
+
+  if (filters.excludePatterns?.some(pattern => matchesGlob(pattern, item.name, path))) {
+    return false
+  }
+
+  if (filters.includePatterns?.length && !filters.includePatterns.some(pattern => matchesGlob(pattern, item.name, path))) {
+    return false
+  }
+
+  if (filters.mimeTypes?.length && !filters.mimeTypes.some(allowed => matchesMimeType(allowed, item.file!.mimeType))) {
+    return false
+  }
+
+  // Google-native documents report no size
+  if (filters.maxFileSizeBytes !== undefined && item.size !== undefined && item.size > filters.maxFileSizeBytes) {
+    return false
+  }
+
+  if (filters.modifiedSince && new Date(item.lastModifiedDateTime) < new Date(filters.modifiedSince)) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Check filters before they are stored. Throws with a message suitable for the user.
+ */
+export function validateDriveFilters(filters: DriveIngestionFilters): void {
+  if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+    throw new Error('Drive filters must be an object')
+  }
+
+  const { maxDepth, includePatterns, excludePatterns, mimeTypes, maxFileSizeBytes, modifiedSince } = filters
+
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_DRIVE_MAX_DEPTH)) {
+    throw new Error(`Max depth must be a whole number between 0 and ${MAX_DRIVE_MAX_DEPTH}`)
+  }
+
+  for (const [field, patterns] of [['Include', includePatterns], ['Exclude', excludePatterns]] as const) {
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || !pattern.trim()))) {
+      throw new Error(`${field} patterns must be a list of non-empty globs`)
+    }
+  }
+
+  if (mimeTypes !== undefined && (!Array.isArray(mimeTypes) || mimeTypes.some(mimeType => typeof mimeType !== 'string' || !MIME_TYPE_PATTERN.test(mimeType)))) {
+    throw new Error('MIME types must be a list such as "application/pdf" or "text/*"')
+  }
+
+  if (maxFileSizeBytes !== undefined && (!Number.isInteger(maxFileSizeBytes) || maxFileSizeBytes <= 0)) {
+    throw new Error('Max file size must be a positive number of bytes')
+  }
+
+  if (modifiedSince !== undefined && (typeof modifiedSince !== 'string' || Number.isNaN(Date.parse(modifiedSince)))) {
+    throw new Error('Modified since must be an ISO 8601 date')
+  }
+}
+
+function matchesMimeType(allowed: string, mimeType: string): boolean {
+  return allowed.endsWith('/*')
+    ? mimeType.startsWith(allowed.slice(0, -1))
+    : allowed === mimeType
+}
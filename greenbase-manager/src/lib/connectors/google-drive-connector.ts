@@ -0,0 +1,149 @@
+import { getGoogleDriveService } from '../oauth/google-drive'
+import { DriveItem } from '../oauth/types'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { getTranscriptionService, isTranscribableMimeType } from '../transcription'
+import { ConnectorFetchResult, ConnectorSource, ContainerQuery, MediaItem, SourceConnector, SourceContainer } from './types'
+import { DEFAULT_DRIVE_MAX_DEPTH, matchesDriveFilters } from './drive-filters'
+import { buildTranscriptChunks } from './transcript-chunks'
+
+/**
+ * Google Drive folders. Files anywhere below each selected folder, down to the source's max depth,
+ * are ingested one chunk per file, narrowed by the source's drive filters.
+ */
+export class GoogleDriveConnector implements SourceConnector<string, DriveItem> {
+  readonly type = 'google_drive' as const
+  readonly provider = 'google' as const
+  readonly displayName = 'Google Drive'
+  readonly cursorNamespace = 'driveFolders'
+  readonly selectsDriveFolders = true
+
+  private googleService = getGoogleDriveService()
+  private transcriptionService = getTranscriptionService()
+
+  async listContainers(userId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    const items = await this.googleService.getDriveItems(userId, query.parentId)
+    const search = query.search?.toLowerCase()
+
+    return items
+      .filter(item => item.folder && (!search || item.name.toLowerCase().includes(search)))
+      .map(item => ({
+        id: item.id,
+        name: item.name,
+        kind: 'folder',
+        hasChildren: true,
+        selection: item.id,
+        webUrl: item.webUrl
+      }))
+  }
+
+  getSelections(source: ConnectorSource): string[] {
+    return source.selectedFolders || []
+  }
+
+  getSelectionKey(folderId: string): string {
+    return folderId
+  }
+
+  describeSelection(folderId: string): string {
+    return `folder ${folderId}`
+  }
+
+  async fetchItems(source: ConnectorSource, folderId: string, pageToken?: string): Promise<ConnectorFetchResult<DriveItem>> {
+    const filters = source.driveFilters || {}
+    const maxDepth = filters.maxDepth ?? DEFAULT_DRIVE_MAX_DEPTH
+
+    if (pageToken) {
+      // Incremental sync: files changed since the last run anywhere in the folder tree. Changes cover
+      // the whole Drive, so the tree's folders are listed to place each file by its parent.
+      const changes = await this.googleService.getChanges(source.userId, pageToken)
+      const folders = await this.googleService.getFolderStructure(source.userId, folderId, maxDepth, { foldersOnly: true })
+      const paths = resolvePaths(folderId, folders)
+
+      return {
+        items: changes.items.filter(item => {
+          const path = getItemPath(paths, item)
+          return path !== undefined && matchesDriveFilters(item, path, filters)
+        }),
+        cursor: changes.newStartPageToken
+      }
+    }
+
+    // Initial sync: take the change-feed position first so edits made during the listing are not lost.
+    // One level more than maxDepth is listed to reach the files inside the deepest folders.
+    const startPageToken = await this.googleService.getChangesStartPageToken(source.userId)
+    const items = await this.googleService.getFolderStructure(source.userId, folderId, maxDepth + 1)
+    const paths = resolvePaths(folderId, items)
+
+    return {
+      items: items.filter(item => matchesDriveFilters(item, paths.get(item.id) ?? item.name, filters)),
+      cursor: startPageToken
+    }
+  }
+
+  describeMedia(item: DriveItem): MediaItem | null {
+    return item.file && isTranscribableMimeType(item.file.mimeType)
+      ? { name: item.name, durationMs: item.video?.duration }
+      : null
+  }
+
+  async toContentChunks(source: ConnectorSource, folderId: string, item: DriveItem): Promise<ContentChunk[]> {
+    // Only process files, not folders
+    if (!item.file) {
+      return []
+    }
+
+    // Audio and video are transcribed one chunk per speaker turn
+    if (isTranscribableMimeType(item.file.mimeType)) {
+      const media = await this.googleService.getFileMedia(source.userId, item.id)
+      const transcript = await this.transcriptionService.transcribe(media, item.file.mimeType)
+      return buildTranscriptChunks(transcript, {
+        idPrefix: `drive_${item.id}`,
+        sourceType: 'google_drive',
+        sourceId: item.id,
+        startedAt: new Date(item.createdDateTime),
+        url: item.webUrl,
+        fileName: item.name
+      })
+    }
+
+    const content = await this.googleService.getFileContent(source.userId, item.id)
+
+    return [{
+      id: `drive_${item.id}`,
+      content,
+      sourceType: 'google_drive',
+      sourceId: item.id,
+      metadata: {
+        fileName: item.name,
+        timestamp: new Date(item.lastModifiedDateTime),
+        url: item.webUrl
+      }
+    }]
+  }
+}
+
+/**
+ * Path of each listed item below the selected folder, e.g. `Policies/HR/leave.docx`.
+ * Relies on folders being listed before their contents.
+ */
+function resolvePaths(rootFolderId: string, items: DriveItem[]): Map<string, string> {
+  const paths = new Map([[rootFolderId, '']])
+
+  for (const item of items) {
+    const path = getItemPath(paths, item)
+    if (path !== undefined) {
+      paths.set(item.id, path)
+    }
+  }
+
+  return paths
+}
+
+// An item's path through whichever of its parents is known; undefined when it is outside the tree
+function getItemPath(folderPaths: Map<string, string>, item: DriveItem): string | undefined {
+  const parentPath = item.parents?.map(parent => folderPaths.get(parent)).find(path => path !== undefined)
+  if (parentPath === undefined) {
+    return undefined
+  }
+  return parentPath ? `${parentPath}/${item.name}` : item.name
+}
@@ -0,0 +1,40 @@
+// Source Connector Registry
+export {
+  getSourceConnectorRegistry,
+  SourceConnectorRegistry
+} from './connector-registry'
+
+// Connectors
+export { TeamsConnector } from './teams-connector'
+export { TeamsMeetingsConnector } from './teams-meetings-connector'
+export { GoogleDriveConnector } from './google-drive-connector'
+export { MicrosoftDriveConnector } from './microsoft-drive-connector'
+export { SlackConnector } from './slack-connector'
+
+// OAuth provider auth adapters
+export { MicrosoftAuthAdapter, GoogleAuthAdapter, SlackAuthAdapter } from './auth-adapters'
+
+// Google Drive Filters
+export {
+  globToRegExp,
+  matchesGlob,
+  matchesDriveFilters,
+  validateDriveFilters,
+  DEFAULT_DRIVE_MAX_DEPTH,
+  MAX_DRIVE_MAX_DEPTH
+} from './drive-filters'
+
+// Meeting and media transcripts
+export { buildTranscriptChunks, type TranscriptChunkSource } from './transcript-chunks'
+
+// Types
+export {
+  ConnectorError,
+  type SourceConnector,
+  type SourceContainer,
+  type ContainerQuery,
+  type ConnectorSource,
+  type ConnectorFetchResult,
+  type MediaItem,
+  type ProviderAuthAdapter
+} from './types'
@@ -0,0 +1,171 @@
+import { getMicrosoftGraphService } from '../oauth/microsoft-graph'
+import { DriveFolderSelection, DriveItem } from '../oauth/types'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { getTranscriptionService, isTranscribableMimeType } from '../transcription'
+import { ConnectorFetchResult, ConnectorSource, ContainerQuery, MediaItem, SourceConnector, SourceContainer } from './types'
+import { buildTranscriptChunks } from './transcript-chunks'
+
+const SITE_CONTAINER_PREFIX = 'site:'
+
+/**
+ * OneDrive drives and SharePoint document libraries, both served by Graph drives.
+ *
+ * Container ids are `driveId/itemId` for libraries and folders (`driveId/root` for a whole library)
+ * and `site:<siteId>` for SharePoint sites, which are navigation-only.
+ */
+export class MicrosoftDriveConnector implements SourceConnector<DriveFolderSelection, DriveItem> {
+  readonly provider = 'microsoft' as const
+  readonly displayName: string
+  readonly cursorNamespace = 'oneDriveFolders'
+  readonly selectsDriveFolders = true
+
+  private microsoftService = getMicrosoftGraphService()
+  private transcriptionService = getTranscriptionService()
+
+  constructor(readonly type: 'onedrive' | 'sharepoint') {
+    this.displayName = type === 'onedrive' ? 'OneDrive' : 'SharePoint'
+  }
+
+  async listContainers(userId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    const search = query.search?.toLowerCase()
+    const matches = (name: string) => !search || name.toLowerCase().includes(search)
+
+    if (!query.parentId) {
+      if (this.type === 'sharepoint') {
+        const sites = await this.microsoftService.getSharePointSites(userId, query.search)
+        return sites.map(site => ({
+          id: `${SITE_CONTAINER_PREFIX}${site.id}`,
+          name: site.displayName,
+          kind: 'site',
+          hasChildren: true,
+          webUrl: site.webUrl
+        }))
+      }
+
+      const drives = await this.microsoftService.getDocumentLibraries(userId)
+      return drives.filter(drive => matches(drive.name)).map(drive => this.libraryContainer(drive))
+    }
+
+    if (query.parentId.startsWith(SITE_CONTAINER_PREFIX)) {
+      const siteId = query.parentId.slice(SITE_CONTAINER_PREFIX.length)
+      const libraries = await this.microsoftService.getDocumentLibraries(userId, siteId)
+      return libraries.filter(library => matches(library.name)).map(library => this.libraryContainer(library))
+    }
+
+    const separator = query.parentId.indexOf('/')
+    const driveId = query.parentId.slice(0, separator)
+    const itemId = query.parentId.slice(separator + 1)
+    const children = await this.microsoftService.getDriveChildren(userId, driveId, itemId)
+
+    return children
+      .filter(item => item.folder && matches(item.name))
+      .map(item => {
+        const selection: DriveFolderSelection = { driveId, itemId: item.id, displayName: item.name }
+        return {
+          id: `${driveId}/${item.id}`,
+          name: item.name,
+          kind: 'folder',
+          hasChildren: (item.folder?.childCount ?? 0) > 0,
+          selection,
+          webUrl: item.webUrl
+        }
+      })
+  }
+
+  getSelections(source: ConnectorSource): DriveFolderSelection[] {
+    return source.selectedDriveFolders || []
+  }
+
+  getSelectionKey(selection: DriveFolderSelection): string {
+    return `${selection.driveId}/${selection.itemId}`
+  }
+
+  describeSelection(selection: DriveFolderSelection): string {
+    return `folder ${selection.displayName}`
+  }
+
+  async fetchItems(
+    source: ConnectorSource,
+    selection: DriveFolderSelection,
+    deltaLink?: string
+  ): Promise<ConnectorFetchResult<DriveItem>> {
+    if (deltaLink) {
+      // Drive deltas cover the whole drive, so keep only items directly inside the selected folder.
+      // Delta responses omit parentReference.path, so the 'root' alias is resolved to its real id.
+      const folderId = selection.itemId === 'root'
+        ? (await this.microsoftService.getDriveItem(source.userId, selection.driveId, 'root')).id
+        : selection.itemId
+      const delta = await this.microsoftService.getDriveDelta(source.userId, deltaLink)
+      return {
+        items: delta.items.filter(item => item.parentReference?.id === folderId),
+        cursor: delta.deltaLink
+      }
+    }
+
+    // Initial sync: take the delta position first so edits made during the listing are not lost
+    const startLink = await this.microsoftService.getDriveDeltaStartLink(source.userId, selection.driveId)
+    return {
+      items: await this.microsoftService.getDriveChildren(source.userId, selection.driveId, selection.itemId),
+      cursor: startLink
+    }
+  }
+
+  describeMedia(item: DriveItem): MediaItem | null {
+    return item.file && isTranscribableMimeType(item.file.mimeType)
+      ? { name: item.name, durationMs: item.video?.duration ?? item.audio?.duration }
+      : null
+  }
+
+  async toContentChunks(source: ConnectorSource, selection: DriveFolderSelection, item: DriveItem): Promise<ContentChunk[]> {
+    // Only process files, not folders
+    if (!item.file) {
+      return []
+    }
+
+    // Audio and video, such as meeting recordings saved to OneDrive, are transcribed one chunk per speaker turn
+    if (isTranscribableMimeType(item.file.mimeType)) {
+      const media = await this.microsoftService.getDriveFileMedia(source.userId, selection.driveId, item.id)
+      const transcript = await this.transcriptionService.transcribe(media, item.file.mimeType)
+      return buildTranscriptChunks(transcript, {
+        idPrefix: `${this.type}_${item.id}`,
+        sourceType: this.type,
+        sourceId: `${selection.driveId}/${item.id}`,
+        startedAt: new Date(item.createdDateTime),
+        url: item.webUrl,
+        fileName: item.name
+      })
+    }
+
+    const content = await this.microsoftService.getDriveFileContent(source.userId, selection.driveId, item.id)
+
+    return [{
+      id: `${this.type}_${item.id}`,
+      content,
+      sourceType: this.type,
+      sourceId: `${selection.driveId}/${item.id}`,
+      metadata: {
+        fileName: item.name,
+        timestamp: new Date(item.lastModifiedDateTime),
+        url: item.webUrl
+      }
+    }]
+  }
+
+  private libraryContainer(library: { id: string; name: string; webUrl: string; siteId?: string }): SourceContainer {
+    const selection: DriveFolderSelection = {
+      driveId: library.id,
+      itemId: 'root',
+      siteId: library.siteId,
+      displayName: library.name
+    }
+
+    return {
+      id: `${library.id}/root`,
+      name: library.name,
+      kind: 'library',
+      hasChildren: true,
+      selection,
+      webUrl: library.webUrl
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { getSlackService } from '../oauth/slack'
+import { SlackChannelMapping, SlackMessage, SlackThread, SlackWorkspace } from '../oauth/types'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { getSlackMentionedUserIds, normalizeSlackMessage } from '../ingestion/slack-message-normalizer'
+import { ConnectorFetchResult, ConnectorSource, ContainerQuery, SourceConnector, SourceContainer } from './types'
+
+// New replies don't move their root in channel history, so roots this recent are re-read on every sync
+const THREAD_REPLY_LOOKBACK_SECONDS = 7 * 24 * 60 * 60
+
+// A thread along with what is needed to render it: display names for every user id it references
+interface ResolvedSlackThread extends SlackThread {
+  workspace: SlackWorkspace
+  userNames: Map<string, string>
+}
+
+/**
+ * Slack channels. Each top-level message and its replies are fetched as a thread; every message
+ * becomes its own chunk tagged with the thread it belongs to. The cursor is the ts of the newest
+ * activity seen in the channel.
+ */
+export class SlackConnector implements SourceConnector<SlackChannelMapping, ResolvedSlackThread> {
+  readonly type = 'slack' as const
+  readonly provider = 'slack' as const
+  readonly displayName = 'Slack'
+  readonly cursorNamespace = 'slackChannels'
+
+  private slackService = getSlackService()
+
+  async listContainers(userId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    if (query.parentId) {
+      return []
+    }
+
+    const workspace = await this.slackService.getWorkspace(userId)
+    const channels = await this.slackService.getChannels(userId)
+    const search = query.search?.toLowerCase()
+
+    return channels
+      .filter(channel => !search || channel.name.toLowerCase().includes(search))
+      .map(channel => {
+        const selection: SlackChannelMapping = {
+          teamId: workspace.teamId,
+          channelId: channel.id,
+          displayName: `${workspace.name} - #${channel.name}`
+        }
+        return {
+          id: `${workspace.teamId}/${channel.id}`,
+          name: `#${channel.name}`,
+          kind: 'channel',
+          hasChildren: false,
+          selection,
+          webUrl: `${this.workspaceUrl(workspace)}archives/${channel.id}`
+        }
+      })
+  }
+
+  getSelections(source: ConnectorSource): SlackChannelMapping[] {
+    return source.selectedSlackChannels || []
+  }
+
+  getSelectionKey(selection: SlackChannelMapping): string {
+    return `${selection.teamId}/${selection.channelId}`
+  }
+
+  describeSelection(selection: SlackChannelMapping): string {
+    return `channel ${selection.displayName}`
+  }
+
+  async fetchItems(
+    source: ConnectorSource,
+    selection: SlackChannelMapping,
+    cursor?: string
+  ): Promise<ConnectorFetchResult<ResolvedSlackThread>> {
+    const workspace = await this.slackService.getWorkspace(source.userId)
+    const oldest = cursor ? String(Math.max(0, Number(cursor) - THREAD_REPLY_LOOKBACK_SECONDS)) : undefined
+    const history = await this.slackService.getChannelHistory(source.userId, selection.channelId, oldest)
+
+    const threads: SlackThread[] = []
+    let newestActivity = cursor
+
+    for (const root of history) {
+      // Replies sent to the channel as well show up in history; they are picked up with their thread
+      if (root.thread_ts && root.thread_ts !== root.ts) continue
+
+      const lastActivity = this.lastActivity(root)
+      if (cursor && Number(lastActivity) <= Number(cursor)) continue
+
+      threads.push({
+        root,
+        replies: root.reply_count
+          ? await this.slackService.getThreadReplies(source.userId, selection.channelId, root.ts)
+          : []
+      })
+
+      if (!newestActivity || Number(lastActivity) > Number(newestActivity)) {
+        newestActivity = lastActivity
+      }
+    }
+
+    const userNames = await this.slackService.getUserNames(
+      source.userId,
+      workspace.teamId,
+      threads.flatMap(thread => [thread.root, ...thread.replies]).flatMap(message => [
+        ...(message.user ? [message.user] : []),
+        ...getSlackMentionedUserIds(message.text || ''),
+        ...(message.reactions || []).flatMap(reaction => reaction.users)
+      ])
+    )
+
+    return {
+      items: threads.map(thread => ({ ...thread, workspace, userNames })),
+      cursor: newestActivity || '0'
+    }
+  }
+
+  async toContentChunks(source: ConnectorSource, selection: SlackChannelMapping, thread: ResolvedSlackThread): Promise<ContentChunk[]> {
+    const chunks: ContentChunk[] = []
+    for (const message of [thread.root, ...thread.replies]) {
+      const chunk = this.createChunk(message, thread, selection)
+      if (chunk) {
+        chunks.push(chunk)
+      }
+    }
+    return chunks
+  }
+
+  private createChunk(message: SlackMessage, thread: ResolvedSlackThread, channel: SlackChannelMapping): ContentChunk | null {
+    const content = normalizeSlackMessage(message, thread.userNames)
+    if (!content) {
+      return null
+    }
+
+    const isReply = message.ts !== thread.root.ts
+    const reactions: Record<string, number> = {}
+    for (const reaction of message.reactions || []) {
+      reactions[reaction.name] = reaction.count
+    }
+
+    const permalink = `${this.workspaceUrl(thread.workspace)}archives/${channel.channelId}/p${message.ts.replace('.', '')}`
+
+    return {
+      id: `slack_${channel.channelId}_${message.ts}`,
+      content,
+      sourceType: 'slack',
+      sourceId: `${channel.teamId}/${channel.channelId}`,
+      metadata: {
+        author: (message.user && thread.userNames.get(message.user)) || message.username || message.user,
+        timestamp: new Date(Number(message.ts) * 1000),
+        url: isReply ? `${permalink}?thread_ts=${thread.root.ts}&cid=${channel.channelId}` : permalink,
+        channelName: channel.displayName,
+        teamName: thread.workspace.name,
+        threadId: thread.root.ts,
+        replyToId: isReply ? thread.root.ts : undefined,
+        mentions: getSlackMentionedUserIds(message.text || '').map(id => thread.userNames.get(id) || id),
+        reactions,
+        reactedBy: Array.from(new Set(
+          (message.reactions || []).flatMap(reaction => reaction.users).map(id => thread.userNames.get(id) || id)
+        ))
+      }
+    }
+  }
+
+  /**
+   * The ts of the newest post or edit in a thread, as far as its root message reports
+   */
+  private lastActivity(root: SlackMessage): string {
+    return [root.ts, root.latest_reply, root.edited?.ts]
+      .filter((ts): ts is string => Boolean(ts))
+      .reduce((newest, ts) => Number(ts) > Number(newest) ? ts : newest)
+  }
+
+  private workspaceUrl(workspace: SlackWorkspace): string {
+    return workspace.url.endsWith('/') ? workspace.url : `${workspace.url}/`
+  }
+}
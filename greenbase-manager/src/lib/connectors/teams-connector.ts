@@ -0,0 +1,124 @@
+import { getMicrosoftGraphService } from '../oauth/microsoft-graph'
+import { TeamChannelMapping, TeamsMessage, TeamsThread } from '../oauth/types'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { normalizeTeamsMessage } from '../ingestion/teams-message-normalizer'
+import { ConnectorFetchResult, ConnectorSource, ContainerQuery, SourceConnector, SourceContainer } from './types'
+
+/**
+ * Microsoft Teams channels. Each top-level message and its replies are fetched as a thread;
+ * every message becomes its own chunk tagged with the thread it belongs to.
+ */
+export class TeamsConnector implements SourceConnector<TeamChannelMapping, TeamsThread> {
+  readonly type = 'teams' as const
+  readonly provider = 'microsoft' as const
+  readonly displayName = 'Microsoft Teams'
+  readonly cursorNamespace = 'teamsChannels'
+
+  private microsoftService = getMicrosoftGraphService()
+
+  async listContainers(userId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    // Channels are listed flat across all joined teams
+    if (query.parentId) {
+      return []
+    }
+
+    const channels = await this.microsoftService.getTeamsChannels(userId)
+    const search = query.search?.toLowerCase()
+
+    return channels
+      .filter(channel => !search || channel.displayName.toLowerCase().includes(search))
+      .map(channel => ({
+        id: `${channel.teamId}/${channel.id}`,
+        name: channel.displayName,
+        kind: 'channel',
+        hasChildren: false,
+        selection: { teamId: channel.teamId, channelId: channel.id, displayName: channel.displayName },
+        webUrl: channel.webUrl
+      }))
+  }
+
+  getSelections(source: ConnectorSource): TeamChannelMapping[] {
+    return source.selectedTeamChannels || []
+  }
+
+  getSelectionKey(selection: TeamChannelMapping): string {
+    return `${selection.teamId}/${selection.channelId}`
+  }
+
+  describeSelection(selection: TeamChannelMapping): string {
+    return `channel ${selection.displayName}`
+  }
+
+  async fetchItems(
+    source: ConnectorSource,
+    selection: TeamChannelMapping,
+    cursor?: string
+  ): Promise<ConnectorFetchResult<TeamsThread>> {
+    // Only messages created or edited since the stored delta link are returned
+    const { messages, deltaLink } = await this.microsoftService.getChannelMessagesDelta(
+      source.userId,
+      selection.teamId,
+      selection.channelId,
+      cursor
+    )
+
+    // The channel delta feed only carries top-level messages, so replies are fetched per thread
+    const threads: TeamsThread[] = []
+    for (const root of messages) {
+      threads.push({
+        root,
+        replies: await this.microsoftService.getMessageReplies(source.userId, selection.teamId, selection.channelId, root.id)
+      })
+    }
+
+    return { items: threads, cursor: deltaLink }
+  }
+
+  async toContentChunks(source: ConnectorSource, selection: TeamChannelMapping, thread: TeamsThread): Promise<ContentChunk[]> {
+    const chunks: ContentChunk[] = []
+    for (const message of [thread.root, ...thread.replies]) {
+      const chunk = this.createChunk(message, thread.root.id, selection)
+      if (chunk) {
+        chunks.push(chunk)
+      }
+    }
+    return chunks
+  }
+
+  private createChunk(message: TeamsMessage, threadId: string, channelMapping: TeamChannelMapping): ContentChunk | null {
+    // HTML becomes Markdown with mentions and attachments resolved; system/event messages are dropped
+    const content = normalizeTeamsMessage(message)
+    if (!content) {
+      return null
+    }
+
+    // Reactions and mentions are signals about the message rather than part of it, so they stay in metadata
+    const reactions: Record<string, number> = {}
+    for (const reaction of message.reactions || []) {
+      reactions[reaction.reactionType] = (reactions[reaction.reactionType] || 0) + 1
+    }
+
+    return {
+      id: `teams_${message.id}`,
+      content,
+      sourceType: 'teams',
+      sourceId: `${channelMapping.teamId}/${channelMapping.channelId}`,
+      metadata: {
+        author: message.from.user?.displayName,
+        timestamp: new Date(message.createdDateTime),
+        url: message.webUrl,
+        channelName: channelMapping.displayName,
+        teamName: channelMapping.displayName.split(' - ')[0],
+        threadId,
+        replyToId: message.replyToId || undefined,
+        mentions: (message.mentions || [])
+          .map(mention => mention.mentioned.user?.displayName || mention.mentionText)
+          .filter(Boolean),
+        reactions,
+        reactedBy: (message.reactions || [])
+          .map(reaction => reaction.user.user?.displayName || reaction.user.user?.id)
+          .filter((name): name is string => Boolean(name))
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { getMicrosoftGraphService } from '../oauth/microsoft-graph'
+import { MeetingArtifact } from '../oauth/types'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { getTranscriptionService, parseWebVtt, Transcript } from '../transcription'
+import { ConnectorFetchResult, ConnectorSource, ContainerQuery, MediaItem, SourceConnector, SourceContainer } from './types'
+import { buildTranscriptChunks } from './transcript-chunks'
+
+// The only selection: every meeting the connected user organized
+const ORGANIZED_MEETINGS = 'organized'
+
+/**
+ * Microsoft Teams meetings the connected user organized. Teams transcripts are used where the
+ * meeting was transcribed; otherwise its recording is transcribed by the Speech service. Either
+ * way each speaker turn becomes a chunk with the speaker as author.
+ */
+export class TeamsMeetingsConnector implements SourceConnector<string, MeetingArtifact> {
+  readonly type = 'teams_meetings' as const
+  readonly provider = 'microsoft' as const
+  readonly displayName = 'Teams meetings'
+  readonly cursorNamespace = 'teamsMeetings'
+
+  private microsoftService = getMicrosoftGraphService()
+  private transcriptionService = getTranscriptionService()
+
+  async listContainers(userId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    if (query.parentId) {
+      return []
+    }
+
+    return [{
+      id: ORGANIZED_MEETINGS,
+      name: 'Meetings I organized',
+      kind: 'meetings',
+      hasChildren: false,
+      selection: ORGANIZED_MEETINGS
+    }]
+  }
+
+  getSelections(): string[] {
+    return [ORGANIZED_MEETINGS]
+  }
+
+  getSelectionKey(selection: string): string {
+    return selection
+  }
+
+  describeSelection(): string {
+    return 'organized meetings'
+  }
+
+  /**
+   * The cursor is the creation time of the newest transcript or recording seen. Graph treats the
+   * start time as inclusive, so artifacts at exactly the cursor were ingested last time.
+   */
+  async fetchItems(source: ConnectorSource, selection: string, cursor?: string): Promise<ConnectorFetchResult<MeetingArtifact>> {
+    const fetchStartedAt = new Date().toISOString()
+    const [transcripts, recordings] = await Promise.all([
+      this.microsoftService.getMeetingTranscripts(source.userId, cursor),
+      this.microsoftService.getMeetingRecordings(source.userId, cursor)
+    ])
+
+    // A recording is only transcribed when Teams has no transcript of the same call
+    const transcribedCalls = new Set(transcripts.map(transcript => transcript.contentCorrelationId).filter(Boolean))
+    const items = [
+      ...transcripts,
+      ...recordings.filter(recording => !recording.contentCorrelationId || !transcribedCalls.has(recording.contentCorrelationId))
+    ].filter(item => !cursor || item.createdDateTime > cursor)
+
+    const newest = [...transcripts, ...recordings]
+      .map(item => item.createdDateTime)
+      .reduce<string | undefined>((latest, created) => (!latest || created > latest ? created : latest), cursor)
+
+    return { items, cursor: newest || fetchStartedAt }
+  }
+
+  // Teams transcripts are read as text; only recordings without one are transcribed
+  describeMedia(artifact: MeetingArtifact): MediaItem | null {
+    if (artifact.kind !== 'recording') {
+      return null
+    }
+
+    return {
+      name: `Recording of meeting ${artifact.meetingId}`,
+      durationMs: artifact.endDateTime
+        ? new Date(artifact.endDateTime).getTime() - new Date(artifact.createdDateTime).getTime()
+        : undefined
+    }
+  }
+
+  async toContentChunks(source: ConnectorSource, selection: string, artifact: MeetingArtifact): Promise<ContentChunk[]> {
+    const meeting = await this.microsoftService.getOnlineMeeting(source.userId, artifact.meetingId)
+    const transcript = await this.getTranscript(source.userId, artifact)
+
+    return buildTranscriptChunks(transcript, {
+      idPrefix: `teams_meeting_${artifact.kind}_${artifact.id}`,
+      sourceType: this.type,
+      sourceId: artifact.meetingId,
+      startedAt: new Date(meeting.startDateTime || artifact.createdDateTime),
+      url: meeting.joinWebUrl,
+      meetingTitle: meeting.subject
+    })
+  }
+
+  private async getTranscript(userId: string, artifact: MeetingArtifact): Promise<Transcript> {
+    if (artifact.kind === 'transcript') {
+      const vtt = await this.microsoftService.getMeetingTranscriptContent(userId, artifact.meetingId, artifact.id)
+      return parseWebVtt(vtt)
+    }
+
+    const recording = await this.microsoftService.getMeetingRecordingContent(userId, artifact.meetingId, artifact.id)
+    return await this.transcriptionService.transcribe(recording, 'video/mp4')
+  }
+}
@@ -0,0 +1,74 @@
+import { isSupportedLanguage } from '../ai/language-detection'
+import { ContentChunk } from '../ingestion/content-ingestion-service'
+import { SourceType } from '../oauth/types'
+import { Transcript, TranscriptSegment } from '../transcription/types'
+
+// A speaker's turn is split once it grows past this, at a segment boundary
+const MAX_TURN_CHARS = 2000
+
+export interface TranscriptChunkSource {
+  // Chunk ids are this prefix and the turn's position, e.g. drive_<fileId>_3
+  idPrefix: string
+  sourceType: SourceType
+  sourceId: string
+  // When recording started; chunk timestamps are offset from it
+  startedAt: Date
+  url?: string
+  fileName?: string
+  meetingTitle?: string
+}
+
+/**
+ * Turn a transcript into one chunk per speaker turn: consecutive segments by the same speaker are
+ * joined, so a chunk reads like a chat message with its speaker as the author.
+ */
+export function buildTranscriptChunks(transcript: Transcript, source: TranscriptChunkSource): ContentChunk[] {
+  const localeLanguage = transcript.locale?.split('-')[0].toLowerCase()
+  const language = isSupportedLanguage(localeLanguage) ? localeLanguage : undefined
+
+  return groupTurns(transcript.segments).map((turn, index) => ({
+    id: `${source.idPrefix}_${index}`,
+    content: turn.map(segment => segment.text).join(' '),
+    sourceType: source.sourceType,
+    sourceId: source.sourceId,
+    metadata: {
+      author: turn[0].speaker,
+      timestamp: new Date(source.startedAt.getTime() + turn[0].startMs),
+      url: source.url,
+      fileName: source.fileName,
+      meetingTitle: source.meetingTitle,
+      mediaOffsetMs: turn[0].startMs,
+      language
+    }
+  }))
+}
+
+function groupTurns(segments: TranscriptSegment[]): TranscriptSegment[][] {
+  const turns: TranscriptSegment[][] = []
+  let current: TranscriptSegment[] = []
+  let length = 0
+
+  for (const segment of segments) {
+    if (!segment.text.trim()) {
+      continue
+    }
+
+    const sameSpeaker = current.length > 0 && current[0].speaker === segment.speaker
+    if (!sameSpeaker || length + segment.text.length > MAX_TURN_CHARS) {
+      if (current.length > 0) {
+        turns.push(current)
+      }
+      current = []
+      length = 0
+    }
+
+    current.push(segment)
+    length += segment.text.length + 1
+  }
+
+  if (current.length > 0) {
+    turns.push(current)
+  }
+
+  return turns
+}
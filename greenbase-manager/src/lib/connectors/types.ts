@@ -0,0 +1,105 @@
+import { OAuthProvider, OAuthTokens, SourceType } from '../oauth/types'
+import { ContentChunk, IngestionSource } from '../ingestion/content-ingestion-service'
+
+// The parts of a source a connector needs to know what to fetch
+export type ConnectorSource = Pick<
+  IngestionSource,
+  'id' | 'type' | 'userId' | 'selectedChannels' | 'selectedFolders' | 'selectedTeamChannels' | 'selectedDriveFolders' | 'selectedSlackChannels' | 'driveFilters'
+>
+
+// Something a user can browse to or pick for ingestion: a channel, folder, site, document library or set of meetings
+export interface SourceContainer {
+  id: string
+  name: string
+  kind: 'channel' | 'folder' | 'site' | 'library' | 'meetings'
+  // Children are listed by passing this container's id as ContainerQuery.parentId
+  hasChildren: boolean
+  // Value stored in the source's selection when picked; absent on navigation-only containers such as sites
+  selection?: unknown
+  webUrl?: string
+}
+
+export interface ContainerQuery {
+  parentId?: string
+  search?: string
+}
+
+// Audio or video that a connector transcribes when mapping it to content chunks
+export interface MediaItem {
+  name: string
+  // Unknown when the provider does not report it
+  durationMs?: number
+}
+
+export interface ConnectorFetchResult<TItem> {
+  items: TItem[]
+  // Delta cursor to resume from on the next sync
+  cursor: string
+}
+
+/**
+ * A pluggable ingestion source. The ingestion pipeline, OAuth service and selection APIs only talk
+ * to sources through this interface, so a new source is one connector plus its registration.
+ *
+ * TSelection is what a user picks (a channel mapping, a folder id...), TItem is what fetchItems
+ * returns for a selection before it is mapped to content chunks.
+ */
+export interface SourceConnector<TSelection = unknown, TItem = unknown> {
+  readonly type: SourceType
+  // Which OAuth connection (and Key Vault tokens) the connector authenticates with
+  readonly provider: OAuthProvider
+  // Default name for newly connected sources
+  readonly displayName: string
+  // Key under SyncCursors where this connector keeps its per-selection cursors
+  readonly cursorNamespace: string
+  // Whether users pick the source's content by browsing the folders of a drive
+  readonly selectsDriveFolders?: boolean
+
+  listContainers(userId: string, query?: ContainerQuery): Promise<SourceContainer[]>
+
+  getSelections(source: ConnectorSource): TSelection[]
+  // Stable key for a selection, used for its delta cursor
+  getSelectionKey(selection: TSelection): string
+  describeSelection(selection: TSelection): string
+
+  /**
+   * Fetch the items of a selection that are new or changed since the cursor,
+   * or everything in it when there is no cursor yet
+   */
+  fetchItems(source: ConnectorSource, selection: TSelection, cursor?: string): Promise<ConnectorFetchResult<TItem>>
+
+  // Map a fetched item to content chunks; items with nothing to ingest map to an empty array
+  toContentChunks(source: ConnectorSource, selection: TSelection, item: TItem): Promise<ContentChunk[]>
+
+  /**
+   * The media toContentChunks would transcribe for an item, or null when the item is read as text.
+   * Transcription is billed, so a dry run lists media with this instead of mapping it.
+   */
+  describeMedia?(item: TItem): MediaItem | null
+}
+
+/**
+ * The OAuth flow of a provider. Every source type of a provider shares its tokens, so adapters are
+ * registered per provider and told which source type is being connected.
+ */
+export interface ProviderAuthAdapter {
+  readonly provider: OAuthProvider
+  // Source type connected when an authorization does not name one
+  readonly defaultSourceType: SourceType
+
+  getAuthUrl(userId: string, sourceType: SourceType): Promise<string>
+  exchangeCodeForTokens(code: string, userId: string, sourceType: SourceType): Promise<OAuthTokens>
+  refreshTokens(userId: string): Promise<OAuthTokens>
+  revokeTokens(userId: string): Promise<void>
+}
+
+export class ConnectorError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'ConnectorError'
+  }
+}
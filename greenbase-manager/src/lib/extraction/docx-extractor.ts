@@ -0,0 +1,208 @@
+import JSZip from 'jszip'
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './types'
+import { openPackage, readXmlPart } from './ooxml'
+import { childElements, findElement, findElements, firstChild, ownText, XmlElement } from './xml'
+import { renderMarkdownTable } from './markdown'
+
+interface RenderedBlock {
+  text: string
+  // Consecutive list items are separated by a single newline instead of a blank line
+  isListItem: boolean
+}
+
+interface RenderContext {
+  headingLevels: Map<string, number>
+  orderedLevels: Map<string, Set<number>>
+  listCounters: Map<string, number[]>
+}
+
+// Parts of the tree that hold tracked deletions, field codes or properties rather than visible text
+const SKIPPED_RUN_CONTENT = new Set(['w:pPr', 'w:rPr', 'w:del', 'w:delText', 'w:instrText', 'w:fldSimple'])
+
+/**
+ * Extracts Markdown from Word documents, keeping headings (from paragraph styles),
+ * bulleted and numbered lists, and tables
+ */
+export class DocxExtractor implements DocumentExtractor {
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    const pkg = await openPackage(content)
+    const document = await readXmlPart(pkg, 'word/document.xml')
+    const body = document && findElement(document, 'w:body')
+    if (!body) {
+      throw new ExtractionError('Word document has no body', 'INVALID_DOCUMENT')
+    }
+
+    const context: RenderContext = {
+      headingLevels: await this.readHeadingStyles(pkg),
+      orderedLevels: await this.readOrderedListLevels(pkg),
+      listCounters: new Map()
+    }
+
+    const blocks = this.renderBlocks(body, context)
+    let text = ''
+    for (let i = 0; i < blocks.length; i++) {
+      if (i > 0) {
+        text += blocks[i].isListItem && blocks[i - 1].isListItem ? '\n' : '\n\n'
+      }
+      text += blocks[i].text
+    }
+
+    return { text: text.trim(), metadata: { mimeType } }
+  }
+
+  private renderBlocks(container: XmlElement, context: RenderContext): RenderedBlock[] {
+    const blocks: RenderedBlock[] = []
+
+    for (const element of childElements(container)) {
+      if (element.name === 'w:p') {
+        const block = this.renderParagraph(element, context)
+        if (block) blocks.push(block)
+      } else if (element.name === 'w:tbl') {
+        const table = this.renderTable(element)
+        if (table) blocks.push({ text: table, isListItem: false })
+      } else if (element.name === 'w:sdt' || element.name === 'w:sdtContent' || element.name === 'w:customXml') {
+        // Content controls wrap ordinary paragraphs and tables
+        blocks.push(...this.renderBlocks(element, context))
+      }
+    }
+
+    return blocks
+  }
+
+  private renderParagraph(paragraph: XmlElement, context: RenderContext): RenderedBlock | null {
+    const text = this.paragraphText(paragraph).trim()
+    if (!text) return null
+
+    const properties = firstChild(paragraph, 'w:pPr')
+    const styleId = properties && firstChild(properties, 'w:pStyle')?.attributes['w:val']
+    const outlineLevel = properties && firstChild(properties, 'w:outlineLvl')?.attributes['w:val']
+    // Outline level 9 means "body text"
+    const headingLevel = outlineLevel !== undefined && Number(outlineLevel) < 9
+      ? Number(outlineLevel) + 1
+      : styleId ? context.headingLevels.get(styleId) : undefined
+
+    if (headingLevel && headingLevel <= 6) {
+      return { text: `${'#'.repeat(headingLevel)} ${text.replace(/\n+/g, ' ')}`, isListItem: false }
+    }
+
+    const numbering = properties && firstChild(properties, 'w:numPr')
+    const numId = numbering && firstChild(numbering, 'w:numId')?.attributes['w:val']
+    // numId 0 explicitly removes numbering inherited from the style
+    if (numbering && numId && numId !== '0') {
+      const level = Number(firstChild(numbering, 'w:ilvl')?.attributes['w:val'] || 0)
+      const ordered = context.orderedLevels.get(numId)?.has(level) ?? false
+
+      const counters = context.listCounters.get(numId) || []
+      counters[level] = (counters[level] || 0) + 1
+      counters.length = level + 1 // restart deeper levels
+      context.listCounters.set(numId, counters)
+
+      const marker = ordered ? `${counters[level]}.` : '-'
+      return { text: `${'  '.repeat(level)}${marker} ${text.replace(/\n+/g, ' ')}`, isListItem: true }
+    }
+
+    return { text, isListItem: false }
+  }
+
+  private paragraphText(element: XmlElement): string {
+    let text = ''
+    for (const child of childElements(element)) {
+      if (SKIPPED_RUN_CONTENT.has(child.name)) continue
+
+      if (child.name === 'w:t') {
+        text += ownText(child)
+      } else if (child.name === 'w:tab') {
+        text += '\t'
+      } else if (child.name === 'w:br' || child.name === 'w:cr') {
+        text += '\n'
+      } else {
+        text += this.paragraphText(child)
+      }
+    }
+    return text
+  }
+
+  private renderTable(table: XmlElement): string {
+    const rows = childElements(table, 'w:tr').map(row =>
+      childElements(row, 'w:tc').map(cell =>
+        findElements(cell, 'w:p')
+          .map(paragraph => this.paragraphText(paragraph).trim())
+          .filter(Boolean)
+          .join('\n')
+      )
+    )
+    return renderMarkdownTable(rows)
+  }
+
+  /**
+   * Map paragraph style ids to heading levels, following basedOn so custom heading styles resolve too
+   */
+  private async readHeadingStyles(pkg: JSZip): Promise<Map<string, number>> {
+    const levels = new Map<string, number>()
+    const styles = await readXmlPart(pkg, 'word/styles.xml')
+    if (!styles) return levels
+
+    const byId = new Map<string, XmlElement>()
+    for (const style of findElements(styles, 'w:style')) {
+      if (style.attributes['w:type'] === 'paragraph' && style.attributes['w:styleId']) {
+        byId.set(style.attributes['w:styleId'], style)
+      }
+    }
+
+    const resolve = (styleId: string, depth: number): number | undefined => {
+      const style = byId.get(styleId)
+      if (!style || depth > 10) return undefined
+
+      const outlineLevel = findElement(style, 'w:outlineLvl')?.attributes['w:val']
+      // Outline level 9 means "body text"
+      if (outlineLevel !== undefined && Number(outlineLevel) < 9) return Number(outlineLevel) + 1
+
+      const name = (firstChild(style, 'w:name')?.attributes['w:val'] || '').toLowerCase()
+      const match = name.match(/^heading (\d)$/)
+      if (match) return Number(match[1])
+      if (name === 'title') return 1
+
+      const basedOn = firstChild(style, 'w:basedOn')?.attributes['w:val']
+      return basedOn ? resolve(basedOn, depth + 1) : undefined
+    }
+
+    for (const styleId of byId.keys()) {
+      const level = resolve(styleId, 0)
+      if (level) levels.set(styleId, level)
+    }
+
+    return levels
+  }
+
+  /**
+   * For each numbering instance, the list levels that are numbered rather than bulleted
+   */
+  private async readOrderedListLevels(pkg: JSZip): Promise<Map<string, Set<number>>> {
+    const ordered = new Map<string, Set<number>>()
+    const numbering = await readXmlPart(pkg, 'word/numbering.xml')
+    if (!numbering) return ordered
+
+    const abstractLevels = new Map<string, Set<number>>()
+    for (const abstractNum of findElements(numbering, 'w:abstractNum')) {
+      const levels = new Set<number>()
+      for (const level of childElements(abstractNum, 'w:lvl')) {
+        const format = firstChild(level, 'w:numFmt')?.attributes['w:val']
+        if (format && format !== 'bullet' && format !== 'none') {
+          levels.add(Number(level.attributes['w:ilvl'] || 0))
+        }
+      }
+      abstractLevels.set(abstractNum.attributes['w:abstractNumId'], levels)
+    }
+
+    for (const num of findElements(numbering, 'w:num')) {
+      const abstractId = firstChild(num, 'w:abstractNumId')?.attributes['w:val']
+      if (abstractId !== undefined && num.attributes['w:numId']) {
+        ordered.set(num.attributes['w:numId'], abstractLevels.get(abstractId) || new Set())
+      }
+    }
+
+    return ordered
+  }
+}
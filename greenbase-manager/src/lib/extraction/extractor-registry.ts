@@ -0,0 +1,64 @@
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './types'
+import { DocxExtractor } from './docx-extractor'
+import { XlsxExtractor } from './xlsx-extractor'
+import { PptxExtractor } from './pptx-extractor'
+import { PdfExtractor } from './pdf-extractor'
+import { TextExtractor } from './text-extractor'
+
+/**
+ * Registry of document extractors keyed by MIME type. Extraction runs entirely in-process;
+ * additional formats can be supported by registering another extractor.
+ */
+class DocumentExtractorRegistry {
+  private extractors = new Map<string, DocumentExtractor>()
+
+  register(extractor: DocumentExtractor): void {
+    for (const mimeType of extractor.mimeTypes) {
+      this.extractors.set(mimeType.toLowerCase(), extractor)
+    }
+  }
+
+  getExtractor(mimeType: string): DocumentExtractor | undefined {
+    return this.extractors.get(this.normalizeMimeType(mimeType))
+  }
+
+  canExtract(mimeType: string): boolean {
+    return this.extractors.has(this.normalizeMimeType(mimeType))
+  }
+
+  getSupportedMimeTypes(): string[] {
+    return Array.from(this.extractors.keys())
+  }
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    const normalized = this.normalizeMimeType(mimeType)
+    const extractor = this.extractors.get(normalized)
+    if (!extractor) {
+      throw new ExtractionError(`No extractor registered for ${mimeType}`, 'UNSUPPORTED_TYPE')
+    }
+
+    return await extractor.extract(content, normalized)
+  }
+
+  private normalizeMimeType(mimeType: string): string {
+    // Drop parameters such as "; charset=utf-8"
+    return mimeType.split(';')[0].trim().toLowerCase()
+  }
+}
+
+// Singleton instance
+let documentExtractorRegistry: DocumentExtractorRegistry | null = null
+
+export function getDocumentExtractorRegistry(): DocumentExtractorRegistry {
+  if (!documentExtractorRegistry) {
+    documentExtractorRegistry = new DocumentExtractorRegistry()
+    documentExtractorRegistry.register(new DocxExtractor())
+    documentExtractorRegistry.register(new XlsxExtractor())
+    documentExtractorRegistry.register(new PptxExtractor())
+    documentExtractorRegistry.register(new PdfExtractor())
+    documentExtractorRegistry.register(new TextExtractor())
+  }
+  return documentExtractorRegistry
+}
+
+export { DocumentExtractorRegistry }
@@ -0,0 +1,19 @@
+// Document Extractor Registry
+export {
+  getDocumentExtractorRegistry,
+  DocumentExtractorRegistry
+} from './extractor-registry'
+
+// Extractors
+export { DocxExtractor } from './docx-extractor'
+export { XlsxExtractor } from './xlsx-extractor'
+export { PptxExtractor } from './pptx-extractor'
+export { PdfExtractor } from './pdf-extractor'
+export { TextExtractor, parseCsv } from './text-extractor'
+
+// Types
+export {
+  ExtractionError,
+  type DocumentExtractor,
+  type ExtractedDocument
+} from './types'
@@ -0,0 +1,30 @@
+/**
+ * Render rows as a Markdown table, treating the first row as the header.
+ * Pipes and line breaks inside cells are escaped so they cannot break the table.
+ */
+export function renderMarkdownTable(rows: string[][]): string {
+  const nonEmptyRows = rows.filter(row => row.some(cell => cell.trim().length > 0))
+  if (nonEmptyRows.length === 0) return ''
+
+  const columnCount = Math.max(...nonEmptyRows.map(row => row.length))
+  const formatRow = (row: string[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) =>
+      (row[i] || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>').trim()
+    )
+    return `| ${cells.join(' | ')} |`
+  }
+
+  const [header, ...body] = nonEmptyRows
+  return [
+    formatRow(header),
+    `|${' --- |'.repeat(columnCount)}`,
+    ...body.map(formatRow)
+  ].join('\n')
+}
+
+/**
+ * Join Markdown blocks with blank lines, dropping empty ones
+ */
+export function joinBlocks(blocks: string[]): string {
+  return blocks.map(block => block.trim()).filter(Boolean).join('\n\n')
+}
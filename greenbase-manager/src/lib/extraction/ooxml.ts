@@ -0,0 +1,57 @@
+import JSZip from 'jszip'
+import { parseXml, findElements, XmlElement } from './xml'
+import { ExtractionError } from './types'
+
+/**
+ * Open an Office Open XML package (DOCX, XLSX, PPTX are all zip archives of XML parts)
+ */
+export async function openPackage(content: Buffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(content)
+  } catch (error) {
+    throw new ExtractionError('File is not a valid Office Open XML package', 'INVALID_PACKAGE', error)
+  }
+}
+
+export async function readXmlPart(pkg: JSZip, path: string): Promise<XmlElement | null> {
+  const file = pkg.file(path)
+  if (!file) return null
+  return parseXml(await file.async('string'))
+}
+
+/**
+ * Relationship targets of a part, keyed by relationship id and resolved to package paths
+ */
+export async function readRelationships(pkg: JSZip, partPath: string): Promise<Map<string, string>> {
+  const slash = partPath.lastIndexOf('/')
+  const directory = slash >= 0 ? partPath.slice(0, slash) : ''
+  const fileName = partPath.slice(slash + 1)
+
+  const relationships = new Map<string, string>()
+  const rels = await readXmlPart(pkg, `${directory ? `${directory}/` : ''}_rels/${fileName}.rels`)
+  if (!rels) return relationships
+
+  for (const relationship of findElements(rels, 'Relationship')) {
+    const { Id: id, Target: target, TargetMode: targetMode } = relationship.attributes
+    if (!id || !target || targetMode === 'External') continue
+    relationships.set(id, resolvePartPath(directory, target))
+  }
+
+  return relationships
+}
+
+function resolvePartPath(directory: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1)
+  }
+
+  const segments = directory ? directory.split('/') : []
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop()
+    } else if (segment !== '.') {
+      segments.push(segment)
+    }
+  }
+  return segments.join('/')
+}
@@ -0,0 +1,33 @@
+import pdfParse from 'pdf-parse'
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './types'
+
+/**
+ * Extracts the text layer of a PDF, page by page. PDFs carry no semantic structure,
+ * so line breaks are kept but headings and tables cannot be recovered.
+ * Scanned PDFs without a text layer produce empty text.
+ */
+export class PdfExtractor implements DocumentExtractor {
+  readonly mimeTypes = ['application/pdf']
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    let result: Awaited<ReturnType<typeof pdfParse>>
+    try {
+      result = await pdfParse(content)
+    } catch (error) {
+      throw new ExtractionError(
+        `Failed to parse PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_DOCUMENT',
+        error
+      )
+    }
+
+    const text = result.text
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+
+    return { text, metadata: { mimeType, pageCount: result.numpages } }
+  }
+}
@@ -0,0 +1,131 @@
+import JSZip from 'jszip'
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './types'
+import { openPackage, readRelationships, readXmlPart } from './ooxml'
+import { childElements, findElement, findElements, firstChild, ownText, XmlElement } from './xml'
+import { joinBlocks, renderMarkdownTable } from './markdown'
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle'])
+// Placeholders whose paragraphs are plain text rather than bullets by default
+const NON_BULLET_PLACEHOLDERS = new Set(['subTitle', 'dt', 'ftr', 'sldNum', 'hdr'])
+
+/**
+ * Extracts each slide of a PowerPoint deck as a Markdown section titled by the slide title,
+ * with bullet levels, tables and speaker notes
+ */
+export class PptxExtractor implements DocumentExtractor {
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.presentationml.presentation']
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    const pkg = await openPackage(content)
+    const presentation = await readXmlPart(pkg, 'ppt/presentation.xml')
+    if (!presentation) {
+      throw new ExtractionError('Presentation has no ppt/presentation.xml', 'INVALID_DOCUMENT')
+    }
+
+    const relationships = await readRelationships(pkg, 'ppt/presentation.xml')
+    const slidePaths = findElements(presentation, 'p:sldId')
+      .map(slideId => relationships.get(slideId.attributes['r:id']))
+      .filter((path): path is string => Boolean(path))
+
+    const sections: string[] = []
+    for (let i = 0; i < slidePaths.length; i++) {
+      const section = await this.renderSlide(pkg, slidePaths[i], i + 1)
+      if (section) sections.push(section)
+    }
+
+    return { text: sections.join('\n\n'), metadata: { mimeType, slideCount: slidePaths.length } }
+  }
+
+  private async renderSlide(pkg: JSZip, slidePath: string, slideNumber: number): Promise<string> {
+    const slide = await readXmlPart(pkg, slidePath)
+    const shapeTree = slide && findElement(slide, 'p:spTree')
+    if (!shapeTree) return ''
+
+    let title = ''
+    const blocks: string[] = []
+    this.renderShapes(shapeTree, blocks, foundTitle => { title = title || foundTitle })
+
+    const notes = await this.readNotes(pkg, slidePath)
+    if (notes) {
+      blocks.push(`**Notes:** ${notes}`)
+    }
+
+    return joinBlocks([`## Slide ${slideNumber}${title ? `: ${title}` : ''}`, ...blocks])
+  }
+
+  private renderShapes(container: XmlElement, blocks: string[], onTitle: (title: string) => void): void {
+    for (const shape of childElements(container)) {
+      if (shape.name === 'p:grpSp') {
+        this.renderShapes(shape, blocks, onTitle)
+      } else if (shape.name === 'p:sp') {
+        const placeholder = findElement(shape, 'p:ph')
+        const placeholderType = placeholder?.attributes.type
+        const textBody = firstChild(shape, 'p:txBody')
+        if (!textBody) continue
+
+        if (placeholderType && TITLE_PLACEHOLDERS.has(placeholderType)) {
+          onTitle(this.paragraphs(textBody).map(paragraph => paragraph.text).join(' ').trim())
+          continue
+        }
+
+        // Body and content placeholders are bulleted unless the paragraph turns bullets off
+        const bulletByDefault = Boolean(placeholder) && !NON_BULLET_PLACEHOLDERS.has(placeholderType || '')
+        blocks.push(this.renderTextBody(textBody, bulletByDefault))
+      } else if (shape.name === 'p:graphicFrame') {
+        const table = findElement(shape, 'a:tbl')
+        if (table) {
+          blocks.push(renderMarkdownTable(
+            childElements(table, 'a:tr').map(row =>
+              childElements(row, 'a:tc').map(cell => this.paragraphs(cell).map(paragraph => paragraph.text).join('\n'))
+            )
+          ))
+        }
+      }
+    }
+  }
+
+  private renderTextBody(textBody: XmlElement, bulletByDefault: boolean): string {
+    return this.paragraphs(textBody)
+      .map(({ text, level, bullet }) => {
+        const isBullet = bullet ?? bulletByDefault
+        return isBullet ? `${'  '.repeat(level)}- ${text}` : text
+      })
+      .join('\n')
+  }
+
+  private paragraphs(container: XmlElement): Array<{ text: string; level: number; bullet?: boolean }> {
+    return findElements(container, 'a:p')
+      .map(paragraph => {
+        const properties = firstChild(paragraph, 'a:pPr')
+        let bullet: boolean | undefined
+        if (properties && firstChild(properties, 'a:buNone')) bullet = false
+        if (properties && (firstChild(properties, 'a:buChar') || firstChild(properties, 'a:buAutoNum'))) bullet = true
+
+        const text = childElements(paragraph)
+          .map(child => {
+            if (child.name === 'a:r' || child.name === 'a:fld') {
+              const run = firstChild(child, 'a:t')
+              return run ? ownText(run) : ''
+            }
+            return child.name === 'a:br' ? '\n' : ''
+          })
+          .join('')
+          .trim()
+
+        return { text, level: Number(properties?.attributes.lvl || 0), bullet }
+      })
+      .filter(paragraph => paragraph.text.length > 0)
+  }
+
+  private async readNotes(pkg: JSZip, slidePath: string): Promise<string> {
+    const relationships = await readRelationships(pkg, slidePath)
+    const notesPath = Array.from(relationships.values()).find(path => /notesSlides\/notesSlide\d+\.xml$/.test(path))
+    const notes = notesPath ? await readXmlPart(pkg, notesPath) : null
+    if (!notes) return ''
+
+    // Notes slides also carry the slide image and slide number placeholders; only the body holds the notes
+    const body = findElements(notes, 'p:sp').find(shape => findElement(shape, 'p:ph')?.attributes.type === 'body')
+    const textBody = body && firstChild(body, 'p:txBody')
+    return textBody ? this.paragraphs(textBody).map(paragraph => paragraph.text).join(' ') : ''
+  }
+}
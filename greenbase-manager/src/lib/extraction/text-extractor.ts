@@ -0,0 +1,68 @@
+import { DocumentExtractor, ExtractedDocument } from './types'
+import { renderMarkdownTable } from './markdown'
+
+/**
+ * Plain text and Markdown pass through unchanged; CSV becomes a Markdown table
+ */
+export class TextExtractor implements DocumentExtractor {
+  readonly mimeTypes = ['text/plain', 'text/markdown', 'text/csv']
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    // Strip a UTF-8 byte order mark so it does not end up in the first heading or cell
+    const text = content.toString('utf8').replace(/^\uFEFF/, '')
+
+    if (mimeType === 'text/csv') {
+      return { text: renderMarkdownTable(parseCsv(text)), metadata: { mimeType } }
+    }
+
+    return { text: text.trim(), metadata: { mimeType } }
+  }
+}
+
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain commas, newlines and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
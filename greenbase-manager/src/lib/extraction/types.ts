@@ -0,0 +1,27 @@
+export interface ExtractedDocument {
+  // Markdown: headings, lists and tables from the source document are preserved
+  text: string
+  metadata: {
+    mimeType: string
+    pageCount?: number
+    sheetNames?: string[]
+    slideCount?: number
+  }
+}
+
+export interface DocumentExtractor {
+  // MIME types this extractor handles
+  readonly mimeTypes: string[]
+  extract(content: Buffer, mimeType: string): Promise<ExtractedDocument>
+}
+
+export class ExtractionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'ExtractionError'
+  }
+}
@@ -0,0 +1,113 @@
+import JSZip from 'jszip'
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './types'
+import { openPackage, readRelationships, readXmlPart } from './ooxml'
+import { childElements, findElement, findElements, firstChild, ownText, textContent, XmlElement } from './xml'
+import { joinBlocks, renderMarkdownTable } from './markdown'
+
+/**
+ * Extracts every worksheet of an Excel workbook as a Markdown table under a heading with the sheet name
+ */
+export class XlsxExtractor implements DocumentExtractor {
+  // Very large sheets are usually data exports, not knowledge; keep the prompt bounded
+  private static readonly MAX_ROWS_PER_SHEET = 1000
+
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+
+  async extract(content: Buffer, mimeType: string): Promise<ExtractedDocument> {
+    const pkg = await openPackage(content)
+    const workbook = await readXmlPart(pkg, 'xl/workbook.xml')
+    if (!workbook) {
+      throw new ExtractionError('Workbook has no xl/workbook.xml', 'INVALID_DOCUMENT')
+    }
+
+    const relationships = await readRelationships(pkg, 'xl/workbook.xml')
+    const sharedStrings = await this.readSharedStrings(pkg)
+
+    const sheetNames: string[] = []
+    const blocks: string[] = []
+
+    for (const sheet of findElements(workbook, 'sheet')) {
+      const name = sheet.attributes.name || `Sheet ${sheetNames.length + 1}`
+      const path = relationships.get(sheet.attributes['r:id'])
+      const worksheet = path ? await readXmlPart(pkg, path) : null
+      sheetNames.push(name)
+
+      if (!worksheet) continue
+
+      const rows = this.readRows(worksheet, sharedStrings)
+      const omitted = rows.length - XlsxExtractor.MAX_ROWS_PER_SHEET
+      const table = renderMarkdownTable(rows.slice(0, XlsxExtractor.MAX_ROWS_PER_SHEET))
+      if (!table) continue
+
+      blocks.push(`## ${name}`, table)
+      if (omitted > 0) {
+        blocks.push(`_${omitted} more rows omitted_`)
+      }
+    }
+
+    return { text: joinBlocks(blocks), metadata: { mimeType, sheetNames } }
+  }
+
+  private async readSharedStrings(pkg: JSZip): Promise<string[]> {
+    const sharedStrings = await readXmlPart(pkg, 'xl/sharedStrings.xml')
+    if (!sharedStrings) return []
+
+    // Rich text strings are split into runs (<r><t>), phonetic hints (<rPh>) are not part of the value
+    return findElements(sharedStrings, 'si').map(item =>
+      childElements(item)
+        .filter(child => child.name === 't' || child.name === 'r')
+        .map(child => child.name === 't' ? ownText(child) : textContent(child, 't'))
+        .join('')
+    )
+  }
+
+  private readRows(worksheet: XmlElement, sharedStrings: string[]): string[][] {
+    const sheetData = findElement(worksheet, 'sheetData')
+    if (!sheetData) return []
+
+    const rows: string[][] = []
+    for (const row of childElements(sheetData, 'row')) {
+      const values: string[] = []
+      let nextColumn = 0
+
+      for (const cell of childElements(row, 'c')) {
+        // Cells omit empty neighbours, so their position comes from the A1 reference
+        const column = cell.attributes.r ? this.columnIndex(cell.attributes.r) : nextColumn
+        values[column] = this.cellValue(cell, sharedStrings)
+        nextColumn = column + 1
+      }
+
+      rows.push(Array.from(values, value => value ?? ''))
+    }
+
+    return rows
+  }
+
+  private cellValue(cell: XmlElement, sharedStrings: string[]): string {
+    const type = cell.attributes.t
+    const value = firstChild(cell, 'v')
+    const raw = value ? ownText(value) : ''
+
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(raw)] ?? ''
+      case 'inlineStr': {
+        const inline = firstChild(cell, 'is')
+        return inline ? textContent(inline, 't') : ''
+      }
+      case 'b':
+        return raw === '1' ? 'TRUE' : 'FALSE'
+      default:
+        return raw
+    }
+  }
+
+  private columnIndex(reference: string): number {
+    const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A'
+    let index = 0
+    for (const letter of letters) {
+      index = index * 26 + (letter.charCodeAt(0) - 64)
+    }
+    return index - 1
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Minimal XML reader for the OOXML parts inside DOCX/XLSX/PPTX packages.
+ * Only what the extractors need: elements, attributes and text. Namespaces are kept in
+ * element names as written (e.g. `w:p`), which is stable across Office-generated files.
+ */
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+  })
+}
+
+/**
+ * Parse an XML document into an element tree, returning the root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, name, rawAttributes, selfClosing, text] = match
+    const parent = stack[stack.length - 1]
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata)
+    } else if (text !== undefined) {
+      parent.children.push(decodeXmlEntities(text))
+    } else if (name) {
+      if (closing) {
+        // Tolerate mismatched closing tags by unwinding to the nearest matching element
+        const index = stack.map(element => element.name).lastIndexOf(name)
+        if (index > 0) stack.length = index
+        continue
+      }
+
+      const attributes: Record<string, string> = {}
+      for (const attribute of (rawAttributes || '').matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? '')
+      }
+
+      const element: XmlElement = { name, attributes, children: [] }
+      parent.children.push(element)
+      if (!selfClosing) {
+        stack.push(element)
+      }
+    }
+  }
+
+  return root
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (name === undefined || child.name === name)
+  )
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0]
+}
+
+/**
+ * All descendants with the given name, in document order. Does not descend into matches.
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      found.push(child)
+    } else {
+      found.push(...findElements(child, name))
+    }
+  }
+  return found
+}
+
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) return child
+    const nested = findElement(child, name)
+    if (nested) return nested
+  }
+  return undefined
+}
+
+/**
+ * Text directly inside an element, ignoring nested elements
+ */
+export function ownText(element: XmlElement): string {
+  return element.children.filter((child): child is string => typeof child === 'string').join('')
+}
+
+/**
+ * Concatenated text of the given text elements (e.g. `w:t`, `a:t`) under an element
+ */
+export function textContent(element: XmlElement, textElementName: string): string {
+  return findElements(element, textElementName).map(ownText).join('')
+}
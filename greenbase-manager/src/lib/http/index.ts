@@ -0,0 +1,9 @@
+// HTTP Resilience
+export {
+  withRetry,
+  isRetryableError,
+  getErrorStatus,
+  getRetryAfterMs,
+  parseRetryAfterMs,
+  type RetryOptions
+} from './resilience'
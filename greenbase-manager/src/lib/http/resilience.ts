@@ -0,0 +1,142 @@
+export interface RetryOptions {
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  // Name of the operation, for logging retries
+  operation?: string
+  // Which failures to retry; isRetryableError by default
+  shouldRetry?: (error: unknown) => boolean
+  sleep?: (ms: number) => Promise<void>
+}
+
+// Throttling and transient server errors; anything else is the caller's problem
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED'])
+// Google APIs report some quota throttling as 403 with one of these reasons
+const RETRYABLE_FORBIDDEN_REASONS = new Set(['userRateLimitExceeded', 'rateLimitExceeded'])
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000
+}
+
+type HeaderSource = Headers | Record<string, string | string[] | undefined>
+
+type ErrorDetails = Array<{ reason?: unknown }>
+
+interface HttpErrorLike {
+  status?: unknown
+  statusCode?: unknown
+  code?: unknown
+  headers?: HeaderSource
+  // gaxios copies the error details of Google APIs here, and leaves them in the response body
+  errors?: ErrorDetails
+  response?: { status?: unknown; headers?: HeaderSource; data?: { error?: { errors?: ErrorDetails } } }
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date, into milliseconds
+ */
+export function parseRetryAfterMs(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * HTTP status of an error thrown by fetch wrappers and SDK clients: Graph (`statusCode`),
+ * gaxios (`status` or `response.status`) and OpenAI (`status`)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined
+
+  const { status, statusCode, response } = error as HttpErrorLike
+  for (const candidate of [statusCode, status, response?.status]) {
+    if (typeof candidate === 'number') return candidate
+  }
+  return undefined
+}
+
+/**
+ * How long the server asked us to wait before retrying, from the error's response headers
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined
+
+  const { headers, response } = error as HttpErrorLike
+  const source = headers || response?.headers
+  if (!source) return undefined
+
+  // Azure services also send the wait in milliseconds
+  const retryAfterMs = Number(getHeader(source, 'retry-after-ms'))
+  if (retryAfterMs > 0) return retryAfterMs
+
+  return parseRetryAfterMs(getHeader(source, 'retry-after'))
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error)
+  if (status === 403) {
+    return getErrorReasons(error).some(reason => RETRYABLE_FORBIDDEN_REASONS.has(reason))
+  }
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status)
+  }
+
+  const code = error && typeof error === 'object' ? (error as HttpErrorLike).code : undefined
+  return typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)
+}
+
+/**
+ * Run a request, retrying throttled and transient failures. Waits as long as the server's
+ * Retry-After asks, otherwise backs off exponentially with jitter.
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+  const shouldRetry = options.shouldRetry || isRetryableError
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+      const delay = getRetryAfterMs(error) ?? backoff / 2 + Math.random() * backoff / 2
+
+      console.warn(
+        `${options.operation || 'Request'} failed with ${getErrorStatus(error) ?? (error as HttpErrorLike).code ?? (error as Error).message}, ` +
+        `retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxAttempts})`
+      )
+      await sleep(delay)
+    }
+  }
+}
+
+function getErrorReasons(error: unknown): string[] {
+  const { errors, response } = error as HttpErrorLike
+  return [...(errors || []), ...(response?.data?.error?.errors || [])]
+    .map(detail => detail.reason)
+    .filter((reason): reason is string => typeof reason === 'string')
+}
+
+function getHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>
+  const key = Object.keys(record).find(header => header.toLowerCase() === name)
+  const value = key ? record[key] : undefined
+  return Array.isArray(value) ? value[0] : value
+}
@@ -0,0 +1,118 @@
+import { cosineSimilarity, type EmbedTexts } from './content-grouping'
+import {
+  DocumentChunking,
+  CHUNKING_STRATEGIES,
+  type ChunkingOptions,
+  type ChunkingStrategy,
+  type DocumentChunk
+} from './document-chunking'
+
+export interface EvaluationDocument {
+  id: string
+  content: string
+}
+
+export interface EvaluationQuestion {
+  question: string
+  documentId: string
+  // Passage of the document that answers the question, quoted exactly
+  answer: string
+}
+
+export interface ChunkingEvaluationOptions extends Omit<ChunkingOptions, 'strategy'> {
+  strategies?: readonly ChunkingStrategy[]
+  // Chunks retrieved per question
+  topK?: number
+}
+
+export interface ChunkingStrategyReport {
+  strategy: ChunkingStrategy
+  chunkCount: number
+  averageTokens: number
+  // Questions with a retrieved chunk that overlaps their answer
+  hits: number
+  questions: number
+  hitRate: number
+}
+
+const DEFAULT_TOP_K = 3
+
+/**
+ * Offline comparison of chunking strategies: chunk the sample documents with each strategy,
+ * retrieve the top chunks for every sample question by embedding similarity, and count a hit
+ * when one of them overlaps the passage that answers it. Embeddings are cached across strategies,
+ * so each distinct text is embedded once.
+ */
+export async function compareChunkingStrategies(
+  documents: EvaluationDocument[],
+  questions: EvaluationQuestion[],
+  embed: EmbedTexts,
+  options: ChunkingEvaluationOptions = {}
+): Promise<ChunkingStrategyReport[]> {
+  const { strategies = CHUNKING_STRATEGIES, topK = DEFAULT_TOP_K, ...chunkingOptions } = options
+  const cachedEmbed = cacheEmbeddings(embed)
+
+  const answers = questions.map(question => {
+    const document = documents.find(candidate => candidate.id === question.documentId)
+    const start = document ? document.content.indexOf(question.answer) : -1
+    if (start < 0) {
+      throw new Error(`Answer to "${question.question}" not found in document ${question.documentId}`)
+    }
+    return { documentId: question.documentId, start, end: start + question.answer.length }
+  })
+  const questionEmbeddings = await cachedEmbed(questions.map(question => question.question))
+
+  const reports: ChunkingStrategyReport[] = []
+  for (const strategy of strategies) {
+    const chunks: Array<{ documentId: string; chunk: DocumentChunk }> = []
+    for (const document of documents) {
+      const documentChunks = await DocumentChunking.chunkWithStrategy(
+        document.content,
+        { ...chunkingOptions, strategy },
+        cachedEmbed
+      )
+      chunks.push(...documentChunks.map(chunk => ({ documentId: document.id, chunk })))
+    }
+
+    const chunkEmbeddings = await cachedEmbed(chunks.map(({ chunk }) => DocumentChunking.embeddingText(chunk)))
+
+    const hits = questionEmbeddings.filter((questionEmbedding, index) => {
+      const answer = answers[index]
+      return chunks
+        .map((entry, chunkIndex) => ({ ...entry, similarity: cosineSimilarity(questionEmbedding, chunkEmbeddings[chunkIndex]) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, topK)
+        .some(({ documentId, chunk }) =>
+          documentId === answer.documentId &&
+          chunk.metadata.startOffset < answer.end &&
+          chunk.metadata.endOffset > answer.start
+        )
+    }).length
+
+    reports.push({
+      strategy,
+      chunkCount: chunks.length,
+      averageTokens: chunks.length > 0
+        ? Math.round(chunks.reduce((total, { chunk }) => total + chunk.metadata.tokenCount, 0) / chunks.length)
+        : 0,
+      hits,
+      questions: questions.length,
+      hitRate: questions.length > 0 ? hits / questions.length : 0
+    })
+  }
+
+  return reports
+}
+
+function cacheEmbeddings(embed: EmbedTexts): EmbedTexts {
+  const cache = new Map<string, number[]>()
+
+  return async texts => {
+    const missing = Array.from(new Set(texts.filter(text => !cache.has(text))))
+    if (missing.length > 0) {
+      const embeddings = await embed(missing)
+      missing.forEach((text, index) => cache.set(text, embeddings[index]))
+    }
+    return texts.map(text => cache.get(text)!)
+  }
+}
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto'
+import { getSupabaseAdmin, SupabaseAdmin } from '../supabase-admin'
+import { Database } from '@/types/database'
+
+type ContentFingerprintRow = Database['public']['Tables']['content_fingerprints']['Row']
+
+export interface ContentFingerprint {
+  itemKey: string
+  contentHash: string
+  draftDocumentId?: string
+  approvedDocumentId?: string
+}
+
+export interface FingerprintedItem<T> {
+  item: T
+  contentHash: string
+  previous?: ContentFingerprint
+}
+
+export interface FingerprintDiff<T> {
+  // New or changed items that need to go through the pipeline
+  changed: FingerprintedItem<T>[]
+  // Items whose content hash matches the last ingested version
+  unchanged: FingerprintedItem<T>[]
+}
+
+/**
+ * Normalize content before hashing so formatting-only differences (markup,
+ * whitespace, Unicode composition) do not count as a change
+ */
+export function normalizeForFingerprint(content: string): string {
+  return content
+    .normalize('NFKC')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * SHA-256 of the normalized content, hex encoded
+ */
+export function computeContentHash(content: string): string {
+  return createHash('sha256').update(normalizeForFingerprint(content)).digest('hex')
+}
+
+/**
+ * Split items into changed and unchanged against the fingerprints recorded by previous runs
+ */
+export function diffFingerprints<T extends { id: string; content: string }>(
+  items: T[],
+  existing: Map<string, ContentFingerprint>
+): FingerprintDiff<T> {
+  const diff: FingerprintDiff<T> = { changed: [], unchanged: [] }
+
+  for (const item of items) {
+    const contentHash = computeContentHash(item.content)
+    const previous = existing.get(item.id)
+    const entry = { item, contentHash, previous }
+
+    if (previous && previous.contentHash === contentHash) {
+      diff.unchanged.push(entry)
+    } else {
+      diff.changed.push(entry)
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Registry of content hashes per source item, used to avoid re-drafting items that have not changed
+ */
+class ContentFingerprintStore {
+  private static readonly LOOKUP_BATCH_SIZE = 200
+
+  private supabase: SupabaseAdmin | null = null
+
+  private async getSupabase(): Promise<SupabaseAdmin> {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  /**
+   * Get the recorded fingerprints for the given items of a source, keyed by item key
+   */
+  async getFingerprints(sourceId: string, itemKeys: string[]): Promise<Map<string, ContentFingerprint>> {
+    const fingerprints = new Map<string, ContentFingerprint>()
+    const supabase = await this.getSupabase()
+
+    // Batched so large first syncs do not exceed URL length limits on the `in` filter
+    for (let i = 0; i < itemKeys.length; i += ContentFingerprintStore.LOOKUP_BATCH_SIZE) {
+      const batch = itemKeys.slice(i, i + ContentFingerprintStore.LOOKUP_BATCH_SIZE)
+      const { data, error } = await supabase
+        .from('content_fingerprints')
+        .select('*')
+        .eq('source_id', sourceId)
+        .in('item_key', batch)
+
+      if (error) {
+        throw new Error(`Failed to load content fingerprints for source ${sourceId}: ${error.message}`)
+      }
+
+      for (const row of data || []) {
+        fingerprints.set(row.item_key, this.mapRow(row))
+      }
+    }
+
+    return fingerprints
+  }
+
+  /**
+   * Record (or replace) the fingerprints of items that were successfully ingested
+   */
+  async recordFingerprints(
+    sourceId: string,
+    organizationId: string,
+    fingerprints: ContentFingerprint[]
+  ): Promise<void> {
+    if (fingerprints.length === 0) return
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('content_fingerprints')
+      .upsert(
+        fingerprints.map(fingerprint => ({
+          source_id: sourceId,
+          organization_id: organizationId,
+          item_key: fingerprint.itemKey,
+          content_hash: fingerprint.contentHash,
+          draft_document_id: fingerprint.draftDocumentId ?? null,
+          approved_document_id: fingerprint.approvedDocumentId ?? null
+        })),
+        { onConflict: 'source_id,item_key' }
+      )
+
+    if (error) {
+      throw new Error(`Failed to record content fingerprints for source ${sourceId}: ${error.message}`)
+    }
+  }
+
+  private mapRow(row: ContentFingerprintRow): ContentFingerprint {
+    return {
+      itemKey: row.item_key,
+      contentHash: row.content_hash,
+      draftDocumentId: row.draft_document_id || undefined,
+      approvedDocumentId: row.approved_document_id || undefined
+    }
+  }
+}
+
+// Singleton instance
+let contentFingerprintStore: ContentFingerprintStore | null = null
+
+export function getContentFingerprintStore(): ContentFingerprintStore {
+  if (!contentFingerprintStore) {
+    contentFingerprintStore = new ContentFingerprintStore()
+  }
+  return contentFingerprintStore
+}
+
+export { ContentFingerprintStore }
@@ -0,0 +1,264 @@
+import type { ContentChunk } from './content-ingestion-service'
+
+const TIME_THRESHOLD = 60 * 60 * 1000 // 1 hour
+const MAX_GROUP_SIZE = 10
+const DEFAULT_SIMILARITY_THRESHOLD = 0.82
+// Keeps each embedding input well inside the embedding model's token limit
+const MAX_EMBEDDING_CHARS = 8000
+// Clustering holds a similarity matrix quadratic in the number of units, so larger runs are clustered in batches
+const MAX_CLUSTER_UNITS = 500
+
+// Embeds texts in order, one vector per text
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>
+
+export interface SemanticGroupingOptions {
+  // Minimum average cosine similarity between two clusters for them to be merged
+  similarityThreshold?: number
+  // Maximum chunks per group; a single thread longer than this is still kept whole
+  maxGroupSize?: number
+  // Maximum units clustered together. Units are batched in the order they started, so a large
+  // first sync or backfill only merges topics within a span of time.
+  maxBatchUnits?: number
+}
+
+/**
+ * Group related content chunks so each group becomes one draft.
+ * Chunks that belong to a conversation thread are grouped by thread, root message first,
+ * since a thread is the real unit of knowledge. Everything else falls back to
+ * grouping by source and time proximity.
+ */
+export function groupContentChunks(chunks: ContentChunk[]): ContentChunk[][] {
+  const { threads, unthreaded } = splitThreads(chunks)
+  return sortGroups([...threads, ...groupByTimeWindow(unthreaded)])
+}
+
+/**
+ * Split chunks into the units that semantic grouping clusters: whole threads, and every other chunk
+ * on its own. Grouping only ever merges units, so no strategy drafts more groups than this.
+ */
+export function splitGroupingUnits(chunks: ContentChunk[]): ContentChunk[][] {
+  const { threads, unthreaded } = splitThreads(chunks)
+  return [...threads, ...unthreaded.map(chunk => [chunk])]
+}
+
+/**
+ * Group content chunks by topic. Threads stay whole, as in groupContentChunks, but threads and
+ * unthreaded chunks are then clustered by embedding similarity regardless of when or in which
+ * channel they were posted, so a question asked twice a week apart lands in one draft.
+ * Runs with more units than maxBatchUnits are clustered batch by batch.
+ */
+export async function groupContentChunksSemantically(
+  chunks: ContentChunk[],
+  embed: EmbedTexts,
+  options: SemanticGroupingOptions = {}
+): Promise<ContentChunk[][]> {
+  const units = splitGroupingUnits(chunks)
+
+  if (units.length <= 1) {
+    return units
+  }
+
+  const embeddings = await embed(
+    units.map(unit => unit.map(chunk => chunk.content).join('\n\n').slice(0, MAX_EMBEDDING_CHARS))
+  )
+
+  if (embeddings.length !== units.length) {
+    throw new Error(`Expected ${units.length} embeddings, received ${embeddings.length}`)
+  }
+
+  const clusterOptions = {
+    similarityThreshold: options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+    maxGroupSize: options.maxGroupSize ?? MAX_GROUP_SIZE
+  }
+  const batchSize = options.maxBatchUnits ?? MAX_CLUSTER_UNITS
+  const byStart = units.map((_, index) => index).sort((a, b) => unitStart(units[a]) - unitStart(units[b]))
+  const clusters: number[][] = []
+
+  for (let offset = 0; offset < byStart.length; offset += batchSize) {
+    const batch = byStart.slice(offset, offset + batchSize)
+    const batchClusters = clusterBySimilarity(
+      batch.map(index => embeddings[index]),
+      batch.map(index => units[index].length),
+      clusterOptions
+    )
+    clusters.push(...batchClusters.map(members => members.map(member => batch[member])))
+  }
+
+  return sortGroups(clusters.map(members =>
+    // Within a group, threads and messages read in the order they started
+    members
+      .map(index => units[index])
+      .sort((a, b) => unitStart(a) - unitStart(b))
+      .flat()
+  ))
+}
+
+/**
+ * Average-linkage agglomerative clustering over cosine similarity. Repeatedly merges the most
+ * similar pair of clusters until no pair reaches the threshold without exceeding the size cap.
+ * Returns clusters as lists of input indices.
+ */
+export function clusterBySimilarity(
+  embeddings: number[][],
+  sizes: number[],
+  options: Required<Pick<SemanticGroupingOptions, 'similarityThreshold' | 'maxGroupSize'>>
+): number[][] {
+  const count = embeddings.length
+  const normalized = embeddings.map(normalize)
+
+  const similarity: number[][] = normalized.map(() => new Array(count).fill(0))
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      similarity[i][j] = similarity[j][i] = dot(normalized[i], normalized[j])
+    }
+  }
+
+  const members: number[][] = normalized.map((_, i) => [i])
+  const chunkCounts = [...sizes]
+  const active = new Set(members.keys())
+
+  const canMerge = (i: number, j: number) =>
+    chunkCounts[i] + chunkCounts[j] <= options.maxGroupSize && similarity[i][j] >= options.similarityThreshold
+
+  // Best merge partner per cluster, so each step only rescans the rows a merge affected
+  const best = new Array<number>(count).fill(-1)
+  const findBest = (i: number) => {
+    best[i] = -1
+    for (const j of active) {
+      if (j !== i && canMerge(i, j) && (best[i] < 0 || similarity[i][j] > similarity[i][best[i]])) {
+        best[i] = j
+      }
+    }
+  }
+  active.forEach(findBest)
+
+  for (;;) {
+    let target = -1
+    for (const i of active) {
+      if (best[i] >= 0 && (target < 0 || similarity[i][best[i]] > similarity[target][best[target]])) {
+        target = i
+      }
+    }
+    if (target < 0) break
+
+    const merged = best[target]
+    const weightA = members[target].length
+    const weightB = members[merged].length
+
+    // Lance-Williams update: the merged cluster's similarity is the size-weighted average of its parts'
+    for (const k of active) {
+      if (k === target || k === merged) continue
+      similarity[target][k] = similarity[k][target] =
+        (weightA * similarity[target][k] + weightB * similarity[merged][k]) / (weightA + weightB)
+    }
+
+    members[target].push(...members[merged])
+    chunkCounts[target] += chunkCounts[merged]
+    active.delete(merged)
+
+    for (const k of active) {
+      if (k === target || best[k] === target || best[k] === merged) {
+        findBest(k)
+      } else if (canMerge(k, target) && (best[k] < 0 || similarity[k][target] > similarity[k][best[k]])) {
+        best[k] = target
+      }
+    }
+  }
+
+  return Array.from(active, i => members[i])
+}
+
+function splitThreads(chunks: ContentChunk[]): { threads: ContentChunk[][]; unthreaded: ContentChunk[] } {
+  const threads = new Map<string, ContentChunk[]>()
+  const unthreaded: ContentChunk[] = []
+
+  for (const chunk of chunks) {
+    const threadId = chunk.metadata.threadId
+    if (!threadId) {
+      unthreaded.push(chunk)
+      continue
+    }
+
+    // Thread ids are only unique within a channel
+    const key = `${chunk.sourceId}/${threadId}`
+    const thread = threads.get(key)
+    if (thread) {
+      thread.push(chunk)
+    } else {
+      threads.set(key, [chunk])
+    }
+  }
+
+  return {
+    threads: Array.from(threads.values()).map(thread =>
+      thread.sort((a, b) => {
+        const aIsRoot = a.metadata.replyToId ? 1 : 0
+        const bIsRoot = b.metadata.replyToId ? 1 : 0
+        return aIsRoot - bIsRoot || a.metadata.timestamp.getTime() - b.metadata.timestamp.getTime()
+      })
+    ),
+    unthreaded
+  }
+}
+
+function unitStart(unit: ContentChunk[]): number {
+  return unit[0].metadata.timestamp.getTime()
+}
+
+function sortGroups(groups: ContentChunk[][]): ContentChunk[][] {
+  return groups.sort((a, b) => a[0].metadata.timestamp.getTime() - b[0].metadata.timestamp.getTime())
+}
+
+/**
+ * Cosine similarity of two embeddings
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  return dot(normalize(a), normalize(b))
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector))
+  return length > 0 ? vector.map(value => value / length) : vector
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+/**
+ * Group chunks by source and time proximity, capping group size
+ */
+export function groupByTimeWindow(chunks: ContentChunk[]): ContentChunk[][] {
+  const groups: ContentChunk[][] = []
+  const sortedChunks = [...chunks].sort((a, b) => a.metadata.timestamp.getTime() - b.metadata.timestamp.getTime())
+
+  let currentGroup: ContentChunk[] = []
+  let lastTimestamp: Date | null = null
+  let lastSourceId: string | null = null
+
+  for (const chunk of sortedChunks) {
+    const shouldStartNewGroup =
+      currentGroup.length >= MAX_GROUP_SIZE ||
+      (lastSourceId && chunk.sourceId !== lastSourceId) ||
+      (lastTimestamp && Math.abs(chunk.metadata.timestamp.getTime() - lastTimestamp.getTime()) > TIME_THRESHOLD)
+
+    if (shouldStartNewGroup && currentGroup.length > 0) {
+      groups.push(currentGroup)
+      currentGroup = []
+    }
+
+    currentGroup.push(chunk)
+    lastTimestamp = chunk.metadata.timestamp
+    lastSourceId = chunk.sourceId
+  }
+
+  if (currentGroup.length > 0) {
+    groups.push(currentGroup)
+  }
+
+  return groups
+}
@@ -1,30 +1,112 @@
-import { getMicrosoftGraphService } from '../oauth/microsoft-graph'
-import { getGoogleDriveService } from '../oauth/google-drive'
-import { getAIIntegrationService, ProcessedContent, SourceReference, ContentProcessingOptions } from '../ai'
+import {
+  getAIIntegrationService,
+  getAzureOpenAIService,
+  getPIIRedactionService,
+  maskEntityText,
+  PIIRedactionResult,
+  ProcessedContent,
+  SourceReference,
+  ContentProcessingOptions,
+  ContentPipelineStep,
+  StepTokenEstimate,
+  ModelPricing,
+  MODEL_PRICING,
+  estimateCost,
+  estimateTokens,
+  detectLanguage,
+  dominantLanguage,
+  SupportedLanguage
+} from '../ai'
 import { SourceMetadata } from '../ai/confidence-scoring'
 import { getSupabaseAdmin } from '../supabase-admin'
+import { Json } from '@/types/database'
+import { getIngestionJobStore, JobQueryOptions } from './ingestion-job-store'
+import { getContentFingerprintStore, diffFingerprints, computeContentHash, ContentFingerprint, FingerprintedItem } from './content-fingerprint-store'
+import { getIngestionSettingsStore, IngestionSettings, DEFAULT_INGESTION_SETTINGS } from './ingestion-settings-store'
+import { groupContentChunks, groupContentChunksSemantically, splitGroupingUnits } from './content-grouping'
+import { getSourceConnectorRegistry } from '../connectors/connector-registry'
+import type { MediaItem } from '../connectors/types'
+import { SyncCursors, DriveFolderSelection, SlackChannelMapping, SourceType, GroupingStrategy, DriveIngestionFilters } from '../oauth/types'
 
 export interface IngestionSource {
   id: string
-  type: 'teams' | 'google_drive'
+  type: SourceType
   userId: string
   organizationId: string
   name: string
   selectedChannels?: string[]
   selectedFolders?: string[]
   selectedTeamChannels?: Array<{ teamId: string; channelId: string; displayName: string }>
+  selectedDriveFolders?: DriveFolderSelection[]
+  selectedSlackChannels?: SlackChannelMapping[]
+  syncCursors?: SyncCursors
+  // Defaults to time-window grouping; semantic grouping is opted into per source
+  groupingStrategy?: GroupingStrategy
+  driveFilters?: DriveIngestionFilters
   isActive: boolean
 }
 
 export interface IngestionJob {
   id: string
-  sourceId: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  // Unset for a job drafting an uploaded mailbox
+  sourceId?: string
+  organizationId: string
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
   startedAt: Date
   completedAt?: Date
   itemsProcessed: number
   itemsTotal: number
   error?: string
+  itemErrors: Array<{ item: string; error: string }>
+  timings: IngestionJobTimings
+  cancelRequestedAt?: Date
+}
+
+// An item whose chunk content has been replaced by its PII-redacted text, so it can be stored with the job
+export interface RedactedItem extends FingerprintedItem<ContentChunk> {
+  // Entity texts are masked too
+  redaction: PIIRedactionResult
+}
+
+// One group of a job's content. Groups are drafted independently, so they are also the unit of retry and resume.
+export interface IngestionJobGroup {
+  id: string
+  jobId: string
+  groupIndex: number
+  status: 'pending' | 'completed' | 'failed'
+  // Across all runs of the job, including retries
+  attempts: number
+  chunkIds: string[]
+  // Emptied once the group has been drafted
+  items: RedactedItem[]
+  draftId?: string
+  error?: string
+}
+
+// Automatic retries of a failed group within one run, with exponential backoff between attempts
+export type GroupRetryPolicy = {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export class IngestionJobError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'IngestionJobError'
+  }
+}
+
+// Phase durations in milliseconds
+export type IngestionJobTimings = {
+  fetchMs?: number
+  groupingMs?: number
+  processingMs?: number
+  totalMs?: number
 }
 
 export interface IngestionResult {
@@ -36,7 +118,7 @@ export interface IngestionResult {
 export interface ContentChunk {
   id: string
   content: string
-  sourceType: 'teams' | 'google_drive'
+  sourceType: SourceType
   sourceId: string
   metadata: {
     author?: string
@@ -45,13 +127,119 @@ export interface ContentChunk {
     fileName?: string
     channelName?: string
     teamName?: string
+    // Teams thread structure: threadId is the root message id, replyToId is set on replies
+    threadId?: string
+    replyToId?: string
+    mentions?: string[]
+    reactions?: Record<string, number>
+    // People who reacted, by display name or user id
+    reactedBy?: string[]
+    // Detected when the chunk is ingested; undefined for short or unrecognised text
+    language?: SupportedLanguage
+    // Transcribed speech: where the chunk starts in the recording, and the meeting it was recorded in.
+    // The speaker is the author.
+    mediaOffsetMs?: number
+    meetingTitle?: string
+  }
+}
+
+export interface IngestionPreviewOptions {
+  // Chat and embedding models to price, defaulting to the configured deployments
+  model?: string
+  embeddingModel?: string
+  sampleGroups?: number
+  // Overrides the list prices in MODEL_PRICING
+  pricing?: Record<string, ModelPricing>
+}
+
+// What an ingestion run would do, worked out without model calls or database writes
+export interface IngestionPreview {
+  sourceId: string
+  itemsFetched: number
+  // Skipped by a real run because their content is unchanged since the last sync
+  itemsUnchanged: number
+  groupCount: number
+  groupingStrategy: GroupingStrategy
+  // Semantic groups need embeddings to form, so the preview drafts every thread and unthreaded item
+  // on its own. The group count, tokens and costs are then the most a run could reach.
+  upperBound: boolean
+  sampleGroups: Array<{
+    chunkIds: string[]
+    piiEntitiesFound: number
+    // Truncated to PREVIEW_SAMPLE_CHARS
+    redactedContent: string
+  }>
+  model: string
+  tokens: {
+    steps: Record<ContentPipelineStep, StepTokenEstimate>
+    // Only when the source groups semantically
+    embedding: number
+    prompt: number
+    completion: number
+    maxCompletion: number
+  }
+  estimatedCostUsd: number
+  // With every step using its full completion budget
+  maxCostUsd: number
+  // Audio and video a run would transcribe. Transcription is billed, so the preview skips it and
+  // the figures above leave these items out.
+  media: {
+    items: MediaItem[]
+    // Of the items whose duration is known
+    totalDurationMs: number
   }
 }
 
+const PREVIEW_SAMPLE_CHARS = 2000
+
+// Provenance stored with each source_documents row so reviewers can trace a draft back to the raw item
+export type SourceDocumentMetadata = {
+  contentHash: string
+  // Matches SourceReference.sourceId on the draft (channel for Teams, file for Drive)
+  sourceId: string
+  author?: string
+  timestamp: string
+  url?: string
+  fileName?: string
+  channelName?: string
+  teamName?: string
+  threadId?: string
+  replyToId?: string
+  language?: SupportedLanguage
+  mediaOffsetMs?: number
+  meetingTitle?: string
+  // Absent for manual uploads, which are processed directly rather than by an ingestion job
+  ingestionJobId?: string
+  // Categories and positions only; the matched PII text itself is never persisted
+  piiEntities: Array<{ category: string; offset: number; length: number }>
+}
+
+// Where a processed group should land: an existing pending draft, or a new draft that may supersede an approved document
+interface DraftTarget {
+  existingDraftId?: string
+  supersedesDocumentId?: string
+}
+
+// What group processing needs to know about a job's source; uploaded content has no source id
+type JobSource = Partial<Pick<IngestionSource, 'id'>> & Pick<IngestionSource, 'organizationId'>
+
+// Stores the uploads that redacted groups were made from, resolving with the groups that are still
+// to be drafted: content uploaded again by someone else in the meantime is left out
+export type UploadGroupClaim = (groups: RedactedItem[][], job: IngestionJob) => Promise<RedactedItem[][]>
+
 class ContentIngestionService {
-  private microsoftService = getMicrosoftGraphService()
-  private googleService = getGoogleDriveService()
+  private connectorRegistry = getSourceConnectorRegistry()
   private aiService = getAIIntegrationService()
+  private openAIService = getAzureOpenAIService()
+  private piiService = getPIIRedactionService()
+  private jobStore = getIngestionJobStore()
+  private fingerprintStore = getContentFingerprintStore()
+  private settingsStore = getIngestionSettingsStore()
+  private retryPolicy: GroupRetryPolicy = { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 30000 }
+  // Well inside the time after which the scheduler treats a job it has not heard from as interrupted
+  private heartbeatIntervalMs = 60 * 1000
+  // Jobs running in this process, so a cancel can interrupt a retry backoff immediately
+  private activeJobs = new Map<string, AbortController>()
   private supabase: any = null
 
   private async getSupabase() {
@@ -65,24 +253,272 @@ class ContentIngestionService {
     source: IngestionSource,
     options: ContentProcessingOptions = {}
   ): Promise<IngestionJob> {
+    const job = await this.createJob(source, options)
+
+    // Start ingestion process asynchronously
+    this.processIngestion(source, job, options).catch(error => {
+      console.error(`Ingestion job ${job.id} failed:`, error)
+      this.updateJobStatus(job, 'failed', error.message)
+    })
+
+    return job
+  }
+
+  /**
+   * Run ingestion to completion, resolving with the finished job (used by the scheduler)
+   */
+  async runIngestion(
+    source: IngestionSource,
+    options: ContentProcessingOptions = {}
+  ): Promise<IngestionJob> {
+    const job = await this.createJob(source, options)
+    await this.processIngestion(source, job, options)
+    return job
+  }
+
+  /**
+   * Continue a job that was interrupted, e.g. by a server restart. A job that had stored its groups
+   * picks up with the groups that were not finished; one interrupted earlier starts over, since
+   * nothing was drafted and its sync cursors were not advanced.
+   */
+  async resumeIngestion(source: IngestionSource, job: IngestionJob): Promise<IngestionJob> {
+    if (job.cancelRequestedAt) {
+      await this.updateJobStatus(job, 'cancelled')
+      return job
+    }
+
+    const { options, pendingCursors } = await this.jobStore.getResumeState(job.id)
+    console.log(`Resuming ingestion job ${job.id} for source ${source.id}`)
+
+    if (!pendingCursors) {
+      await this.processIngestion(source, job, options)
+    } else {
+      await this.continueJob(source, job, ['pending'], options, () => this.saveSyncState(source, pendingCursors))
+    }
+
+    return job
+  }
+
+  /**
+   * Draft uploaded content too large to draft within the request, e.g. the threads of a mailbox, in
+   * a background job with one draft per group. The items are redacted before claim stores the uploads,
+   * so only redacted text is ever kept.
+   */
+  async startUploadIngestion(
+    organizationId: string,
+    groups: ContentChunk[][],
+    claim: UploadGroupClaim,
+    options: ContentProcessingOptions = {}
+  ): Promise<IngestionJob> {
+    const job = await this.createJob({ organizationId }, options)
+
+    this.processUploadIngestion(job, groups, claim, options).catch(error => {
+      console.error(`Ingestion job ${job.id} failed:`, error)
+    })
+
+    return job
+  }
+
+  /**
+   * Continue an interrupted upload job. The uploaded content was only held in memory until the job
+   * stored its groups, so a job interrupted before then fails and the content has to be uploaded again.
+   */
+  async resumeUploadIngestion(job: IngestionJob): Promise<IngestionJob> {
+    if (job.cancelRequestedAt) {
+      await this.updateJobStatus(job, 'cancelled')
+      return job
+    }
+
+    const { options, pendingCursors } = await this.jobStore.getResumeState(job.id)
+    if (!pendingCursors) {
+      await this.releaseUploadedArtifacts(job)
+      await this.updateJobStatus(job, 'failed', 'Interrupted before the uploaded content was stored; upload it again')
+      return job
+    }
+
+    console.log(`Resuming ingestion job ${job.id} for uploaded content`)
+    await this.continueJob({ organizationId: job.organizationId }, job, ['pending'], options)
+
+    return job
+  }
+
+  /**
+   * Process the groups of a finished job that failed, or were never reached because the job was
+   * cancelled or failed. Runs in the background like startIngestion. Sync cursors are left alone:
+   * they either already moved past these items or a later sync will fetch them again.
+   */
+  async retryJob(jobId: string, options: JobQueryOptions = {}): Promise<IngestionJob> {
+    const job = await this.jobStore.getJob(jobId, options)
+
+    if (!job) {
+      throw new IngestionJobError('Ingestion job not found', 'JOB_NOT_FOUND')
+    }
+
+    if (job.status === 'pending' || job.status === 'running') {
+      throw new IngestionJobError('Ingestion job is still running', 'JOB_ACTIVE')
+    }
+
+    const retryable = await this.jobStore.getGroups(job.id, ['pending', 'failed'])
+    if (retryable.length === 0) {
+      throw new IngestionJobError('Ingestion job has no unfinished groups to retry', 'NOTHING_TO_RETRY')
+    }
+
+    const { options: processingOptions } = await this.jobStore.getResumeState(job.id)
+    const source = { id: job.sourceId, organizationId: job.organizationId }
+
+    // A cancel of an earlier run must not stop this one, even if it is interrupted and resumed later
+    await this.jobStore.clearCancelRequest(job.id)
+    job.cancelRequestedAt = undefined
+
+    this.continueJob(source, job, ['pending', 'failed'], processingOptions).catch(error => {
+      console.error(`Retry of ingestion job ${job.id} failed:`, error)
+    })
+
+    return job
+  }
+
+  /**
+   * Stop a pending or running job before its next group. Groups already drafted are kept.
+   */
+  async cancelJob(jobId: string, options: JobQueryOptions = {}): Promise<IngestionJob> {
+    const job = await this.jobStore.getJob(jobId, options)
+
+    if (!job) {
+      throw new IngestionJobError('Ingestion job not found', 'JOB_NOT_FOUND')
+    }
+
+    if (job.status !== 'pending' && job.status !== 'running') {
+      throw new IngestionJobError(`Ingestion job is already ${job.status}`, 'JOB_NOT_ACTIVE')
+    }
+
+    // The request is persisted so a run in another process sees it too
+    await this.jobStore.requestCancel(job.id)
+    this.activeJobs.get(job.id)?.abort()
+
+    return { ...job, cancelRequestedAt: new Date() }
+  }
+
+  /**
+   * Dry run: fetch what the next sync would see, group and redact it, and estimate the model tokens
+   * and cost of drafting it. Makes no model or transcription calls and writes nothing, sync cursors included.
+   */
+  async previewIngestion(
+    source: IngestionSource,
+    options: ContentProcessingOptions = {},
+    previewOptions: IngestionPreviewOptions = {}
+  ): Promise<IngestionPreview> {
+    const { sampleGroups = 3, pricing = MODEL_PRICING } = previewOptions
+    const models = await this.openAIService.getModels()
+    const model = previewOptions.model ?? models.chat
+    const embeddingModel = previewOptions.embeddingModel ?? models.embedding
+    for (const name of [model, embeddingModel]) {
+      if (!pricing[name]) {
+        throw new IngestionJobError(`No pricing configured for model "${name}"`, 'UNKNOWN_MODEL')
+      }
+    }
+
+    const cursors: SyncCursors = {}
+    for (const [namespace, selectionCursors] of Object.entries(source.syncCursors || {})) {
+      cursors[namespace] = { ...selectionCursors }
+    }
+    const media: MediaItem[] = []
+    const fetchedChunks = await this.fetchSourceContent(source, cursors, media)
+
+    const { changed, unchanged } = diffFingerprints(
+      fetchedChunks,
+      await this.fingerprintStore.getFingerprints(source.id, fetchedChunks.map(chunk => chunk.id))
+    )
+    const groupingStrategy = source.groupingStrategy || 'time_window'
+    const upperBound = groupingStrategy === 'semantic'
+    const changedChunks = changed.map(entry => entry.item)
+    const groups = upperBound ? splitGroupingUnits(changedChunks) : groupContentChunks(changedChunks)
+
+    const redactions = await this.piiService.batchRedactPII(
+      groups.map(group => group.map(chunk => chunk.content).join('\n\n---\n\n')),
+      options.piiRedactionOptions
+    )
+
+    const steps: Record<ContentPipelineStep, StepTokenEstimate> = {
+      structuring: { promptTokens: 0, completionTokens: 0, maxCompletionTokens: 0 },
+      topicIdentification: { promptTokens: 0, completionTokens: 0, maxCompletionTokens: 0 },
+      confidenceAssessment: { promptTokens: 0, completionTokens: 0, maxCompletionTokens: 0 }
+    }
+
+    groups.forEach((group, index) => {
+      const { sourceReferences, sourceMetadata } = this.buildProcessingInput(group)
+      const estimate = this.aiService.estimateContentProcessing(
+        redactions[index].redactedText,
+        redactions[index].entities.length,
+        sourceReferences,
+        sourceMetadata,
+        options,
+        model
+      )
+
+      for (const step of Object.keys(steps) as ContentPipelineStep[]) {
+        steps[step].promptTokens += estimate[step].promptTokens
+        steps[step].completionTokens += estimate[step].completionTokens
+        steps[step].maxCompletionTokens += estimate[step].maxCompletionTokens
+      }
+    })
+
+    const embedding = groupingStrategy === 'semantic' && groups.length > 0
+      ? changed.reduce((total, entry) => total + estimateTokens(entry.item.content, embeddingModel), 0)
+      : 0
+    const stepTotals = Object.values(steps)
+    const prompt = stepTotals.reduce((total, step) => total + step.promptTokens, 0)
+    const completion = stepTotals.reduce((total, step) => total + step.completionTokens, 0)
+    const maxCompletion = stepTotals.reduce((total, step) => total + step.maxCompletionTokens, 0)
+    const embeddingCost = embedding > 0
+      ? estimateCost(embeddingModel, { promptTokens: embedding, completionTokens: 0 }, pricing)
+      : 0
+
+    return {
+      sourceId: source.id,
+      itemsFetched: fetchedChunks.length,
+      itemsUnchanged: unchanged.length,
+      groupCount: groups.length,
+      groupingStrategy,
+      upperBound,
+      sampleGroups: groups.slice(0, sampleGroups).map((group, index) => ({
+        chunkIds: group.map(chunk => chunk.id),
+        piiEntitiesFound: redactions[index].entities.length,
+        redactedContent: redactions[index].redactedText.slice(0, PREVIEW_SAMPLE_CHARS)
+      })),
+      model,
+      tokens: { steps, embedding, prompt, completion, maxCompletion },
+      estimatedCostUsd: estimateCost(model, { promptTokens: prompt, completionTokens: completion }, pricing) + embeddingCost,
+      maxCostUsd: estimateCost(model, { promptTokens: prompt, completionTokens: maxCompletion }, pricing) + embeddingCost,
+      media: {
+        items: media,
+        totalDurationMs: media.reduce((total, item) => total + (item.durationMs ?? 0), 0)
+      }
+    }
+  }
+
+  /**
+   * Whether a job is being run by this process
+   */
+  isJobActive(jobId: string): boolean {
+    return this.activeJobs.has(jobId)
+  }
+
+  private async createJob(source: JobSource, options: ContentProcessingOptions): Promise<IngestionJob> {
     // Create ingestion job record
     const job: IngestionJob = {
       id: this.generateJobId(),
       sourceId: source.id,
+      organizationId: source.organizationId,
       status: 'pending',
       startedAt: new Date(),
       itemsProcessed: 0,
-      itemsTotal: 0
+      itemsTotal: 0,
+      itemErrors: [],
+      timings: {}
     }
 
     // Store job in database
-    await this.storeIngestionJob(job)
-
-    // Start ingestion process asynchronously
-    this.processIngestion(source, job, options).catch(error => {
-      console.error(`Ingestion job ${job.id} failed:`, error)
-      this.updateJobStatus(job.id, 'failed', error.message)
-    })
+    await this.storeIngestionJob(job, options)
 
     return job
   }
@@ -92,191 +528,558 @@ class ContentIngestionService {
     job: IngestionJob,
     options: ContentProcessingOptions
   ): Promise<void> {
+    const jobStartTime = Date.now()
+    const runStartedAt = new Date()
+    const controller = new AbortController()
+    this.activeJobs.set(job.id, controller)
+    const stopHeartbeat = this.startHeartbeat(job)
+
     try {
       // Update job status to running
-      await this.updateJobStatus(job.id, 'running')
+      await this.updateJobStatus(job, 'running')
+
+      // Fetch content based on source type, advancing a working copy of the sync cursors
+      let phaseStartTime = Date.now()
+      const nextCursors: SyncCursors = {}
+      for (const [namespace, selectionCursors] of Object.entries(source.syncCursors || {})) {
+        nextCursors[namespace] = { ...selectionCursors }
+      }
+      const fetchedChunks = await this.fetchSourceContent(source, nextCursors)
 
-      // Fetch content based on source type
-      const contentChunks = await this.fetchSourceContent(source)
-      
-      // Update total items count
-      job.itemsTotal = contentChunks.length
-      await this.updateJobProgress(job.id, 0, contentChunks.length)
+      // Skip items whose normalized content is unchanged since they were last ingested
+      const { changed, unchanged: unchangedItems } = diffFingerprints(
+        fetchedChunks,
+        await this.fingerprintStore.getFingerprints(source.id, fetchedChunks.map(chunk => chunk.id))
+      )
+
+      // A thread is drafted as a whole, so one changed message pulls its unchanged siblings back in
+      const threadKey = (chunk: ContentChunk) => chunk.metadata.threadId && `${chunk.sourceId}/${chunk.metadata.threadId}`
+      const changedThreads = new Set(changed.map(entry => threadKey(entry.item)).filter(Boolean))
+      const unchanged: typeof unchangedItems = []
+      for (const entry of unchangedItems) {
+        const key = threadKey(entry.item)
+        if (key && changedThreads.has(key)) {
+          changed.push(entry)
+        } else {
+          unchanged.push(entry)
+        }
+      }
+
+      const fingerprintsByChunk = new Map(changed.map(entry => [entry.item.id, entry]))
+      const contentChunks = changed.map(entry => entry.item)
+      job.timings.fetchMs = Date.now() - phaseStartTime
+
+      if (unchanged.length > 0) {
+        console.log(`Ingestion job ${job.id}: skipping ${unchanged.length} unchanged items`)
+      }
 
       if (contentChunks.length === 0) {
-        await this.updateJobStatus(job.id, 'completed')
+        await this.saveSyncState(source, nextCursors)
+        job.timings.totalMs = Date.now() - jobStartTime
+        await this.updateJobStatus(job, 'completed')
         return
       }
 
+      // Redact before anything else sees the content: grouping embeds it, and the checkpoint stores it
+      const changedItems = contentChunks.map(chunk => fingerprintsByChunk.get(chunk.id)!)
+      await this.storeOriginalContent(source.organizationId, changedItems)
+      const redactedItems = await this.redactItems(changedItems, options)
+      const redactedByChunk = new Map(redactedItems.map(entry => [entry.item.id, entry]))
+
       // Group related content chunks for processing
-      const groupedContent = await this.groupContentChunks(contentChunks)
-
-      const processedDocuments: ProcessedContent[] = []
-      const errors: Array<{ item: string; error: string }> = []
-
-      // Process each group
-      for (let i = 0; i < groupedContent.length; i++) {
-        const group = groupedContent[i]
-        
-        try {
-          const processedDoc = await this.processContentGroup(group, options)
-          processedDocuments.push(processedDoc)
-
-          // Store processed document in database
-          await this.storeProcessedDocument(processedDoc, source.organizationId)
-
-          // Update progress
-          await this.updateJobProgress(job.id, i + 1, groupedContent.length)
-        } catch (error) {
-          console.error(`Failed to process content group ${i}:`, error)
-          errors.push({
-            item: `Group ${i} (${group.length} items)`,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          })
-        }
+      phaseStartTime = Date.now()
+      const groupedContent = await this.groupChunks(source, redactedItems.map(entry => entry.item))
+      job.timings.groupingMs = Date.now() - phaseStartTime
+
+      if (await this.isCancelRequested(job, controller.signal, runStartedAt)) {
+        await this.finishJob(job, true, jobStartTime)
+        return
       }
 
-      // Complete the job
-      await this.updateJobStatus(job.id, 'completed')
-      
-      console.log(`Ingestion job ${job.id} completed: ${processedDocuments.length} documents processed, ${errors.length} errors`)
+      // Checkpoint: from here on an interrupted job resumes with these groups instead of fetching again
+      const groups = await this.jobStore.saveCheckpoint(
+        job.id,
+        groupedContent.map(group => group.map(chunk => redactedByChunk.get(chunk.id)!)),
+        nextCursors
+      )
+
+      phaseStartTime = Date.now()
+      const cancelled = await this.processJobGroups(source, job, groups, groups, options, controller.signal, runStartedAt)
+      job.timings.processingMs = Date.now() - phaseStartTime
+
+      // Only advance cursors once the fetched items have been through the pipeline
+      await this.finishJob(job, cancelled, jobStartTime, () => this.saveSyncState(source, nextCursors))
     } catch (error) {
       console.error(`Ingestion job ${job.id} failed:`, error)
-      await this.updateJobStatus(job.id, 'failed', error instanceof Error ? error.message : 'Unknown error')
+      job.timings.totalMs = Date.now() - jobStartTime
+      await this.updateJobStatus(job, 'failed', error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      stopHeartbeat()
+      this.activeJobs.delete(job.id)
     }
   }
 
-  private async fetchSourceContent(source: IngestionSource): Promise<ContentChunk[]> {
-    const chunks: ContentChunk[] = []
+  private async processUploadIngestion(
+    job: IngestionJob,
+    groups: ContentChunk[][],
+    claim: UploadGroupClaim,
+    options: ContentProcessingOptions
+  ): Promise<void> {
+    const jobStartTime = Date.now()
+    const runStartedAt = new Date()
+    const controller = new AbortController()
+    this.activeJobs.set(job.id, controller)
+    const stopHeartbeat = this.startHeartbeat(job)
+    let checkpointed = false
+
+    try {
+      await this.updateJobStatus(job, 'running')
+
+      const items = detectChunkLanguages(groups.flat()).map(chunk => ({ item: chunk, contentHash: computeContentHash(chunk.content) }))
+      await this.storeOriginalContent(job.organizationId, items)
+      const redactedItems = await this.redactItems(items, options)
+
+      if (await this.isCancelRequested(job, controller.signal, runStartedAt)) {
+        await this.finishJob(job, true, jobStartTime)
+        return
+      }
+
+      let next = 0
+      const claimed = await claim(groups.map(group => group.map(() => redactedItems[next++])), job)
+      const jobGroups = await this.jobStore.saveCheckpoint(job.id, claimed, {})
+      checkpointed = true
 
-    if (source.type === 'teams') {
-      chunks.push(...await this.fetchTeamsContent(source))
-    } else if (source.type === 'google_drive') {
-      chunks.push(...await this.fetchGoogleDriveContent(source))
+      const phaseStartTime = Date.now()
+      const cancelled = await this.processJobGroups(
+        { organizationId: job.organizationId },
+        job,
+        jobGroups,
+        jobGroups,
+        options,
+        controller.signal,
+        runStartedAt
+      )
+      job.timings.processingMs = Date.now() - phaseStartTime
+
+      await this.finishJob(job, cancelled, jobStartTime)
+    } catch (error) {
+      console.error(`Ingestion job ${job.id} failed:`, error)
+      if (!checkpointed) {
+        // Nothing of the upload is left to draft, so it must be possible to upload it again
+        await this.releaseUploadedArtifacts(job)
+      }
+      job.timings.totalMs = Date.now() - jobStartTime
+      await this.updateJobStatus(job, 'failed', error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      stopHeartbeat()
+      this.activeJobs.delete(job.id)
     }
+  }
 
-    return chunks
+  /**
+   * Run the stored groups of an existing job that are in one of the given states
+   */
+  private async continueJob(
+    source: JobSource,
+    job: IngestionJob,
+    statuses: IngestionJobGroup['status'][],
+    options: ContentProcessingOptions,
+    saveCursors?: () => Promise<void>
+  ): Promise<void> {
+    const runStartTime = Date.now()
+    const runStartedAt = new Date()
+    const controller = new AbortController()
+    this.activeJobs.set(job.id, controller)
+    const stopHeartbeat = this.startHeartbeat(job)
+
+    try {
+      await this.updateJobStatus(job, 'running')
+
+      const groups = await this.jobStore.getGroups(job.id)
+      const cancelled = await this.processJobGroups(
+        source,
+        job,
+        groups,
+        groups.filter(group => statuses.includes(group.status)),
+        options,
+        controller.signal,
+        runStartedAt
+      )
+      job.timings.processingMs = (job.timings.processingMs || 0) + Date.now() - runStartTime
+
+      await this.finishJob(job, cancelled, runStartTime, saveCursors)
+    } catch (error) {
+      console.error(`Ingestion job ${job.id} failed:`, error)
+      job.timings.totalMs = (job.timings.totalMs || 0) + Date.now() - runStartTime
+      await this.updateJobStatus(job, 'failed', error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      stopHeartbeat()
+      this.activeJobs.delete(job.id)
+    }
   }
 
-  private async fetchTeamsContent(source: IngestionSource): Promise<ContentChunk[]> {
-    const chunks: ContentChunk[] = []
+  /**
+   * Draft each group in turn, recording its outcome. Resolves true if the job was cancelled part way.
+   */
+  private async processJobGroups(
+    source: JobSource,
+    job: IngestionJob,
+    allGroups: IngestionJobGroup[],
+    groups: IngestionJobGroup[],
+    options: ContentProcessingOptions,
+    signal: AbortSignal,
+    runStartedAt: Date
+  ): Promise<boolean> {
+    // Each group becomes one draft, so groups are the unit of progress.
+    // Writes are chained so a slower write never overwrites a later count.
+    let progressWrite = Promise.resolve()
+    const reportProgress = () => {
+      job.itemErrors = allGroups
+        .filter(group => group.status === 'failed')
+        .map(group => ({
+          item: `Group ${group.groupIndex} (${group.chunkIds.length} items: ${group.chunkIds.join(', ')})`,
+          error: group.error || 'Unknown error'
+        }))
+      // Failed groups count as processed; their errors are recorded on the job
+      const processed = allGroups.filter(group => group.status !== 'pending').length
+      progressWrite = progressWrite.then(() => this.updateJobProgress(job, processed, allGroups.length))
+      return progressWrite
+    }
+
+    await reportProgress()
+
+    // Workers take the next group as they free up; the OpenAI rate limiter paces them all
+    const settings = await this.getIngestionSettings(source.organizationId)
+    const groupOptions = withDraftLanguage(options, settings)
+    const concurrency = settings.concurrency
+    let nextGroup = 0
+    let cancelled = false
+
+    const worker = async () => {
+      while (!cancelled && nextGroup < groups.length) {
+        const group = groups[nextGroup++]
+
+        if (await this.isCancelRequested(job, signal, runStartedAt)) {
+          // The group stays pending, so a retry or the next sync picks it up
+          cancelled = true
+          return
+        }
 
-    if (!source.selectedTeamChannels || source.selectedTeamChannels.length === 0) {
-      return chunks
+        await this.processGroupWithRetry(source, job, group, groupOptions, signal)
+        await reportProgress()
+      }
     }
 
-    for (const channelMapping of source.selectedTeamChannels) {
+    await Promise.all(Array.from({ length: Math.min(concurrency, groups.length) }, worker))
+    await progressWrite
+
+    return cancelled
+  }
+
+  private async getIngestionSettings(organizationId: string): Promise<IngestionSettings> {
+    try {
+      return await this.settingsStore.getSettings(organizationId)
+    } catch (error) {
+      console.error(`Failed to load ingestion settings for organization ${organizationId}:`, error)
+      return { ...DEFAULT_INGESTION_SETTINGS }
+    }
+  }
+
+  private async processGroupWithRetry(
+    source: JobSource,
+    job: IngestionJob,
+    group: IngestionJobGroup,
+    options: ContentProcessingOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      group.attempts++
+
       try {
-        const messages = await this.microsoftService.getChannelMessages(
-          source.userId,
-          channelMapping.teamId,
-          channelMapping.channelId,
-          100 // Limit per channel
-        )
-
-        for (const message of messages) {
-          chunks.push({
-            id: `teams_${message.id}`,
-            content: message.body.content,
-            sourceType: 'teams',
-            sourceId: `${channelMapping.teamId}/${channelMapping.channelId}`,
-            metadata: {
-              author: message.from.user?.displayName,
-              timestamp: new Date(message.createdDateTime),
-              channelName: channelMapping.displayName,
-              teamName: channelMapping.displayName.split(' - ')[0]
-            }
-          })
-        }
+        group.draftId = await this.processGroup(source, job, group, options)
+        group.status = 'completed'
+        group.error = undefined
+        break
       } catch (error) {
-        console.error(`Failed to fetch messages from channel ${channelMapping.channelId}:`, error)
+        console.error(`Failed to process content group ${group.groupIndex} (attempt ${attempt}):`, error)
+        group.error = error instanceof Error ? error.message : 'Unknown error'
+
+        if (attempt >= this.retryPolicy.maxAttempts || signal.aborted) {
+          group.status = 'failed'
+          break
+        }
+
+        const delay = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** (attempt - 1))
+        await waitUnlessAborted(delay, signal)
       }
     }
 
-    return chunks
+    try {
+      await this.jobStore.updateGroup(group.id, {
+        status: group.status,
+        attempts: group.attempts,
+        draftId: group.draftId,
+        error: group.error
+      })
+    } catch (storeError) {
+      // A group left pending is redone on resume, where it finds its own fingerprints and is skipped
+      console.error(`Failed to persist outcome of group ${group.groupIndex} for job ${job.id}:`, storeError)
+    }
   }
 
-  private async fetchGoogleDriveContent(source: IngestionSource): Promise<ContentChunk[]> {
-    const chunks: ContentChunk[] = []
+  /**
+   * Draft one group, returning the id of the draft it was written to
+   */
+  private async processGroup(
+    source: JobSource,
+    job: IngestionJob,
+    group: IngestionJobGroup,
+    options: ContentProcessingOptions
+  ): Promise<string> {
+    // Look up earlier runs now rather than at fetch time: a retry may run long after the job.
+    // Uploaded content has no fingerprints; the upload itself records its draft.
+    const previous = source.id
+      ? await this.fingerprintStore.getFingerprints(source.id, group.items.map(entry => entry.item.id))
+      : new Map<string, ContentFingerprint>()
+    const groupFingerprints = group.items.map(entry => ({ ...entry, previous: previous.get(entry.item.id) }))
+
+    // Every item already drafted at this content, by this group before an interruption or by a later sync
+    const drafted = groupFingerprints.every(entry => entry.previous?.contentHash === entry.contentHash)
+    const previousDraftId = groupFingerprints[0]?.previous?.draftDocumentId
+    if (drafted && previousDraftId) {
+      return previousDraftId
+    }
+
+    // A draft written by an earlier attempt that failed further on is updated rather than duplicated
+    const target = await this.resolveDraftTarget(groupFingerprints, group.draftId)
+    const processedDoc = await this.processContentGroup(
+      groupFingerprints.map(entry => entry.item),
+      options,
+      groupFingerprints.map(entry => entry.redaction)
+    )
+
+    // Store processed document in database, then remember which draft each item produced
+    const draftId = await this.storeProcessedDocument(processedDoc, source.organizationId, target)
+    if (draftId !== group.draftId) {
+      group.draftId = draftId
+      await this.jobStore.updateGroup(group.id, { draftId })
+    }
+    await this.storeSourceDocuments(draftId, groupFingerprints, job.id)
+    if (source.id) {
+      await this.recordGroupFingerprints(source.id, source.organizationId, groupFingerprints, draftId, target)
+    } else {
+      await this.linkUploadedArtifacts(draftId, groupFingerprints)
+    }
+
+    return draftId
+  }
+
+  private async finishJob(
+    job: IngestionJob,
+    cancelled: boolean,
+    runStartTime: number,
+    saveCursors?: () => Promise<void>
+  ): Promise<void> {
+    if (cancelled) {
+      // Cursors stay put, so the next sync fetches these items again and drafts whatever this run did not reach
+      job.timings.totalMs = (job.timings.totalMs || 0) + Date.now() - runStartTime
+      await this.updateJobStatus(job, 'cancelled')
+      console.log(`Ingestion job ${job.id} cancelled`)
+      return
+    }
+
+    if (saveCursors) {
+      await saveCursors()
+    }
+    job.timings.totalMs = (job.timings.totalMs || 0) + Date.now() - runStartTime
+
+    // Complete the job
+    await this.updateJobStatus(job, 'completed')
+
+    console.log(`Ingestion job ${job.id} completed: ${job.itemsProcessed - job.itemErrors.length} groups drafted, ${job.itemErrors.length} errors`)
+  }
+
+  private async isCancelRequested(job: IngestionJob, signal: AbortSignal, since: Date): Promise<boolean> {
+    if (signal.aborted) {
+      return true
+    }
 
-    if (!source.selectedFolders || source.selectedFolders.length === 0) {
-      return chunks
+    try {
+      return await this.jobStore.isCancelRequested(job.id, since)
+    } catch (error) {
+      console.error(`Failed to check cancellation of job ${job.id}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Draft content that was added by hand rather than fetched from a connected source. The chunks
+   * go through the same pipeline as one group and always produce a new draft. A caller that has
+   * already redacted the chunks' content passes the redactions so it is not redacted twice.
+   */
+  async ingestManualContent(
+    chunks: ContentChunk[],
+    organizationId: string,
+    options: ContentProcessingOptions = {},
+    redactions?: PIIRedactionResult[]
+  ): Promise<{ document: ProcessedContent; draftId: string }> {
+    if (chunks.length === 0) {
+      throw new Error('No content to ingest')
+    }
+
+    detectChunkLanguages(chunks)
+    const settings = await this.getIngestionSettings(organizationId)
+    const originals = chunks.map(chunk => ({ item: chunk, contentHash: computeContentHash(chunk.content) }))
+    await this.storeOriginalContent(organizationId, originals)
+    const items = await this.redactItems(originals, options, redactions)
+    const document = await this.processContentGroup(
+      items.map(entry => entry.item),
+      withDraftLanguage(options, settings),
+      items.map(entry => entry.redaction)
+    )
+    const draftId = await this.storeProcessedDocument(document, organizationId)
+    try {
+      await this.storeSourceDocuments(draftId, items, undefined)
+    } catch (error) {
+      // A draft without its sources can't be reviewed; the caller reports the failure and the content can be added again
+      const supabase = await this.getSupabase()
+      await supabase.from('draft_documents').delete().eq('id', draftId)
+      throw error
     }
 
-    for (const folderId of source.selectedFolders) {
+    return { document, draftId }
+  }
+
+  /**
+   * Fetch and map the items of every selection, advancing the given cursors. When skippedMedia is
+   * passed, audio and video are listed there instead of being transcribed.
+   */
+  private async fetchSourceContent(
+    source: IngestionSource,
+    cursors: SyncCursors,
+    skippedMedia?: MediaItem[]
+  ): Promise<ContentChunk[]> {
+    const connector = this.connectorRegistry.getConnector(source.type)
+    const selectionCursors = cursors[connector.cursorNamespace] || (cursors[connector.cursorNamespace] = {})
+    const chunks: ContentChunk[] = []
+
+    for (const selection of connector.getSelections(source)) {
+      const cursorKey = connector.getSelectionKey(selection)
+
       try {
-        const items = await this.googleService.getDriveItems(source.userId, folderId)
+        const { items, cursor } = await connector.fetchItems(source, selection, selectionCursors[cursorKey])
 
         for (const item of items) {
-          // Only process files, not folders
-          if (item.file) {
-            try {
-              const content = await this.googleService.getFileContent(source.userId, item.id)
-              
-              chunks.push({
-                id: `drive_${item.id}`,
-                content,
-                sourceType: 'google_drive',
-                sourceId: item.id,
-                metadata: {
-                  fileName: item.name,
-                  timestamp: new Date(item.lastModifiedDateTime),
-                  url: item.webUrl
-                }
-              })
-            } catch (error) {
-              console.error(`Failed to fetch content for file ${item.name}:`, error)
-            }
+          const media = skippedMedia && connector.describeMedia?.(item)
+          if (media) {
+            skippedMedia.push(media)
+            continue
+          }
+
+          try {
+            chunks.push(...detectChunkLanguages(await connector.toContentChunks(source, selection, item)))
+          } catch (error) {
+            console.error(`Failed to fetch content for an item in ${connector.describeSelection(selection)}:`, error)
           }
         }
+
+        selectionCursors[cursorKey] = cursor
       } catch (error) {
-        console.error(`Failed to fetch items from folder ${folderId}:`, error)
+        // Cursor is left untouched so the next sync retries this selection from the same point
+        console.error(`Failed to fetch items from ${connector.describeSelection(selection)}:`, error)
       }
     }
 
     return chunks
   }
 
-  private async groupContentChunks(chunks: ContentChunk[]): Promise<ContentChunk[][]> {
-    // Simple grouping strategy: group by source and time proximity
-    const groups: ContentChunk[][] = []
-    const sortedChunks = chunks.sort((a, b) => a.metadata.timestamp.getTime() - b.metadata.timestamp.getTime())
-
-    let currentGroup: ContentChunk[] = []
-    let lastTimestamp: Date | null = null
-    let lastSourceId: string | null = null
-
-    const TIME_THRESHOLD = 60 * 60 * 1000 // 1 hour
-    const MAX_GROUP_SIZE = 10
+  private async groupChunks(source: IngestionSource, chunks: ContentChunk[]): Promise<ContentChunk[][]> {
+    if (source.groupingStrategy !== 'semantic') {
+      return groupContentChunks(chunks)
+    }
 
-    for (const chunk of sortedChunks) {
-      const shouldStartNewGroup = 
-        currentGroup.length >= MAX_GROUP_SIZE ||
-        (lastSourceId && chunk.sourceId !== lastSourceId) ||
-        (lastTimestamp && Math.abs(chunk.metadata.timestamp.getTime() - lastTimestamp.getTime()) > TIME_THRESHOLD)
+    try {
+      return await groupContentChunksSemantically(chunks, async texts =>
+        (await this.openAIService.generateBatchEmbeddings(texts)).map(result => result.embedding)
+      )
+    } catch (error) {
+      // Embeddings are an optimisation for grouping; a sync should not fail because they are unavailable
+      console.error(`Semantic grouping failed for source ${source.id}, falling back to time windows:`, error)
+      return groupContentChunks(chunks)
+    }
+  }
 
-      if (shouldStartNewGroup && currentGroup.length > 0) {
-        groups.push(currentGroup)
-        currentGroup = []
-      }
+  /**
+   * Keep the unredacted text of items about to be redacted, in a table only the service role can read.
+   * An item whose content is unchanged since it was last stored keeps its existing row.
+   */
+  private async storeOriginalContent(organizationId: string, items: FingerprintedItem<ContentChunk>[]): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('source_document_originals')
+      .upsert(items.map(({ item, contentHash }) => ({
+        organization_id: organizationId,
+        source_type: item.sourceType,
+        source_id: item.id,
+        content_hash: contentHash,
+        original_content: item.content
+      })), { onConflict: 'organization_id,source_id,content_hash', ignoreDuplicates: true })
 
-      currentGroup.push(chunk)
-      lastTimestamp = chunk.metadata.timestamp
-      lastSourceId = chunk.sourceId
+    if (error) {
+      throw new Error(`Failed to store original content: ${error.message}`)
     }
+  }
 
-    if (currentGroup.length > 0) {
-      groups.push(currentGroup)
-    }
+  /**
+   * Replace each item's content with its redacted text, keeping the redaction for the draft and its sources
+   */
+  private async redactItems(
+    items: FingerprintedItem<ContentChunk>[],
+    options: ContentProcessingOptions,
+    existingRedactions?: PIIRedactionResult[]
+  ): Promise<RedactedItem[]> {
+    const redactions = existingRedactions ?? await this.piiService.batchRedactPII(
+      items.map(entry => entry.item.content),
+      options.piiRedactionOptions
+    )
 
-    return groups
+    return items.map((entry, index) => ({
+      ...entry,
+      item: { ...entry.item, content: redactions[index].redactedText },
+      redaction: maskEntityText(redactions[index])
+    }))
   }
 
+  /**
+   * Draft a group of chunks that redactItems has already redacted
+   */
   private async processContentGroup(
     group: ContentChunk[],
-    options: ContentProcessingOptions
+    options: ContentProcessingOptions,
+    redactions: PIIRedactionResult[]
   ): Promise<ProcessedContent> {
-    // Prepare content for AI processing
+    const { sourceContent, sourceReferences, sourceMetadata } = this.buildProcessingInput(group)
+    const sourceLanguage = options.sourceLanguage ?? dominantLanguage(
+      group.map(chunk => ({ language: chunk.metadata.language, length: chunk.content.length }))
+    )
+
+    // Process with AI service
+    return await this.aiService.processContent(
+      sourceContent,
+      sourceReferences,
+      sourceMetadata,
+      { ...options, sourceLanguage, sourceRedactions: redactions }
+    )
+  }
+
+  /**
+   * Prepare a group's content, references and confidence metadata for AI processing
+   */
+  private buildProcessingInput(group: ContentChunk[]): {
+    sourceContent: string[]
+    sourceReferences: SourceReference[]
+    sourceMetadata: SourceMetadata[]
+  } {
     const sourceContent = group.map(chunk => chunk.content)
     const sourceReferences: SourceReference[] = group.map(chunk => ({
       sourceType: chunk.sourceType,
@@ -293,25 +1096,210 @@ class ContentIngestionService {
       authorCount: new Set(group.map(c => c.metadata.author).filter(Boolean)).size,
       messageCount: group.length,
       lastModified: new Date(Math.max(...group.map(c => c.metadata.timestamp.getTime()))),
+      // Anyone who wrote in or reacted to a thread counts as a participant
       participants: Array.from(new Set(
-        group.map(c => c.metadata.author)
-          .filter((author): author is string => Boolean(author))
+        group.flatMap(c => [c.metadata.author, ...(c.metadata.reactedBy || [])])
+          .filter((participant): participant is string => Boolean(participant))
       ))
     }]
 
-    // Process with AI service
-    return await this.aiService.processContent(
-      sourceContent,
-      sourceReferences,
-      sourceMetadata,
-      options
+    return { sourceContent, sourceReferences, sourceMetadata }
+  }
+
+  /**
+   * Work out where a group's draft should go based on what its items produced in earlier runs.
+   * A still-pending draft is updated in place; an approved document gets a new draft that supersedes it.
+   */
+  private async resolveDraftTarget(
+    fingerprints: FingerprintedItem<ContentChunk>[],
+    groupDraftId?: string
+  ): Promise<DraftTarget> {
+    const previous = fingerprints
+      .map(entry => entry.previous)
+      .filter((fingerprint): fingerprint is ContentFingerprint => Boolean(fingerprint))
+
+    if (previous.length === 0 && !groupDraftId) {
+      return {}
+    }
+
+    const draftIds = Array.from(new Set(
+      [groupDraftId, ...previous.map(fingerprint => fingerprint.draftDocumentId)].filter((id): id is string => Boolean(id))
+    ))
+
+    if (draftIds.length > 0) {
+      const supabase = await this.getSupabase()
+      const { data, error } = await supabase
+        .from('draft_documents')
+        .select('id')
+        .in('id', draftIds)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+        .limit(1)
+
+      if (error) {
+        throw new Error(`Failed to look up previous drafts: ${error.message}`)
+      }
+
+      if (data && data.length > 0) {
+        return { existingDraftId: data[0].id }
+      }
+    }
+
+    const approvedDocumentId = previous.find(fingerprint => fingerprint.approvedDocumentId)?.approvedDocumentId
+    return approvedDocumentId ? { supersedesDocumentId: approvedDocumentId } : {}
+  }
+
+  /**
+   * Persist every chunk that contributed to a draft with its redacted text and provenance.
+   * Rows are replaced wholesale so a draft updated in place only lists the items it now reflects.
+   */
+  private async storeSourceDocuments(
+    draftId: string,
+    items: RedactedItem[],
+    ingestionJobId: string | undefined
+  ): Promise<void> {
+    const rows = items.map(({ item: chunk, contentHash, redaction }) => {
+      const metadata: SourceDocumentMetadata = {
+        contentHash,
+        sourceId: chunk.sourceId,
+        author: chunk.metadata.author,
+        timestamp: chunk.metadata.timestamp.toISOString(),
+        url: chunk.metadata.url,
+        fileName: chunk.metadata.fileName,
+        channelName: chunk.metadata.channelName,
+        teamName: chunk.metadata.teamName,
+        threadId: chunk.metadata.threadId,
+        replyToId: chunk.metadata.replyToId,
+        language: chunk.metadata.language,
+        mediaOffsetMs: chunk.metadata.mediaOffsetMs,
+        meetingTitle: chunk.metadata.meetingTitle,
+        ingestionJobId,
+        piiEntities: redaction.entities.map(entity => ({
+          category: entity.category,
+          offset: entity.offset,
+          length: entity.length
+        }))
+      }
+
+      return {
+        source_type: chunk.sourceType,
+        // Stable item key shared with content_fingerprints, e.g. teams_<messageId>
+        source_id: chunk.id,
+        // Only the redacted text is kept
+        redacted_content: chunk.content,
+        metadata
+      }
+    })
+
+    // Delete and insert in one transaction, so a failed write keeps the previous rows
+    const supabase = await this.getSupabase()
+    const { error } = await supabase.rpc('replace_source_documents', {
+      draft_id: draftId,
+      documents: rows as Json
+    })
+
+    if (error) {
+      throw new Error(`Failed to store source documents for draft ${draftId}: ${error.message}`)
+    }
+  }
+
+  private async recordGroupFingerprints(
+    sourceId: string,
+    organizationId: string,
+    fingerprints: FingerprintedItem<ContentChunk>[],
+    draftId: string,
+    target: DraftTarget
+  ): Promise<void> {
+    await this.fingerprintStore.recordFingerprints(
+      sourceId,
+      organizationId,
+      fingerprints.map(entry => ({
+        itemKey: entry.item.id,
+        contentHash: entry.contentHash,
+        draftDocumentId: draftId,
+        approvedDocumentId: entry.previous?.approvedDocumentId ?? target.supersedesDocumentId
+      }))
     )
   }
 
-  private async storeProcessedDocument(document: ProcessedContent, organizationId: string): Promise<void> {
+
+  /**
+   * Point the uploads a group's items came from at the draft they produced
+   */
+  private async linkUploadedArtifacts(draftId: string, items: RedactedItem[]): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('uploaded_artifacts')
+      .update({ draft_document_id: draftId })
+      .in('id', Array.from(new Set(items.map(entry => entry.item.sourceId))))
+
+    if (error) {
+      throw new Error(`Failed to link uploaded artifacts to draft ${draftId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Release the content hashes of uploads an upload job claimed but did not draft. Errors are only
+   * logged so the job's own failure is reported.
+   */
+  private async releaseUploadedArtifacts(job: IngestionJob): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('uploaded_artifacts')
+      .delete()
+      .eq('ingestion_job_id', job.id)
+      .is('draft_document_id', null)
+
+    if (error) {
+      console.error(`Failed to release uploads claimed by ingestion job ${job.id}:`, error)
+    }
+  }
+
+  /**
+   * Store a processed document in the approval queue, returning the id of the draft it was written to
+   */
+  private async storeProcessedDocument(
+    document: ProcessedContent,
+    organizationId: string,
+    target: DraftTarget = {}
+  ): Promise<string> {
     try {
+      const supabase = await this.getSupabase()
+
+      if (target.existingDraftId) {
+        // Replace the pending draft's content rather than queueing a duplicate
+        const { data, error } = await supabase
+          .from('draft_documents')
+          .update({
+            title: document.title,
+            content: document.content,
+            summary: document.summary,
+            topics: document.topics,
+            confidence_score: document.confidence.score,
+            triage_level: document.confidence.level,
+            confidence_reasoning: document.confidence.reasoning,
+            source_references: document.sourceReferences,
+            pii_entities_found: document.piiRedaction.entities.length,
+            processing_metadata: document.metadata,
+            language: document.language ?? null
+          })
+          .eq('id', target.existingDraftId)
+          .eq('status', 'pending')
+          .select('id')
+
+        if (error) {
+          throw new Error(`Failed to update draft ${target.existingDraftId}: ${error.message}`)
+        }
+
+        // The draft may have been reviewed since we looked it up; fall back to a new draft
+        if (data && data.length > 0) {
+          document.id = target.existingDraftId
+          return document.id
+        }
+      }
+
       // Store in draft_documents table for approval queue
-      const { error } = await this.supabase
+      const { error } = await supabase
         .from('draft_documents')
         .insert({
           id: document.id,
@@ -325,48 +1313,158 @@ class ContentIngestionService {
           source_references: document.sourceReferences,
           pii_entities_found: document.piiRedaction.entities.length,
           processing_metadata: document.metadata,
+          language: document.language ?? null,
           organization_id: organizationId,
+          supersedes_document_id: target.supersedesDocumentId ?? null,
           status: 'pending'
         })
 
       if (error) {
         throw new Error(`Failed to store document: ${error.message}`)
       }
+
+      return document.id
     } catch (error) {
       console.error('Failed to store processed document:', error)
       throw error
     }
   }
 
-  private async storeIngestionJob(job: IngestionJob): Promise<void> {
-    // Store job in a simple table or in-memory for MVP
-    // In production, this would be stored in a proper jobs table
-    console.log(`Starting ingestion job ${job.id} for source ${job.sourceId}`)
+  private async saveSyncState(source: IngestionSource, cursors: SyncCursors): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('connected_sources')
+      .update({ sync_cursors: cursors, last_sync_at: new Date().toISOString() })
+      .eq('id', source.id)
+
+    if (error) {
+      throw new Error(`Failed to save sync state: ${error.message}`)
+    }
+
+    source.syncCursors = cursors
+  }
+
+  private async storeIngestionJob(job: IngestionJob, options: ContentProcessingOptions): Promise<void> {
+    console.log(`Starting ingestion job ${job.id} for ${job.sourceId ? `source ${job.sourceId}` : 'uploaded content'}`)
+    if (!(await this.jobStore.createJob(job, options))) {
+      throw new IngestionJobError(`Source ${job.sourceId} already has an active ingestion job`, 'JOB_ACTIVE')
+    }
+  }
+
+  private async updateJobStatus(job: IngestionJob, status: IngestionJob['status'], error?: string): Promise<void> {
+    console.log(`Job ${job.id} status: ${status}${error ? ` - ${error}` : ''}`)
+
+    job.status = status
+    if (error) {
+      job.error = error
+    }
+    if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+      job.completedAt = new Date()
+    }
+
+    try {
+      await this.jobStore.updateJob(job.id, {
+        status,
+        error: job.error,
+        itemErrors: job.itemErrors,
+        timings: job.timings,
+        completedAt: job.completedAt
+      })
+    } catch (storeError) {
+      // Job bookkeeping must never take down the ingestion run itself
+      console.error(`Failed to persist status for job ${job.id}:`, storeError)
+    }
+  }
+
+  private async updateJobProgress(job: IngestionJob, processed: number, total: number): Promise<void> {
+    job.itemsProcessed = processed
+    job.itemsTotal = total
+
+    try {
+      await this.jobStore.updateJob(job.id, {
+        itemsProcessed: processed,
+        itemsTotal: total,
+        itemErrors: job.itemErrors
+      })
+    } catch (storeError) {
+      console.error(`Failed to persist progress for job ${job.id}:`, storeError)
+    }
   }
 
-  private async updateJobStatus(jobId: string, status: IngestionJob['status'], error?: string): Promise<void> {
-    console.log(`Job ${jobId} status: ${status}${error ? ` - ${error}` : ''}`)
+  /**
+   * Touch the job row on a timer for as long as it runs, so a slow fetch, redaction, grouping or group
+   * is not mistaken for an interrupted job. Returns the function that stops it.
+   */
+  private startHeartbeat(job: IngestionJob): () => void {
+    const timer = setInterval(() => {
+      void this.touchJob(job)
+    }, this.heartbeatIntervalMs)
+
+    return () => clearInterval(timer)
+  }
+
+  private async touchJob(job: IngestionJob): Promise<void> {
+    try {
+      await this.jobStore.updateJob(job.id, { timings: job.timings })
+    } catch (storeError) {
+      console.error(`Failed to persist heartbeat for job ${job.id}:`, storeError)
+    }
   }
 
-  private async updateJobProgress(jobId: string, processed: number, total: number): Promise<void> {
-    console.log(`Job ${jobId} progress: ${processed}/${total}`)
+  async getIngestionJob(jobId: string, options: JobQueryOptions = {}): Promise<IngestionJob | null> {
+    return await this.jobStore.getJob(jobId, options)
   }
 
-  async getIngestionJob(jobId: string): Promise<IngestionJob | null> {
-    // In production, retrieve from database
-    return null
+  async getJobGroups(jobId: string): Promise<IngestionJobGroup[]> {
+    return await this.jobStore.getGroups(jobId)
   }
 
-  async getJobsBySource(sourceId: string): Promise<IngestionJob[]> {
-    // In production, retrieve from database
-    return []
+  async getJobsBySource(sourceId: string, options: JobQueryOptions = {}): Promise<IngestionJob[]> {
+    return await this.jobStore.getJobsBySource(sourceId, options)
   }
 
   private generateJobId(): string {
-    return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    return crypto.randomUUID()
   }
 }
 
+/**
+ * Record the language of each chunk that does not have one yet
+ */
+function detectChunkLanguages(chunks: ContentChunk[]): ContentChunk[] {
+  for (const chunk of chunks) {
+    chunk.metadata.language ??= detectLanguage(chunk.content)
+  }
+  return chunks
+}
+
+/**
+ * Apply the organization's draft language settings, unless the caller chose a language itself
+ */
+function withDraftLanguage(options: ContentProcessingOptions, settings: IngestionSettings): ContentProcessingOptions {
+  return {
+    draftLanguageMode: settings.draftLanguageMode,
+    canonicalLanguage: settings.canonicalLanguage,
+    ...options
+  }
+}
+
+/**
+ * Resolve after delayMs, or as soon as the signal aborts
+ */
+function waitUnlessAborted(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, delayMs)
+    signal.addEventListener('abort', done, { once: true })
+
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
 // Singleton instance
 let contentIngestionService: ContentIngestionService | null = null
 
@@ -0,0 +1,154 @@
+interface CronField {
+  values: Set<number>
+  wildcard: boolean
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+]
+
+/**
+ * Minimal five-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and lists (`1,15`).
+ * All calculations are done in UTC.
+ */
+export class CronExpression {
+  private static readonly MAX_SEARCH_DAYS = 366 * 5
+
+  private constructor(
+    readonly expression: string,
+    private minutes: CronField,
+    private hours: CronField,
+    private daysOfMonth: CronField,
+    private months: CronField,
+    private daysOfWeek: CronField
+  ) {}
+
+  /**
+   * Parse a cron expression, throwing if it is malformed
+   */
+  static parse(expression: string): CronExpression {
+    const parts = expression.trim().split(/\s+/)
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`)
+    }
+
+    const fields = parts.map((part, index) => this.parseField(part, FIELD_RANGES[index], expression))
+
+    // Normalise Sunday so day-of-week matching only has to check 0-6
+    if (fields[4].values.delete(7)) {
+      fields[4].values.add(0)
+    }
+
+    return new CronExpression(expression, fields[0], fields[1], fields[2], fields[3], fields[4])
+  }
+
+  /**
+   * Check whether an expression is valid without throwing
+   */
+  static isValid(expression: string): boolean {
+    try {
+      this.parse(expression)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Get the first matching time strictly after the given date
+   */
+  nextAfter(after: Date): Date {
+    const candidate = new Date(after.getTime())
+    candidate.setUTCSeconds(0, 0)
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1)
+
+    const searchLimit = after.getTime() + CronExpression.MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+
+    while (candidate.getTime() <= searchLimit) {
+      if (!this.months.values.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1)
+        candidate.setUTCHours(0, 0, 0, 0)
+        continue
+      }
+
+      if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1)
+        candidate.setUTCHours(0, 0, 0, 0)
+        continue
+      }
+
+      if (!this.hours.values.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0)
+        continue
+      }
+
+      if (!this.minutes.values.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0)
+        continue
+      }
+
+      return candidate
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no matching time in the next ${CronExpression.MAX_SEARCH_DAYS} days`)
+  }
+
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.values.has(date.getUTCDate())
+    const dowMatch = this.daysOfWeek.values.has(date.getUTCDay())
+
+    // Standard cron semantics: when both day fields are restricted, either one may match
+    if (!this.daysOfMonth.wildcard && !this.daysOfWeek.wildcard) {
+      return domMatch || dowMatch
+    }
+    return domMatch && dowMatch
+  }
+
+  private static parseField(
+    field: string,
+    range: { name: string; min: number; max: number },
+    expression: string
+  ): CronField {
+    const values = new Set<number>()
+    const invalid = () => new Error(`Invalid ${range.name} field "${field}" in cron expression "${expression}"`)
+
+    for (const item of field.split(',')) {
+      const [rangePart, stepPart] = item.split('/')
+      const step = stepPart === undefined ? 1 : Number(stepPart)
+      if (!Number.isInteger(step) || step < 1) {
+        throw invalid()
+      }
+
+      let start: number
+      let end: number
+      if (rangePart === '*') {
+        start = range.min
+        end = range.max
+      } else if (rangePart.includes('-')) {
+        const [low, high] = rangePart.split('-').map(Number)
+        start = low
+        end = high
+      } else {
+        start = Number(rangePart)
+        // "5/10" means "starting at 5, every 10"
+        end = stepPart === undefined ? start : range.max
+      }
+
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < range.min || end > range.max || start > end) {
+        throw invalid()
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value)
+      }
+    }
+
+    // Like vixie cron, `*/n` still counts as unrestricted when combining the two day fields
+    return { values, wildcard: field.startsWith('*') }
+  }
+}
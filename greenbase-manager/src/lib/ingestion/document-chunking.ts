@@ -1,3 +1,15 @@
+import type { SupportedLanguage } from '../ai/language-detection'
+import { estimateTokens } from '../ai/token-estimator'
+import { parseMarkdownBlocks, type MarkdownBlock, type MarkdownSpan } from './markdown-blocks'
+import { cosineSimilarity, type EmbedTexts } from './content-grouping'
+
+// Abbreviations that end in a full stop without ending the sentence, lower-cased without their final stop
+const SENTENCE_ABBREVIATIONS: Record<SupportedLanguage, Set<string>> = {
+  en: new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'inc', 'ltd', 'co', 'corp', 'etc', 'vs', 'approx', 'no', 'fig', 'e.g', 'i.e']),
+  de: new Set(['dr', 'prof', 'hr', 'fr', 'nr', 'str', 'bzw', 'ca', 'usw', 'vgl', 'ggf', 'evtl', 'inkl', 'zzgl', 'abs', 'bzgl', 'z.b', 'd.h', 'u.a']),
+  es: new Set(['sr', 'sra', 'srta', 'dr', 'dra', 'ud', 'uds', 'etc', 'núm', 'pág', 'aprox', 'av', 'ej', 'p.ej', 'ee.uu'])
+}
+
 export interface DocumentChunk {
   content: string
   metadata: {
@@ -5,20 +17,153 @@ export interface DocumentChunk {
     startOffset: number
     endOffset: number
     tokenCount: number
+    // Headings enclosing the chunk, outermost first; set by the Markdown chunker
+    headingPath?: string[]
   }
 }
 
+// fixed: token windows; sentence and paragraph: runs of either; markdown: heading sections;
+// semantic: sentences grouped until the topic shifts
+export const CHUNKING_STRATEGIES = ['fixed', 'sentence', 'paragraph', 'markdown', 'semantic'] as const
+
+export type ChunkingStrategy = typeof CHUNKING_STRATEGIES[number]
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategy = 'markdown'
+
 export interface ChunkingOptions {
+  // Used by chunkWithStrategy; the other methods each implement one strategy
+  strategy?: ChunkingStrategy
   maxTokens?: number
+  // Semantic strategy: chunks below this size are not cut at a topic shift
+  minTokens?: number
+  // Semantic strategy: cosine similarity of adjacent sentences below which a new chunk starts
+  similarityThreshold?: number
   overlapTokens?: number
   preserveSentences?: boolean
   preserveParagraphs?: boolean
+  // Language of the content, for sentence boundaries; common abbreviations of every supported language are respected otherwise
+  language?: SupportedLanguage
+  // Model whose tokenizer measures chunks, normally the embedding model
+  model?: string
+}
+
+export interface SpanChunkingOptions {
+  maxTokens?: number
+  // Model whose tokenizer measures chunks, normally the embedding model
+  model?: string
+}
+
+export interface MarkdownChunkingOptions {
+  maxTokens?: number
+  // Language of the content, for splitting oversized paragraphs at sentence boundaries
+  language?: SupportedLanguage
+  // Model whose tokenizer measures chunks, normally the embedding model
+  model?: string
 }
 
 export class DocumentChunking {
   private static readonly DEFAULT_MAX_TOKENS = 500
   private static readonly DEFAULT_OVERLAP_TOKENS = 50
-  private static readonly APPROX_TOKENS_PER_CHAR = 0.25 // Rough estimate
+  private static readonly DEFAULT_MIN_TOKENS = 100
+  private static readonly DEFAULT_SIMILARITY_THRESHOLD = 0.8
+  // No BPE token spans more characters than this, bounding the search for a chunk's end
+  private static readonly MAX_CHARS_PER_TOKEN = 32
+
+  /**
+   * Chunk a document with the strategy named in the options, markdown by default. Only the
+   * semantic strategy embeds, and needs embed.
+   */
+  static async chunkWithStrategy(
+    content: string,
+    options: ChunkingOptions = {},
+    embed?: EmbedTexts
+  ): Promise<DocumentChunk[]> {
+    const { strategy = DEFAULT_CHUNKING_STRATEGY, language, maxTokens, model } = options
+
+    switch (strategy) {
+      case 'fixed':
+        return this.chunkDocument(content, options)
+      case 'sentence':
+        return this.chunkBySentences(content, undefined, undefined, language, { maxTokens, model })
+      case 'paragraph':
+        return this.chunkByParagraphs(content, undefined, undefined, { maxTokens, model })
+      case 'markdown':
+        return this.chunkMarkdown(content, options)
+      case 'semantic':
+        if (!embed) {
+          throw new Error('Semantic chunking needs an embedding function')
+        }
+        return this.chunkSemantically(content, embed, options)
+    }
+  }
+
+  /**
+   * Split a document where its topic shifts: sentences are embedded, and a chunk ends where the
+   * similarity of adjacent sentences drops below the threshold once it holds minTokens, or
+   * before it would exceed maxTokens. A sentence over maxTokens is cut into token windows.
+   */
+  static async chunkSemantically(
+    content: string,
+    embed: EmbedTexts,
+    options: ChunkingOptions = {}
+  ): Promise<DocumentChunk[]> {
+    const {
+      maxTokens = this.DEFAULT_MAX_TOKENS,
+      minTokens = this.DEFAULT_MIN_TOKENS,
+      similarityThreshold = this.DEFAULT_SIMILARITY_THRESHOLD,
+      language,
+      model
+    } = options
+
+    const sentences = this.sentenceSpans(content, language)
+    if (sentences.length === 0) {
+      return []
+    }
+
+    const embeddings = sentences.length > 1
+      ? await embed(sentences.map(sentence => sentence.text))
+      : []
+    if (sentences.length > 1 && embeddings.length !== sentences.length) {
+      throw new Error(`Expected ${sentences.length} embeddings, received ${embeddings.length}`)
+    }
+
+    const chunks: DocumentChunk[] = []
+    const pushChunk = (start: number, end: number) => {
+      const text = content.slice(start, end)
+      const tokenCount = this.estimateTokenCount(text, model)
+      // Only a lone sentence can be over the budget; it is cut into token windows
+      const windows = tokenCount <= maxTokens
+        ? [{ content: text, metadata: { startOffset: 0, endOffset: text.length, tokenCount } }]
+        : this.chunkDocument(text, { maxTokens, overlapTokens: 0, language, model })
+
+      for (const window of windows) {
+        chunks.push({
+          content: window.content,
+          metadata: {
+            chunkIndex: chunks.length,
+            startOffset: start + window.metadata.startOffset,
+            endOffset: start + window.metadata.endOffset,
+            tokenCount: window.metadata.tokenCount
+          }
+        })
+      }
+    }
+
+    let first = 0
+    for (let i = 1; i < sentences.length; i++) {
+      const currentTokens = this.estimateTokenCount(content.slice(sentences[first].start, sentences[i - 1].end), model)
+      const withNext = this.estimateTokenCount(content.slice(sentences[first].start, sentences[i].end), model)
+      const topicShift = currentTokens >= minTokens && cosineSimilarity(embeddings[i - 1], embeddings[i]) < similarityThreshold
+
+      if (withNext > maxTokens || topicShift) {
+        pushChunk(sentences[first].start, sentences[i - 1].end)
+        first = i
+      }
+    }
+    pushChunk(sentences[first].start, sentences[sentences.length - 1].end)
+
+    return chunks
+  }
 
   /**
    * Split a document into chunks suitable for embedding
@@ -31,7 +176,9 @@ export class DocumentChunking {
       maxTokens = this.DEFAULT_MAX_TOKENS,
       overlapTokens = this.DEFAULT_OVERLAP_TOKENS,
       preserveSentences = true,
-      preserveParagraphs = false
+      preserveParagraphs = false,
+      language,
+      model
     } = options
 
     if (!content || content.trim().length === 0) {
@@ -46,18 +193,16 @@ export class DocumentChunking {
       }]
     }
 
-    const maxChars = Math.floor(maxTokens / this.APPROX_TOKENS_PER_CHAR)
-    const overlapChars = Math.floor(overlapTokens / this.APPROX_TOKENS_PER_CHAR)
-
     // If content is short enough, return as single chunk
-    if (content.length <= maxChars) {
+    const contentTokens = this.estimateTokenCount(content, model)
+    if (contentTokens <= maxTokens) {
       return [{
         content,
         metadata: {
           chunkIndex: 0,
           startOffset: 0,
           endOffset: content.length,
-          tokenCount: this.estimateTokenCount(content)
+          tokenCount: contentTokens
         }
       }]
     }
@@ -67,12 +212,14 @@ export class DocumentChunking {
     let chunkIndex = 0
 
     while (currentOffset < content.length) {
-      const endOffset = Math.min(currentOffset + maxChars, content.length)
+      const window = content.substring(currentOffset, currentOffset + maxTokens * this.MAX_CHARS_PER_TOKEN)
+      const endOffset = currentOffset + this.longestWithinTokens(window.length, maxTokens, length =>
+        this.estimateTokenCount(window.substring(0, length), model))
       let chunkContent = content.substring(currentOffset, endOffset)
 
       // Try to preserve sentence boundaries
       if (preserveSentences && endOffset < content.length) {
-        const lastSentenceEnd = this.findLastSentenceEnd(chunkContent)
+        const lastSentenceEnd = this.findLastSentenceEnd(chunkContent, language)
         if (lastSentenceEnd > chunkContent.length * 0.5) {
           chunkContent = chunkContent.substring(0, lastSentenceEnd)
         }
@@ -86,131 +233,270 @@ export class DocumentChunking {
         }
       }
 
-      chunks.push({
-        content: chunkContent.trim(),
-        metadata: {
-          chunkIndex,
-          startOffset: currentOffset,
-          endOffset: currentOffset + chunkContent.length,
-          tokenCount: this.estimateTokenCount(chunkContent)
-        }
-      })
+      // Whitespace left over after the last full window
+      const span = trimmedSpan(content, currentOffset, currentOffset + chunkContent.length)
+      if (span) {
+        chunks.push({
+          content: span.text,
+          metadata: {
+            chunkIndex,
+            startOffset: span.start,
+            endOffset: span.end,
+            tokenCount: this.estimateTokenCount(span.text, model)
+          }
+        })
+        chunkIndex++
+      }
 
       // Calculate next offset with overlap
+      const overlapChars = this.longestWithinTokens(chunkContent.length, overlapTokens, length =>
+        this.estimateTokenCount(chunkContent.substring(chunkContent.length - length), model))
       const nextOffset = currentOffset + chunkContent.length - overlapChars
       currentOffset = Math.max(nextOffset, currentOffset + 1) // Ensure progress
-      chunkIndex++
     }
 
     return chunks
   }
 
   /**
-   * Chunk text by sentences
+   * Split a Markdown document on its heading sections. Sections over the token budget are split
+   * between blocks, then between list items, table rows, code lines or sentences; a table keeps its
+   * header and a code block its fences in every piece. Each chunk carries its heading path.
    */
-  static chunkBySentences(
+  static chunkMarkdown(
     content: string,
-    maxSentences: number = 5,
-    overlapSentences: number = 1
+    options: MarkdownChunkingOptions = {}
   ): DocumentChunk[] {
-    const sentences = this.splitIntoSentences(content)
-    
-    if (sentences.length <= maxSentences) {
-      return [{
-        content,
-        metadata: {
-          chunkIndex: 0,
-          startOffset: 0,
-          endOffset: content.length,
-          tokenCount: this.estimateTokenCount(content)
-        }
-      }]
-    }
+    const { maxTokens = this.DEFAULT_MAX_TOKENS, language, model } = options
 
     const chunks: DocumentChunk[] = []
-    let chunkIndex = 0
-
-    for (let i = 0; i < sentences.length; i += maxSentences - overlapSentences) {
-      const chunkSentences = sentences.slice(i, i + maxSentences)
-      const chunkContent = chunkSentences.join(' ')
-      
-      const startOffset = content.indexOf(chunkSentences[0])
-      const endOffset = startOffset + chunkContent.length
+    const headings: Array<{ level: number; text: string }> = []
+    let headingPath: string[] = []
+    let pending: MarkdownSpan[] = []
+    let pendingHasContent = false
+
+    const flush = () => {
+      // A heading directly followed by a subheading has no content of its own
+      if (pendingHasContent) {
+        const text = pending.map(piece => piece.text).join('\n\n')
+        chunks.push({
+          content: text,
+          metadata: {
+            chunkIndex: chunks.length,
+            startOffset: pending[0].start,
+            endOffset: pending[pending.length - 1].end,
+            tokenCount: this.estimateTokenCount(text, model),
+            headingPath
+          }
+        })
+      }
+      pending = []
+      pendingHasContent = false
+    }
 
-      chunks.push({
-        content: chunkContent.trim(),
-        metadata: {
-          chunkIndex,
-          startOffset,
-          endOffset,
-          tokenCount: this.estimateTokenCount(chunkContent)
+    for (const block of parseMarkdownBlocks(content)) {
+      if (block.type === 'heading') {
+        flush()
+        while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+          headings.pop()
         }
-      })
+        headings.push({ level: block.level!, text: block.heading! })
+        headingPath = headings.map(heading => heading.text)
+        // The heading line opens its section's first chunk
+        pending = [{ ...block, text: block.text.trim() }]
+        continue
+      }
 
-      chunkIndex++
+      for (const piece of this.splitMarkdownBlock(block, maxTokens, language, model)) {
+        const combined = [...pending, piece].map(span => span.text).join('\n\n')
+        if (pendingHasContent && this.estimateTokenCount(combined, model) > maxTokens) {
+          flush()
+        }
+        pending.push(piece)
+        pendingHasContent = true
+      }
     }
+    flush()
 
     return chunks
   }
 
   /**
-   * Chunk text by paragraphs
+   * Text to embed and store for a chunk: its heading path, then its content
+   */
+  static embeddingText(chunk: DocumentChunk): string {
+    const headingPath = chunk.metadata.headingPath || []
+    return headingPath.length > 0 ? `${headingPath.join(' > ')}\n\n${chunk.content}` : chunk.content
+  }
+
+  /**
+   * Chunk text by sentences. Chunks are exact spans of the content, from the first character of
+   * their first sentence to the last of their last, and hold fewer sentences where more would
+   * exceed the token budget.
+   */
+  static chunkBySentences(
+    content: string,
+    maxSentences: number = 5,
+    overlapSentences: number = 1,
+    language?: SupportedLanguage,
+    options: SpanChunkingOptions = {}
+  ): DocumentChunk[] {
+    return this.chunkSpans(content, this.sentenceSpans(content, language), maxSentences, overlapSentences, options, language)
+  }
+
+  /**
+   * Chunk text by paragraphs, separated by blank lines. Chunks are exact spans of the content,
+   * keeping the separators between their paragraphs, and hold fewer paragraphs where more would
+   * exceed the token budget.
    */
   static chunkByParagraphs(
     content: string,
     maxParagraphs: number = 3,
-    overlapParagraphs: number = 1
+    overlapParagraphs: number = 1,
+    options: SpanChunkingOptions = {}
   ): DocumentChunk[] {
-    const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim())
-    
-    if (paragraphs.length <= maxParagraphs) {
+    const paragraphs: MarkdownSpan[] = []
+    let start = 0
+    for (const separator of content.matchAll(/\n\s*\n/g)) {
+      const paragraph = trimmedSpan(content, start, separator.index)
+      if (paragraph) paragraphs.push(paragraph)
+      start = separator.index + separator[0].length
+    }
+    const last = trimmedSpan(content, start, content.length)
+    if (last) paragraphs.push(last)
+
+    return this.chunkSpans(content, paragraphs, maxParagraphs, overlapParagraphs, options)
+  }
+
+  /**
+   * Group runs of spans into chunks of up to maxSpans and maxTokens, each overlapping the previous
+   * by overlapSpans. A span over the budget is first cut into token windows, at sentence
+   * boundaries where it has them. Content that fits one chunk is returned whole.
+   */
+  private static chunkSpans(
+    content: string,
+    spans: MarkdownSpan[],
+    maxSpans: number,
+    overlapSpans: number,
+    options: SpanChunkingOptions,
+    language?: SupportedLanguage
+  ): DocumentChunk[] {
+    const { maxTokens = this.DEFAULT_MAX_TOKENS, model } = options
+
+    const contentTokens = this.estimateTokenCount(content, model)
+    if (spans.length <= maxSpans && contentTokens <= maxTokens) {
       return [{
         content,
         metadata: {
           chunkIndex: 0,
           startOffset: 0,
           endOffset: content.length,
-          tokenCount: this.estimateTokenCount(content)
+          tokenCount: contentTokens
         }
       }]
     }
 
+    const units = spans.flatMap(span => this.estimateTokenCount(span.text, model) <= maxTokens
+      ? [span]
+      : this.chunkDocument(span.text, { maxTokens, overlapTokens: 0, language, model }).map(window => ({
+        text: window.content,
+        start: span.start + window.metadata.startOffset,
+        end: span.start + window.metadata.endOffset
+      })))
+
     const chunks: DocumentChunk[] = []
-    let chunkIndex = 0
+    let first = 0
+
+    while (first < units.length) {
+      let end = first + 1
+      while (
+        end < units.length &&
+        end - first < maxSpans &&
+        this.estimateTokenCount(content.slice(units[first].start, units[end].end), model) <= maxTokens
+      ) {
+        end++
+      }
 
-    for (let i = 0; i < paragraphs.length; i += maxParagraphs - overlapParagraphs) {
-      const chunkParagraphs = paragraphs.slice(i, i + maxParagraphs)
-      const chunkContent = chunkParagraphs.join('\n\n')
-      
-      const startOffset = content.indexOf(chunkParagraphs[0])
-      const endOffset = startOffset + chunkContent.length
+      const startOffset = units[first].start
+      const endOffset = units[end - 1].end
+      const chunkContent = content.slice(startOffset, endOffset)
 
       chunks.push({
-        content: chunkContent.trim(),
+        content: chunkContent,
         metadata: {
-          chunkIndex,
+          chunkIndex: chunks.length,
           startOffset,
           endOffset,
-          tokenCount: this.estimateTokenCount(chunkContent)
+          tokenCount: this.estimateTokenCount(chunkContent, model)
         }
       })
 
-      chunkIndex++
+      // The rest would only repeat the overlap
+      if (end >= units.length) break
+      first = Math.max(first + 1, end - overlapSpans)
     }
 
     return chunks
   }
 
-  private static findLastSentenceEnd(text: string): number {
-    const sentenceEnders = /[.!?]+/g
-    let lastMatch = -1
-    let match
+  /**
+   * Pieces of a block that fit the token budget, in document order. Blocks that fit are kept whole;
+   * a single unit over the budget is kept whole rather than cut mid-row or mid-line.
+   */
+  private static splitMarkdownBlock(
+    block: MarkdownBlock,
+    maxTokens: number,
+    language?: SupportedLanguage,
+    model?: string
+  ): MarkdownSpan[] {
+    if (this.estimateTokenCount(block.text, model) <= maxTokens) {
+      return [block]
+    }
+
+    const units = block.type === 'paragraph'
+      ? this.sentenceSpans(block.text, language)
+        .map(sentence => ({ ...sentence, start: block.start + sentence.start, end: block.start + sentence.end }))
+      : block.units
+    if (units.length === 0) {
+      return [block]
+    }
+
+    const frame = (first: MarkdownSpan, last: MarkdownSpan): MarkdownSpan => {
+      const body = block.text.slice(first.start - block.start, last.end - block.start)
+      return {
+        text: [block.prefix, body, block.suffix].filter(part => part !== undefined).join('\n'),
+        start: first.start,
+        end: last.end
+      }
+    }
+
+    const pieces: MarkdownSpan[] = []
+    let first = units[0]
+    for (let i = 1; i < units.length; i++) {
+      if (this.estimateTokenCount(frame(first, units[i]).text, model) > maxTokens) {
+        pieces.push(frame(first, units[i - 1]))
+        first = units[i]
+      }
+    }
+    pieces.push(frame(first, units[units.length - 1]))
+
+    // Offsets of the outer pieces cover the header rows and fences they repeat
+    pieces[0].start = block.start
+    pieces[pieces.length - 1].end = block.end
+    return pieces
+  }
+
+  private static findLastSentenceEnd(text: string, language?: SupportedLanguage): number {
+    const sentences = this.segmentSentences(text, language)
+    const last = sentences[sentences.length - 1]
 
-    while ((match = sentenceEnders.exec(text)) !== null) {
-      lastMatch = match.index + match[0].length
+    // The text ends in a complete sentence, or holds no boundary at all
+    if (!last || sentences.length === 1 || /[.!?…。]["'”’»)\]]*\s*$/.test(last.text)) {
+      return text.length
     }
 
-    return lastMatch > 0 ? lastMatch : text.length
+    // Cut before the trailing partial sentence
+    return last.start
   }
 
   private static findLastParagraphEnd(text: string): number {
@@ -218,18 +504,78 @@ export class DocumentChunking {
     return lastNewline > 0 ? lastNewline + 2 : text.length
   }
 
-  private static splitIntoSentences(text: string): string[] {
-    // Simple sentence splitting - could be improved with more sophisticated NLP
-    return text
-      .split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0)
-      .map(s => s + '.')
+  /**
+   * Sentences as exact spans of the text, without surrounding whitespace
+   */
+  private static sentenceSpans(text: string, language?: SupportedLanguage): MarkdownSpan[] {
+    return this.segmentSentences(text, language)
+      .map(sentence => trimmedSpan(text, sentence.start, sentence.start + sentence.text.length))
+      .filter((sentence): sentence is MarkdownSpan => sentence !== null)
   }
 
-  private static estimateTokenCount(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length * this.APPROX_TOKENS_PER_CHAR)
+  /**
+   * Split text into sentences with their start offsets. Unicode sentence boundaries handle
+   * decimals and Spanish ¿…? questions; boundaries after known abbreviations and initials
+   * (e.g. "z. B.", "Sr.") are then rejoined, as the segmenter breaks before any capital.
+   */
+  private static segmentSentences(text: string, language?: SupportedLanguage): Array<{ text: string; start: number }> {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' })
+    const abbreviations = language
+      ? SENTENCE_ABBREVIATIONS[language]
+      : new Set(Object.values(SENTENCE_ABBREVIATIONS).flatMap(set => Array.from(set)))
+
+    const sentences: Array<{ text: string; start: number }> = []
+    let pending: { text: string; start: number } | null = null
+
+    for (const { segment, index } of segmenter.segment(text)) {
+      pending = pending ? { text: pending.text + segment, start: pending.start } : { text: segment, start: index }
+
+      if (!this.endsWithAbbreviation(pending.text, abbreviations)) {
+        sentences.push(pending)
+        pending = null
+      }
+    }
+
+    if (pending) {
+      sentences.push(pending)
+    }
+
+    return sentences
+  }
+
+  private static endsWithAbbreviation(sentence: string, abbreviations: Set<string>): boolean {
+    const lastWord = sentence.trimEnd().split(/\s+/).pop() || ''
+    if (!lastWord.endsWith('.')) {
+      return false
+    }
+
+    const word = lastWord.slice(0, -1).toLowerCase()
+    // Single letters are initials or parts of abbreviations such as "z. B."
+    return /^\p{L}$/u.test(word) || abbreviations.has(word)
+  }
+
+  private static estimateTokenCount(text: string, model?: string): number {
+    return estimateTokens(text, model)
+  }
+
+  /**
+   * Longest length, up to a limit, whose text fits a token budget. Token counts grow with the
+   * text, so the length is found by bisection.
+   */
+  private static longestWithinTokens(limit: number, maxTokens: number, countTokens: (length: number) => number): number {
+    let low = 0
+    let high = limit
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (countTokens(middle) <= maxTokens) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+
+    return low
   }
 
   /**
@@ -273,4 +619,18 @@ export class DocumentChunking {
       }
     }))
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The span of text between two offsets with surrounding whitespace left out; null when blank
+ */
+function trimmedSpan(text: string, start: number, end: number): MarkdownSpan | null {
+  const slice = text.slice(start, end)
+  const trimmed = slice.trim()
+  if (!trimmed) {
+    return null
+  }
+
+  const trimmedStart = start + slice.length - slice.trimStart().length
+  return { text: trimmed, start: trimmedStart, end: trimmedStart + trimmed.length }
+}
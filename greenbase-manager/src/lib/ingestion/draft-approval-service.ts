@@ -0,0 +1,202 @@
+import { getSupabaseAdmin, SupabaseAdmin } from '../supabase-admin'
+import { getVectorSearchService } from '../vector/vector-search-service'
+
+export interface DraftApprover {
+  id: string
+  organizationId: string
+}
+
+export interface DraftApprovalResult {
+  documentId: string
+  version: number
+  // Whether the document was superseded in place rather than added to the knowledge base
+  superseded: boolean
+  // False when chunking or embedding failed; the document is approved either way
+  indexed: boolean
+}
+
+export class DraftApprovalError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'DraftApprovalError'
+  }
+}
+
+type ApprovableDraft = {
+  id: string
+  title: string
+  content: string
+  summary: string | null
+  topics: string[] | null
+  language: string | null
+  supersedes_document_id: string | null
+}
+
+class DraftApprovalService {
+  private vectorSearchService = getVectorSearchService()
+  private supabase: SupabaseAdmin | null = null
+
+  private async getSupabase(): Promise<SupabaseAdmin> {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  /**
+   * Approve a pending draft into the knowledge base and index it for search.
+   * Every approved document records the draft it came from in draft_document_id, which the database
+   * uses to carry the draft's language and content fingerprints over to the document.
+   */
+  async approveDraft(draftId: string, approver: DraftApprover): Promise<DraftApprovalResult> {
+    const draft = await this.claimDraft(draftId, approver.organizationId)
+
+    let approved: { documentId: string; version: number; superseded: boolean }
+    try {
+      approved = await this.supersedeDocument(draft, approver) ?? await this.insertDocument(draft, approver)
+    } catch (error) {
+      await this.releaseDraft(draft.id)
+      throw new DraftApprovalError(`Failed to approve draft ${draft.id}`, 'APPROVAL_FAILED', error)
+    }
+
+    const embedding = await this.vectorSearchService.embedDocument(approved.documentId, draft.content, approver.organizationId)
+
+    return { ...approved, indexed: embedding.status === 'completed' }
+  }
+
+  /**
+   * Move a draft out of pending, so two reviewers approving at once produce one document
+   */
+  private async claimDraft(draftId: string, organizationId: string): Promise<ApprovableDraft> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('draft_documents')
+      .update({ status: 'approved', updated_at: new Date().toISOString() })
+      .eq('id', draftId)
+      .eq('organization_id', organizationId)
+      .eq('status', 'pending')
+      .select('id, title, content, summary, topics, language, supersedes_document_id')
+      .maybeSingle()
+
+    if (error) {
+      throw new DraftApprovalError(`Failed to approve draft ${draftId}`, 'APPROVAL_FAILED', error)
+    }
+    if (data) {
+      return data
+    }
+
+    const { data: existing } = await supabase
+      .from('draft_documents')
+      .select('id')
+      .eq('id', draftId)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    throw existing
+      ? new DraftApprovalError(`Draft ${draftId} has already been reviewed`, 'DRAFT_NOT_PENDING')
+      : new DraftApprovalError(`Draft ${draftId} not found`, 'DRAFT_NOT_FOUND')
+  }
+
+  private async releaseDraft(draftId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase.from('draft_documents').update({ status: 'pending' }).eq('id', draftId)
+    if (error) {
+      console.error(`Failed to return draft ${draftId} to the approval queue:`, error)
+    }
+  }
+
+  /**
+   * Write a draft over the approved document it supersedes as that document's next version.
+   * The insert triggers don't run here, so the language is copied explicitly; the draft's fingerprints
+   * already point at this document from ingestion. Returns null when there is nothing to supersede.
+   */
+  private async supersedeDocument(
+    draft: ApprovableDraft,
+    approver: DraftApprover
+  ): Promise<{ documentId: string; version: number; superseded: boolean } | null> {
+    if (!draft.supersedes_document_id) {
+      return null
+    }
+
+    const supabase = await this.getSupabase()
+    const { data: current, error: lookupError } = await supabase
+      .from('approved_documents')
+      .select('id, version')
+      .eq('id', draft.supersedes_document_id)
+      .eq('organization_id', approver.organizationId)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw new Error(`Failed to look up document ${draft.supersedes_document_id}: ${lookupError.message}`)
+    }
+    // The superseded document was deleted since; the draft becomes a new document instead
+    if (!current) {
+      return null
+    }
+
+    const version = (current.version ?? 1) + 1
+    const { error } = await supabase
+      .from('approved_documents')
+      .update({
+        title: draft.title,
+        content: draft.content,
+        summary: draft.summary ?? '',
+        tags: draft.topics ?? [],
+        language: draft.language,
+        draft_document_id: draft.id,
+        approved_by: approver.id,
+        version,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', current.id)
+
+    if (error) {
+      throw new Error(`Failed to update document ${current.id}: ${error.message}`)
+    }
+
+    return { documentId: current.id, version, superseded: true }
+  }
+
+  private async insertDocument(
+    draft: ApprovableDraft,
+    approver: DraftApprover
+  ): Promise<{ documentId: string; version: number; superseded: boolean }> {
+    const supabase = await this.getSupabase()
+    // Language is left to the insert trigger, which copies it from draft_document_id
+    const { data, error } = await supabase
+      .from('approved_documents')
+      .insert({
+        title: draft.title,
+        content: draft.content,
+        summary: draft.summary ?? '',
+        tags: draft.topics ?? [],
+        organization_id: approver.organizationId,
+        approved_by: approver.id,
+        draft_document_id: draft.id
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to store approved document: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return { documentId: data.id, version: 1, superseded: false }
+  }
+}
+
+// Singleton instance
+let draftApprovalService: DraftApprovalService | null = null
+
+export function getDraftApprovalService(): DraftApprovalService {
+  if (!draftApprovalService) {
+    draftApprovalService = new DraftApprovalService()
+  }
+  return draftApprovalService
+}
+
+export { DraftApprovalService }
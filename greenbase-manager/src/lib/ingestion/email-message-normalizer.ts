@@ -0,0 +1,74 @@
+import { EmailMessage } from './email-parser'
+
+// Lines that introduce the quoted message in a reply; everything from here on is the earlier message
+const REPLY_HEADER_PATTERNS = [
+  /^On\b.*\bwrote:\s*$/i,
+  /^Le\b.*\ba écrit\s*:\s*$/i,
+  /^Am\b.*\bschrieb\b.*:\s*$/i,
+  /^El\b.*\bescribió:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{20,}\s*$/
+]
+
+// Lines that start a signature block
+const SIGNATURE_PATTERNS = [
+  // The standard "-- " delimiter; many clients drop the trailing space
+  /^--\s?$/,
+  /^Sent from my \w+/i,
+  /^Get Outlook for \w+/i
+]
+
+/**
+ * Remove the quoted earlier message from a reply: the attribution line ("On ... wrote:") or
+ * Outlook header block and everything after it, plus any remaining `>` quoted lines
+ */
+export function stripQuotedReply(body: string): string {
+  const lines = body.split('\n')
+  let end = lines.length
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    // Gmail wraps long attributions, so also try the line joined with the next one
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line
+
+    if (REPLY_HEADER_PATTERNS.some(pattern => pattern.test(line) || pattern.test(joined))) {
+      end = i
+      break
+    }
+
+    // Outlook: "From: ..." followed closely by "Sent:" or "Date:"
+    if (/^\*?From:\*?\s/i.test(line) && lines.slice(i + 1, i + 5).some(next => /^\*?(Sent|Date):\*?\s/i.test(next.trim()))) {
+      end = i
+      break
+    }
+  }
+
+  return lines
+    .slice(0, end)
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n')
+}
+
+/**
+ * Remove a trailing signature block
+ */
+export function stripSignature(body: string): string {
+  const lines = body.split('\n')
+  const start = lines.findIndex(line => SIGNATURE_PATTERNS.some(pattern => pattern.test(line.trimEnd())))
+  return start >= 0 ? lines.slice(0, start).join('\n') : body
+}
+
+/**
+ * Produce the text to ingest for an email: the new content of the message without quoted replies
+ * or signature, with attachments listed by name. Returns null when nothing of its own remains.
+ */
+export function normalizeEmailMessage(message: EmailMessage): string | null {
+  const body = stripSignature(stripQuotedReply(message.body.replace(/\r/g, '')))
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  const blocks = [body, ...message.attachments.map(name => `[Attachment: ${name}]`)]
+  const content = blocks.filter(Boolean).join('\n\n')
+  return content || null
+}
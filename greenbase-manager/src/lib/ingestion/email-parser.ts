@@ -0,0 +1,268 @@
+import { createHash } from 'crypto'
+import { htmlToMarkdown } from './teams-message-normalizer'
+
+export interface EmailMessage {
+  // Message-ID without angle brackets; derived from the raw message when the header is missing
+  messageId: string
+  inReplyTo?: string
+  // Ancestors from the References header, oldest first
+  references: string[]
+  subject: string
+  // Display name, or the address when there is none
+  from?: string
+  to: string[]
+  date?: Date
+  // Plain text, or Markdown when the message only had an HTML body
+  body: string
+  attachments: string[]
+  // Size of the raw message in bytes
+  size: number
+}
+
+interface MimePart {
+  headers: Map<string, string>
+  // Raw body; each character is one byte (latin1) so binary and 8-bit content survive until decoded
+  body: string
+}
+
+interface HeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+// mbox separator lines: "From <sender> <date>", where the date format varies between exporters but always has a time
+const MBOX_SEPARATOR = /^From \S+ .*\d{1,2}:\d{2}/
+
+/**
+ * Split an mbox export into raw messages, undoing the `>From ` escaping applied to body lines
+ */
+export function splitMbox(mbox: Buffer): Buffer[] {
+  const text = mbox.toString('latin1').replace(/\r\n/g, '\n')
+  const messages: Buffer[] = []
+
+  let current: string[] | null = null
+  let previousLine = ''
+  for (const line of text.split('\n')) {
+    // Separators only follow a blank line (or start the file)
+    if (!previousLine.trim() && MBOX_SEPARATOR.test(line)) {
+      if (current) messages.push(Buffer.from(current.join('\n'), 'latin1'))
+      current = []
+    } else if (current) {
+      current.push(/^>+From /.test(line) ? line.slice(1) : line)
+    }
+    previousLine = line
+  }
+  if (current) messages.push(Buffer.from(current.join('\n'), 'latin1'))
+
+  return messages.filter(message => message.toString('latin1').trim().length > 0)
+}
+
+/**
+ * Parse a raw RFC 5322 message, decoding MIME parts, transfer encodings, charsets and
+ * encoded-word headers. The text/plain alternative is preferred over HTML.
+ */
+export function parseEmail(raw: Buffer): EmailMessage {
+  const part = parseMimePart(raw.toString('latin1').replace(/\r\n/g, '\n'))
+  const header = (name: string) => part.headers.get(name)
+
+  const bodies: string[] = []
+  const attachments: string[] = []
+  collectContent(part, bodies, attachments)
+
+  const date = header('date') ? new Date(header('date')!) : undefined
+  const references = extractMessageIds(header('references') || '')
+
+  return {
+    messageId: extractMessageIds(header('message-id') || '')[0]
+      || `${createHash('sha256').update(raw).digest('hex').slice(0, 32)}@generated`,
+    inReplyTo: extractMessageIds(header('in-reply-to') || '')[0],
+    references,
+    subject: decodeEncodedWords(header('subject') || '').trim(),
+    from: parseAddressList(header('from') || '')[0],
+    to: parseAddressList(header('to') || ''),
+    date: date && !isNaN(date.getTime()) ? date : undefined,
+    body: bodies.join('\n\n').trim(),
+    attachments,
+    size: raw.length
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?utf-8?B?...?=`) in a header value
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]+)?\?([BbQq])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, ' ')), 'latin1')
+      return decodeCharset(bytes, charset)
+    })
+}
+
+function parseMimePart(raw: string): MimePart {
+  // A part may have no headers at all, in which case it starts with the blank line
+  if (raw.startsWith('\n')) {
+    return { headers: new Map(), body: raw.slice(1) }
+  }
+
+  const separator = raw.indexOf('\n\n')
+  const headerBlock = separator >= 0 ? raw.slice(0, separator) : raw
+  const body = separator >= 0 ? raw.slice(separator + 2) : ''
+
+  const headers = new Map<string, string>()
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    // The first occurrence wins, as for Subject and Message-ID duplicated by broken clients
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+  }
+
+  return { headers, body }
+}
+
+function collectContent(part: MimePart, bodies: string[], attachments: string[]): void {
+  const contentType = getContentType(part)
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') || '')
+  const fileName = disposition.params.filename || decodeExtendedParam(disposition.params['filename*']) || contentType.params.name
+
+  if (disposition.value === 'attachment' || (fileName && !contentType.value.startsWith('multipart/'))) {
+    attachments.push(decodeEncodedWords(fileName || 'attachment'))
+    return
+  }
+
+  if (contentType.value.startsWith('multipart/')) {
+    const parts = splitMultipart(part.body, contentType.params.boundary)
+
+    if (contentType.value === 'multipart/alternative') {
+      // Alternatives carry the same content; take the plainest one we can read
+      const preferred = parts.find(child => getContentType(child).value === 'text/plain')
+        || parts.find(child => getContentType(child).value === 'text/html')
+        || parts[0]
+      if (preferred) collectContent(preferred, bodies, attachments)
+      return
+    }
+
+    for (const child of parts) {
+      collectContent(child, bodies, attachments)
+    }
+    return
+  }
+
+  if (contentType.value === 'message/rfc822') {
+    attachments.push(parseEmail(Buffer.from(part.body, 'latin1')).subject || 'forwarded message')
+    return
+  }
+
+  if (contentType.value !== 'text/plain' && contentType.value !== 'text/html') {
+    // Inline images and other non-text parts without a file name
+    return
+  }
+
+  const text = decodeCharset(decodeTransferEncoding(part), contentType.params.charset)
+  bodies.push(contentType.value === 'text/html' ? htmlToMarkdown(text) : text.replace(/\r/g, ''))
+}
+
+function splitMultipart(body: string, boundary?: string): MimePart[] {
+  if (!boundary) return []
+
+  const delimiter = `--${boundary}`
+  const parts: MimePart[] = []
+  // Lines before the first delimiter are preamble
+  let current: string[] | null = null
+
+  for (const line of body.split('\n')) {
+    const trimmed = line.trimEnd()
+    if (trimmed !== delimiter && trimmed !== `${delimiter}--`) {
+      current?.push(line)
+      continue
+    }
+
+    if (current) parts.push(parseMimePart(current.join('\n')))
+    // Anything after the closing delimiter is epilogue
+    if (trimmed !== delimiter) break
+    current = []
+  }
+
+  return parts
+}
+
+function decodeTransferEncoding(part: MimePart): Buffer {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase().trim()
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s+/g, ''), 'base64')
+  }
+  if (encoding === 'quoted-printable') {
+    return Buffer.from(decodeQuotedPrintable(part.body), 'latin1')
+  }
+  return Buffer.from(part.body, 'latin1')
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    // Soft line breaks
+    .replace(/=\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes)
+  } catch {
+    // Unknown charset labels are most often mislabelled UTF-8
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function getContentType(part: MimePart): HeaderValue {
+  const contentType = parseHeaderValue(part.headers.get('content-type') || '')
+  return { ...contentType, value: contentType.value || 'text/plain' }
+}
+
+/**
+ * Split a structured header such as Content-Type into its lowercased value and parameters
+ */
+function parseHeaderValue(header: string): HeaderValue {
+  const [value, ...rest] = header.match(/(?:"[^"]*"|[^;"])+/g) || ['']
+  const params: Record<string, string> = {}
+  for (const param of rest) {
+    const equals = param.indexOf('=')
+    if (equals < 0) continue
+    params[param.slice(0, equals).trim().toLowerCase()] = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1')
+  }
+  return { value: value.trim().toLowerCase(), params }
+}
+
+/**
+ * Decode an RFC 2231 extended parameter value such as `UTF-8''r%C3%A9sum%C3%A9.pdf`
+ */
+function decodeExtendedParam(value?: string): string | undefined {
+  const match = value?.match(/^([^']*)'[^']*'(.*)$/)
+  if (!match) return value
+  const bytes = Buffer.from(match[2].replace(/%([0-9A-Fa-f]{2})/g, (escape, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+  return decodeCharset(bytes, match[1] || undefined)
+}
+
+function extractMessageIds(value: string): string[] {
+  return Array.from(value.matchAll(/<([^<>\s]+)>/g), match => match[1])
+}
+
+/**
+ * Names (or bare addresses) from an address list header such as `"Doe, Jane" <jane@example.com>, bob@example.com`
+ */
+function parseAddressList(value: string): string[] {
+  const decoded = decodeEncodedWords(value)
+  const addresses = decoded.match(/(?:"[^"]*"|[^,"])+/g) || []
+
+  return addresses
+    .map(address => {
+      const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/)
+      const name = match?.[1].replace(/^"(.*)"$/, '$1').trim()
+      return name || (match ? match[2] : address.trim())
+    })
+    .filter(Boolean)
+}
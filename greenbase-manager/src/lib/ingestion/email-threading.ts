@@ -0,0 +1,82 @@
+import { EmailMessage } from './email-parser'
+
+export interface EmailThread {
+  // Message-ID of the earliest message in the thread
+  id: string
+  // Subject of the earliest message without Re:/Fwd: prefixes
+  subject: string
+  // Oldest first
+  messages: EmailMessage[]
+}
+
+const REPLY_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|antw|tr)(\[\d+\])?\s*:\s*)+/i
+
+/**
+ * Strip reply and forward prefixes (Re:, Fwd:, AW:, ...) from a subject
+ */
+export function normalizeEmailSubject(subject: string): string {
+  return subject.replace(REPLY_PREFIX, '').trim()
+}
+
+/**
+ * Reconstruct threads from In-Reply-To and References. Messages that share any ancestor end up in
+ * the same thread even when the ancestor itself is not in the archive. Duplicate Message-IDs
+ * (the same message exported from two folders) are kept once.
+ */
+export function threadEmails(messages: EmailMessage[]): EmailThread[] {
+  const parent = new Map<string, string>()
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    // Path compression keeps long reply chains cheap
+    let current = id
+    while (current !== root) {
+      const next = parent.get(current)!
+      parent.set(current, root)
+      current = next
+    }
+    return root
+  }
+
+  const union = (a: string, b: string) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const unique = new Map<string, EmailMessage>()
+  for (const message of messages) {
+    if (!unique.has(message.messageId)) unique.set(message.messageId, message)
+  }
+
+  for (const message of unique.values()) {
+    parent.set(message.messageId, parent.get(message.messageId) ?? message.messageId)
+    for (const ancestor of [...message.references, ...(message.inReplyTo ? [message.inReplyTo] : [])]) {
+      if (!parent.has(ancestor)) parent.set(ancestor, ancestor)
+      union(ancestor, message.messageId)
+    }
+  }
+
+  const threads = new Map<string, EmailMessage[]>()
+  for (const message of unique.values()) {
+    const root = find(message.messageId)
+    threads.set(root, [...(threads.get(root) || []), message])
+  }
+
+  return Array.from(threads.values())
+    .map(threadMessages => {
+      // Stable sort: undated messages keep their archive order
+      const sorted = [...threadMessages].sort((a, b) =>
+        a.date && b.date ? a.date.getTime() - b.date.getTime() : 0
+      )
+      return {
+        id: sorted[0].messageId,
+        subject: normalizeEmailSubject(sorted[0].subject) || '(no subject)',
+        messages: sorted
+      }
+    })
+    .sort((a, b) => (a.messages[0].date?.getTime() ?? 0) - (b.messages[0].date?.getTime() ?? 0))
+}
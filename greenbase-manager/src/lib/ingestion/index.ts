@@ -2,15 +2,140 @@
 export {
   getContentIngestionService,
   ContentIngestionService,
+  IngestionJobError,
   type IngestionSource,
   type IngestionJob,
+  type IngestionJobGroup,
+  type IngestionJobTimings,
+  type GroupRetryPolicy,
+  type IngestionPreview,
+  type IngestionPreviewOptions,
   type IngestionResult,
-  type ContentChunk
+  type ContentChunk,
+  type SourceDocumentMetadata
 } from './content-ingestion-service'
 
+// Teams Message Normalization
+export {
+  normalizeTeamsMessage,
+  htmlToMarkdown,
+  isSystemMessage,
+  decodeHtmlEntities,
+  type TeamsHtmlContext
+} from './teams-message-normalizer'
+
+// Slack Message Normalization
+export {
+  normalizeSlackMessage,
+  slackMrkdwnToMarkdown,
+  isSlackSystemMessage,
+  getSlackMentionedUserIds
+} from './slack-message-normalizer'
+
+// Content Grouping
+export {
+  groupContentChunks,
+  groupContentChunksSemantically,
+  splitGroupingUnits,
+  groupByTimeWindow,
+  clusterBySimilarity,
+  cosineSimilarity,
+  type EmbedTexts,
+  type SemanticGroupingOptions
+} from './content-grouping'
+
+// Ingestion Job Store
+export {
+  getIngestionJobStore,
+  IngestionJobStore,
+  type JobQueryOptions
+} from './ingestion-job-store'
+
+// Content Fingerprints
+export {
+  getContentFingerprintStore,
+  ContentFingerprintStore,
+  computeContentHash,
+  normalizeForFingerprint,
+  diffFingerprints,
+  type ContentFingerprint,
+  type FingerprintedItem,
+  type FingerprintDiff
+} from './content-fingerprint-store'
+
+// Ingestion Settings
+export {
+  getIngestionSettingsStore,
+  IngestionSettingsStore,
+  validateIngestionConcurrency,
+  validateDraftLanguageSettings,
+  validateChunkingStrategy,
+  DEFAULT_INGESTION_CONCURRENCY,
+  DEFAULT_INGESTION_SETTINGS,
+  MAX_INGESTION_CONCURRENCY,
+  type IngestionSettings
+} from './ingestion-settings-store'
+
+// Ingestion Scheduler
+export {
+  getIngestionScheduler,
+  IngestionScheduler,
+  getNextScheduledRun,
+  validateSyncSchedule,
+  SyncScheduleError,
+  type SchedulerOptions
+} from './ingestion-scheduler'
+export { CronExpression } from './cron-expression'
+
 // Document Chunking
 export {
   DocumentChunking,
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNKING_STRATEGY,
+  type ChunkingStrategy,
   type DocumentChunk,
-  type ChunkingOptions
-} from './document-chunking'
\ No newline at end of file
+  type ChunkingOptions,
+  type MarkdownChunkingOptions
+} from './document-chunking'
+export { parseMarkdownBlocks, type MarkdownBlock, type MarkdownBlockType, type MarkdownSpan } from './markdown-blocks'
+export {
+  compareChunkingStrategies,
+  type EvaluationDocument,
+  type EvaluationQuestion,
+  type ChunkingEvaluationOptions,
+  type ChunkingStrategyReport
+} from './chunking-evaluation'
+// Manual Uploads
+export {
+  getManualUploadService,
+  ManualUploadService,
+  ManualUploadError,
+  resolveUploadMimeType,
+  isEmailArchive,
+  getUploadedArtifactUrl,
+  MAX_UPLOAD_BYTES,
+  MAX_MAILBOX_BYTES,
+  UPLOAD_MIME_TYPES,
+  EMAIL_ARCHIVE_MIME_TYPES,
+  type Uploader,
+  type FileUploadInput,
+  type PastedTextInput,
+  type MailboxUploadInput,
+  type UploadedArtifact,
+  type ManualUploadResult,
+  type MailboxUploadResult
+} from './manual-upload-service'
+
+// Draft Approval
+export {
+  getDraftApprovalService,
+  DraftApprovalService,
+  DraftApprovalError,
+  type DraftApprover,
+  type DraftApprovalResult
+} from './draft-approval-service'
+
+// Email Archives
+export { parseEmail, splitMbox, decodeEncodedWords, type EmailMessage } from './email-parser'
+export { threadEmails, normalizeEmailSubject, type EmailThread } from './email-threading'
+export { normalizeEmailMessage, stripQuotedReply, stripSignature } from './email-message-normalizer'
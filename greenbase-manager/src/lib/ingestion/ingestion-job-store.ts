@@ -0,0 +1,416 @@
+import { getSupabaseAdmin, SupabaseAdmin } from '../supabase-admin'
+import { Database, Json } from '@/types/database'
+import type { ContentProcessingOptions, PIIRedactionResult } from '../ai'
+import type { SyncCursors } from '../oauth/types'
+import type {
+  ContentChunk,
+  IngestionJob,
+  IngestionJobGroup,
+  IngestionJobTimings,
+  RedactedItem
+} from './content-ingestion-service'
+
+type IngestionJobRow = Database['public']['Tables']['ingestion_jobs']['Row']
+type IngestionJobUpdate = Database['public']['Tables']['ingestion_jobs']['Update']
+type IngestionJobGroupRow = Database['public']['Tables']['ingestion_job_groups']['Row']
+type IngestionJobGroupUpdate = Database['public']['Tables']['ingestion_job_groups']['Update']
+
+// Postgres error code for a unique constraint violation, here a second active job for a source
+const UNIQUE_VIOLATION = '23505'
+
+// Chunks are stored as JSON, so their timestamps come back as strings
+type StoredGroupItem = {
+  chunk: Omit<ContentChunk, 'metadata'> & { metadata: Omit<ContentChunk['metadata'], 'timestamp'> & { timestamp: string } }
+  contentHash: string
+  redaction: PIIRedactionResult
+}
+
+export interface JobQueryOptions {
+  organizationId?: string
+  limit?: number
+}
+
+/**
+ * Persists ingestion jobs to the ingestion_jobs table so runs can be audited later
+ */
+class IngestionJobStore {
+  private supabase: SupabaseAdmin | null = null
+
+  private async getSupabase(): Promise<SupabaseAdmin> {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  /**
+   * Store a new job. Resolves false without storing it when its source already has a pending or
+   * running job, which a partial unique index rules out.
+   */
+  async createJob(job: IngestionJob, options: ContentProcessingOptions = {}): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('ingestion_jobs')
+      .insert({
+        id: job.id,
+        source_id: job.sourceId ?? null,
+        organization_id: job.organizationId,
+        status: job.status,
+        items_processed: job.itemsProcessed,
+        items_total: job.itemsTotal,
+        item_errors: job.itemErrors,
+        timings: { ...job.timings },
+        processing_options: options as Json,
+        started_at: job.startedAt.toISOString()
+      })
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return false
+    }
+    if (error) {
+      throw new Error(`Failed to create ingestion job: ${error.message}`)
+    }
+
+    return true
+  }
+
+  async updateJob(
+    jobId: string,
+    changes: Partial<Pick<IngestionJob, 'status' | 'itemsProcessed' | 'itemsTotal' | 'error' | 'itemErrors' | 'timings' | 'completedAt'>>
+  ): Promise<void> {
+    const update: IngestionJobUpdate = {}
+    if (changes.status !== undefined) update.status = changes.status
+    if (changes.itemsProcessed !== undefined) update.items_processed = changes.itemsProcessed
+    if (changes.itemsTotal !== undefined) update.items_total = changes.itemsTotal
+    if (changes.error !== undefined) update.error = changes.error
+    if (changes.itemErrors !== undefined) update.item_errors = changes.itemErrors
+    if (changes.timings !== undefined) update.timings = { ...changes.timings }
+    if (changes.completedAt !== undefined) update.completed_at = changes.completedAt.toISOString()
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('ingestion_jobs')
+      .update(update)
+      .eq('id', jobId)
+
+    if (error) {
+      throw new Error(`Failed to update ingestion job ${jobId}: ${error.message}`)
+    }
+  }
+
+  async getJob(jobId: string, options: JobQueryOptions = {}): Promise<IngestionJob | null> {
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('id', jobId)
+
+    if (options.organizationId) {
+      query = query.eq('organization_id', options.organizationId)
+    }
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to get ingestion job ${jobId}: ${error.message}`)
+    }
+
+    return data ? this.mapRow(data) : null
+  }
+
+  async getJobsBySource(sourceId: string, options: JobQueryOptions = {}): Promise<IngestionJob[]> {
+    const { organizationId, limit = 50 } = options
+
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('source_id', sourceId)
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId)
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to get ingestion jobs for source ${sourceId}: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapRow(row))
+  }
+
+  /**
+   * Check whether a source already has a pending or running job.
+   * Jobs older than staleAfterMs are ignored so a crashed run cannot block a source forever.
+   */
+  async hasActiveJob(sourceId: string, staleAfterMs: number): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { count, error } = await supabase
+      .from('ingestion_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('source_id', sourceId)
+      .in('status', ['pending', 'running'])
+      .gte('started_at', new Date(Date.now() - staleAfterMs).toISOString())
+
+    if (error) {
+      throw new Error(`Failed to check active jobs for source ${sourceId}: ${error.message}`)
+    }
+
+    return (count || 0) > 0
+  }
+
+  /**
+   * Store a job's groups together with the cursors it will save when done. From here on the job
+   * can be resumed without fetching again.
+   */
+  async saveCheckpoint(
+    jobId: string,
+    groups: RedactedItem[][],
+    pendingCursors: SyncCursors
+  ): Promise<IngestionJobGroup[]> {
+    const supabase = await this.getSupabase()
+
+    // A job restarted after being interrupted mid-checkpoint may have left some groups behind
+    const { error: deleteError } = await supabase
+      .from('ingestion_job_groups')
+      .delete()
+      .eq('job_id', jobId)
+
+    if (deleteError) {
+      throw new Error(`Failed to clear groups for ingestion job ${jobId}: ${deleteError.message}`)
+    }
+
+    const { data, error } = await supabase
+      .from('ingestion_job_groups')
+      .insert(groups.map((group, index) => ({
+        job_id: jobId,
+        group_index: index,
+        chunk_ids: group.map(entry => entry.item.id),
+        items: group.map(entry => ({
+          chunk: entry.item,
+          contentHash: entry.contentHash,
+          redaction: entry.redaction
+        })) as unknown as Json
+      })))
+      .select('*')
+
+    if (error) {
+      throw new Error(`Failed to store groups for ingestion job ${jobId}: ${error.message}`)
+    }
+
+    const { error: jobError } = await supabase
+      .from('ingestion_jobs')
+      .update({ pending_cursors: pendingCursors as Json })
+      .eq('id', jobId)
+
+    if (jobError) {
+      throw new Error(`Failed to store checkpoint for ingestion job ${jobId}: ${jobError.message}`)
+    }
+
+    return (data || []).map(row => this.mapGroupRow(row)).sort((a, b) => a.groupIndex - b.groupIndex)
+  }
+
+  /**
+   * What a job needs to continue: its processing options, and the cursors to save once done
+   * (null when the job was interrupted before it reached its checkpoint)
+   */
+  async getResumeState(jobId: string): Promise<{ options: ContentProcessingOptions; pendingCursors: SyncCursors | null }> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .select('processing_options, pending_cursors')
+      .eq('id', jobId)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to get resume state for ingestion job ${jobId}: ${error.message}`)
+    }
+
+    return {
+      options: (data.processing_options as ContentProcessingOptions | null) || {},
+      pendingCursors: data.pending_cursors as SyncCursors | null
+    }
+  }
+
+  async getGroups(jobId: string, statuses?: IngestionJobGroup['status'][]): Promise<IngestionJobGroup[]> {
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('ingestion_job_groups')
+      .select('*')
+      .eq('job_id', jobId)
+
+    if (statuses) {
+      query = query.in('status', statuses)
+    }
+
+    const { data, error } = await query.order('group_index', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to get groups for ingestion job ${jobId}: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapGroupRow(row))
+  }
+
+  async updateGroup(
+    groupId: string,
+    changes: Partial<Pick<IngestionJobGroup, 'status' | 'attempts' | 'draftId' | 'error'>>
+  ): Promise<void> {
+    const update: IngestionJobGroupUpdate = {}
+    if (changes.status !== undefined) update.status = changes.status
+    if (changes.attempts !== undefined) update.attempts = changes.attempts
+    if (changes.draftId !== undefined) update.draft_document_id = changes.draftId
+    if (changes.error !== undefined) update.error = changes.error
+    if (changes.status === 'completed') {
+      // The content now lives in source_documents; keep only the outcome
+      update.items = null
+      update.error = null
+    }
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('ingestion_job_groups')
+      .update(update)
+      .eq('id', groupId)
+
+    if (error) {
+      throw new Error(`Failed to update ingestion job group ${groupId}: ${error.message}`)
+    }
+  }
+
+  async requestCancel(jobId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('ingestion_jobs')
+      .update({ cancel_requested_at: new Date().toISOString() })
+      .eq('id', jobId)
+
+    if (error) {
+      throw new Error(`Failed to request cancellation of ingestion job ${jobId}: ${error.message}`)
+    }
+  }
+
+  async clearCancelRequest(jobId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('ingestion_jobs')
+      .update({ cancel_requested_at: null })
+      .eq('id', jobId)
+
+    if (error) {
+      throw new Error(`Failed to clear cancellation of ingestion job ${jobId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Whether a cancel was requested since the given time. Earlier requests belong to a previous
+   * run of the job and do not stop a retry.
+   */
+  async isCancelRequested(jobId: string, since: Date): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .select('cancel_requested_at')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to check cancellation of ingestion job ${jobId}: ${error.message}`)
+    }
+
+    return Boolean(data?.cancel_requested_at && new Date(data.cancel_requested_at) >= since)
+  }
+
+  /**
+   * Pending or running jobs whose row has not been touched for staleAfterMs. Running jobs touch
+   * their row on a heartbeat throughout, so these were interrupted, typically by a server restart.
+   */
+  async getInterruptedJobs(staleAfterMs: number): Promise<Array<{ job: IngestionJob; heartbeatAt: string }>> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .in('status', ['pending', 'running'])
+      .lt('updated_at', new Date(Date.now() - staleAfterMs).toISOString())
+      .order('started_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to get interrupted ingestion jobs: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({ job: this.mapRow(row), heartbeatAt: row.updated_at! }))
+  }
+
+  /**
+   * Take over an interrupted job. Only succeeds if the job is still pending or running and nobody
+   * touched it since heartbeatAt, so two processes resuming at once cannot both run it.
+   */
+  async claimJob(jobId: string, heartbeatAt: string): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'running' })
+      .eq('id', jobId)
+      .in('status', ['pending', 'running'])
+      .eq('updated_at', heartbeatAt)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to claim ingestion job ${jobId}: ${error.message}`)
+    }
+
+    return Boolean(data && data.length > 0)
+  }
+
+  private mapRow(row: IngestionJobRow): IngestionJob {
+    return {
+      id: row.id,
+      sourceId: row.source_id ?? undefined,
+      organizationId: row.organization_id,
+      status: row.status,
+      startedAt: new Date(row.started_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      itemsProcessed: row.items_processed,
+      itemsTotal: row.items_total,
+      error: row.error || undefined,
+      itemErrors: (row.item_errors as IngestionJob['itemErrors'] | null) || [],
+      timings: (row.timings as IngestionJobTimings | null) || {},
+      cancelRequestedAt: row.cancel_requested_at ? new Date(row.cancel_requested_at) : undefined
+    }
+  }
+
+  private mapGroupRow(row: IngestionJobGroupRow): IngestionJobGroup {
+    const items = (row.items as StoredGroupItem[] | null) || []
+
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      groupIndex: row.group_index,
+      status: row.status as IngestionJobGroup['status'],
+      attempts: row.attempts,
+      chunkIds: row.chunk_ids,
+      items: items.map(({ chunk, contentHash, redaction }) => ({
+        item: { ...chunk, metadata: { ...chunk.metadata, timestamp: new Date(chunk.metadata.timestamp) } },
+        contentHash,
+        redaction
+      })),
+      draftId: row.draft_document_id || undefined,
+      error: row.error || undefined
+    }
+  }
+}
+
+// Singleton instance
+let ingestionJobStore: IngestionJobStore | null = null
+
+export function getIngestionJobStore(): IngestionJobStore {
+  if (!ingestionJobStore) {
+    ingestionJobStore = new IngestionJobStore()
+  }
+  return ingestionJobStore
+}
+
+export { IngestionJobStore }
@@ -0,0 +1,424 @@
+import { getSupabaseAdmin } from '../supabase-admin'
+import { DriveFolderSelection, DriveIngestionFilters, GroupingStrategy, SlackChannelMapping, SyncCursors, SyncSchedule, TeamChannelMapping } from '../oauth/types'
+import { getContentIngestionService, IngestionJob, IngestionJobError, IngestionSource } from './content-ingestion-service'
+import { getIngestionJobStore } from './ingestion-job-store'
+import { CronExpression } from './cron-expression'
+
+export interface SchedulerOptions {
+  tickIntervalMs?: number
+  staleJobAfterMs?: number
+  // How long a pending or running job can go without progress before it is treated as interrupted and resumed
+  interruptedJobAfterMs?: number
+}
+
+// A failing source waits 5 minutes, then twice as long after each further failure, up to 6 hours
+const FAILURE_BACKOFF_BASE_MS = 5 * 60 * 1000
+const FAILURE_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000
+// Consecutive failures after which the backoff stops growing
+const FAILURE_BACKOFF_MAX_FAILURES = 8
+
+const SOURCE_COLUMNS = 'id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, selected_drive_folders, selected_slack_channels, sync_cursors, sync_schedule, grouping_strategy, drive_filters, last_sync_at, created_at, is_active, users(organization_id)'
+
+interface ScheduledSourceRow {
+  id: string
+  type: IngestionSource['type']
+  name: string
+  user_id: string
+  selected_channels: string[] | null
+  selected_folders: string[] | null
+  selected_team_channels: TeamChannelMapping[] | null
+  selected_drive_folders: DriveFolderSelection[] | null
+  selected_slack_channels: SlackChannelMapping[] | null
+  sync_cursors: SyncCursors | null
+  sync_schedule: SyncSchedule
+  grouping_strategy: GroupingStrategy | null
+  drive_filters: DriveIngestionFilters | null
+  last_sync_at: string | null
+  created_at: string | null
+  is_active: boolean | null
+  users: { organization_id: string } | null
+}
+
+export class SyncScheduleError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'SyncScheduleError'
+  }
+}
+
+/**
+ * Get the next time a source is due given its schedule and when it last synced.
+ * Sources that have never synced are due immediately.
+ */
+export function getNextScheduledRun(schedule: SyncSchedule, lastSyncAt: Date | null): Date {
+  if (!lastSyncAt) {
+    return new Date(0)
+  }
+
+  if (schedule.type === 'interval') {
+    return new Date(lastSyncAt.getTime() + schedule.intervalMinutes * 60 * 1000)
+  }
+
+  return CronExpression.parse(schedule.expression).nextAfter(lastSyncAt)
+}
+
+/**
+ * Earliest time a source may run again after its latest runs failed, or null when the latest run
+ * did not fail. last_sync_at only moves on success, so a failing source would otherwise be due on
+ * every tick. Jobs are given newest first.
+ */
+export function getFailureBackoffUntil(recentJobs: IngestionJob[]): Date | null {
+  const firstSuccess = recentJobs.findIndex(job => job.status !== 'failed')
+  const failures = firstSuccess === -1 ? recentJobs.length : firstSuccess
+  if (failures === 0) {
+    return null
+  }
+
+  const lastAttempt = recentJobs[0].completedAt || recentJobs[0].startedAt
+  const backoffMs = Math.min(
+    FAILURE_BACKOFF_BASE_MS * 2 ** (Math.min(failures, FAILURE_BACKOFF_MAX_FAILURES) - 1),
+    FAILURE_BACKOFF_MAX_MS
+  )
+  return new Date(lastAttempt.getTime() + backoffMs)
+}
+
+/**
+ * Validate a schedule submitted by a user before it is persisted, throwing a SyncScheduleError
+ * with code INVALID_SCHEDULE if it is not one
+ */
+export function validateSyncSchedule(schedule: unknown): asserts schedule is SyncSchedule {
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    throw new SyncScheduleError('Schedule must be an object', 'INVALID_SCHEDULE')
+  }
+
+  const { type, intervalMinutes, expression, jitterSeconds } = schedule as Record<string, unknown>
+
+  if (type === 'interval') {
+    if (typeof intervalMinutes !== 'number' || !Number.isFinite(intervalMinutes) || intervalMinutes < 5) {
+      throw new SyncScheduleError('Interval schedules must be at least 5 minutes apart', 'INVALID_SCHEDULE')
+    }
+  } else if (type === 'cron') {
+    if (typeof expression !== 'string') {
+      throw new SyncScheduleError('Cron schedules need an expression', 'INVALID_SCHEDULE')
+    }
+    try {
+      CronExpression.parse(expression)
+    } catch (error) {
+      throw new SyncScheduleError(error instanceof Error ? error.message : 'Invalid cron expression', 'INVALID_SCHEDULE', error)
+    }
+  } else {
+    throw new SyncScheduleError('Schedule type must be "interval" or "cron"', 'INVALID_SCHEDULE')
+  }
+
+  if (jitterSeconds !== undefined && (typeof jitterSeconds !== 'number' || !(jitterSeconds >= 0 && jitterSeconds <= 3600))) {
+    throw new SyncScheduleError('Schedule jitter must be between 0 and 3600 seconds', 'INVALID_SCHEDULE')
+  }
+}
+
+/**
+ * Runs background ingestion for every active connected source on its own schedule.
+ * Guarantees at most one job per source: in-process via a running set, and across
+ * processes by a unique index on the pending/running jobs of a source. Sources with
+ * a recent pending/running job are skipped up front rather than left to hit the index.
+ */
+class IngestionScheduler {
+  private static readonly DEFAULT_TICK_INTERVAL_MS = 60 * 1000
+  private static readonly DEFAULT_STALE_JOB_AFTER_MS = 6 * 60 * 60 * 1000
+  private static readonly DEFAULT_INTERRUPTED_JOB_AFTER_MS = 15 * 60 * 1000
+
+  private ingestionService = getContentIngestionService()
+  private jobStore = getIngestionJobStore()
+  private supabase: Awaited<ReturnType<typeof getSupabaseAdmin>> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private ticking = false
+  private runningSources = new Set<string>()
+  // Jittered run time per source, keyed by the un-jittered due time it was computed for
+  private plannedRuns = new Map<string, { dueAt: number; runAt: number }>()
+  private staleJobAfterMs = IngestionScheduler.DEFAULT_STALE_JOB_AFTER_MS
+  private interruptedJobAfterMs = IngestionScheduler.DEFAULT_INTERRUPTED_JOB_AFTER_MS
+
+  private async getSupabase() {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  start(options: SchedulerOptions = {}): void {
+    if (this.timer) return
+
+    const tickIntervalMs = options.tickIntervalMs || IngestionScheduler.DEFAULT_TICK_INTERVAL_MS
+    this.staleJobAfterMs = options.staleJobAfterMs || IngestionScheduler.DEFAULT_STALE_JOB_AFTER_MS
+    this.interruptedJobAfterMs = options.interruptedJobAfterMs || IngestionScheduler.DEFAULT_INTERRUPTED_JOB_AFTER_MS
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Ingestion scheduler tick failed:', error))
+    }, tickIntervalMs)
+
+    console.log(`Ingestion scheduler started (tick every ${tickIntervalMs}ms)`)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+      console.log('Ingestion scheduler stopped')
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Resume interrupted jobs and start ingestion for every source that is due. Jobs run in the
+   * background; the tick itself only decides what to launch.
+   */
+  async tick(now: Date = new Date()): Promise<string[]> {
+    // A slow database query must not cause overlapping ticks
+    if (this.ticking) return []
+    this.ticking = true
+
+    try {
+      // Interrupted jobs go first so their sources are not blocked until the jobs go stale
+      const launched = await this.resumeInterruptedJobs()
+      const sources = await this.getScheduledSources()
+
+      for (const row of sources) {
+        if (this.runningSources.has(row.id) || !row.users?.organization_id) {
+          continue
+        }
+
+        let dueAt: number
+        try {
+          dueAt = getNextScheduledRun(row.sync_schedule, row.last_sync_at ? new Date(row.last_sync_at) : null).getTime()
+        } catch (error) {
+          console.error(`Invalid sync schedule for source ${row.id}:`, error)
+          continue
+        }
+
+        if (now.getTime() < this.getJitteredRunTime(row.id, dueAt, row.sync_schedule.jitterSeconds || 0)) {
+          continue
+        }
+
+        const recentJobs = await this.jobStore.getJobsBySource(row.id, { limit: FAILURE_BACKOFF_MAX_FAILURES })
+        const retryAt = getFailureBackoffUntil(recentJobs)
+        if (retryAt && now < retryAt) {
+          continue
+        }
+
+        if (await this.jobStore.hasActiveJob(row.id, this.staleJobAfterMs)) {
+          continue
+        }
+
+        this.runSource(this.mapSourceRow(row))
+        launched.push(row.id)
+      }
+
+      return launched
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  /**
+   * Pause scheduled syncs for a source without changing its schedule
+   */
+  async pauseSource(userId: string, sourceId: string): Promise<void> {
+    await this.updateSourceSchedule(userId, sourceId, { sync_paused: true })
+  }
+
+  /**
+   * Resume scheduled syncs for a paused source
+   */
+  async resumeSource(userId: string, sourceId: string): Promise<void> {
+    await this.updateSourceSchedule(userId, sourceId, { sync_paused: false })
+  }
+
+  /**
+   * Set or clear (null) the schedule for a source
+   */
+  async setSchedule(userId: string, sourceId: string, schedule: SyncSchedule | null): Promise<void> {
+    if (schedule) {
+      validateSyncSchedule(schedule)
+    }
+    this.plannedRuns.delete(sourceId)
+    await this.updateSourceSchedule(userId, sourceId, { sync_schedule: schedule })
+  }
+
+  /**
+   * Load an active source as the ingestion service sees it, or null if there is none
+   */
+  async getIngestionSource(sourceId: string): Promise<IngestionSource | null> {
+    const row = await this.getSource(sourceId)
+    return row?.users?.organization_id ? this.mapSourceRow(row) : null
+  }
+
+  /**
+   * Pick up jobs left pending or running by a process that stopped, e.g. on a server restart.
+   * Returns the ids of the sources whose jobs were resumed.
+   */
+  async resumeInterruptedJobs(): Promise<string[]> {
+    const resumed: string[] = []
+
+    for (const { job, heartbeatAt } of await this.jobStore.getInterruptedJobs(this.interruptedJobAfterMs)) {
+      if ((job.sourceId && this.runningSources.has(job.sourceId)) || this.ingestionService.isJobActive(job.id)) {
+        continue
+      }
+
+      // Another process may be resuming the same job
+      if (!(await this.jobStore.claimJob(job.id, heartbeatAt))) {
+        continue
+      }
+
+      // Jobs drafting an uploaded mailbox have no source to load or schedule around
+      if (!job.sourceId) {
+        this.ingestionService.resumeUploadIngestion(job).catch(error => {
+          console.error(`Resuming ingestion job ${job.id} failed:`, error)
+        })
+        continue
+      }
+
+      const row = await this.getSource(job.sourceId)
+      if (!row?.users?.organization_id) {
+        await this.failJob(job, 'Connected source is no longer active')
+        continue
+      }
+
+      this.runSource(this.mapSourceRow(row), source => this.ingestionService.resumeIngestion(source, job))
+      resumed.push(job.sourceId)
+    }
+
+    return resumed
+  }
+
+  private runSource(
+    source: IngestionSource,
+    run: (source: IngestionSource) => Promise<IngestionJob> = source => this.ingestionService.runIngestion(source)
+  ): void {
+    this.runningSources.add(source.id)
+    this.plannedRuns.delete(source.id)
+
+    run(source)
+      .then(job => {
+        console.log(`Scheduled ingestion for source ${source.id} finished with status ${job.status}`)
+      })
+      .catch(error => {
+        if (error instanceof IngestionJobError && error.code === 'JOB_ACTIVE') {
+          // Another process started a job for the source since this tick checked
+          console.log(`Skipped scheduled ingestion for source ${source.id}: ${error.message}`)
+          return
+        }
+        console.error(`Scheduled ingestion for source ${source.id} failed:`, error)
+      })
+      .finally(() => {
+        this.runningSources.delete(source.id)
+      })
+  }
+
+  private getJitteredRunTime(sourceId: string, dueAt: number, jitterSeconds: number): number {
+    const planned = this.plannedRuns.get(sourceId)
+    if (planned && planned.dueAt === dueAt) {
+      return planned.runAt
+    }
+
+    // Spread sources sharing a schedule so they don't all hit the provider APIs at once
+    const runAt = dueAt + Math.floor(Math.random() * jitterSeconds * 1000)
+    this.plannedRuns.set(sourceId, { dueAt, runAt })
+    return runAt
+  }
+
+  private async getScheduledSources(): Promise<ScheduledSourceRow[]> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('connected_sources')
+      .select(SOURCE_COLUMNS)
+      .eq('is_active', true)
+      .eq('sync_paused', false)
+      .not('sync_schedule', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load scheduled sources: ${error.message}`)
+    }
+
+    return (data || []) as unknown as ScheduledSourceRow[]
+  }
+
+  private async getSource(sourceId: string): Promise<ScheduledSourceRow | null> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('connected_sources')
+      .select(SOURCE_COLUMNS)
+      .eq('id', sourceId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load source ${sourceId}: ${error.message}`)
+    }
+
+    return data as unknown as ScheduledSourceRow | null
+  }
+
+  private async failJob(job: IngestionJob, error: string): Promise<void> {
+    console.error(`Cannot resume ingestion job ${job.id}: ${error}`)
+    await this.jobStore.updateJob(job.id, { status: 'failed', error, completedAt: new Date() })
+  }
+
+  private async updateSourceSchedule(
+    userId: string,
+    sourceId: string,
+    update: { sync_paused?: boolean; sync_schedule?: SyncSchedule | null }
+  ): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('connected_sources')
+      .update(update)
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to update sync schedule: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      throw new SyncScheduleError('Connected source not found', 'SOURCE_NOT_FOUND')
+    }
+  }
+
+  private mapSourceRow(row: ScheduledSourceRow): IngestionSource {
+    return {
+      id: row.id,
+      type: row.type,
+      userId: row.user_id,
+      organizationId: row.users!.organization_id,
+      name: row.name,
+      selectedChannels: row.selected_channels || undefined,
+      selectedFolders: row.selected_folders || undefined,
+      selectedTeamChannels: row.selected_team_channels || undefined,
+      selectedDriveFolders: row.selected_drive_folders || undefined,
+      selectedSlackChannels: row.selected_slack_channels || undefined,
+      syncCursors: row.sync_cursors || undefined,
+      groupingStrategy: row.grouping_strategy || undefined,
+      driveFilters: row.drive_filters || undefined,
+      isActive: row.is_active ?? true
+    }
+  }
+}
+
+// Singleton instance
+let ingestionScheduler: IngestionScheduler | null = null
+
+export function getIngestionScheduler(): IngestionScheduler {
+  if (!ingestionScheduler) {
+    ingestionScheduler = new IngestionScheduler()
+  }
+  return ingestionScheduler
+}
+
+export { IngestionScheduler }
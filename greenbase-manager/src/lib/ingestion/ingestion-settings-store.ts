@@ -0,0 +1,155 @@
+import { getSupabaseAdmin, SupabaseAdmin } from '../supabase-admin'
+import {
+  DraftLanguageMode,
+  SupportedLanguage,
+  SUPPORTED_LANGUAGES,
+  DEFAULT_CANONICAL_LANGUAGE,
+  isSupportedLanguage
+} from '../ai/language-detection'
+import { CHUNKING_STRATEGIES, ChunkingStrategy, DEFAULT_CHUNKING_STRATEGY } from './document-chunking'
+
+export const DEFAULT_INGESTION_CONCURRENCY = 2
+export const MAX_INGESTION_CONCURRENCY = 16
+
+export interface IngestionSettings {
+  // Content groups of one job drafted at the same time
+  concurrency: number
+  // Whether drafts keep their source language or are translated to canonicalLanguage
+  draftLanguageMode: DraftLanguageMode
+  canonicalLanguage: SupportedLanguage
+  // How approved documents are split into chunks for retrieval
+  chunkingStrategy: ChunkingStrategy
+}
+
+export const DEFAULT_INGESTION_SETTINGS: IngestionSettings = {
+  concurrency: DEFAULT_INGESTION_CONCURRENCY,
+  draftLanguageMode: 'source',
+  canonicalLanguage: DEFAULT_CANONICAL_LANGUAGE,
+  chunkingStrategy: DEFAULT_CHUNKING_STRATEGY
+}
+
+const SETTINGS_COLUMNS = 'ingestion_concurrency, draft_language_mode, canonical_language, chunking_strategy'
+
+type SettingsRow = {
+  ingestion_concurrency: number
+  draft_language_mode: string
+  canonical_language: string
+  chunking_strategy: string
+}
+
+/**
+ * Validate a group concurrency, returning an error message for invalid values
+ */
+export function validateIngestionConcurrency(concurrency: unknown): string | null {
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency)) {
+    return 'Concurrency must be a whole number'
+  }
+  if (concurrency < 1 || concurrency > MAX_INGESTION_CONCURRENCY) {
+    return `Concurrency must be between 1 and ${MAX_INGESTION_CONCURRENCY}`
+  }
+  return null
+}
+
+/**
+ * Validate a change to the draft language settings, returning an error message for invalid values
+ */
+export function validateDraftLanguageSettings(
+  changes: { draftLanguageMode?: unknown; canonicalLanguage?: unknown }
+): string | null {
+  if (changes.draftLanguageMode !== undefined && changes.draftLanguageMode !== 'source' && changes.draftLanguageMode !== 'canonical') {
+    return 'Draft language mode must be "source" or "canonical"'
+  }
+  if (changes.canonicalLanguage !== undefined && !isSupportedLanguage(changes.canonicalLanguage)) {
+    return `Canonical language must be one of ${SUPPORTED_LANGUAGES.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Validate a chunking strategy, returning an error message for invalid values
+ */
+export function validateChunkingStrategy(strategy: unknown): string | null {
+  if (!isChunkingStrategy(strategy)) {
+    return `Chunking strategy must be one of ${CHUNKING_STRATEGIES.join(', ')}`
+  }
+  return null
+}
+
+function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === 'string' && (CHUNKING_STRATEGIES as readonly string[]).includes(value)
+}
+
+function toSettings(row: SettingsRow | null): IngestionSettings {
+  if (!row) {
+    return { ...DEFAULT_INGESTION_SETTINGS }
+  }
+
+  return {
+    concurrency: row.ingestion_concurrency,
+    draftLanguageMode: row.draft_language_mode === 'canonical' ? 'canonical' : 'source',
+    canonicalLanguage: isSupportedLanguage(row.canonical_language) ? row.canonical_language : DEFAULT_CANONICAL_LANGUAGE,
+    chunkingStrategy: isChunkingStrategy(row.chunking_strategy) ? row.chunking_strategy : DEFAULT_CHUNKING_STRATEGY
+  }
+}
+
+/**
+ * Per-organization settings for how ingestion jobs run
+ */
+class IngestionSettingsStore {
+  private supabase: SupabaseAdmin | null = null
+
+  private async getSupabase(): Promise<SupabaseAdmin> {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  async getSettings(organizationId: string): Promise<IngestionSettings> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('organizations')
+      .select(SETTINGS_COLUMNS)
+      .eq('id', organizationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load ingestion settings for organization ${organizationId}: ${error.message}`)
+    }
+
+    return toSettings(data)
+  }
+
+  async updateSettings(organizationId: string, changes: Partial<IngestionSettings>): Promise<IngestionSettings> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({
+        ingestion_concurrency: changes.concurrency,
+        draft_language_mode: changes.draftLanguageMode,
+        canonical_language: changes.canonicalLanguage,
+        chunking_strategy: changes.chunkingStrategy
+      })
+      .eq('id', organizationId)
+      .select(SETTINGS_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update ingestion settings for organization ${organizationId}: ${error.message}`)
+    }
+
+    return toSettings(data)
+  }
+}
+
+// Singleton instance
+let ingestionSettingsStore: IngestionSettingsStore | null = null
+
+export function getIngestionSettingsStore(): IngestionSettingsStore {
+  if (!ingestionSettingsStore) {
+    ingestionSettingsStore = new IngestionSettingsStore()
+  }
+  return ingestionSettingsStore
+}
+
+export { IngestionSettingsStore }
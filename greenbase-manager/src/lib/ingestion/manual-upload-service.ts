@@ -0,0 +1,519 @@
+import { getSupabaseAdmin, SupabaseAdmin } from '../supabase-admin'
+import { Database } from '@/types/database'
+import { ContentProcessingOptions, ProcessedContent, getPIIRedactionService } from '../ai'
+import { getDocumentExtractorRegistry, ExtractionError } from '../extraction'
+import { getContentIngestionService, ContentChunk, IngestionJob, UploadGroupClaim } from './content-ingestion-service'
+import { computeContentHash } from './content-fingerprint-store'
+import { parseEmail, splitMbox, EmailMessage } from './email-parser'
+import { threadEmails, EmailThread } from './email-threading'
+import { normalizeEmailMessage } from './email-message-normalizer'
+
+type UploadedArtifactRow = Database['public']['Tables']['uploaded_artifacts']['Row']
+
+// Postgres error code for a unique constraint violation, here a content hash already uploaded
+const UNIQUE_VIOLATION = '23505'
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+// Mailbox exports routinely run far larger than a single document
+export const MAX_MAILBOX_BYTES = 50 * 1024 * 1024
+
+// Formats accepted for upload, by MIME type and the file extensions browsers may send instead
+export const UPLOAD_MIME_TYPES: Record<string, string[]> = {
+  'text/markdown': ['.md', '.markdown'],
+  'text/plain': ['.txt'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/pdf': ['.pdf']
+}
+
+// Mailbox exports, which are split into threads rather than drafted as a single document
+export const EMAIL_ARCHIVE_MIME_TYPES: Record<string, string[]> = {
+  'application/mbox': ['.mbox'],
+  'message/rfc822': ['.eml']
+}
+
+export interface Uploader {
+  id: string
+  email: string
+}
+
+export interface FileUploadInput {
+  organizationId: string
+  uploadedBy: Uploader
+  fileName: string
+  // As reported by the browser; may be empty or generic, in which case the extension decides
+  mimeType?: string
+  data: Buffer
+}
+
+export interface PastedTextInput {
+  organizationId: string
+  uploadedBy: Uploader
+  title?: string
+  text: string
+}
+
+export interface MailboxUploadInput {
+  organizationId: string
+  uploadedBy: Uploader
+  // .mbox exports and/or individual .eml messages; threads are reconstructed across all of them
+  files: Array<{ fileName: string; mimeType?: string; data: Buffer }>
+}
+
+export interface UploadedArtifact {
+  id: string
+  organizationId: string
+  uploadedBy?: string
+  kind: 'file' | 'paste' | 'email_thread'
+  fileName: string
+  mimeType: string
+  sizeBytes: number
+  contentHash: string
+  draftDocumentId?: string
+  createdAt: Date
+}
+
+export interface ManualUploadResult {
+  artifact: UploadedArtifact
+  document: ProcessedContent
+}
+
+// The threads of a mailbox are drafted by a background ingestion job, one draft per thread
+export interface MailboxUploadResult {
+  job: IngestionJob
+  threads: EmailThread[]
+  // Already uploaded, so left out of the job
+  duplicates: EmailThread[]
+}
+
+// An upload once its text has been extracted, before it is stored
+interface ArtifactContent {
+  organizationId: string
+  uploadedBy: Uploader
+  kind: UploadedArtifact['kind']
+  fileName: string
+  mimeType: string
+  sizeBytes: number
+  text: string
+}
+
+export class ManualUploadError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'ManualUploadError'
+  }
+}
+
+/**
+ * Where a draft's source reference points for an uploaded artifact
+ */
+export function getUploadedArtifactUrl(artifactId: string): string {
+  return `/api/uploads/${artifactId}`
+}
+
+/**
+ * Work out the format of an uploaded file, trusting a specific MIME type over the file extension.
+ * Returns null for formats that can't be uploaded.
+ */
+export function resolveUploadMimeType(fileName: string, mimeType?: string): string | null {
+  const normalized = mimeType?.split(';')[0].trim().toLowerCase()
+  if (normalized && UPLOAD_MIME_TYPES[normalized]) {
+    return normalized
+  }
+
+  const extension = fileName.toLowerCase().match(/\.[a-z0-9]+$/)?.[0]
+  if (!extension) return null
+
+  return Object.keys(UPLOAD_MIME_TYPES).find(type => UPLOAD_MIME_TYPES[type].includes(extension)) || null
+}
+
+/**
+ * Whether an uploaded file is a mailbox export (.mbox) or a single message (.eml)
+ */
+export function isEmailArchive(fileName: string, mimeType?: string): boolean {
+  const normalized = mimeType?.split(';')[0].trim().toLowerCase()
+  if (normalized && EMAIL_ARCHIVE_MIME_TYPES[normalized]) {
+    return true
+  }
+
+  const extension = fileName.toLowerCase().match(/\.[a-z0-9]+$/)?.[0]
+  return Boolean(extension) && Object.values(EMAIL_ARCHIVE_MIME_TYPES).some(extensions => extensions.includes(extension!))
+}
+
+/**
+ * Ingests files and text added by hand. Each upload is stored as an artifact and drafted on its own
+ * through the same pipeline as connected sources; identical content can only be uploaded once per organization.
+ */
+class ManualUploadService {
+  private extractorRegistry = getDocumentExtractorRegistry()
+  private ingestionService = getContentIngestionService()
+  private piiService = getPIIRedactionService()
+  private supabase: SupabaseAdmin | null = null
+
+  private async getSupabase(): Promise<SupabaseAdmin> {
+    if (!this.supabase) {
+      this.supabase = await getSupabaseAdmin()
+    }
+    return this.supabase
+  }
+
+  async ingestFile(input: FileUploadInput, options: ContentProcessingOptions = {}): Promise<ManualUploadResult> {
+    if (input.data.length > MAX_UPLOAD_BYTES) {
+      throw new ManualUploadError(
+        `${input.fileName} is larger than the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit`,
+        'FILE_TOO_LARGE'
+      )
+    }
+
+    const mimeType = resolveUploadMimeType(input.fileName, input.mimeType)
+    if (!mimeType) {
+      throw new ManualUploadError(
+        `${input.fileName} is not a supported format; upload Markdown, text, DOCX or PDF files`,
+        'UNSUPPORTED_TYPE'
+      )
+    }
+
+    let text: string
+    try {
+      text = (await this.extractorRegistry.extract(input.data, mimeType)).text
+    } catch (error) {
+      const reason = error instanceof ExtractionError ? error.message : 'the file could not be read'
+      throw new ManualUploadError(`Failed to extract text from ${input.fileName}: ${reason}`, 'EXTRACTION_FAILED', error)
+    }
+
+    return await this.ingestArtifact({
+      organizationId: input.organizationId,
+      uploadedBy: input.uploadedBy,
+      kind: 'file',
+      fileName: input.fileName,
+      mimeType,
+      sizeBytes: input.data.length,
+      text
+    }, options)
+  }
+
+  async ingestText(input: PastedTextInput, options: ContentProcessingOptions = {}): Promise<ManualUploadResult> {
+    const sizeBytes = Buffer.byteLength(input.text, 'utf8')
+    if (sizeBytes > MAX_UPLOAD_BYTES) {
+      throw new ManualUploadError(
+        `Pasted text is larger than the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit`,
+        'FILE_TOO_LARGE'
+      )
+    }
+
+    return await this.ingestArtifact({
+      organizationId: input.organizationId,
+      uploadedBy: input.uploadedBy,
+      kind: 'paste',
+      fileName: input.title?.trim() || 'Pasted text',
+      // Pasted text is treated as Markdown; plain text is valid Markdown
+      mimeType: 'text/markdown',
+      sizeBytes,
+      text: input.text.replace(/\r\n?/g, '\n')
+    }, options)
+  }
+
+  /**
+   * Ingest mailbox exports. Messages from all files are threaded together and each thread becomes
+   * its own artifact and draft, with one item per message so quoted replies and signatures are
+   * stripped message by message. The threads are drafted by a background ingestion job; threads
+   * that were already uploaded are reported as duplicates and left out.
+   */
+  async ingestMailbox(input: MailboxUploadInput, options: ContentProcessingOptions = {}): Promise<MailboxUploadResult> {
+    const messages = input.files.flatMap(file => {
+      if (file.data.length > MAX_MAILBOX_BYTES) {
+        throw new ManualUploadError(
+          `${file.fileName} is larger than the ${MAX_MAILBOX_BYTES / (1024 * 1024)} MB mailbox limit`,
+          'FILE_TOO_LARGE'
+        )
+      }
+
+      const raw = /\.mbox$/i.test(file.fileName) || file.mimeType === 'application/mbox'
+        ? splitMbox(file.data)
+        : [file.data]
+      return raw.map(message => ({ fileName: file.fileName, message: parseEmail(message) }))
+    })
+
+    const fileNames = new Map(messages.map(({ fileName, message }) => [message.messageId, fileName]))
+    const threads = threadEmails(messages.map(({ message }) => message))
+      .map(thread => {
+        const entries = thread.messages
+          .map(message => ({ message, content: normalizeEmailMessage(message) }))
+          .filter((entry): entry is { message: EmailMessage; content: string } => Boolean(entry.content))
+        const text = entries.map(({ message, content }) => [
+          `From: ${message.from || 'Unknown sender'}`,
+          ...(message.date ? [`Date: ${message.date.toISOString()}`] : []),
+          `Subject: ${message.subject}`,
+          '',
+          content
+        ].join('\n')).join('\n\n---\n\n').trim()
+
+        return { thread, entries, contentHash: computeContentHash(text), artifactId: crypto.randomUUID() }
+      })
+      .filter(({ entries }) => entries.length > 0)
+
+    if (threads.length === 0) {
+      throw new ManualUploadError('No email messages found in the upload', 'EMPTY_CONTENT')
+    }
+
+    const supabase = await this.getSupabase()
+    const { data: existing, error: lookupError } = await supabase
+      .from('uploaded_artifacts')
+      .select('content_hash')
+      .eq('organization_id', input.organizationId)
+      .in('content_hash', threads.map(({ contentHash }) => contentHash))
+
+    if (lookupError) {
+      throw new Error(`Failed to check for duplicate uploads: ${lookupError.message}`)
+    }
+
+    const uploadedHashes = new Set((existing || []).map(row => row.content_hash))
+    const pending = threads.filter(({ contentHash }) => !uploadedHashes.has(contentHash))
+    if (pending.length === 0) {
+      throw new ManualUploadError('Every thread in the upload was already uploaded', 'DUPLICATE_UPLOAD')
+    }
+
+    const createdAt = new Date()
+    const threadsByArtifact = new Map(pending.map(entry => [entry.artifactId, entry]))
+
+    // Store each thread with its redacted messages, claiming its content hash. A thread whose hash
+    // another upload claimed since the lookup above is skipped rather than drafted twice.
+    const claim: UploadGroupClaim = async (groups, job) => {
+      const { data, error } = await supabase
+        .from('uploaded_artifacts')
+        .upsert(groups.map(group => {
+          const { thread, artifactId, contentHash } = threadsByArtifact.get(group[0].item.sourceId)!
+          return {
+            id: artifactId,
+            organization_id: input.organizationId,
+            uploaded_by: input.uploadedBy.id,
+            kind: 'email_thread',
+            file_name: thread.subject,
+            mime_type: 'message/rfc822',
+            size_bytes: thread.messages.reduce((total, message) => total + message.size, 0),
+            content_hash: contentHash,
+            redacted_text: group.map(entry => entry.item.content).join('\n\n---\n\n'),
+            ingestion_job_id: job.id,
+            created_at: createdAt.toISOString()
+          }
+        }), { onConflict: 'organization_id,content_hash', ignoreDuplicates: true })
+        .select('id')
+
+      if (error) {
+        throw new Error(`Failed to store uploaded artifacts: ${error.message}`)
+      }
+
+      const stored = new Set((data || []).map(row => row.id))
+      return groups.filter(group => stored.has(group[0].item.sourceId))
+    }
+
+    const job = await this.ingestionService.startUploadIngestion(
+      input.organizationId,
+      pending.map(({ thread, entries, artifactId }) => entries.map(({ message, content }): ContentChunk => ({
+        id: `email_${message.messageId}`,
+        content,
+        sourceType: 'email',
+        sourceId: artifactId,
+        metadata: {
+          author: message.from,
+          timestamp: message.date || createdAt,
+          url: getUploadedArtifactUrl(artifactId),
+          fileName: fileNames.get(message.messageId),
+          threadId: thread.id,
+          replyToId: message.inReplyTo
+        }
+      }))),
+      claim,
+      options
+    )
+
+    return {
+      job,
+      threads: pending.map(({ thread }) => thread),
+      duplicates: threads.filter(({ contentHash }) => uploadedHashes.has(contentHash)).map(({ thread }) => thread)
+    }
+  }
+
+  async getArtifact(artifactId: string, organizationId: string): Promise<(UploadedArtifact & { redactedText: string }) | null> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('uploaded_artifacts')
+      .select('*')
+      .eq('id', artifactId)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to get uploaded artifact ${artifactId}: ${error.message}`)
+    }
+
+    return data ? { ...this.mapRow(data), redactedText: data.redacted_text } : null
+  }
+
+  async getRecentArtifacts(organizationId: string, limit = 20): Promise<UploadedArtifact[]> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('uploaded_artifacts')
+      .select('id, organization_id, uploaded_by, kind, file_name, mime_type, size_bytes, content_hash, draft_document_id, created_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to get uploaded artifacts: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapRow(row))
+  }
+
+  private async ingestArtifact(
+    artifact: ArtifactContent,
+    options: ContentProcessingOptions
+  ): Promise<ManualUploadResult> {
+    const text = artifact.text.trim()
+    if (!text) {
+      throw new ManualUploadError(`${artifact.fileName} has no text to ingest`, 'EMPTY_CONTENT')
+    }
+
+    const contentHash = computeContentHash(text)
+    const supabase = await this.getSupabase()
+
+    const { data: duplicate, error: lookupError } = await supabase
+      .from('uploaded_artifacts')
+      .select('id, file_name')
+      .eq('organization_id', artifact.organizationId)
+      .eq('content_hash', contentHash)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw new Error(`Failed to check for duplicate uploads: ${lookupError.message}`)
+    }
+    if (duplicate) {
+      throw new ManualUploadError(
+        `The content of ${artifact.fileName} was already uploaded as ${duplicate.file_name}`,
+        'DUPLICATE_UPLOAD'
+      )
+    }
+
+    // Only the redacted text is kept with the artifact, as with every other ingested item
+    const [redaction] = await this.piiService.batchRedactPII([text], options.piiRedactionOptions)
+
+    const artifactId = crypto.randomUUID()
+    const createdAt = new Date()
+    const chunks: ContentChunk[] = [{
+      id: `upload_${artifactId}`,
+      content: text,
+      sourceType: 'upload',
+      sourceId: artifactId,
+      metadata: {
+        author: artifact.uploadedBy.email,
+        timestamp: createdAt,
+        url: getUploadedArtifactUrl(artifactId),
+        fileName: artifact.fileName
+      }
+    }]
+
+    // Claim the content hash before drafting, so two uploads of the same content cannot both produce a draft
+    const { error: insertError } = await supabase
+      .from('uploaded_artifacts')
+      .insert({
+        id: artifactId,
+        organization_id: artifact.organizationId,
+        uploaded_by: artifact.uploadedBy.id,
+        kind: artifact.kind,
+        file_name: artifact.fileName,
+        mime_type: artifact.mimeType,
+        size_bytes: artifact.sizeBytes,
+        content_hash: contentHash,
+        redacted_text: redaction.redactedText,
+        created_at: createdAt.toISOString()
+      })
+
+    if (insertError?.code === UNIQUE_VIOLATION) {
+      throw new ManualUploadError(`The content of ${artifact.fileName} was already uploaded`, 'DUPLICATE_UPLOAD')
+    }
+    if (insertError) {
+      throw new Error(`Failed to store uploaded artifact: ${insertError.message}`)
+    }
+
+    let result: { document: ProcessedContent; draftId: string }
+    try {
+      // The whole text is the one item, so its redaction is reused
+      result = await this.ingestionService.ingestManualContent(chunks, artifact.organizationId, options, [redaction])
+    } catch (error) {
+      // Release the hash so the same content can be uploaded again
+      await this.deleteRows('uploaded_artifacts', artifactId)
+      throw error
+    }
+    const { document, draftId } = result
+
+    const { error } = await supabase
+      .from('uploaded_artifacts')
+      .update({ draft_document_id: draftId })
+      .eq('id', artifactId)
+
+    if (error) {
+      await this.deleteRows('draft_documents', draftId)
+      await this.deleteRows('uploaded_artifacts', artifactId)
+      throw new Error(`Failed to link uploaded artifact to its draft: ${error.message}`)
+    }
+
+    return {
+      artifact: {
+        id: artifactId,
+        organizationId: artifact.organizationId,
+        uploadedBy: artifact.uploadedBy.id,
+        kind: artifact.kind,
+        fileName: artifact.fileName,
+        mimeType: artifact.mimeType,
+        sizeBytes: artifact.sizeBytes,
+        contentHash,
+        draftDocumentId: draftId,
+        createdAt
+      },
+      document
+    }
+  }
+
+  /**
+   * Undo part of an upload that failed. Errors are only logged so the original failure is reported.
+   */
+  private async deleteRows(table: 'uploaded_artifacts' | 'draft_documents', id: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase.from(table).delete().eq('id', id)
+
+    if (error) {
+      console.error(`Failed to delete ${id} from ${table} after a failed upload:`, error)
+    }
+  }
+
+  private mapRow(row: Omit<UploadedArtifactRow, 'redacted_text' | 'ingestion_job_id'>): UploadedArtifact {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      uploadedBy: row.uploaded_by ?? undefined,
+      kind: row.kind as UploadedArtifact['kind'],
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      sizeBytes: row.size_bytes,
+      contentHash: row.content_hash,
+      draftDocumentId: row.draft_document_id ?? undefined,
+      createdAt: new Date(row.created_at!)
+    }
+  }
+}
+
+// Singleton instance
+let manualUploadService: ManualUploadService | null = null
+
+export function getManualUploadService(): ManualUploadService {
+  if (!manualUploadService) {
+    manualUploadService = new ManualUploadService()
+  }
+  return manualUploadService
+}
+
+export { ManualUploadService }
@@ -0,0 +1,188 @@
+export type MarkdownBlockType = 'heading' | 'code' | 'table' | 'list' | 'paragraph'
+
+// A slice of the source document, with offsets into it
+export interface MarkdownSpan {
+  text: string
+  start: number
+  end: number
+}
+
+export interface MarkdownBlock extends MarkdownSpan {
+  type: MarkdownBlockType
+  // Heading level (1-6) and text without the markers, for headings
+  level?: number
+  heading?: string
+  // Smallest pieces an oversized block may be split into: table rows, code lines or list items
+  units: MarkdownSpan[]
+  // Repeated around each piece of a split block: a table's header rows, a code block's fences
+  prefix?: string
+  suffix?: string
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)/
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/
+
+/**
+ * Parse Markdown into top-level blocks: ATX headings, fenced code, pipe tables, lists and paragraphs.
+ * Blank lines separate blocks and are dropped; an unterminated fence runs to the end of the document.
+ */
+export function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  const lines = splitLines(content)
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.text.trim()) {
+      i++
+      continue
+    }
+
+    const fence = FENCE_PATTERN.exec(line.text)
+    if (fence) {
+      let end = i + 1
+      while (end < lines.length && !isClosingFence(lines[end].text, fence[1])) {
+        end++
+      }
+      const closed = end < lines.length
+      const last = Math.min(end, lines.length - 1)
+      blocks.push({
+        ...span(content, line, lines[last]),
+        type: 'code',
+        units: lines.slice(i + 1, closed ? last : last + 1),
+        prefix: line.text,
+        suffix: closed ? lines[last].text : fence[1]
+      })
+      i = last + 1
+      continue
+    }
+
+    const heading = HEADING_PATTERN.exec(line.text)
+    if (heading) {
+      blocks.push({ ...line, type: 'heading', level: heading[1].length, heading: heading[2].trim(), units: [] })
+      i++
+      continue
+    }
+
+    if (startsTable(lines, i)) {
+      let end = i + 2
+      while (end < lines.length && TABLE_ROW_PATTERN.test(lines[end].text)) {
+        end++
+      }
+      blocks.push({
+        ...span(content, line, lines[end - 1]),
+        type: 'table',
+        units: lines.slice(i + 2, end),
+        prefix: `${line.text}\n${lines[i + 1].text}`
+      })
+      i = end
+      continue
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line.text)
+    if (listItem) {
+      const end = findListEnd(lines, i)
+      const itemIndent = listItem[1].length
+      const items: MarkdownSpan[] = []
+      let itemStart = i
+      for (let j = i + 1; j <= end; j++) {
+        const next = j < end ? LIST_ITEM_PATTERN.exec(lines[j].text) : null
+        if (j === end || (next && next[1].length <= itemIndent)) {
+          items.push(span(content, lines[itemStart], lastNonBlank(lines, itemStart, j)))
+          itemStart = j
+        }
+      }
+      blocks.push({ ...span(content, line, lastNonBlank(lines, i, end)), type: 'list', units: items })
+      i = end
+      continue
+    }
+
+    let end = i + 1
+    while (end < lines.length && lines[end].text.trim() && !startsBlock(lines, end)) {
+      end++
+    }
+    blocks.push({ ...span(content, line, lines[end - 1]), type: 'paragraph', units: [] })
+    i = end
+  }
+
+  return blocks
+}
+
+function splitLines(content: string): MarkdownSpan[] {
+  const lines: MarkdownSpan[] = []
+  let start = 0
+
+  for (const text of content.split('\n')) {
+    const line = text.endsWith('\r') ? text.slice(0, -1) : text
+    lines.push({ text: line, start, end: start + line.length })
+    start += text.length + 1
+  }
+
+  return lines
+}
+
+function span(content: string, first: MarkdownSpan, last: MarkdownSpan): MarkdownSpan {
+  return { text: content.slice(first.start, last.end), start: first.start, end: last.end }
+}
+
+function isClosingFence(line: string, opening: string): boolean {
+  const fence = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line)
+  return !!fence && fence[1][0] === opening[0] && fence[1].length >= opening.length
+}
+
+function startsTable(lines: MarkdownSpan[], index: number): boolean {
+  return TABLE_ROW_PATTERN.test(lines[index].text) &&
+    index + 1 < lines.length &&
+    TABLE_DELIMITER_PATTERN.test(lines[index + 1].text)
+}
+
+function startsBlock(lines: MarkdownSpan[], index: number): boolean {
+  const text = lines[index].text
+  return FENCE_PATTERN.test(text) || HEADING_PATTERN.test(text) || LIST_ITEM_PATTERN.test(text) || startsTable(lines, index)
+}
+
+/**
+ * Index of the first line after a list. Items, indented lines and lazy continuations belong to it;
+ * blank lines only when the list carries on after them.
+ */
+function findListEnd(lines: MarkdownSpan[], start: number): number {
+  let end = start + 1
+
+  while (end < lines.length) {
+    const text = lines[end].text
+
+    if (!text.trim()) {
+      let next = end + 1
+      while (next < lines.length && !lines[next].text.trim()) {
+        next++
+      }
+      if (next < lines.length && (LIST_ITEM_PATTERN.test(lines[next].text) || /^(?: {2,}|\t)/.test(lines[next].text))) {
+        end = next
+        continue
+      }
+      break
+    }
+
+    const continues = LIST_ITEM_PATTERN.test(text) ||
+      /^(?: {2,}|\t)/.test(text) ||
+      !(FENCE_PATTERN.test(text) || HEADING_PATTERN.test(text) || startsTable(lines, end))
+    if (!continues) {
+      break
+    }
+    end++
+  }
+
+  return end
+}
+
+function lastNonBlank(lines: MarkdownSpan[], start: number, end: number): MarkdownSpan {
+  let last = end - 1
+  while (last > start && !lines[last].text.trim()) {
+    last--
+  }
+  return lines[last]
+}
@@ -0,0 +1,94 @@
+import { SlackMessage } from '../oauth/types'
+
+// Subtypes that carry something a person wrote; every other subtype is a join, topic change, pin or similar event
+const CONTENT_SUBTYPES = new Set(['thread_broadcast', 'file_share', 'me_message', 'bot_message'])
+
+// Code spans and blocks are copied verbatim; formatting is only converted outside them
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]+`)/g
+const ENTITY_PATTERN = /<([^<>\s][^<>]*)>/g
+
+/**
+ * Whether a message is a channel event (join, leave, topic change, pin, ...) rather than something a person wrote
+ */
+export function isSlackSystemMessage(message: SlackMessage): boolean {
+  return Boolean(message.subtype) && !CONTENT_SUBTYPES.has(message.subtype!)
+}
+
+/**
+ * Slack user ids mentioned in a message's text (`<@U123>`)
+ */
+export function getSlackMentionedUserIds(text: string): string[] {
+  return Array.from(text.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g), match => match[1])
+}
+
+/**
+ * Convert Slack mrkdwn to Markdown, resolving user mentions with the given display names
+ */
+export function slackMrkdwnToMarkdown(text: string, userNames: Map<string, string> = new Map()): string {
+  return text
+    .split(CODE_PATTERN)
+    .map((segment, index) => index % 2 === 1 ? decodeSlackEntities(segment) : convertFormatting(segment, userNames))
+    .join('')
+}
+
+/**
+ * Produce the text to ingest for a Slack message: Markdown with mentions resolved and shared
+ * files listed as references. Returns null for events and messages with nothing to ingest.
+ */
+export function normalizeSlackMessage(message: SlackMessage, userNames: Map<string, string> = new Map()): string | null {
+  if (isSlackSystemMessage(message)) {
+    return null
+  }
+
+  const blocks = [slackMrkdwnToMarkdown(message.text || '', userNames).trim()]
+  for (const file of message.files || []) {
+    const name = file.title || file.name || 'file'
+    blocks.push(file.permalink ? `[Attachment: ${name}](${file.permalink})` : `[Attachment: ${name}]`)
+  }
+
+  const content = blocks.filter(Boolean).join('\n\n')
+  return content || null
+}
+
+function convertFormatting(text: string, userNames: Map<string, string>): string {
+  const converted = text
+    .replace(ENTITY_PATTERN, (match, entity: string) => convertEntity(entity, userNames) ?? match)
+    // *bold* and ~strike~ use single markers in mrkdwn; _italic_ is already valid Markdown
+    .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,!?:;])/g, '$1**$2**')
+    .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,!?:;])/g, '$1~~$2~~')
+
+  return decodeSlackEntities(converted)
+}
+
+/**
+ * Convert one `<...>` entity: user, channel and group mentions, dates and links
+ */
+function convertEntity(entity: string, userNames: Map<string, string>): string | null {
+  const separator = entity.indexOf('|')
+  const target = separator >= 0 ? entity.slice(0, separator) : entity
+  const label = separator >= 0 ? entity.slice(separator + 1) : ''
+
+  if (target.startsWith('@')) {
+    const slackUserId = target.slice(1)
+    return `@${userNames.get(slackUserId) || label || slackUserId}`
+  }
+  if (target.startsWith('#')) {
+    return `#${label || target.slice(1)}`
+  }
+  if (target.startsWith('!')) {
+    // <!here>, <!channel>, <!subteam^S123|@design>, <!date^1392734382^{date}|Feb 18, 2014>
+    const command = target.slice(1).split('^')[0]
+    if (label) return command === 'subteam' || command === 'date' ? label : `@${label.replace(/^@/, '')}`
+    return ['here', 'channel', 'everyone'].includes(command) ? `@${command}` : null
+  }
+  if (/^(https?|mailto|tel):/i.test(target)) {
+    const text = label || target.replace(/^(mailto|tel):/i, '')
+    return text === target ? target : `[${text}](${target})`
+  }
+  return null
+}
+
+function decodeSlackEntities(text: string): string {
+  // Slack only escapes these three characters
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+}
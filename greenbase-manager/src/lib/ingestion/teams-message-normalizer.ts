@@ -0,0 +1,344 @@
+import { TeamsMessage, TeamsMessageAttachment, TeamsMessageMention } from '../oauth/types'
+
+export interface TeamsHtmlContext {
+  mentions?: TeamsMessageMention[]
+  attachments?: TeamsMessageAttachment[]
+}
+
+interface ConversionResult {
+  markdown: string
+  // Attachment ids whose inline placeholder was rendered (or deliberately dropped)
+  referencedAttachmentIds: Set<string>
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+// Content inside these elements never reaches the output
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'head', 'systemeventmessage'])
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s=>\/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+|<)/g
+const ATTRIBUTE_PATTERN = /([^\s=\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+/**
+ * Decode the HTML entities Teams emits in message bodies
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Whether a message is a system/event message (member added, channel renamed, call started, ...)
+ * rather than something a person wrote
+ */
+export function isSystemMessage(message: TeamsMessage): boolean {
+  if (message.messageType && message.messageType !== 'message') {
+    return true
+  }
+  return /<systemEventMessage\b/i.test(message.body.content || '')
+}
+
+/**
+ * Convert Teams message HTML to Markdown, resolving `<at>` mentions to display names
+ * and `<attachment>` placeholders to references
+ */
+export function htmlToMarkdown(html: string, context: TeamsHtmlContext = {}): string {
+  return convertHtml(html, context).markdown
+}
+
+/**
+ * Normalize a Teams message into clean Markdown for the ingestion pipeline.
+ * Returns null for system/event messages and messages with no remaining content.
+ */
+export function normalizeTeamsMessage(message: TeamsMessage): string | null {
+  if (isSystemMessage(message)) {
+    return null
+  }
+
+  const context = { mentions: message.mentions, attachments: message.attachments }
+  const { markdown, referencedAttachmentIds } = message.body.contentType === 'html'
+    ? convertHtml(message.body.content || '', context)
+    : { markdown: (message.body.content || '').trim(), referencedAttachmentIds: new Set<string>() }
+
+  // Attachments that had no inline placeholder still belong to the message
+  const trailingReferences = (message.attachments || [])
+    .filter(attachment => !referencedAttachmentIds.has(attachment.id))
+    .map(formatAttachmentReference)
+    .filter((reference): reference is string => Boolean(reference))
+
+  const normalized = [markdown, ...trailingReferences].filter(Boolean).join('\n\n').trim()
+  return normalized.length > 0 ? normalized : null
+}
+
+function formatAttachmentReference(attachment: TeamsMessageAttachment): string | null {
+  // Quoted replies point at another message in the same thread, which is ingested on its own;
+  // adaptive cards and other rich payloads have nothing a reader could follow
+  if (attachment.contentType === 'messageReference' || attachment.contentType.startsWith('application/vnd.microsoft.card')) {
+    return null
+  }
+
+  if (!attachment.contentUrl) {
+    return attachment.name ? `[Attachment: ${attachment.name}]` : null
+  }
+
+  return `[Attachment: ${attachment.name || 'file'}](${attachment.contentUrl})`
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+function convertHtml(html: string, context: TeamsHtmlContext): ConversionResult {
+  const referencedAttachmentIds = new Set<string>()
+  const mentionNames = new Map<string, string>()
+  for (const mention of context.mentions || []) {
+    mentionNames.set(String(mention.id), mention.mentioned.user?.displayName || mention.mentionText)
+  }
+  const attachmentsById = new Map((context.attachments || []).map(attachment => [attachment.id, attachment]))
+
+  let out = ''
+  let skipDepth = 0
+  let preDepth = 0
+  const lists: Array<{ ordered: boolean; index: number }> = []
+  // Elements whose Markdown depends on their rendered inner text: links, mentions, quotes
+  const spans: Array<{ tag: string; start: number; attributes: Record<string, string> }> = []
+  let tableRow: { cells: number; header: boolean } | null = null
+  let tableHeaderWritten = false
+
+  const ensureNewlines = (count: number) => {
+    if (out.length === 0) return
+    out = out.replace(/[ \t]+$/, '')
+    const existing = out.match(/\n*$/)![0].length
+    if (existing < count) {
+      out += '\n'.repeat(count - existing)
+    }
+  }
+
+  const atLineStart = () => out.length === 0 || out.endsWith('\n')
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [token, closing, rawTag, rawAttributes, , text] = match
+
+    if (text !== undefined) {
+      if (skipDepth > 0) continue
+
+      let decoded = decodeHtmlEntities(text)
+      if (preDepth === 0) {
+        decoded = decoded.replace(/\s+/g, ' ')
+        if (atLineStart() || out.endsWith(' ')) {
+          decoded = decoded.replace(/^ /, '')
+        }
+      }
+      out += decoded
+      continue
+    }
+
+    if (!rawTag) continue // comment
+
+    const tag = rawTag.toLowerCase()
+    const isClosing = closing === '/'
+    const isSelfClosing = token.endsWith('/>')
+
+    if (SKIPPED_ELEMENTS.has(tag) || tag === 'attachment') {
+      if (tag === 'attachment' && !isClosing) {
+        const id = parseAttributes(rawAttributes || '').id
+        const attachment = id ? attachmentsById.get(id) : undefined
+        if (id) referencedAttachmentIds.add(id)
+        const reference = attachment ? formatAttachmentReference(attachment) : null
+        if (reference && skipDepth === 0) {
+          ensureNewlines(1)
+          out += reference
+          ensureNewlines(1)
+        }
+      }
+      if (!isSelfClosing) {
+        skipDepth += isClosing ? -1 : 1
+        skipDepth = Math.max(skipDepth, 0)
+      }
+      continue
+    }
+
+    if (skipDepth > 0) continue
+
+    switch (tag) {
+      case 'br':
+        out = out.replace(/[ \t]+$/, '') + '\n'
+        break
+
+      case 'p':
+        ensureNewlines(2)
+        break
+
+      case 'div':
+        ensureNewlines(1)
+        break
+
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        ensureNewlines(2)
+        if (!isClosing) {
+          out += '#'.repeat(Number(tag[1])) + ' '
+        }
+        break
+
+      case 'hr':
+        ensureNewlines(2)
+        out += '---'
+        ensureNewlines(2)
+        break
+
+      case 'strong': case 'b':
+        out += '**'
+        break
+
+      case 'em': case 'i':
+        out += '_'
+        break
+
+      case 's': case 'strike': case 'del':
+        out += '~~'
+        break
+
+      case 'code':
+        if (preDepth === 0) out += '`'
+        break
+
+      case 'pre':
+        if (isClosing) {
+          preDepth = Math.max(preDepth - 1, 0)
+          ensureNewlines(1)
+          out += '```'
+          ensureNewlines(2)
+        } else {
+          ensureNewlines(2)
+          out += '```\n'
+          preDepth++
+        }
+        break
+
+      case 'ul': case 'ol':
+        if (isClosing) {
+          lists.pop()
+        } else {
+          lists.push({ ordered: tag === 'ol', index: 0 })
+        }
+        ensureNewlines(lists.length === 0 ? 2 : 1)
+        break
+
+      case 'li':
+        if (!isClosing) {
+          ensureNewlines(1)
+          const list = lists[lists.length - 1]
+          const indent = '  '.repeat(Math.max(lists.length - 1, 0))
+          out += indent + (list?.ordered ? `${++list.index}. ` : '- ')
+        }
+        break
+
+      case 'tr':
+        if (isClosing) {
+          if (tableRow && tableRow.header && !tableHeaderWritten) {
+            out += '\n|' + ' --- |'.repeat(tableRow.cells)
+            tableHeaderWritten = true
+          }
+          tableRow = null
+        } else {
+          ensureNewlines(1)
+          out += '|'
+          tableRow = { cells: 0, header: false }
+        }
+        break
+
+      case 'td': case 'th':
+        if (isClosing) {
+          out += ' |'
+        } else {
+          out += ' '
+          if (tableRow) {
+            tableRow.cells++
+            tableRow.header = tableRow.header || tag === 'th'
+          }
+        }
+        break
+
+      case 'table':
+        ensureNewlines(2)
+        tableHeaderWritten = false
+        break
+
+      case 'img': case 'emoji': {
+        const attributes = parseAttributes(rawAttributes || '')
+        // Emoji carry the character itself in alt; inline images are only useful by their description
+        if (tag === 'emoji' && attributes.alt) {
+          out += attributes.alt
+        } else if (attributes.alt) {
+          out += `[Image: ${attributes.alt}]`
+        }
+        break
+      }
+
+      case 'a': case 'at': case 'blockquote':
+        if (!isClosing) {
+          if (tag === 'blockquote') ensureNewlines(2)
+          spans.push({ tag, start: out.length, attributes: parseAttributes(rawAttributes || '') })
+          break
+        }
+
+        for (let i = spans.length - 1; i >= 0; i--) {
+          if (spans[i].tag !== tag) continue
+
+          const [span] = spans.splice(i, 1)
+          const inner = out.slice(span.start)
+          out = out.slice(0, span.start)
+
+          if (tag === 'at') {
+            const name = mentionNames.get(span.attributes.id) || inner.trim()
+            out += name ? `@${name}` : ''
+          } else if (tag === 'a') {
+            const href = span.attributes.href
+            const label = inner.trim()
+            if (!href || label === href) {
+              out += inner
+            } else {
+              out += `[${label || href}](${href})`
+            }
+          } else {
+            const quoted = inner.trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n')
+            out += quoted
+            ensureNewlines(2)
+          }
+          break
+        }
+        break
+
+      default:
+        // span, font and other presentational wrappers carry no Markdown meaning
+        break
+    }
+  }
+
+  const markdown = out
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { markdown, referencedAttachmentIds }
+}
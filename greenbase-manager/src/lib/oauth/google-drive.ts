@@ -1,8 +1,24 @@
-import { google } from 'googleapis'
+import { google, drive_v3 } from 'googleapis'
 import { OAuth2Client } from 'google-auth-library'
 import { getConfigService } from '../config'
 import { getKeyVaultService } from '../azure-keyvault'
-import { OAuthTokens, DriveItem, OAuthError } from './types'
+import { getDocumentExtractorRegistry } from '../extraction'
+import { withRetry } from '../http'
+import { OAuthTokens, DriveItem, DriveChanges, OAuthError } from './types'
+
+// Export format used to extract each Google-native file type
+const GOOGLE_EXPORT_MIME_TYPES: Record<string, string> = {
+  'application/vnd.google-apps.document': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.google-apps.spreadsheet': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.google-apps.presentation': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder'
+
+export interface DriveListingOptions {
+  // List only subfolders, skipping files
+  foldersOnly?: boolean
+}
 
 export class GoogleDriveService {
   private oauth2Client: OAuth2Client | null = null
@@ -135,44 +151,134 @@ export class GoogleDriveService {
       }
     })
 
-    return google.drive({ version: 'v3', auth: this.oauth2Client! })
+    // The client's own retries are turned off so throttled requests are retried in one place, honoring Retry-After
+    return google.drive({ version: 'v3', auth: this.oauth2Client!, retry: false })
   }
 
   /**
-   * Get files and folders from Google Drive
+   * Get all files and folders directly inside a Google Drive folder, reading every page
    */
-  async getDriveItems(userId: string, folderId?: string, pageSize: number = 100): Promise<DriveItem[]> {
+  async getDriveItems(
+    userId: string,
+    folderId?: string,
+    pageSize: number = 100,
+    options: DriveListingOptions = {}
+  ): Promise<DriveItem[]> {
     try {
       const drive = await this.getDriveClient(userId)
       
-      const query = folderId 
+      const query = (folderId 
         ? `'${folderId}' in parents and trashed=false`
-        : `'root' in parents and trashed=false`
-
-      const response = await drive.files.list({
-        q: query,
-        pageSize,
-        fields: 'files(id,name,mimeType,webViewLink,createdTime,modifiedTime,size,parents)',
-        orderBy: 'name'
-      })
-
-      const files = response.data.files || []
+        : `'root' in parents and trashed=false`)
+        + (options.foldersOnly ? ` and mimeType='${FOLDER_MIME_TYPE}'` : '')
+
+      const files: drive_v3.Schema$File[] = []
+      let pageToken: string | undefined
+
+      do {
+        const response: { data: drive_v3.Schema$FileList } = await withRetry(() => drive.files.list({
+          q: query,
+          pageSize,
+          pageToken,
+          fields: 'nextPageToken,files(id,name,mimeType,webViewLink,createdTime,modifiedTime,size,parents,videoMediaMetadata(durationMillis))',
+          orderBy: 'name'
+        }), { operation: 'List Drive files' })
+
+        files.push(...(response.data.files || []))
+        pageToken = response.data.nextPageToken || undefined
+      } while (pageToken)
       
       return files.map((file: any) => ({
         id: file.id!,
         name: file.name!,
         webUrl: file.webViewLink!,
-        folder: file.mimeType === 'application/vnd.google-apps.folder' ? { childCount: 0 } : undefined,
-        file: file.mimeType !== 'application/vnd.google-apps.folder' ? { mimeType: file.mimeType! } : undefined,
+        folder: file.mimeType === FOLDER_MIME_TYPE ? { childCount: 0 } : undefined,
+        file: file.mimeType !== FOLDER_MIME_TYPE ? { mimeType: file.mimeType! } : undefined,
         createdDateTime: file.createdTime!,
         lastModifiedDateTime: file.modifiedTime!,
-        size: file.size ? parseInt(file.size) : undefined
+        size: file.size ? parseInt(file.size) : undefined,
+        parents: file.parents || undefined,
+        video: file.videoMediaMetadata?.durationMillis ? { duration: Number(file.videoMediaMetadata.durationMillis) } : undefined
       }))
     } catch (error) {
       throw new OAuthError(`Failed to get drive items: ${error}`, 'GET_DRIVE_ITEMS_ERROR')
     }
   }
 
+  /**
+   * Get a page token marking the current position in the user's Drive change feed
+   */
+  async getChangesStartPageToken(userId: string): Promise<string> {
+    try {
+      const drive = await this.getDriveClient(userId)
+
+      const response = await withRetry(() => drive.changes.getStartPageToken({}), { operation: 'Get Drive start page token' })
+
+      if (!response.data.startPageToken) {
+        throw new OAuthError('Drive did not return a start page token', 'MISSING_PAGE_TOKEN')
+      }
+
+      return response.data.startPageToken
+    } catch (error) {
+      throw new OAuthError(`Failed to get changes start page token: ${error}`, 'GET_START_PAGE_TOKEN_ERROR')
+    }
+  }
+
+  /**
+   * Get files added or modified since the given page token.
+   * Removed and trashed files are skipped; callers filter by parent folder.
+   */
+  async getChanges(userId: string, pageToken: string, pageSize: number = 100): Promise<DriveChanges> {
+    try {
+      const drive = await this.getDriveClient(userId)
+
+      const items: DriveItem[] = []
+      let currentToken: string | undefined = pageToken
+      let newStartPageToken: string | undefined
+
+      // Walk nextPageToken pages until Drive returns the token for the next sync
+      while (currentToken) {
+        const changesPageToken: string = currentToken
+        const response: { data: drive_v3.Schema$ChangeList } = await withRetry(() => drive.changes.list({
+          pageToken: changesPageToken,
+          pageSize,
+          fields: 'nextPageToken,newStartPageToken,changes(fileId,removed,file(id,name,mimeType,webViewLink,createdTime,modifiedTime,size,parents,trashed,videoMediaMetadata(durationMillis)))'
+        }), { operation: 'List Drive changes' })
+
+        for (const change of response.data.changes || []) {
+          const file = change.file
+          if (change.removed || !file || file.trashed) {
+            continue
+          }
+
+          items.push({
+            id: file.id!,
+            name: file.name!,
+            webUrl: file.webViewLink!,
+            folder: file.mimeType === FOLDER_MIME_TYPE ? { childCount: 0 } : undefined,
+            file: file.mimeType !== FOLDER_MIME_TYPE ? { mimeType: file.mimeType! } : undefined,
+            createdDateTime: file.createdTime!,
+            lastModifiedDateTime: file.modifiedTime!,
+            size: file.size ? parseInt(file.size) : undefined,
+            parents: file.parents || undefined,
+            video: file.videoMediaMetadata?.durationMillis ? { duration: Number(file.videoMediaMetadata.durationMillis) } : undefined
+          })
+        }
+
+        newStartPageToken = response.data.newStartPageToken || newStartPageToken
+        currentToken = response.data.nextPageToken || undefined
+      }
+
+      if (!newStartPageToken) {
+        throw new OAuthError('Drive did not return a new start page token', 'MISSING_PAGE_TOKEN')
+      }
+
+      return { items, newStartPageToken }
+    } catch (error) {
+      throw new OAuthError(`Failed to get drive changes: ${error}`, 'GET_CHANGES_ERROR')
+    }
+  }
+
   /**
    * Search for files in Google Drive
    */
@@ -182,12 +288,12 @@ export class GoogleDriveService {
       
       const searchQuery = `name contains '${query}' and trashed=false`
 
-      const response = await drive.files.list({
+      const response = await withRetry(() => drive.files.list({
         q: searchQuery,
         pageSize,
         fields: 'files(id,name,mimeType,webViewLink,createdTime,modifiedTime,size)',
         orderBy: 'relevance desc'
-      })
+      }), { operation: 'Search Drive files' })
 
       const files = response.data.files || []
       
@@ -195,8 +301,8 @@ export class GoogleDriveService {
         id: file.id!,
         name: file.name!,
         webUrl: file.webViewLink!,
-        folder: file.mimeType === 'application/vnd.google-apps.folder' ? { childCount: 0 } : undefined,
-        file: file.mimeType !== 'application/vnd.google-apps.folder' ? { mimeType: file.mimeType! } : undefined,
+        folder: file.mimeType === FOLDER_MIME_TYPE ? { childCount: 0 } : undefined,
+        file: file.mimeType !== FOLDER_MIME_TYPE ? { mimeType: file.mimeType! } : undefined,
         createdDateTime: file.createdTime!,
         lastModifiedDateTime: file.modifiedTime!,
         size: file.size ? parseInt(file.size) : undefined
@@ -214,61 +320,73 @@ export class GoogleDriveService {
       const drive = await this.getDriveClient(userId)
       
       // Get file metadata first
-      const fileInfo = await drive.files.get({
+      const fileInfo = await withRetry(() => drive.files.get({
         fileId,
         fields: 'id,name,mimeType,size'
-      })
+      }), { operation: `Get Drive file ${fileId}` })
 
       const mimeType = fileInfo.data.mimeType!
-      
-      // Handle different file types
-      if (mimeType === 'application/vnd.google-apps.document') {
-        // Google Docs - export as plain text
-        const response = await drive.files.export({
-          fileId,
-          mimeType: 'text/plain'
-        })
-        return response.data as string
-      } else if (mimeType === 'application/vnd.google-apps.spreadsheet') {
-        // Google Sheets - export as CSV
-        const response = await drive.files.export({
-          fileId,
-          mimeType: 'text/csv'
-        })
-        return response.data as string
-      } else if (mimeType === 'application/vnd.google-apps.presentation') {
-        // Google Slides - export as plain text
-        const response = await drive.files.export({
-          fileId,
-          mimeType: 'text/plain'
-        })
-        return response.data as string
-      } else if (mimeType.startsWith('text/')) {
-        // Plain text files
-        const response = await drive.files.get({
-          fileId,
-          alt: 'media'
-        })
-        return response.data as string
-      } else {
-        // For other file types, return metadata
-        return `[${mimeType} file: ${fileInfo.data.name}]`
+      const extractorRegistry = getDocumentExtractorRegistry()
+
+      // Google-native files have no binary content; export them to the matching Office format
+      // so headings, tables and slides survive extraction
+      const exportMimeType = GOOGLE_EXPORT_MIME_TYPES[mimeType]
+      if (exportMimeType) {
+        const response = await withRetry(() => drive.files.export(
+          { fileId, mimeType: exportMimeType },
+          { responseType: 'arraybuffer' }
+        ), { operation: `Export Drive file ${fileId}` })
+        const extracted = await extractorRegistry.extract(Buffer.from(response.data as ArrayBuffer), exportMimeType)
+        return extracted.text
+      }
+
+      if (!extractorRegistry.canExtract(mimeType)) {
+        throw new OAuthError(`Unsupported file type: ${mimeType}`, 'UNSUPPORTED_FILE_TYPE')
       }
+
+      const response = await withRetry(() => drive.files.get(
+        { fileId, alt: 'media' },
+        { responseType: 'arraybuffer' }
+      ), { operation: `Download Drive file ${fileId}` })
+      const extracted = await extractorRegistry.extract(Buffer.from(response.data as ArrayBuffer), mimeType)
+      return extracted.text
     } catch (error) {
       throw new OAuthError(`Failed to get file content: ${error}`, 'GET_FILE_CONTENT_ERROR')
     }
   }
 
   /**
-   * Get folder structure (recursive)
+   * Download a file as-is, for content that is transcribed rather than extracted
+   */
+  async getFileMedia(userId: string, fileId: string): Promise<Buffer> {
+    try {
+      const drive = await this.getDriveClient(userId)
+      const response = await withRetry(() => drive.files.get(
+        { fileId, alt: 'media' },
+        { responseType: 'arraybuffer' }
+      ), { operation: `Download Drive file ${fileId}` })
+      return Buffer.from(response.data as ArrayBuffer)
+    } catch (error) {
+      throw new OAuthError(`Failed to download file: ${error}`, 'DOWNLOAD_ERROR')
+    }
+  }
+
+  /**
+   * Get everything below a folder, `maxDepth` levels deep: 1 lists only its direct children.
+   * Each folder is listed before its contents.
    */
-  async getFolderStructure(userId: string, folderId?: string, maxDepth: number = 3, currentDepth: number = 0): Promise<DriveItem[]> {
-    if (currentDepth >= maxDepth) {
+  async getFolderStructure(
+    userId: string,
+    folderId?: string,
+    maxDepth: number = 3,
+    options: DriveListingOptions = {}
+  ): Promise<DriveItem[]> {
+    if (maxDepth <= 0) {
       return []
     }
 
     try {
-      const items = await this.getDriveItems(userId, folderId)
+      const items = await this.getDriveItems(userId, folderId, 100, options)
       const result: DriveItem[] = []
 
       for (const item of items) {
@@ -276,7 +394,7 @@ export class GoogleDriveService {
         
         // If it's a folder, get its contents recursively
         if (item.folder) {
-          const subItems = await this.getFolderStructure(userId, item.id, maxDepth, currentDepth + 1)
+          const subItems = await this.getFolderStructure(userId, item.id, maxDepth - 1, options)
           result.push(...subItems)
         }
       }
@@ -287,33 +405,6 @@ export class GoogleDriveService {
     }
   }
 
-  /**
-   * Rate limiting helper - implement exponential backoff
-   */
-  private async withRateLimit<T>(operation: () => Promise<T>, maxRetries: number = 3): Promise<T> {
-    let lastError: Error | null = null
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await operation()
-      } catch (error: any) {
-        lastError = error
-        
-        // Check if it's a rate limit error
-        if (error.code === 429 || (error.response && error.response.status === 429)) {
-          const delay = Math.pow(2, attempt) * 1000 // Exponential backoff
-          await new Promise(resolve => setTimeout(resolve, delay))
-          continue
-        }
-        
-        // If it's not a rate limit error, throw immediately
-        throw error
-      }
-    }
-    
-    throw lastError || new Error('Max retries exceeded')
-  }
-
   /**
    * Revoke OAuth tokens and disconnect source
    */
@@ -1,12 +1,36 @@
-export { getOAuthService, OAuthService } from './oauth-service'
-export { getMicrosoftGraphService, MicrosoftGraphService } from './microsoft-graph'
-export { getGoogleDriveService, GoogleDriveService } from './google-drive'
+export { getOAuthService, OAuthService, getSourceProvider } from './oauth-service'
+export { getMicrosoftGraphService, MicrosoftGraphService, encodeMicrosoftAuthState, parseMicrosoftAuthState } from './microsoft-graph'
+export { getGoogleDriveService, GoogleDriveService, type DriveListingOptions } from './google-drive'
+export { getSlackService, SlackService } from './slack'
 export type {
   OAuthTokens,
   OAuthProvider,
   ConnectedSource,
+  SourceType,
+  MicrosoftSourceType,
+  DriveFolderSelection,
+  SlackChannelMapping,
   TeamsChannel,
   TeamsMessage,
+  TeamsMessageDelta,
+  TeamsMessageMention,
+  TeamsMessageReaction,
+  TeamsMessageAttachment,
+  TeamsThread,
+  MeetingArtifact,
+  OnlineMeeting,
   DriveItem,
+  DriveChanges,
+  DriveItemsDelta,
+  SharePointSite,
+  DocumentLibrary,
+  SlackWorkspace,
+  SlackChannel,
+  SlackMessage,
+  SlackThread,
+  SyncCursors,
+  SyncSchedule,
+  GroupingStrategy,
+  DriveIngestionFilters,
   OAuthError
 } from './types'
\ No newline at end of file
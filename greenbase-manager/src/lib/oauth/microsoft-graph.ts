@@ -1,8 +1,86 @@
 import { ConfidentialClientApplication, AuthenticationResult } from '@azure/msal-node'
-import { Client } from '@microsoft/microsoft-graph-client'
+import { Client, GraphRequest, ResponseType, RetryHandlerOptions } from '@microsoft/microsoft-graph-client'
 import { getConfigService } from '../config'
 import { getKeyVaultService } from '../azure-keyvault'
-import { OAuthTokens, TeamsChannel, TeamsMessage, DriveItem, OAuthError } from './types'
+import { getDocumentExtractorRegistry } from '../extraction'
+import { withRetry } from '../http'
+import {
+  OAuthTokens,
+  TeamsChannel,
+  TeamsMessage,
+  TeamsMessageDelta,
+  MeetingArtifact,
+  OnlineMeeting,
+  DriveItem,
+  DriveItemsDelta,
+  SharePointSite,
+  DocumentLibrary,
+  MicrosoftSourceType,
+  OAuthError
+} from './types'
+
+const CONTENT_SCOPES = [
+  'https://graph.microsoft.com/Team.ReadBasic.All',
+  'https://graph.microsoft.com/Channel.ReadBasic.All',
+  'https://graph.microsoft.com/ChannelMessage.Read.All',
+  'https://graph.microsoft.com/Files.Read.All',
+  'https://graph.microsoft.com/Sites.Read.All',
+  'https://graph.microsoft.com/User.Read'
+]
+
+// Access to meeting transcripts and recordings is only asked for when meetings are connected
+const GRAPH_SCOPES: Record<MicrosoftSourceType, string[]> = {
+  teams: CONTENT_SCOPES,
+  onedrive: CONTENT_SCOPES,
+  sharepoint: CONTENT_SCOPES,
+  teams_meetings: [
+    'https://graph.microsoft.com/User.Read',
+    'https://graph.microsoft.com/OnlineMeetings.Read',
+    'https://graph.microsoft.com/OnlineMeetingTranscript.Read.All',
+    'https://graph.microsoft.com/OnlineMeetingRecording.Read.All'
+  ]
+}
+
+// Key Vault secret listing the scopes a user has granted, so a refresh asks for no more and no less
+function grantedScopesSecret(userId: string): string {
+  return `oauth-microsoft-scopes-${userId}`
+}
+
+const SOURCE_STATE_PATTERN = /^(teams_meetings|onedrive|sharepoint)\.([A-Za-z0-9_-]+)$/
+
+// The Graph client's own retry handler is turned off so throttled requests are retried in one place
+const NO_CLIENT_RETRIES = [new RetryHandlerOptions(0, 0)]
+
+// Channel messages are listed at most 50 per page
+const CHANNEL_MESSAGES_PAGE_SIZE = 50
+
+interface GraphPage<T> {
+  value?: T[]
+  '@odata.nextLink'?: string
+  '@odata.deltaLink'?: string
+}
+
+/**
+ * Encode the OAuth state for a Microsoft connection. Teams keeps the bare userId so
+ * authorizations started before other Microsoft sources were supported still complete.
+ */
+export function encodeMicrosoftAuthState(userId: string, sourceType: MicrosoftSourceType = 'teams'): string {
+  if (sourceType === 'teams') {
+    return userId
+  }
+  return `${sourceType}.${Buffer.from(userId, 'utf8').toString('base64url')}`
+}
+
+export function parseMicrosoftAuthState(state: string): { userId: string; sourceType: MicrosoftSourceType } {
+  const match = state.match(SOURCE_STATE_PATTERN)
+  if (!match) {
+    return { userId: state, sourceType: 'teams' }
+  }
+  return {
+    userId: Buffer.from(match[2], 'base64url').toString('utf8'),
+    sourceType: match[1] as MicrosoftSourceType
+  }
+}
 
 export class MicrosoftGraphService {
   private msalApp: ConfidentialClientApplication | null = null
@@ -26,13 +104,13 @@ export class MicrosoftGraphService {
   /**
    * Generate OAuth authorization URL for Microsoft Graph
    */
-  async getAuthUrl(userId: string, scopes: string[] = ['https://graph.microsoft.com/Team.ReadBasic.All', 'https://graph.microsoft.com/Channel.ReadBasic.All', 'https://graph.microsoft.com/ChannelMessage.Read.All', 'https://graph.microsoft.com/Files.Read.All']): Promise<string> {
+  async getAuthUrl(userId: string, sourceType: MicrosoftSourceType = 'teams', scopes: string[] = GRAPH_SCOPES[sourceType]): Promise<string> {
     await this.initialize()
 
     const authCodeUrlParameters = {
       scopes,
       redirectUri: `${process.env.NEXTAUTH_URL}/api/oauth/microsoft/callback`,
-      state: userId // Pass userId as state for callback handling
+      state: encodeMicrosoftAuthState(userId, sourceType) // userId and source type for callback handling
     }
 
     try {
@@ -46,12 +124,12 @@ export class MicrosoftGraphService {
   /**
    * Exchange authorization code for access tokens
    */
-  async exchangeCodeForTokens(code: string, userId: string): Promise<OAuthTokens> {
+  async exchangeCodeForTokens(code: string, userId: string, sourceType: MicrosoftSourceType = 'teams'): Promise<OAuthTokens> {
     await this.initialize()
 
     const tokenRequest = {
       code,
-      scopes: ['https://graph.microsoft.com/Team.ReadBasic.All', 'https://graph.microsoft.com/Channel.ReadBasic.All', 'https://graph.microsoft.com/ChannelMessage.Read.All', 'https://graph.microsoft.com/Files.Read.All'],
+      scopes: GRAPH_SCOPES[sourceType],
       redirectUri: `${process.env.NEXTAUTH_URL}/api/oauth/microsoft/callback`
     }
 
@@ -71,9 +149,11 @@ export class MicrosoftGraphService {
         scopes: response.scopes || []
       }
 
-      // Store tokens securely in Azure Key Vault
+      // Store tokens securely in Azure Key Vault. Consent is incremental, so the token carries every
+      // scope granted so far, including those of other Microsoft sources.
       const keyVaultService = getKeyVaultService()
       await keyVaultService.storeOAuthTokens(userId, 'microsoft', tokens.accessToken, tokens.refreshToken)
+      await keyVaultService.setSecret(grantedScopesSecret(userId), JSON.stringify(tokens.scopes))
 
       return tokens
     } catch (error) {
@@ -106,9 +186,11 @@ export class MicrosoftGraphService {
       //   targetAccount = accounts.find(acc => acc.homeAccountId === storedAccountId) || accounts[0]
       // }
 
-      // Use silent token acquisition with MSAL
+      // Use silent token acquisition with MSAL, for the scopes the user actually granted
+      const keyVaultService = getKeyVaultService()
+      const grantedScopes = await keyVaultService.getSecret(grantedScopesSecret(userId))
       const silentRequest = {
-        scopes: ['https://graph.microsoft.com/Team.ReadBasic.All', 'https://graph.microsoft.com/Channel.ReadBasic.All', 'https://graph.microsoft.com/ChannelMessage.Read.All', 'https://graph.microsoft.com/Files.Read.All'],
+        scopes: grantedScopes ? JSON.parse(grantedScopes) as string[] : GRAPH_SCOPES.teams,
         account: targetAccount
       }
 
@@ -126,7 +208,6 @@ export class MicrosoftGraphService {
       }
 
       // Update stored tokens
-      const keyVaultService = getKeyVaultService()
       await keyVaultService.storeOAuthTokens(userId, 'microsoft', tokens.accessToken, tokens.refreshToken)
 
       // TODO: For production, store the account identifier for future lookups:
@@ -177,16 +258,18 @@ export class MicrosoftGraphService {
       const graphClient = await this.getGraphClient(userId)
       
       // Get user's joined teams
-      const teamsResponse = await graphClient.api('/me/joinedTeams').get()
-      const teams = teamsResponse.value || []
+      const { items: teams } = await this.getAllPages<{ id: string; displayName: string }>(
+        graphClient, graphClient.api('/me/joinedTeams'), 'List joined teams'
+      )
 
       const allChannels: TeamsChannel[] = []
 
       // Get channels for each team
       for (const team of teams) {
         try {
-          const channelsResponse = await graphClient.api(`/teams/${team.id}/channels`).get()
-          const channels = channelsResponse.value || []
+          const { items: channels } = await this.getAllPages(
+            graphClient, graphClient.api(`/teams/${team.id}/channels`), `List channels of team ${team.id}`
+          )
           
           allChannels.push(...channels.map((channel: any) => ({
             id: channel.id,
@@ -208,24 +291,164 @@ export class MicrosoftGraphService {
   }
 
   /**
-   * Get messages from a specific Teams channel
+   * Get messages from a specific Teams channel, newest first. Without a limit every page is read.
    */
-  async getChannelMessages(userId: string, teamId: string, channelId: string, limit: number = 50): Promise<TeamsMessage[]> {
+  async getChannelMessages(userId: string, teamId: string, channelId: string, limit?: number): Promise<TeamsMessage[]> {
     try {
       const graphClient = await this.getGraphClient(userId)
       
-      const messagesResponse = await graphClient
-        .api(`/teams/${teamId}/channels/${channelId}/messages`)
-        .top(limit)
-        .orderby('createdDateTime desc')
-        .get()
-
-      return messagesResponse.value || []
+      const { items } = await this.getAllPages<TeamsMessage>(
+        graphClient,
+        graphClient
+          .api(`/teams/${teamId}/channels/${channelId}/messages`)
+          .top(Math.min(limit ?? CHANNEL_MESSAGES_PAGE_SIZE, CHANNEL_MESSAGES_PAGE_SIZE))
+          .orderby('createdDateTime desc'),
+        `List messages of channel ${channelId}`,
+        limit
+      )
+
+      return items
     } catch (error) {
       throw new OAuthError(`Failed to get channel messages: ${error}`, 'GET_MESSAGES_ERROR')
     }
   }
 
+  /**
+   * Get all replies to a channel message, oldest first
+   */
+  async getMessageReplies(userId: string, teamId: string, channelId: string, messageId: string): Promise<TeamsMessage[]> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+
+      const { items } = await this.getAllPages<TeamsMessage>(
+        graphClient,
+        graphClient.api(`/teams/${teamId}/channels/${channelId}/messages/${messageId}/replies`),
+        `List replies to message ${messageId}`
+      )
+      const replies = items.filter(reply => !reply.deletedDateTime)
+
+      return replies.sort((a, b) => new Date(a.createdDateTime).getTime() - new Date(b.createdDateTime).getTime())
+    } catch (error) {
+      throw new OAuthError(`Failed to get message replies: ${error}`, 'GET_REPLIES_ERROR')
+    }
+  }
+
+  /**
+   * Get new or changed messages in a Teams channel since the given delta link.
+   * Without a delta link the full channel history is returned along with a fresh delta link.
+   */
+  async getChannelMessagesDelta(userId: string, teamId: string, channelId: string, deltaLink?: string): Promise<TeamsMessageDelta> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+
+      // Follow @odata.nextLink pages until Graph hands back the @odata.deltaLink for the next sync
+      const { items, deltaLink: newDeltaLink } = await this.getAllPages<TeamsMessage>(
+        graphClient,
+        graphClient.api(deltaLink || `/teams/${teamId}/channels/${channelId}/messages/delta`),
+        `Get message delta of channel ${channelId}`
+      )
+      // Deleted messages surface in the delta feed with deletedDateTime set
+      const messages = items.filter(message => !message.deletedDateTime)
+
+      if (!newDeltaLink) {
+        throw new OAuthError('Delta query did not return a delta link', 'MISSING_DELTA_LINK')
+      }
+
+      return { messages, deltaLink: newDeltaLink }
+    } catch (error) {
+      throw new OAuthError(`Failed to get channel message delta: ${error}`, 'GET_MESSAGES_DELTA_ERROR')
+    }
+  }
+
+  /**
+   * Get transcripts of meetings the user organized, created at or after `since` (ISO 8601)
+   */
+  async getMeetingTranscripts(userId: string, since?: string): Promise<MeetingArtifact[]> {
+    try {
+      return await this.getMeetingArtifacts(userId, 'transcript', since)
+    } catch (error) {
+      throw new OAuthError(`Failed to list meeting transcripts: ${error}`, 'GET_MEETING_TRANSCRIPTS_ERROR')
+    }
+  }
+
+  /**
+   * Get recordings of meetings the user organized, created at or after `since` (ISO 8601)
+   */
+  async getMeetingRecordings(userId: string, since?: string): Promise<MeetingArtifact[]> {
+    try {
+      return await this.getMeetingArtifacts(userId, 'recording', since)
+    } catch (error) {
+      throw new OAuthError(`Failed to list meeting recordings: ${error}`, 'GET_MEETING_RECORDINGS_ERROR')
+    }
+  }
+
+  async getOnlineMeeting(userId: string, meetingId: string): Promise<OnlineMeeting> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      return await this.graphGet<OnlineMeeting>(
+        graphClient.api(`/me/onlineMeetings/${meetingId}`).select('id,subject,startDateTime,joinWebUrl'),
+        `Get meeting ${meetingId}`
+      )
+    } catch (error) {
+      throw new OAuthError(`Failed to get meeting: ${error}`, 'GET_MEETING_ERROR')
+    }
+  }
+
+  /**
+   * Get a meeting transcript as WebVTT, with speakers in voice spans
+   */
+  async getMeetingTranscriptContent(userId: string, meetingId: string, transcriptId: string): Promise<string> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      return await this.graphGet<string>(
+        graphClient
+          .api(`/me/onlineMeetings/${meetingId}/transcripts/${transcriptId}/content`)
+          .query({ $format: 'text/vtt' })
+          .responseType(ResponseType.TEXT),
+        `Download transcript ${transcriptId}`
+      )
+    } catch (error) {
+      throw new OAuthError(`Failed to get transcript content: ${error}`, 'GET_TRANSCRIPT_CONTENT_ERROR')
+    }
+  }
+
+  /**
+   * Download a meeting recording (MP4)
+   */
+  async getMeetingRecordingContent(userId: string, meetingId: string, recordingId: string): Promise<Buffer> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      const content = await this.graphGet<ArrayBuffer>(
+        graphClient
+          .api(`/me/onlineMeetings/${meetingId}/recordings/${recordingId}/content`)
+          .responseType(ResponseType.ARRAYBUFFER),
+        `Download recording ${recordingId}`
+      )
+      return Buffer.from(content)
+    } catch (error) {
+      throw new OAuthError(`Failed to get recording content: ${error}`, 'GET_RECORDING_CONTENT_ERROR')
+    }
+  }
+
+  private async getMeetingArtifacts(
+    userId: string,
+    kind: MeetingArtifact['kind'],
+    since?: string
+  ): Promise<MeetingArtifact[]> {
+    const graphClient = await this.getGraphClient(userId)
+    const me = await this.graphGet<{ id: string }>(graphClient.api('/me').select('id'), 'Get signed-in user')
+
+    const functionName = kind === 'transcript' ? 'getAllTranscripts' : 'getAllRecordings'
+    const parameters = [`meetingOrganizerUserId='${me.id}'`, ...(since ? [`startDateTime=${since}`] : [])]
+    const { items } = await this.getAllPages<Omit<MeetingArtifact, 'kind'>>(
+      graphClient,
+      graphClient.api(`/users/${me.id}/onlineMeetings/${functionName}(${parameters.join(',')})`),
+      `List meeting ${kind}s`
+    )
+
+    return items.map(item => ({ ...item, kind }))
+  }
+
   /**
    * Get user's OneDrive files and folders
    */
@@ -237,92 +460,257 @@ export class MicrosoftGraphService {
         ? `/me/drive/items/${folderId}/children`
         : '/me/drive/root/children'
       
-      const itemsResponse = await graphClient.api(endpoint).get()
-      
-      return itemsResponse.value || []
+      const { items } = await this.getAllPages<DriveItem>(graphClient, graphClient.api(endpoint), 'List drive items')
+      return items
     } catch (error) {
       throw new OAuthError(`Failed to get drive items: ${error}`, 'GET_DRIVE_ITEMS_ERROR')
     }
   }
 
   /**
-   * Get file content from OneDrive with Azure AI Document Intelligence integration
+   * Get SharePoint sites visible to the user, optionally narrowed by a search term
    */
-  async getFileContent(userId: string, fileId: string): Promise<string> {
+  async getSharePointSites(userId: string, search?: string): Promise<SharePointSite[]> {
     try {
       const graphClient = await this.getGraphClient(userId)
-      
-      // Get file metadata first to check if it's a supported text file
-      const fileInfo = await graphClient.api(`/me/drive/items/${fileId}`).get()
-      
-      if (!fileInfo.file) {
-        throw new OAuthError('Item is not a file', 'NOT_A_FILE')
-      }
 
-      const mimeType = fileInfo.file.mimeType
-      const fileName = fileInfo.name
-
-      // Handle different file types with appropriate extraction methods
-      switch (mimeType) {
-        case 'text/plain':
-          // Direct text files
-          const textContent = await graphClient.api(`/me/drive/items/${fileId}/content`).get()
-          return textContent
-
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        case 'application/msword':
-        case 'application/pdf':
-        case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
-        case 'application/vnd.ms-excel':
-        case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
-        case 'application/vnd.ms-powerpoint':
-          // For complex documents, use Azure AI Document Intelligence
-          return await this.extractDocumentContent(graphClient, fileId, fileName, mimeType)
-
-        default:
-          throw new OAuthError(`Unsupported file type: ${mimeType}`, 'UNSUPPORTED_FILE_TYPE')
+      // search=* lists every site the user can access
+      const { items: sites } = await this.getAllPages<{ id: string; name: string; displayName?: string; webUrl: string; description?: string }>(
+        graphClient,
+        graphClient.api('/sites').query({ search: search?.trim() || '*' }),
+        'Search SharePoint sites'
+      )
+      return sites.map(site => ({
+        id: site.id,
+        displayName: site.displayName || site.name,
+        webUrl: site.webUrl,
+        description: site.description || undefined
+      }))
+    } catch (error) {
+      throw new OAuthError(`Failed to get SharePoint sites: ${error}`, 'GET_SITES_ERROR')
+    }
+  }
+
+  /**
+   * Get document libraries of a SharePoint site, or the user's own OneDrive drives when no site is given
+   */
+  async getDocumentLibraries(userId: string, siteId?: string): Promise<DocumentLibrary[]> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+
+      const endpoint = siteId ? `/sites/${siteId}/drives` : '/me/drives'
+      const { items: drives } = await this.getAllPages<{ id: string; name: string; webUrl: string; driveType: string; description?: string }>(
+        graphClient, graphClient.api(endpoint), 'List document libraries'
+      )
+      return drives.map(drive => ({
+        id: drive.id,
+        name: drive.name,
+        webUrl: drive.webUrl,
+        driveType: drive.driveType,
+        siteId,
+        description: drive.description || undefined
+      }))
+    } catch (error) {
+      throw new OAuthError(`Failed to get document libraries: ${error}`, 'GET_LIBRARIES_ERROR')
+    }
+  }
+
+  /**
+   * Get the files and folders directly inside a folder of any drive (OneDrive or SharePoint library)
+   */
+  async getDriveChildren(userId: string, driveId: string, itemId: string = 'root'): Promise<DriveItem[]> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+
+      const { items } = await this.getAllPages<DriveItem>(
+        graphClient, graphClient.api(`/drives/${driveId}/items/${itemId}/children`), `List children of drive item ${itemId}`
+      )
+      return items
+    } catch (error) {
+      throw new OAuthError(`Failed to get drive children: ${error}`, 'GET_DRIVE_ITEMS_ERROR')
+    }
+  }
+
+  /**
+   * Get a single drive item; `root` resolves to the drive's root folder
+   */
+  async getDriveItem(userId: string, driveId: string, itemId: string): Promise<DriveItem> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      return await this.graphGet<DriveItem>(graphClient.api(`/drives/${driveId}/items/${itemId}`), `Get drive item ${itemId}`)
+    } catch (error) {
+      throw new OAuthError(`Failed to get drive item: ${error}`, 'GET_DRIVE_ITEM_ERROR')
+    }
+  }
+
+  /**
+   * Get a delta link for the current state of a drive without enumerating its contents
+   */
+  async getDriveDeltaStartLink(userId: string, driveId: string): Promise<string> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      const response = await this.graphGet<GraphPage<DriveItem>>(
+        graphClient.api(`/drives/${driveId}/root/delta`).query({ token: 'latest' }),
+        `Get delta link of drive ${driveId}`
+      )
+
+      if (!response['@odata.deltaLink']) {
+        throw new OAuthError('Delta query did not return a delta link', 'MISSING_DELTA_LINK')
       }
+
+      return response['@odata.deltaLink']
     } catch (error) {
-      throw new OAuthError(`Failed to get file content: ${error}`, 'GET_FILE_CONTENT_ERROR')
+      throw new OAuthError(`Failed to get drive delta start link: ${error}`, 'GET_DRIVE_DELTA_ERROR')
     }
   }
 
   /**
-   * Extract content from complex documents using Azure AI Document Intelligence
-   * TODO: Implement Azure AI Document Intelligence integration for production
+   * Get drive items created or changed since the given delta link, along with the link for the next sync
    */
-  private async extractDocumentContent(graphClient: any, fileId: string, fileName: string, mimeType: string): Promise<string> {
+  async getDriveDelta(userId: string, deltaLink: string): Promise<DriveItemsDelta> {
     try {
-      // Get file download URL
-      const downloadInfo = await graphClient.api(`/me/drive/items/${fileId}`).get()
-      const downloadUrl = downloadInfo['@microsoft.graph.downloadUrl']
+      const graphClient = await this.getGraphClient(userId)
 
-      if (!downloadUrl) {
-        throw new Error('Unable to get download URL for document')
+      const { items: changes, deltaLink: newDeltaLink } = await this.getAllPages<DriveItem>(
+        graphClient, graphClient.api(deltaLink), 'Get drive delta'
+      )
+      // Deleted items carry a deleted facet and no content to ingest
+      const items = changes.filter(item => !item.deleted)
+
+      if (!newDeltaLink) {
+        throw new OAuthError('Delta query did not return a delta link', 'MISSING_DELTA_LINK')
       }
 
-      // TODO: For production, integrate with Azure AI Document Intelligence
-      // const documentIntelligenceClient = new DocumentAnalysisClient(endpoint, credential)
-      // const poller = await documentIntelligenceClient.beginAnalyzeDocumentFromUrl("prebuilt-document", downloadUrl)
-      // const result = await poller.pollUntilDone()
-      // return result.content || ''
+      return { items, deltaLink: newDeltaLink }
+    } catch (error) {
+      throw new OAuthError(`Failed to get drive delta: ${error}`, 'GET_DRIVE_DELTA_ERROR')
+    }
+  }
 
-      // MVP: Return metadata and basic info
-      return `[Document: ${fileName}]\n[Type: ${mimeType}]\n[Source: Microsoft OneDrive]\n[Note: Full content extraction requires Azure AI Document Intelligence integration]\n[Download URL available for processing]`
+  /**
+   * Get file content from OneDrive as Markdown, extracted in-process by the document extractor registry
+   */
+  async getFileContent(userId: string, fileId: string): Promise<string> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
       
+      // Get file metadata first to check if it's a supported file type
+      const fileInfo = await this.graphGet<DriveItem>(graphClient.api(`/me/drive/items/${fileId}`), `Get drive item ${fileId}`)
+      return await this.extractFileContent(fileInfo)
+    } catch (error) {
+      throw new OAuthError(`Failed to get file content: ${error}`, 'GET_FILE_CONTENT_ERROR')
+    }
+  }
+
+  /**
+   * Get file content from any drive (OneDrive or SharePoint library) as Markdown
+   */
+  async getDriveFileContent(userId: string, driveId: string, itemId: string): Promise<string> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      const fileInfo = await this.graphGet<DriveItem>(graphClient.api(`/drives/${driveId}/items/${itemId}`), `Get drive item ${itemId}`)
+      return await this.extractFileContent(fileInfo)
+    } catch (error) {
+      throw new OAuthError(`Failed to get file content: ${error}`, 'GET_FILE_CONTENT_ERROR')
+    }
+  }
+
+  /**
+   * Download a file from any drive as-is, for content that is transcribed rather than extracted
+   */
+  async getDriveFileMedia(userId: string, driveId: string, itemId: string): Promise<Buffer> {
+    try {
+      const graphClient = await this.getGraphClient(userId)
+      const fileInfo = await this.graphGet<DriveItem>(graphClient.api(`/drives/${driveId}/items/${itemId}`), `Get drive item ${itemId}`)
+      return await this.downloadFile(fileInfo)
     } catch (error) {
-      console.warn(`Failed to extract content from ${fileName}:`, error)
-      return `[Document: ${fileName}]\n[Type: ${mimeType}]\n[Error: Content extraction failed - ${error}]`
+      throw new OAuthError(`Failed to download file: ${error}`, 'DOWNLOAD_ERROR')
     }
   }
 
+  private async extractFileContent(fileInfo: DriveItem & { '@microsoft.graph.downloadUrl'?: string }): Promise<string> {
+    if (!fileInfo.file) {
+      throw new OAuthError('Item is not a file', 'NOT_A_FILE')
+    }
+
+    const mimeType: string = fileInfo.file.mimeType
+    const extractorRegistry = getDocumentExtractorRegistry()
+
+    if (!extractorRegistry.canExtract(mimeType)) {
+      throw new OAuthError(`Unsupported file type: ${mimeType}`, 'UNSUPPORTED_FILE_TYPE')
+    }
+
+    const content = await this.downloadFile(fileInfo)
+    const extracted = await extractorRegistry.extract(content, mimeType)
+    return extracted.text
+  }
+
+  /**
+   * Download a drive item's bytes via its pre-authenticated download URL
+   */
+  private async downloadFile(fileInfo: { name: string; '@microsoft.graph.downloadUrl'?: string }): Promise<Buffer> {
+    const downloadUrl = fileInfo['@microsoft.graph.downloadUrl']
+
+    if (!downloadUrl) {
+      throw new OAuthError(`Unable to get download URL for ${fileInfo.name}`, 'NO_DOWNLOAD_URL')
+    }
+
+    return withRetry(async () => {
+      const response = await fetch(downloadUrl)
+      if (!response.ok) {
+        throw Object.assign(
+          new OAuthError(`Failed to download ${fileInfo.name}: HTTP ${response.status}`, 'DOWNLOAD_ERROR'),
+          { status: response.status, headers: response.headers }
+        )
+      }
+
+      return Buffer.from(await response.arrayBuffer())
+    }, { operation: `Download ${fileInfo.name}` })
+  }
+
+  /**
+   * Send a GET request, retrying throttled and transient failures after the Retry-After Graph asks for
+   */
+  private graphGet<T>(request: GraphRequest, operation: string): Promise<T> {
+    return withRetry(() => request.middlewareOptions(NO_CLIENT_RETRIES).get(), { operation })
+  }
+
+  /**
+   * Read every page of a collection by following @odata.nextLink, stopping early once `limit` items
+   * are in. Delta queries also return the @odata.deltaLink from their last page.
+   */
+  private async getAllPages<T>(
+    graphClient: Client,
+    firstPage: GraphRequest,
+    operation: string,
+    limit?: number
+  ): Promise<{ items: T[]; deltaLink?: string }> {
+    const items: T[] = []
+    let request: GraphRequest | undefined = firstPage
+    let deltaLink: string | undefined
+
+    while (request && (limit === undefined || items.length < limit)) {
+      const page: GraphPage<T> = await this.graphGet(request, operation)
+      items.push(...(page.value || []))
+      deltaLink = page['@odata.deltaLink'] || deltaLink
+
+      const nextLink = page['@odata.nextLink']
+      request = nextLink ? graphClient.api(nextLink) : undefined
+    }
+
+    return { items: limit === undefined ? items : items.slice(0, limit), deltaLink }
+  }
+
   /**
    * Revoke OAuth tokens and disconnect source
    */
   async revokeTokens(userId: string): Promise<void> {
     try {
       const keyVaultService = getKeyVaultService()
-      await keyVaultService.deleteOAuthTokens(userId, 'microsoft')
+      await Promise.all([
+        keyVaultService.deleteOAuthTokens(userId, 'microsoft'),
+        keyVaultService.deleteSecret(grantedScopesSecret(userId))
+      ])
     } catch (error) {
       throw new OAuthError(`Failed to revoke tokens: ${error}`, 'REVOKE_TOKENS_ERROR')
     }
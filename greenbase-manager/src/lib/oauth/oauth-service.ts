@@ -2,13 +2,34 @@ import { getSupabaseAdmin } from '../supabase-admin'
 import { getKeyVaultService } from '../azure-keyvault'
 import { getMicrosoftGraphService } from './microsoft-graph'
 import { getGoogleDriveService } from './google-drive'
-import { ConnectedSource, OAuthTokens, OAuthError, TeamChannelMapping } from './types'
+import { getSourceConnectorRegistry } from '../connectors/connector-registry'
+import { ContainerQuery, ProviderAuthAdapter, SourceContainer } from '../connectors/types'
+import { validateDriveFilters } from '../connectors/drive-filters'
+import {
+  ConnectedSource,
+  DriveFolderSelection,
+  DriveIngestionFilters,
+  GroupingStrategy,
+  OAuthProvider,
+  OAuthError,
+  SlackChannelMapping,
+  SourceType,
+  TeamChannelMapping
+} from './types'
+
+/**
+ * The OAuth provider whose tokens a source type uses
+ */
+export function getSourceProvider(type: SourceType): OAuthProvider {
+  return getSourceConnectorRegistry().getConnector(type).provider
+}
 
 export class OAuthService {
   private supabase: any = null
   private keyVaultService = getKeyVaultService()
   private microsoftService = getMicrosoftGraphService()
   private googleService = getGoogleDriveService()
+  private connectorRegistry = getSourceConnectorRegistry()
 
   async initialize() {
     if (this.supabase) return
@@ -20,44 +41,27 @@ export class OAuthService {
   /**
    * Get OAuth authorization URL for a provider
    */
-  async getAuthUrl(provider: 'microsoft' | 'google', userId: string): Promise<string> {
-    switch (provider) {
-      case 'microsoft':
-        return await this.microsoftService.getAuthUrl(userId)
-      case 'google':
-        return await this.googleService.getAuthUrl(userId)
-      default:
-        throw new OAuthError(`Unsupported provider: ${provider}`, 'UNSUPPORTED_PROVIDER')
-    }
+  async getAuthUrl(provider: OAuthProvider, userId: string, sourceType?: SourceType): Promise<string> {
+    const adapter = this.connectorRegistry.getAuthAdapter(provider)
+    return await adapter.getAuthUrl(userId, this.resolveSourceType(adapter, sourceType))
   }
 
   /**
    * Handle OAuth callback and store connection
    */
   async handleCallback(
-    provider: 'microsoft' | 'google',
+    provider: OAuthProvider,
     code: string,
     userId: string,
-    sourceName: string
+    sourceName?: string,
+    requestedSourceType?: SourceType
   ): Promise<ConnectedSource> {
     await this.initialize()
 
-    let tokens: OAuthTokens
-    let sourceType: 'teams' | 'google_drive'
-
     // Exchange code for tokens
-    switch (provider) {
-      case 'microsoft':
-        tokens = await this.microsoftService.exchangeCodeForTokens(code, userId)
-        sourceType = 'teams'
-        break
-      case 'google':
-        tokens = await this.googleService.exchangeCodeForTokens(code, userId)
-        sourceType = 'google_drive'
-        break
-      default:
-        throw new OAuthError(`Unsupported provider: ${provider}`, 'UNSUPPORTED_PROVIDER')
-    }
+    const adapter = this.connectorRegistry.getAuthAdapter(provider)
+    const sourceType = this.resolveSourceType(adapter, requestedSourceType)
+    const tokens = await adapter.exchangeCodeForTokens(code, userId, sourceType)
 
     // SECURITY: Store tokens in Azure Key Vault ONLY - never in database
     await this.keyVaultService.storeOAuthTokens(userId, provider, tokens.accessToken, tokens.refreshToken)
@@ -68,7 +72,7 @@ export class OAuthService {
       .insert({
         user_id: userId,
         type: sourceType,
-        name: sourceName,
+        name: sourceName || this.connectorRegistry.getConnector(sourceType).displayName,
         // REMOVED: access_token and refresh_token - stored in Key Vault only
         is_active: true
       })
@@ -88,11 +92,27 @@ export class OAuthService {
       refreshToken: tokens.refreshToken, // Return for immediate use, but not stored in DB
       selectedChannels: connectedSource.selected_channels || undefined,
       selectedFolders: connectedSource.selected_folders || undefined,
+      selectedDriveFolders: connectedSource.selected_drive_folders || undefined,
       lastSyncAt: connectedSource.last_sync_at ? new Date(connectedSource.last_sync_at) : undefined,
       isActive: connectedSource.is_active
     }
   }
 
+  /**
+   * The source type an authorization connects: the one asked for, which must use the adapter's provider, or its default
+   */
+  private resolveSourceType(adapter: ProviderAuthAdapter, sourceType?: SourceType): SourceType {
+    if (!sourceType) {
+      return adapter.defaultSourceType
+    }
+
+    if (!this.connectorRegistry.hasConnector(sourceType) || this.connectorRegistry.getConnector(sourceType).provider !== adapter.provider) {
+      throw new OAuthError(`Source type ${sourceType} is not connected through ${adapter.provider}`, 'UNSUPPORTED_SOURCE_TYPE')
+    }
+
+    return sourceType
+  }
+
   /**
    * Get all connected sources for a user
    */
@@ -102,7 +122,7 @@ export class OAuthService {
     // SECURITY: Only select metadata from database - tokens are in Key Vault
     const { data: sources, error } = await this.supabase
       .from('connected_sources')
-      .select('id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, last_sync_at, is_active')
+      .select('id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, selected_drive_folders, selected_slack_channels, sync_cursors, grouping_strategy, drive_filters, last_sync_at, is_active')
       .eq('user_id', userId)
       .eq('is_active', true)
 
@@ -113,7 +133,7 @@ export class OAuthService {
     // For each source, retrieve tokens from Key Vault
     const sourcesWithTokens = await Promise.all(
       sources.map(async (source: any) => {
-        const provider = source.type === 'teams' ? 'microsoft' : 'google'
+        const provider = getSourceProvider(source.type)
         const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, provider)
 
         return {
@@ -126,6 +146,11 @@ export class OAuthService {
           selectedChannels: source.selected_channels || undefined,
           selectedFolders: source.selected_folders || undefined,
           selectedTeamChannels: source.selected_team_channels || undefined, // Team-channel mappings
+          selectedDriveFolders: source.selected_drive_folders || undefined, // OneDrive/SharePoint folders
+          selectedSlackChannels: source.selected_slack_channels || undefined, // Workspace-channel mappings
+          syncCursors: source.sync_cursors || undefined, // Incremental sync positions
+          groupingStrategy: source.grouping_strategy || undefined,
+          driveFilters: source.drive_filters || undefined,
           lastSyncAt: source.last_sync_at ? new Date(source.last_sync_at) : undefined,
           isActive: source.is_active
         }
@@ -165,9 +190,9 @@ export class OAuthService {
   }
 
   /**
-   * Get Google Drive folders for a connected Google source
+   * Get folders for a connected drive source: Google Drive, or a OneDrive/SharePoint drive when driveId is given
    */
-  async getDriveFolders(userId: string, sourceId: string, folderId?: string) {
+  async getDriveFolders(userId: string, sourceId: string, folderId?: string, driveId?: string) {
     await this.initialize()
 
     // SECURITY: Only select metadata from database - tokens are in Key Vault
@@ -176,21 +201,88 @@ export class OAuthService {
       .select('id, type, name, user_id, is_active')
       .eq('id', sourceId)
       .eq('user_id', userId)
-      .eq('type', 'google_drive')
+      .in('type', this.connectorRegistry.getSourceTypes(connector => Boolean(connector.selectsDriveFolders)))
+      .single()
+
+    if (error || !source) {
+      throw new OAuthError('Connected source not found or not a drive source', 'SOURCE_NOT_FOUND')
+    }
+
+    const provider = getSourceProvider(source.type)
+
+    // Retrieve tokens from Key Vault before calling the provider
+    const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, provider)
+
+    if (!accessToken || !refreshToken) {
+      throw new OAuthError(`No valid tokens found for ${source.type} source`, 'NO_TOKENS')
+    }
+
+    if (provider === 'google') {
+      return await this.googleService.getDriveItems(userId, folderId)
+    }
+
+    if (!driveId) {
+      throw new OAuthError('A drive id is required to browse OneDrive or SharePoint folders', 'MISSING_DRIVE_ID')
+    }
+
+    return await this.microsoftService.getDriveChildren(userId, driveId, folderId)
+  }
+
+  /**
+   * Get SharePoint sites the user can pick document libraries from
+   */
+  async getSharePointSites(userId: string, sourceId: string, search?: string) {
+    await this.assertMicrosoftDriveSource(userId, sourceId, ['sharepoint'])
+    return await this.microsoftService.getSharePointSites(userId, search)
+  }
+
+  /**
+   * Get the document libraries of a SharePoint site, or the user's OneDrive drives
+   */
+  async getDocumentLibraries(userId: string, sourceId: string, siteId?: string) {
+    const sourceType = await this.assertMicrosoftDriveSource(
+      userId,
+      sourceId,
+      this.connectorRegistry.getSourceTypes(connector => connector.provider === 'microsoft' && Boolean(connector.selectsDriveFolders))
+    )
+
+    if (sourceType === 'sharepoint' && !siteId) {
+      throw new OAuthError('A site id is required to list SharePoint document libraries', 'MISSING_SITE_ID')
+    }
+
+    return await this.microsoftService.getDocumentLibraries(userId, sourceType === 'sharepoint' ? siteId : undefined)
+  }
+
+  /**
+   * Check that a source belongs to the user, is one of the given drive types and has tokens, returning its type
+   */
+  private async assertMicrosoftDriveSource(
+    userId: string,
+    sourceId: string,
+    types: SourceType[]
+  ): Promise<SourceType> {
+    await this.initialize()
+
+    // SECURITY: Only select metadata from database - tokens are in Key Vault
+    const { data: source, error } = await this.supabase
+      .from('connected_sources')
+      .select('id, type, user_id, is_active')
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+      .in('type', types)
       .single()
 
     if (error || !source) {
-      throw new OAuthError('Connected source not found or not a Google Drive source', 'SOURCE_NOT_FOUND')
+      throw new OAuthError(`Connected source not found or not a ${types.join('/')} source`, 'SOURCE_NOT_FOUND')
     }
 
-    // Retrieve tokens from Key Vault before calling Google service
-    const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, 'google')
+    const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, 'microsoft')
 
     if (!accessToken || !refreshToken) {
-      throw new OAuthError('No valid tokens found for Google Drive source', 'NO_TOKENS')
+      throw new OAuthError(`No valid tokens found for ${source.type} source`, 'NO_TOKENS')
     }
 
-    return await this.googleService.getDriveItems(userId, folderId)
+    return source.type
   }
 
   /**
@@ -201,7 +293,9 @@ export class OAuthService {
     sourceId: string,
     selectedChannels?: string[],
     selectedFolders?: string[],
-    selectedTeamChannels?: TeamChannelMapping[]
+    selectedTeamChannels?: TeamChannelMapping[],
+    selectedDriveFolders?: DriveFolderSelection[],
+    selectedSlackChannels?: SlackChannelMapping[]
   ): Promise<void> {
     await this.initialize()
 
@@ -215,6 +309,12 @@ export class OAuthService {
     if (selectedTeamChannels !== undefined) {
       updateData.selected_team_channels = selectedTeamChannels
     }
+    if (selectedDriveFolders !== undefined) {
+      updateData.selected_drive_folders = selectedDriveFolders
+    }
+    if (selectedSlackChannels !== undefined) {
+      updateData.selected_slack_channels = selectedSlackChannels
+    }
 
     const { error } = await this.supabase
       .from('connected_sources')
@@ -228,7 +328,62 @@ export class OAuthService {
   }
 
   /**
-   * Disconnect and revoke a source
+   * Choose how new content from a source is grouped into drafts
+   */
+  async updateGroupingStrategy(userId: string, sourceId: string, strategy: GroupingStrategy): Promise<void> {
+    await this.initialize()
+
+    if (strategy !== 'semantic' && strategy !== 'time_window') {
+      throw new OAuthError('Grouping strategy must be "semantic" or "time_window"', 'INVALID_GROUPING_STRATEGY')
+    }
+
+    const { data, error } = await this.supabase
+      .from('connected_sources')
+      .update({ grouping_strategy: strategy })
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      throw new OAuthError(`Failed to update grouping strategy: ${error.message}`, 'DATABASE_ERROR')
+    }
+
+    if (!data || data.length === 0) {
+      throw new OAuthError('Connected source not found', 'SOURCE_NOT_FOUND')
+    }
+  }
+
+  /**
+   * Set which files of a Google Drive source are ingested
+   */
+  async updateDriveFilters(userId: string, sourceId: string, filters: DriveIngestionFilters): Promise<void> {
+    await this.initialize()
+
+    try {
+      validateDriveFilters(filters)
+    } catch (error) {
+      throw new OAuthError(error instanceof Error ? error.message : 'Invalid drive filters', 'INVALID_DRIVE_FILTERS', error)
+    }
+
+    const { data, error } = await this.supabase
+      .from('connected_sources')
+      .update({ drive_filters: filters })
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+      .eq('type', 'google_drive')
+      .select('id')
+
+    if (error) {
+      throw new OAuthError(`Failed to update drive filters: ${error.message}`, 'DATABASE_ERROR')
+    }
+
+    if (!data || data.length === 0) {
+      throw new OAuthError('Google Drive source not found', 'SOURCE_NOT_FOUND')
+    }
+  }
+
+  /**
+   * Disconnect a source, revoking the provider tokens once no other active source of the user needs them
    */
   async disconnectSource(userId: string, sourceId: string): Promise<void> {
     await this.initialize()
@@ -245,18 +400,38 @@ export class OAuthService {
       throw new OAuthError('Connected source not found', 'SOURCE_NOT_FOUND')
     }
 
-    const provider = source.type === 'teams' ? 'microsoft' : 'google'
+    // Mark source as inactive in database first, so a concurrent disconnect sees it as gone
+    const { error: updateError } = await this.supabase
+      .from('connected_sources')
+      .update({ is_active: false })
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+
+    if (updateError) {
+      throw new OAuthError(`Failed to disconnect source: ${updateError.message}`, 'DATABASE_ERROR')
+    }
+
+    // Every source of a provider shares the user's tokens, so they are only revoked with the last one
+    const provider = getSourceProvider(source.type)
+    const { data: remaining, error: remainingError } = await this.supabase
+      .from('connected_sources')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .in('type', this.connectorRegistry.getSourceTypes(connector => connector.provider === provider))
+      .limit(1)
+
+    if (remainingError) {
+      throw new OAuthError(`Failed to check other ${provider} sources: ${remainingError.message}`, 'DATABASE_ERROR')
+    }
+
+    if (remaining && remaining.length > 0) {
+      return
+    }
 
     // Revoke tokens with the provider
     try {
-      switch (source.type) {
-        case 'teams':
-          await this.microsoftService.revokeTokens(userId)
-          break
-        case 'google_drive':
-          await this.googleService.revokeTokens(userId)
-          break
-      }
+      await this.connectorRegistry.getAuthAdapter(provider).revokeTokens(userId)
     } catch (error) {
       console.warn(`Failed to revoke tokens for ${source.type}:`, error)
       // Continue with cleanup even if token revocation fails
@@ -267,18 +442,6 @@ export class OAuthService {
       await this.keyVaultService.deleteOAuthTokens(userId, provider)
     } catch (error) {
       console.warn(`Failed to delete tokens from Key Vault for ${provider}:`, error)
-      // Continue with database cleanup even if Key Vault deletion fails
-    }
-
-    // Mark source as inactive in database
-    const { error: updateError } = await this.supabase
-      .from('connected_sources')
-      .update({ is_active: false })
-      .eq('id', sourceId)
-      .eq('user_id', userId)
-
-    if (updateError) {
-      throw new OAuthError(`Failed to disconnect source: ${updateError.message}`, 'DATABASE_ERROR')
     }
   }
 
@@ -300,20 +463,10 @@ export class OAuthService {
       throw new OAuthError('Connected source not found', 'SOURCE_NOT_FOUND')
     }
 
-    const provider = source.type === 'teams' ? 'microsoft' : 'google'
+    const provider = getSourceProvider(source.type)
 
     // Refresh tokens with the provider
-    let tokens: OAuthTokens
-    switch (source.type) {
-      case 'teams':
-        tokens = await this.microsoftService.refreshTokens(userId)
-        break
-      case 'google_drive':
-        tokens = await this.googleService.refreshTokens(userId)
-        break
-      default:
-        throw new OAuthError(`Unsupported source type: ${source.type}`, 'UNSUPPORTED_SOURCE_TYPE')
-    }
+    const tokens = await this.connectorRegistry.getAuthAdapter(provider).refreshTokens(userId)
 
     // SECURITY: Update tokens in Azure Key Vault ONLY - never in database
     await this.keyVaultService.storeOAuthTokens(userId, provider, tokens.accessToken, tokens.refreshToken)
@@ -328,7 +481,7 @@ export class OAuthService {
     // SECURITY: Only select metadata from database - tokens are in Key Vault
     const { data: source, error } = await this.supabase
       .from('connected_sources')
-      .select('id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, is_active')
+      .select('id, type, name, user_id, selected_channels, selected_folders, selected_team_channels, selected_drive_folders, selected_slack_channels, is_active')
       .eq('id', sourceId)
       .eq('user_id', userId)
       .eq('is_active', true)
@@ -338,7 +491,7 @@ export class OAuthService {
       throw new OAuthError('Connected source not found or inactive', 'SOURCE_NOT_FOUND')
     }
 
-    const provider = source.type === 'teams' ? 'microsoft' : 'google'
+    const provider = getSourceProvider(source.type)
 
     // Retrieve tokens from Key Vault before accessing external services
     const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, provider)
@@ -347,46 +500,59 @@ export class OAuthService {
       throw new OAuthError(`No valid tokens found for ${source.type} source`, 'NO_TOKENS')
     }
 
-    switch (source.type) {
-      case 'teams':
-        // Get messages from selected team-channels (with proper teamId mapping)
-        const teamChannels = source.selected_team_channels || []
-        const allMessages = []
-
-        for (const teamChannel of teamChannels) {
-          try {
-            const messages = await this.microsoftService.getChannelMessages(
-              userId, 
-              teamChannel.teamId, 
-              teamChannel.channelId
-            )
-            allMessages.push(...messages)
-          } catch (error) {
-            console.warn(`Failed to get messages from channel ${teamChannel.displayName}:`, error)
-          }
-        }
+    // Everything currently in the selected containers, ignoring sync cursors
+    const connector = getSourceConnectorRegistry().getConnector(source.type)
+    const connectorSource = {
+      id: source.id,
+      type: source.type,
+      userId,
+      selectedChannels: source.selected_channels || undefined,
+      selectedFolders: source.selected_folders || undefined,
+      selectedTeamChannels: source.selected_team_channels || undefined,
+      selectedDriveFolders: source.selected_drive_folders || undefined,
+      selectedSlackChannels: source.selected_slack_channels || undefined
+    }
+    const allItems: unknown[] = []
+
+    for (const selection of connector.getSelections(connectorSource)) {
+      try {
+        const { items } = await connector.fetchItems(connectorSource, selection)
+        allItems.push(...items)
+      } catch (error) {
+        console.warn(`Failed to get items from ${connector.describeSelection(selection)}:`, error)
+      }
+    }
+
+    return allItems
+  }
 
-        return allMessages
+  /**
+   * List the channels, folders, sites or libraries a user can browse or select for a source
+   */
+  async getSourceContainers(userId: string, sourceId: string, query: ContainerQuery = {}): Promise<SourceContainer[]> {
+    await this.initialize()
 
-      case 'google_drive':
-        // Get files from selected folders
-        const folders = source.selected_folders || []
-        const allFiles = []
+    // SECURITY: Only select metadata from database - tokens are in Key Vault
+    const { data: source, error } = await this.supabase
+      .from('connected_sources')
+      .select('id, type, name, user_id, is_active')
+      .eq('id', sourceId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single()
 
-        for (const folderId of folders) {
-          try {
-            const files = await this.googleService.getDriveItems(userId, folderId)
-            allFiles.push(...files)
-          } catch (error) {
-            console.warn(`Failed to get files from folder ${folderId}:`, error)
-          }
-        }
+    if (error || !source) {
+      throw new OAuthError('Connected source not found or inactive', 'SOURCE_NOT_FOUND')
+    }
 
-        return allFiles
+    const connector = getSourceConnectorRegistry().getConnector(source.type)
+    const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, connector.provider)
 
-      default:
-        throw new OAuthError(`Unsupported source type: ${source.type}`, 'UNSUPPORTED_SOURCE_TYPE')
+    if (!accessToken || !refreshToken) {
+      throw new OAuthError(`No valid tokens found for ${source.type} source`, 'NO_TOKENS')
     }
+
+    return await connector.listContainers(userId, query)
   }
 }
 
@@ -0,0 +1,410 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { getConfigService, AppConfig } from '../config'
+import { getKeyVaultService } from '../azure-keyvault'
+import { OAuthTokens, SlackChannel, SlackMessage, SlackWorkspace, OAuthError } from './types'
+
+// User token scopes: read the public and private channels the installing user is a member of
+const SLACK_USER_SCOPES = ['channels:read', 'channels:history', 'groups:read', 'groups:history', 'users:read', 'team:read']
+
+// Slack user tokens only expire when token rotation is enabled for the app; without rotation
+// there is no refresh token, so this placeholder is stored instead (as MSAL does for Microsoft)
+const NON_ROTATING_REFRESH_TOKEN = 'slack_no_rotation'
+
+// Expiry reported for tokens that never expire
+const NON_EXPIRING = new Date('9999-12-31T00:00:00Z')
+
+const MAX_RATE_LIMIT_RETRIES = 3
+
+// How long an install may take between leaving for Slack and returning to the callback
+const AUTH_STATE_TTL_MS = 10 * 60 * 1000
+
+interface SlackApiResponse {
+  ok: boolean
+  error?: string
+  response_metadata?: { next_cursor?: string }
+}
+
+interface SlackRawChannel {
+  id: string
+  name: string
+  is_private?: boolean
+  is_archived?: boolean
+  is_member?: boolean
+  topic?: { value?: string }
+  purpose?: { value?: string }
+  num_members?: number
+}
+
+interface SlackRawUser {
+  name?: string
+  real_name?: string
+  profile?: { display_name?: string; real_name?: string }
+}
+
+interface SlackTokenResponse extends SlackApiResponse {
+  authed_user?: {
+    id: string
+    access_token?: string
+    refresh_token?: string
+    expires_in?: number
+    scope?: string
+  }
+  team?: { id: string; name: string }
+}
+
+export class SlackService {
+  private config: AppConfig | null = null
+  private keyVaultService = getKeyVaultService()
+  // Slack user id -> display name, per workspace
+  private userNameCache = new Map<string, Map<string, string>>()
+
+  async initialize() {
+    if (this.config) return
+
+    const configService = getConfigService()
+    this.config = await configService.getConfig()
+  }
+
+  /**
+   * Web API base URL; overridable so tests can run against a local fake Slack server
+   */
+  private get apiBaseUrl(): string {
+    return (process.env.SLACK_API_BASE_URL || 'https://slack.com/api').replace(/\/$/, '')
+  }
+
+  /**
+   * Generate OAuth authorization URL for a Slack workspace install
+   */
+  async getAuthUrl(userId: string, scopes: string[] = SLACK_USER_SCOPES): Promise<string> {
+    await this.initialize()
+
+    const params = new URLSearchParams({
+      client_id: this.config!.oauth.slack.clientId,
+      user_scope: scopes.join(','),
+      redirect_uri: `${process.env.NEXTAUTH_URL}/api/oauth/slack/callback`,
+      state: this.signAuthState(userId)
+    })
+
+    return `https://slack.com/oauth/v2/authorize?${params}`
+  }
+
+  /**
+   * Check the state Slack returned to the callback and return the user who started the install
+   */
+  async verifyAuthState(state: string): Promise<string> {
+    await this.initialize()
+
+    const [payload, signature] = state.split('.')
+    const expected = payload ? this.authStateSignature(payload) : ''
+    if (!signature || signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new OAuthError('Invalid Slack OAuth state', 'INVALID_STATE')
+    }
+
+    const { userId, issuedAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof userId !== 'string' || typeof issuedAt !== 'number' || Date.now() - issuedAt > AUTH_STATE_TTL_MS) {
+      throw new OAuthError('Slack OAuth state has expired', 'INVALID_STATE')
+    }
+
+    return userId
+  }
+
+  /**
+   * State for the install: the userId with a nonce and issue time, signed with the client secret
+   */
+  private signAuthState(userId: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      userId,
+      nonce: randomBytes(16).toString('base64url'),
+      issuedAt: Date.now()
+    })).toString('base64url')
+    return `${payload}.${this.authStateSignature(payload)}`
+  }
+
+  private authStateSignature(payload: string): string {
+    return createHmac('sha256', this.config!.oauth.slack.clientSecret).update(payload).digest('base64url')
+  }
+
+  /**
+   * Exchange authorization code for a user token
+   */
+  async exchangeCodeForTokens(code: string, userId: string): Promise<OAuthTokens> {
+    await this.initialize()
+
+    try {
+      const response = await this.postForm<SlackTokenResponse>('oauth.v2.access', {
+        client_id: this.config!.oauth.slack.clientId,
+        client_secret: this.config!.oauth.slack.clientSecret,
+        code,
+        redirect_uri: `${process.env.NEXTAUTH_URL}/api/oauth/slack/callback`
+      })
+
+      const tokens = this.toOAuthTokens(response)
+
+      // Store tokens securely in Azure Key Vault
+      await this.keyVaultService.storeOAuthTokens(userId, 'slack', tokens.accessToken, tokens.refreshToken)
+
+      return tokens
+    } catch (error) {
+      throw new OAuthError(`Failed to exchange code for tokens: ${error}`, 'TOKEN_EXCHANGE_ERROR')
+    }
+  }
+
+  /**
+   * Refresh a rotating user token. Non-rotating tokens never expire and are returned as stored.
+   */
+  async refreshTokens(userId: string): Promise<OAuthTokens> {
+    await this.initialize()
+
+    const { accessToken, refreshToken } = await this.keyVaultService.getOAuthTokens(userId, 'slack')
+
+    if (!accessToken || !refreshToken) {
+      throw new OAuthError('No tokens found for user', 'NO_TOKENS')
+    }
+
+    if (refreshToken === NON_ROTATING_REFRESH_TOKEN) {
+      return { accessToken, refreshToken, expiresAt: NON_EXPIRING, scopes: SLACK_USER_SCOPES }
+    }
+
+    try {
+      const response = await this.postForm<SlackTokenResponse>('oauth.v2.access', {
+        client_id: this.config!.oauth.slack.clientId,
+        client_secret: this.config!.oauth.slack.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken
+      })
+
+      const tokens = this.toOAuthTokens(response)
+      await this.keyVaultService.storeOAuthTokens(userId, 'slack', tokens.accessToken, tokens.refreshToken)
+
+      return tokens
+    } catch (error) {
+      throw new OAuthError(`Failed to refresh tokens: ${error}`, 'REFRESH_TOKEN_ERROR')
+    }
+  }
+
+  /**
+   * Get the workspace the user's token belongs to
+   */
+  async getWorkspace(userId: string): Promise<SlackWorkspace> {
+    try {
+      const response = await this.callApi<SlackApiResponse & { team_id: string; team: string; url: string }>(userId, 'auth.test')
+      return { teamId: response.team_id, name: response.team, url: response.url }
+    } catch (error) {
+      throw new OAuthError(`Failed to get Slack workspace: ${error}`, 'GET_WORKSPACE_ERROR')
+    }
+  }
+
+  /**
+   * Get the public and private channels the user is a member of
+   */
+  async getChannels(userId: string): Promise<SlackChannel[]> {
+    try {
+      const channels: SlackChannel[] = []
+      let cursor: string | undefined
+
+      do {
+        const response = await this.callApi<SlackApiResponse & { channels: SlackRawChannel[] }>(userId, 'conversations.list', {
+          types: 'public_channel,private_channel',
+          exclude_archived: 'true',
+          limit: '200',
+          cursor
+        })
+
+        for (const channel of response.channels || []) {
+          if (channel.is_member === false) continue
+          channels.push({
+            id: channel.id,
+            name: channel.name,
+            isPrivate: Boolean(channel.is_private),
+            isArchived: Boolean(channel.is_archived),
+            topic: channel.topic?.value || undefined,
+            purpose: channel.purpose?.value || undefined,
+            memberCount: channel.num_members
+          })
+        }
+
+        cursor = response.response_metadata?.next_cursor || undefined
+      } while (cursor)
+
+      return channels
+    } catch (error) {
+      throw new OAuthError(`Failed to get Slack channels: ${error}`, 'GET_CHANNELS_ERROR')
+    }
+  }
+
+  /**
+   * Get top-level channel messages, oldest first, optionally only those newer than `oldest` (a message ts)
+   */
+  async getChannelHistory(userId: string, channelId: string, oldest?: string): Promise<SlackMessage[]> {
+    try {
+      const messages: SlackMessage[] = []
+      let cursor: string | undefined
+
+      do {
+        const response = await this.callApi<SlackApiResponse & { messages: SlackMessage[] }>(userId, 'conversations.history', {
+          channel: channelId,
+          limit: '200',
+          oldest,
+          cursor
+        })
+
+        messages.push(...(response.messages || []))
+        cursor = response.response_metadata?.next_cursor || undefined
+      } while (cursor)
+
+      return messages.sort((a, b) => Number(a.ts) - Number(b.ts))
+    } catch (error) {
+      throw new OAuthError(`Failed to get channel history: ${error}`, 'GET_MESSAGES_ERROR')
+    }
+  }
+
+  /**
+   * Get all replies in a thread, oldest first, without the root message
+   */
+  async getThreadReplies(userId: string, channelId: string, threadTs: string): Promise<SlackMessage[]> {
+    try {
+      const replies: SlackMessage[] = []
+      let cursor: string | undefined
+
+      do {
+        const response = await this.callApi<SlackApiResponse & { messages: SlackMessage[] }>(userId, 'conversations.replies', {
+          channel: channelId,
+          ts: threadTs,
+          limit: '200',
+          cursor
+        })
+
+        // conversations.replies always includes the root message on every page
+        replies.push(...(response.messages || []).filter(message => message.ts !== threadTs))
+        cursor = response.response_metadata?.next_cursor || undefined
+      } while (cursor)
+
+      return replies.sort((a, b) => Number(a.ts) - Number(b.ts))
+    } catch (error) {
+      throw new OAuthError(`Failed to get thread replies: ${error}`, 'GET_REPLIES_ERROR')
+    }
+  }
+
+  /**
+   * Resolve Slack user ids to display names, caching lookups per workspace
+   */
+  async getUserNames(userId: string, teamId: string, slackUserIds: string[]): Promise<Map<string, string>> {
+    const cache = this.userNameCache.get(teamId) || new Map<string, string>()
+    this.userNameCache.set(teamId, cache)
+
+    for (const slackUserId of new Set(slackUserIds)) {
+      if (cache.has(slackUserId)) continue
+
+      try {
+        const response = await this.callApi<SlackApiResponse & { user: SlackRawUser }>(userId, 'users.info', { user: slackUserId })
+        const profile = response.user.profile || {}
+        cache.set(slackUserId, profile.display_name || profile.real_name || response.user.real_name || response.user.name || slackUserId)
+      } catch (error) {
+        // Deleted or external users can't always be looked up; fall back to the raw id
+        console.warn(`Failed to resolve Slack user ${slackUserId}:`, error)
+        cache.set(slackUserId, slackUserId)
+      }
+    }
+
+    return new Map(slackUserIds.map(id => [id, cache.get(id)!]))
+  }
+
+  /**
+   * Revoke OAuth tokens and disconnect source
+   */
+  async revokeTokens(userId: string): Promise<void> {
+    try {
+      const { accessToken } = await this.keyVaultService.getOAuthTokens(userId, 'slack')
+
+      if (accessToken) {
+        await this.callApi(userId, 'auth.revoke')
+      }
+
+      await this.keyVaultService.deleteOAuthTokens(userId, 'slack')
+    } catch (error) {
+      throw new OAuthError(`Failed to revoke tokens: ${error}`, 'REVOKE_TOKENS_ERROR')
+    }
+  }
+
+  /**
+   * Call a Web API method with the user's token, retrying when Slack rate limits the request
+   */
+  private async callApi<T extends SlackApiResponse>(
+    userId: string,
+    method: string,
+    params: Record<string, string | undefined> = {}
+  ): Promise<T> {
+    const { accessToken } = await this.keyVaultService.getOAuthTokens(userId, 'slack')
+
+    if (!accessToken) {
+      throw new OAuthError('No access token found for user', 'NO_ACCESS_TOKEN')
+    }
+
+    const query = new URLSearchParams()
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) query.set(key, value)
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.apiBaseUrl}/${method}?${query}`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      })
+
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterSeconds = Number(response.headers.get('retry-after')) || 1
+        await new Promise(resolve => setTimeout(resolve, retryAfterSeconds * 1000))
+        continue
+      }
+
+      return await this.parseResponse<T>(method, response)
+    }
+  }
+
+  private async postForm<T extends SlackApiResponse>(method: string, form: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.apiBaseUrl}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(form)
+    })
+
+    return await this.parseResponse<T>(method, response)
+  }
+
+  private async parseResponse<T extends SlackApiResponse>(method: string, response: Response): Promise<T> {
+    if (!response.ok) {
+      throw new OAuthError(`Slack ${method} failed: HTTP ${response.status}`, 'SLACK_API_ERROR')
+    }
+
+    // Slack reports most failures as HTTP 200 with ok: false
+    const body = await response.json() as T
+    if (!body.ok) {
+      throw new OAuthError(`Slack ${method} failed: ${body.error || 'unknown_error'}`, 'SLACK_API_ERROR')
+    }
+
+    return body
+  }
+
+  private toOAuthTokens(response: SlackTokenResponse): OAuthTokens {
+    const user = response.authed_user
+    if (!user?.access_token) {
+      throw new OAuthError('Invalid token response from Slack', 'INVALID_TOKEN_RESPONSE')
+    }
+
+    return {
+      accessToken: user.access_token,
+      refreshToken: user.refresh_token || NON_ROTATING_REFRESH_TOKEN,
+      expiresAt: user.expires_in ? new Date(Date.now() + user.expires_in * 1000) : NON_EXPIRING,
+      scopes: user.scope?.split(',') || SLACK_USER_SCOPES
+    }
+  }
+}
+
+// Singleton instance
+let slackService: SlackService | null = null
+
+export function getSlackService(): SlackService {
+  if (!slackService) {
+    slackService = new SlackService()
+  }
+  return slackService
+}
@@ -1,4 +1,11 @@
-export type OAuthProvider = 'microsoft' | 'google'
+export type OAuthProvider = 'microsoft' | 'google' | 'slack'
+
+// 'upload' (files or pasted text) and 'email' (uploaded mailbox exports) are added by hand;
+// they have no connector or connected source
+export type SourceType = 'teams' | 'teams_meetings' | 'google_drive' | 'onedrive' | 'sharepoint' | 'slack' | 'upload' | 'email'
+
+// Source types connected through a Microsoft account
+export type MicrosoftSourceType = 'teams' | 'teams_meetings' | 'onedrive' | 'sharepoint'
 
 export interface OAuthTokens {
   accessToken: string
@@ -9,7 +16,7 @@ export interface OAuthTokens {
 
 export interface ConnectedSource {
   id: string
-  type: 'teams' | 'google_drive'
+  type: SourceType
   name: string
   userId: string
   accessToken: string
@@ -17,16 +24,70 @@ export interface ConnectedSource {
   selectedChannels?: string[]
   selectedFolders?: string[]
   selectedTeamChannels?: TeamChannelMapping[]
+  selectedDriveFolders?: DriveFolderSelection[]
+  selectedSlackChannels?: SlackChannelMapping[]
+  syncCursors?: SyncCursors
+  syncSchedule?: SyncSchedule
+  syncPaused?: boolean
+  groupingStrategy?: GroupingStrategy
+  driveFilters?: DriveIngestionFilters
   lastSyncAt?: Date
   isActive: boolean
 }
 
+// Incremental sync positions, persisted in connected_sources.sync_cursors.
+// Each connector keeps its per-selection cursors under its own namespace.
+export type SyncCursors = {
+  teamsChannels?: Record<string, string> // "teamId/channelId" -> Graph @odata.deltaLink
+  driveFolders?: Record<string, string> // folderId -> Drive changes page token
+  oneDriveFolders?: Record<string, string> // "driveId/itemId" -> Graph drive @odata.deltaLink
+  slackChannels?: Record<string, string> // "teamId/channelId" -> ts of the newest message seen
+  teamsMeetings?: Record<string, string> // "organized" -> createdDateTime of the newest transcript or recording seen
+  [namespace: string]: Record<string, string> | undefined
+}
+
+// Background sync cadence, persisted in connected_sources.sync_schedule
+export type SyncSchedule =
+  | { type: 'interval'; intervalMinutes: number; jitterSeconds?: number }
+  | { type: 'cron'; expression: string; jitterSeconds?: number } // Evaluated in UTC
+
+// How new content from a source is grouped into drafts, persisted in connected_sources.grouping_strategy
+export type GroupingStrategy = 'semantic' | 'time_window'
+
+// Which files under a Google Drive source's folders are ingested, persisted in connected_sources.drive_filters
+export interface DriveIngestionFilters {
+  // Folder levels below each selected folder to descend into; 0 reads only the files directly inside it
+  maxDepth?: number
+  // Globs on the file name, or on the path below the selected folder when they contain a slash
+  includePatterns?: string[]
+  excludePatterns?: string[]
+  // Allowed MIME types; `type/*` allows a whole family
+  mimeTypes?: string[]
+  maxFileSizeBytes?: number
+  // ISO 8601; files last modified before this are skipped
+  modifiedSince?: string
+}
+
 export interface TeamChannelMapping {
   teamId: string
   channelId: string
   displayName: string
 }
 
+// A folder picked for ingestion from OneDrive or a SharePoint document library
+export interface DriveFolderSelection {
+  driveId: string
+  itemId: string // 'root' selects the whole drive or library
+  siteId?: string // Set for SharePoint document libraries
+  displayName: string
+}
+
+export interface SlackChannelMapping {
+  teamId: string // Slack workspace id
+  channelId: string
+  displayName: string
+}
+
 export interface TeamsChannel {
   id: string
   teamId: string
@@ -37,6 +98,8 @@ export interface TeamsChannel {
 
 export interface TeamsMessage {
   id: string
+  // 'message' for user content; 'systemEventMessage' etc. for member joins, renames and other events
+  messageType?: string
   createdDateTime: string
   body: {
     content: string
@@ -48,6 +111,72 @@ export interface TeamsMessage {
       id: string
     }
   }
+  lastModifiedDateTime?: string
+  deletedDateTime?: string | null
+  // Set on replies; null or absent on the root message of a thread
+  replyToId?: string | null
+  webUrl?: string
+  mentions?: TeamsMessageMention[]
+  reactions?: TeamsMessageReaction[]
+  attachments?: TeamsMessageAttachment[]
+}
+
+export interface TeamsMessageMention {
+  id: number
+  mentionText: string
+  mentioned: {
+    user?: {
+      displayName: string
+      id: string
+    }
+  }
+}
+
+export interface TeamsMessageReaction {
+  reactionType: string
+  createdDateTime: string
+  user: {
+    user?: {
+      displayName?: string
+      id: string
+    }
+  }
+}
+
+export interface TeamsMessageAttachment {
+  id: string
+  contentType: string
+  contentUrl?: string | null
+  content?: string | null
+  name?: string | null
+}
+
+export interface TeamsThread {
+  root: TeamsMessage
+  replies: TeamsMessage[]
+}
+
+export interface TeamsMessageDelta {
+  messages: TeamsMessage[]
+  deltaLink: string
+}
+
+// A transcript or recording of a Teams online meeting (Graph callTranscript / callRecording)
+export interface MeetingArtifact {
+  id: string
+  kind: 'transcript' | 'recording'
+  meetingId: string
+  // Shared by the transcript and the recording of the same call
+  contentCorrelationId?: string
+  createdDateTime: string
+  endDateTime?: string
+}
+
+export interface OnlineMeeting {
+  id: string
+  subject?: string
+  startDateTime?: string
+  joinWebUrl?: string
 }
 
 export interface DriveItem {
@@ -63,6 +192,87 @@ export interface DriveItem {
   createdDateTime: string
   lastModifiedDateTime: string
   size?: number
+  parents?: string[]
+  // Length of audio and video files in milliseconds, when the provider reports it (Google Drive only for video)
+  audio?: {
+    duration?: number
+  }
+  video?: {
+    duration?: number
+  }
+  // Microsoft Graph only: the containing drive and folder, and a marker on items removed since the last delta
+  parentReference?: {
+    driveId?: string
+    id?: string
+  }
+  deleted?: {
+    state?: string
+  }
+}
+
+export interface DriveItemsDelta {
+  items: DriveItem[]
+  deltaLink: string
+}
+
+export interface SharePointSite {
+  id: string
+  displayName: string
+  webUrl: string
+  description?: string
+}
+
+// A OneDrive or SharePoint document library (a Graph drive)
+export interface DocumentLibrary {
+  id: string
+  name: string
+  webUrl: string
+  driveType: string
+  siteId?: string
+  description?: string
+}
+
+export interface DriveChanges {
+  items: DriveItem[]
+  newStartPageToken: string
+}
+
+export interface SlackWorkspace {
+  teamId: string
+  name: string
+  url: string // e.g. https://acme.slack.com/
+}
+
+export interface SlackChannel {
+  id: string
+  name: string
+  isPrivate: boolean
+  isArchived: boolean
+  topic?: string
+  purpose?: string
+  memberCount?: number
+}
+
+export interface SlackMessage {
+  ts: string
+  // Absent for ordinary user messages; 'channel_join', 'bot_message' etc. for events and integrations
+  subtype?: string
+  text: string
+  user?: string
+  username?: string
+  bot_id?: string
+  // Set on thread roots and replies; equal to ts on the root
+  thread_ts?: string
+  reply_count?: number
+  latest_reply?: string
+  edited?: { user: string; ts: string }
+  reactions?: Array<{ name: string; count: number; users: string[] }>
+  files?: Array<{ id: string; name?: string; title?: string; permalink?: string }>
+}
+
+export interface SlackThread {
+  root: SlackMessage
+  replies: SlackMessage[]
 }
 
 export class OAuthError extends Error {
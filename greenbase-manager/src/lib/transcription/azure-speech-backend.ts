@@ -0,0 +1,84 @@
+import { getConfigService } from '../config'
+import { withRetry } from '../http'
+import { Transcript, TranscriptionBackend, TranscriptionError, TranscriptionOptions } from './types'
+
+const FAST_TRANSCRIPTION_API_VERSION = '2024-11-15'
+const DEFAULT_MAX_SPEAKERS = 10
+
+interface FastTranscriptionPhrase {
+  speaker?: number
+  offsetMilliseconds: number
+  durationMilliseconds: number
+  text: string
+  locale?: string
+}
+
+interface FastTranscriptionResponse {
+  durationMilliseconds?: number
+  phrases?: FastTranscriptionPhrase[]
+}
+
+/**
+ * Azure AI Speech fast transcription, with diarization so each phrase carries a speaker.
+ * Uses the Speech resource from `azure.speech` in the app config.
+ */
+export class AzureSpeechTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'azure-speech'
+
+  private speechConfig: { key: string; region: string } | null = null
+
+  private async getSpeechConfig(): Promise<{ key: string; region: string }> {
+    if (!this.speechConfig) {
+      const config = await getConfigService().getConfig()
+      if (!config.azure.speech.key || !config.azure.speech.region) {
+        throw new TranscriptionError('Azure Speech key and region are not configured', 'NOT_CONFIGURED')
+      }
+      this.speechConfig = config.azure.speech
+    }
+    return this.speechConfig
+  }
+
+  async transcribe(media: Buffer, mimeType: string, options: TranscriptionOptions = {}): Promise<Transcript> {
+    const { key, region } = await this.getSpeechConfig()
+    const url = `https://${region}.api.cognitive.microsoft.com/speechtotext/transcriptions:transcribe?api-version=${FAST_TRANSCRIPTION_API_VERSION}`
+    const definition = {
+      locales: options.locales,
+      diarization: { enabled: true, maxSpeakers: options.maxSpeakers ?? DEFAULT_MAX_SPEAKERS }
+    }
+
+    const result = await withRetry(async () => {
+      // The form is rebuilt for every attempt; a sent body cannot be read again
+      const form = new FormData()
+      form.append('audio', new Blob([new Uint8Array(media)], { type: mimeType }), 'media')
+      form.append('definition', JSON.stringify(definition))
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Ocp-Apim-Subscription-Key': key },
+        body: form
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        throw Object.assign(
+          new TranscriptionError(`Speech transcription failed: HTTP ${response.status} ${detail}`.trim(), 'TRANSCRIPTION_FAILED'),
+          { status: response.status, headers: response.headers }
+        )
+      }
+
+      return await response.json() as FastTranscriptionResponse
+    }, { operation: 'Transcribe recording' })
+
+    const phrases = result.phrases || []
+    return {
+      segments: phrases.map(phrase => ({
+        speaker: phrase.speaker !== undefined ? `Speaker ${phrase.speaker}` : undefined,
+        startMs: phrase.offsetMilliseconds,
+        endMs: phrase.offsetMilliseconds + phrase.durationMilliseconds,
+        text: phrase.text
+      })),
+      durationMs: result.durationMilliseconds,
+      locale: phrases.find(phrase => phrase.locale)?.locale
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Transcript, TranscriptionBackend, TranscriptSegment } from './types'
+
+const SCRIPT_LINE_PATTERN = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\]\s*(?:([^:]+):\s*)?(.+)$/
+// Speaking pace used to end the last line of a script
+const MS_PER_WORD = 400
+
+/**
+ * Offline stand-in for the Speech service, for local development and tests. The "recording" is a
+ * UTF-8 script with one line per segment:
+ *
+ *   [00:00:05] Ada Lovelace: Shall we ship on Friday?
+ *   [00:00:09] Charles Babbage: Only if the migration is done.
+ *
+ * Anything that is not a script, such as real audio, becomes one segment naming its size.
+ */
+export class FakeTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'fake'
+
+  async transcribe(media: Buffer, mimeType: string): Promise<Transcript> {
+    const lines = media.toString('utf8').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    const parsed = lines.map(line => line.match(SCRIPT_LINE_PATTERN))
+
+    if (parsed.length === 0 || parsed.some(match => !match)) {
+      return {
+        segments: [{ speaker: 'Speaker 1', startMs: 0, endMs: 1000, text: `Fake transcript of ${media.length} bytes of ${mimeType}.` }],
+        durationMs: 1000
+      }
+    }
+
+    const segments: TranscriptSegment[] = parsed.map(match => {
+      const [, hours = '0', minutes, seconds, speaker, text] = match!
+      return {
+        speaker: speaker?.trim(),
+        startMs: ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000,
+        endMs: 0,
+        text: text.trim()
+      }
+    })
+
+    segments.forEach((segment, index) => {
+      segment.endMs = segments[index + 1]?.startMs ?? segment.startMs + segment.text.split(/\s+/).length * MS_PER_WORD
+    })
+
+    return { segments, durationMs: segments[segments.length - 1].endMs }
+  }
+}
@@ -0,0 +1,22 @@
+// Transcription Service
+export {
+  getTranscriptionService,
+  TranscriptionService,
+  isTranscribableMimeType
+} from './transcription-service'
+
+// Backends
+export { AzureSpeechTranscriptionBackend } from './azure-speech-backend'
+export { FakeTranscriptionBackend } from './fake-transcription-backend'
+
+// WebVTT transcripts
+export { parseWebVtt } from './webvtt'
+
+// Types
+export {
+  TranscriptionError,
+  type Transcript,
+  type TranscriptSegment,
+  type TranscriptionBackend,
+  type TranscriptionOptions
+} from './types'
@@ -0,0 +1,67 @@
+import { getConfigService } from '../config'
+import { AzureSpeechTranscriptionBackend } from './azure-speech-backend'
+import { FakeTranscriptionBackend } from './fake-transcription-backend'
+import { Transcript, TranscriptionBackend, TranscriptionError, TranscriptionOptions } from './types'
+
+/**
+ * Whether a file holds speech to transcribe rather than text to extract
+ */
+export function isTranscribableMimeType(mimeType: string): boolean {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase()
+  return normalized.startsWith('audio/') || normalized.startsWith('video/')
+}
+
+/**
+ * Transcribes meeting recordings and audio or video files through the configured backend
+ */
+class TranscriptionService {
+  private backend: TranscriptionBackend | null = null
+  private defaultLocales: string[] | null = null
+
+  private async initialize(): Promise<TranscriptionBackend> {
+    if (!this.backend || !this.defaultLocales) {
+      const config = await getConfigService().getConfig()
+      this.defaultLocales = this.defaultLocales || config.azure.speech.transcriptionLocales
+      this.backend = this.backend || (config.azure.speech.transcriptionBackend === 'fake'
+        ? new FakeTranscriptionBackend()
+        : new AzureSpeechTranscriptionBackend())
+    }
+    return this.backend
+  }
+
+  async transcribe(media: Buffer, mimeType: string, options: TranscriptionOptions = {}): Promise<Transcript> {
+    if (!isTranscribableMimeType(mimeType)) {
+      throw new TranscriptionError(`Cannot transcribe ${mimeType}`, 'UNSUPPORTED_MEDIA_TYPE')
+    }
+    if (media.length === 0) {
+      throw new TranscriptionError('Recording is empty', 'EMPTY_MEDIA')
+    }
+
+    const backend = await this.initialize()
+
+    try {
+      return await backend.transcribe(media, mimeType, { locales: this.defaultLocales!, ...options })
+    } catch (error) {
+      if (error instanceof TranscriptionError) {
+        throw error
+      }
+      throw new TranscriptionError(
+        `Transcription with ${backend.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'TRANSCRIPTION_FAILED',
+        error
+      )
+    }
+  }
+}
+
+// Singleton instance
+let transcriptionService: TranscriptionService | null = null
+
+export function getTranscriptionService(): TranscriptionService {
+  if (!transcriptionService) {
+    transcriptionService = new TranscriptionService()
+  }
+  return transcriptionService
+}
+
+export { TranscriptionService }
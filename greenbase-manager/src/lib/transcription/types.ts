@@ -0,0 +1,41 @@
+// One stretch of speech, attributed to a speaker where the backend could tell speakers apart
+export interface TranscriptSegment {
+  // Display name, or a diarization label such as "Speaker 2"
+  speaker?: string
+  // Position in the recording
+  startMs: number
+  endMs: number
+  text: string
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[]
+  durationMs?: number
+  // BCP 47 locale the speech was recognised in, e.g. de-DE
+  locale?: string
+}
+
+export interface TranscriptionOptions {
+  // Candidate locales; the backend identifies which one is spoken
+  locales?: string[]
+  maxSpeakers?: number
+}
+
+/**
+ * A speech-to-text service. Backends receive the raw bytes of an audio or video file.
+ */
+export interface TranscriptionBackend {
+  readonly name: string
+  transcribe(media: Buffer, mimeType: string, options?: TranscriptionOptions): Promise<Transcript>
+}
+
+export class TranscriptionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message)
+    this.name = 'TranscriptionError'
+  }
+}
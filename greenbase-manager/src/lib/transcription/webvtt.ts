@@ -0,0 +1,60 @@
+import { Transcript, TranscriptSegment } from './types'
+
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}\.\d{3})/
+const VOICE_PATTERN = /<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>|$)/g
+
+/**
+ * Parse a WebVTT transcript, as Teams produces for meetings, into speaker-attributed segments.
+ * Speakers come from voice spans (`<v Ada Lovelace>...</v>`); other markup is dropped.
+ */
+export function parseWebVtt(vtt: string): Transcript {
+  const segments: TranscriptSegment[] = []
+  // Cues are separated by blank lines; the first block is the WEBVTT header
+  const blocks = vtt.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line))
+    if (timingIndex === -1) {
+      continue
+    }
+
+    const [, start, end] = lines[timingIndex].match(TIMING_PATTERN)!
+    const payload = lines.slice(timingIndex + 1).join('\n')
+    const startMs = parseTimestamp(start)
+    const endMs = parseTimestamp(end)
+
+    const voices = Array.from(payload.matchAll(VOICE_PATTERN))
+    const parts = voices.length > 0
+      ? voices.map(([, speaker, text]) => ({ speaker: speaker.trim(), text }))
+      : [{ speaker: undefined, text: payload }]
+
+    for (const { speaker, text } of parts) {
+      const cleaned = stripMarkup(text)
+      if (cleaned) {
+        segments.push({ speaker, startMs, endMs, text: cleaned })
+      }
+    }
+  }
+
+  return {
+    segments,
+    durationMs: segments.length > 0 ? Math.max(...segments.map(segment => segment.endMs)) : undefined
+  }
+}
+
+function parseTimestamp(timestamp: string): number {
+  const [seconds, ...rest] = timestamp.split(':').reverse()
+  const [minutes, hours = '0'] = rest
+  return Math.round(((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000)
+}
+
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
@@ -1,5 +1,5 @@
 import { getVectorSearchService, SearchResult, SearchOptions } from './vector-search-service'
-import { getAIIntegrationService } from '../ai'
+import { getAIIntegrationService, getAzureOpenAIService, estimateTokens, fitToTokenBudget } from '../ai'
 import { getSupabaseAdmin } from '../supabase-admin'
 
 export interface RAGQuery {
@@ -9,6 +9,8 @@ export interface RAGQuery {
   context?: string
   maxSources?: number
   similarityThreshold?: number
+  // Tokens of retrieved context sent with the question; lower ranked results past it are left out
+  maxContextTokens?: number
 }
 
 export interface RAGResponse {
@@ -37,9 +39,16 @@ export interface RAGMetrics {
   commonQuestions: Array<{ question: string; count: number }>
 }
 
+// Leaves room for the question, the instructions and the answer in an 8K context window
+const DEFAULT_MAX_CONTEXT_TOKENS = 6000
+
+// How the question answering prompt joins context documents
+const CONTEXT_SEPARATOR = '\n\n---\n\n'
+
 class RAGPipeline {
   private vectorService = getVectorSearchService()
   private aiService = getAIIntegrationService()
+  private openAIService = getAzureOpenAIService()
   private supabase: any = null
 
   private async getSupabase() {
@@ -77,22 +86,27 @@ class RAGPipeline {
         }
       }
 
-      // Step 2: Prepare context for AI generation
-      const contextDocuments = searchResults.map(result => 
-        `[Document: ${result.title}]\n${result.content}`
+      // Step 2: Prepare context for AI generation, best matches first, within the token budget
+      const { chat: model } = await this.openAIService.getModels()
+      const contextDocuments = fitToTokenBudget(
+        searchResults.map(result => `[Document: ${result.title}]\n${result.content}`),
+        query.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS,
+        model,
+        estimateTokens(CONTEXT_SEPARATOR, model)
       )
+      const contextResults = searchResults.slice(0, contextDocuments.length)
 
       // Step 3: Generate answer using AI service
       const aiResponse = await this.aiService.answerQuestion(query.question, contextDocuments)
 
       // Step 4: Prepare sources with metadata
-      const sources = await this.prepareSources(searchResults)
+      const sources = await this.prepareSources(contextResults)
 
       // Step 5: Generate follow-up questions (optional)
       const followUpQuestions = await this.generateFollowUpQuestions(
         query.question,
         aiResponse.answer,
-        searchResults
+        contextResults
       )
 
       const response: RAGResponse = {
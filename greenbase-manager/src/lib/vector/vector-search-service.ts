@@ -1,6 +1,7 @@
 import { getAzureOpenAIService, EmbeddingResult } from '../ai/azure-openai'
 import { getSupabaseAdmin } from '../supabase-admin'
 import { DocumentChunking, DocumentChunk } from '../ingestion/document-chunking'
+import { getIngestionSettingsStore } from '../ingestion/ingestion-settings-store'
 
 export interface SearchResult {
   id: string
@@ -32,6 +33,7 @@ export interface EmbeddingJob {
 
 class VectorSearchService {
   private openAIService = getAzureOpenAIService()
+  private settingsStore = getIngestionSettingsStore()
   private supabase: any = null
 
   private async getSupabase() {
@@ -62,12 +64,14 @@ class VectorSearchService {
       // Update job status
       job.status = 'processing'
 
-      // Chunk the document
-      const chunks = DocumentChunking.chunkDocument(content, {
+      // Chunk the document with the organization's strategy, on Markdown heading sections by default
+      const { embedding: model } = await this.openAIService.getModels()
+      const { chunkingStrategy } = await this.settingsStore.getSettings(organizationId)
+      const chunks = await DocumentChunking.chunkWithStrategy(content, {
+        strategy: chunkingStrategy,
         maxTokens: 500,
-        overlapTokens: 50,
-        preserveSentences: true
-      })
+        model
+      }, async texts => (await this.openAIService.generateBatchEmbeddings(texts)).map(result => result.embedding))
 
       job.chunksTotal = chunks.length
 
@@ -77,15 +81,16 @@ class VectorSearchService {
         return job
       }
 
-      // Generate embeddings for chunks
-      const chunkContents = chunks.map(chunk => chunk.content)
+      // Generate embeddings for chunks, prefixed with their heading path for context
+      const chunkContents = chunks.map(chunk => DocumentChunking.embeddingText(chunk))
       const embeddings = await this.openAIService.generateBatchEmbeddings(chunkContents)
 
       // Prepare chunks data for database
       const chunksData = chunks.map((chunk, index) => ({
-        content: chunk.content,
+        content: chunkContents[index],
         embedding: embeddings[index].embedding,
-        chunkIndex: chunk.metadata.chunkIndex
+        chunkIndex: chunk.metadata.chunkIndex,
+        headingPath: chunk.metadata.headingPath || []
       }))
 
       // Store chunks in database
@@ -339,7 +344,7 @@ class VectorSearchService {
 
   private async storeDocumentChunks(
     documentId: string,
-    chunksData: Array<{ content: string; embedding: number[]; chunkIndex: number }>,
+    chunksData: Array<{ content: string; embedding: number[]; chunkIndex: number; headingPath: string[] }>,
     organizationId: string
   ): Promise<void> {
     try {
@@ -372,6 +377,7 @@ class VectorSearchService {
         chunk_index: chunk.chunkIndex,
         content: chunk.content,
         embedding: chunk.embedding,
+        heading_path: chunk.headingPath,
         organization_id: organizationId
       }))
 
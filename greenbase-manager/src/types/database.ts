@@ -19,8 +19,10 @@ export type Database = {
           approved_by: string
           content: string
           created_at: string | null
+          draft_document_id: string | null
           embedding: string | null
           id: string
+          language: string | null
           organization_id: string
           summary: string
           tags: string[] | null
@@ -32,8 +34,10 @@ export type Database = {
           approved_by: string
           content: string
           created_at?: string | null
+          draft_document_id?: string | null
           embedding?: string | null
           id?: string
+          language?: string | null
           organization_id: string
           summary: string
           tags?: string[] | null
@@ -45,8 +49,10 @@ export type Database = {
           approved_by?: string
           content?: string
           created_at?: string | null
+          draft_document_id?: string | null
           embedding?: string | null
           id?: string
+          language?: string | null
           organization_id?: string
           summary?: string
           tags?: string[] | null
@@ -62,6 +68,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "approved_documents_draft_document_id_fkey"
+            columns: ["draft_document_id"]
+            isOneToOne: false
+            referencedRelation: "draft_documents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "approved_documents_organization_id_fkey"
             columns: ["organization_id"]
@@ -74,39 +87,60 @@ export type Database = {
       connected_sources: {
         Row: {
           created_at: string | null
+          drive_filters: Json
+          grouping_strategy: string
           id: string
           is_active: boolean | null
           last_sync_at: string | null
           name: string
           selected_channels: string[] | null
+          selected_drive_folders: Json | null
           selected_folders: string[] | null
+          selected_slack_channels: Json | null
           selected_team_channels: Json | null
+          sync_cursors: Json | null
+          sync_paused: boolean | null
+          sync_schedule: Json | null
           type: Database["public"]["Enums"]["source_type"]
           updated_at: string | null
           user_id: string
         }
         Insert: {
           created_at?: string | null
+          drive_filters?: Json
+          grouping_strategy?: string
           id?: string
           is_active?: boolean | null
           last_sync_at?: string | null
           name: string
           selected_channels?: string[] | null
+          selected_drive_folders?: Json | null
           selected_folders?: string[] | null
+          selected_slack_channels?: Json | null
           selected_team_channels?: Json | null
+          sync_cursors?: Json | null
+          sync_paused?: boolean | null
+          sync_schedule?: Json | null
           type: Database["public"]["Enums"]["source_type"]
           updated_at?: string | null
           user_id: string
         }
         Update: {
           created_at?: string | null
+          drive_filters?: Json
+          grouping_strategy?: string
           id?: string
           is_active?: boolean | null
           last_sync_at?: string | null
           name?: string
           selected_channels?: string[] | null
+          selected_drive_folders?: Json | null
           selected_folders?: string[] | null
+          selected_slack_channels?: Json | null
           selected_team_channels?: Json | null
+          sync_cursors?: Json | null
+          sync_paused?: boolean | null
+          sync_schedule?: Json | null
           type?: Database["public"]["Enums"]["source_type"]
           updated_at?: string | null
           user_id?: string
@@ -121,6 +155,71 @@ export type Database = {
           },
         ]
       }
+      content_fingerprints: {
+        Row: {
+          approved_document_id: string | null
+          content_hash: string
+          created_at: string | null
+          draft_document_id: string | null
+          id: string
+          item_key: string
+          organization_id: string
+          source_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          approved_document_id?: string | null
+          content_hash: string
+          created_at?: string | null
+          draft_document_id?: string | null
+          id?: string
+          item_key: string
+          organization_id: string
+          source_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          approved_document_id?: string | null
+          content_hash?: string
+          created_at?: string | null
+          draft_document_id?: string | null
+          id?: string
+          item_key?: string
+          organization_id?: string
+          source_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_fingerprints_approved_document_id_fkey"
+            columns: ["approved_document_id"]
+            isOneToOne: false
+            referencedRelation: "approved_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_fingerprints_draft_document_id_fkey"
+            columns: ["draft_document_id"]
+            isOneToOne: false
+            referencedRelation: "draft_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_fingerprints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_fingerprints_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "connected_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       document_chunks: {
         Row: {
           chunk_index: number
@@ -128,6 +227,7 @@ export type Database = {
           created_at: string | null
           document_id: string
           embedding: string | null
+          heading_path: string[]
           id: string
           organization_id: string
         }
@@ -137,6 +237,7 @@ export type Database = {
           created_at?: string | null
           document_id: string
           embedding?: string | null
+          heading_path?: string[]
           id?: string
           organization_id: string
         }
@@ -146,6 +247,7 @@ export type Database = {
           created_at?: string | null
           document_id?: string
           embedding?: string | null
+          heading_path?: string[]
           id?: string
           organization_id?: string
         }
@@ -220,9 +322,13 @@ export type Database = {
           content: string
           created_at: string | null
           id: string
+          language: string | null
           organization_id: string
           status: Database["public"]["Enums"]["document_status"] | null
+          summary: string | null
+          supersedes_document_id: string | null
           title: string
+          topics: string[] | null
           triage_level: Database["public"]["Enums"]["triage_level"]
           updated_at: string | null
         }
@@ -231,9 +337,13 @@ export type Database = {
           content: string
           created_at?: string | null
           id?: string
+          language?: string | null
           organization_id: string
           status?: Database["public"]["Enums"]["document_status"] | null
+          summary?: string | null
+          supersedes_document_id?: string | null
           title: string
+          topics?: string[] | null
           triage_level: Database["public"]["Enums"]["triage_level"]
           updated_at?: string | null
         }
@@ -242,9 +352,13 @@ export type Database = {
           content?: string
           created_at?: string | null
           id?: string
+          language?: string | null
           organization_id?: string
           status?: Database["public"]["Enums"]["document_status"] | null
+          summary?: string | null
+          supersedes_document_id?: string | null
           title?: string
+          topics?: string[] | null
           triage_level?: Database["public"]["Enums"]["triage_level"]
           updated_at?: string | null
         }
@@ -258,22 +372,163 @@ export type Database = {
           },
         ]
       }
+      ingestion_job_groups: {
+        Row: {
+          attempts: number
+          chunk_ids: string[]
+          created_at: string | null
+          draft_document_id: string | null
+          error: string | null
+          group_index: number
+          id: string
+          items: Json | null
+          job_id: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          chunk_ids: string[]
+          created_at?: string | null
+          draft_document_id?: string | null
+          error?: string | null
+          group_index: number
+          id?: string
+          items?: Json | null
+          job_id: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          chunk_ids?: string[]
+          created_at?: string | null
+          draft_document_id?: string | null
+          error?: string | null
+          group_index?: number
+          id?: string
+          items?: Json | null
+          job_id?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_job_groups_draft_document_id_fkey"
+            columns: ["draft_document_id"]
+            isOneToOne: false
+            referencedRelation: "draft_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_job_groups_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          cancel_requested_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          error: string | null
+          id: string
+          item_errors: Json | null
+          items_processed: number
+          items_total: number
+          organization_id: string
+          pending_cursors: Json | null
+          processing_options: Json | null
+          source_id: string | null
+          started_at: string
+          status: Database["public"]["Enums"]["ingestion_job_status"]
+          timings: Json | null
+          updated_at: string | null
+        }
+        Insert: {
+          cancel_requested_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          item_errors?: Json | null
+          items_processed?: number
+          items_total?: number
+          organization_id: string
+          pending_cursors?: Json | null
+          processing_options?: Json | null
+          source_id?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["ingestion_job_status"]
+          timings?: Json | null
+          updated_at?: string | null
+        }
+        Update: {
+          cancel_requested_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          item_errors?: Json | null
+          items_processed?: number
+          items_total?: number
+          organization_id?: string
+          pending_cursors?: Json | null
+          processing_options?: Json | null
+          source_id?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["ingestion_job_status"]
+          timings?: Json | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_jobs_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "connected_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizations: {
         Row: {
+          canonical_language: string
+          chunking_strategy: string
           created_at: string | null
+          draft_language_mode: string
           id: string
+          ingestion_concurrency: number
           name: string
           updated_at: string | null
         }
         Insert: {
+          canonical_language?: string
+          chunking_strategy?: string
           created_at?: string | null
+          draft_language_mode?: string
           id?: string
+          ingestion_concurrency?: number
           name: string
           updated_at?: string | null
         }
         Update: {
+          canonical_language?: string
+          chunking_strategy?: string
           created_at?: string | null
+          draft_language_mode?: string
           id?: string
+          ingestion_concurrency?: number
           name?: string
           updated_at?: string | null
         }
@@ -327,13 +582,51 @@ export type Database = {
           },
         ]
       }
+      source_document_originals: {
+        Row: {
+          content_hash: string
+          created_at: string | null
+          id: string
+          organization_id: string
+          original_content: string
+          source_id: string
+          source_type: Database["public"]["Enums"]["source_type"]
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string | null
+          id?: string
+          organization_id: string
+          original_content: string
+          source_id: string
+          source_type: Database["public"]["Enums"]["source_type"]
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string | null
+          id?: string
+          organization_id?: string
+          original_content?: string
+          source_id?: string
+          source_type?: Database["public"]["Enums"]["source_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "source_document_originals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       source_documents: {
         Row: {
           created_at: string | null
           draft_document_id: string
           id: string
           metadata: Json | null
-          original_content: string
+          original_content: string | null
           redacted_content: string
           source_id: string
           source_type: Database["public"]["Enums"]["source_type"]
@@ -343,7 +636,7 @@ export type Database = {
           draft_document_id: string
           id?: string
           metadata?: Json | null
-          original_content: string
+          original_content?: string | null
           redacted_content: string
           source_id: string
           source_type: Database["public"]["Enums"]["source_type"]
@@ -353,7 +646,7 @@ export type Database = {
           draft_document_id?: string
           id?: string
           metadata?: Json | null
-          original_content?: string
+          original_content?: string | null
           redacted_content?: string
           source_id?: string
           source_type?: Database["public"]["Enums"]["source_type"]
@@ -368,6 +661,80 @@ export type Database = {
           },
         ]
       }
+      uploaded_artifacts: {
+        Row: {
+          content_hash: string
+          created_at: string | null
+          draft_document_id: string | null
+          file_name: string
+          id: string
+          ingestion_job_id: string | null
+          kind: string
+          mime_type: string
+          organization_id: string
+          redacted_text: string
+          size_bytes: number
+          uploaded_by: string | null
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string | null
+          draft_document_id?: string | null
+          file_name: string
+          id?: string
+          ingestion_job_id?: string | null
+          kind: string
+          mime_type: string
+          organization_id: string
+          redacted_text: string
+          size_bytes: number
+          uploaded_by?: string | null
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string | null
+          draft_document_id?: string | null
+          file_name?: string
+          id?: string
+          ingestion_job_id?: string | null
+          kind?: string
+          mime_type?: string
+          organization_id?: string
+          redacted_text?: string
+          size_bytes?: number
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "uploaded_artifacts_draft_document_id_fkey"
+            columns: ["draft_document_id"]
+            isOneToOne: false
+            referencedRelation: "draft_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uploaded_artifacts_ingestion_job_id_fkey"
+            columns: ["ingestion_job_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uploaded_artifacts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uploaded_artifacts_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       users: {
         Row: {
           created_at: string | null
@@ -468,6 +835,10 @@ export type Database = {
           title: string
         }[]
       }
+      replace_source_documents: {
+        Args: { documents: Json; draft_id: string }
+        Returns: undefined
+      }
       update_document_embedding: {
         Args: { doc_id: string; new_embedding: string }
         Returns: undefined
@@ -475,7 +846,8 @@ export type Database = {
     }
     Enums: {
       document_status: "pending" | "approved" | "rejected"
-      source_type: "teams" | "google_drive"
+      ingestion_job_status: "pending" | "running" | "completed" | "failed" | "cancelled"
+      source_type: "teams" | "teams_meetings" | "google_drive" | "onedrive" | "sharepoint" | "slack" | "upload" | "email"
       triage_level: "green" | "yellow" | "red"
       user_role: "manager" | "employee"
     }
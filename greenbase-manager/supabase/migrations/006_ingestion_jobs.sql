@@ -0,0 +1,41 @@
+-- Migration: Persistent ingestion job history
+-- Records every ingestion run so managers can see what ran, what failed and why
+
+CREATE TYPE ingestion_job_status AS ENUM ('pending', 'running', 'completed', 'failed');
+
+CREATE TABLE ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_id UUID NOT NULL REFERENCES connected_sources(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    status ingestion_job_status NOT NULL DEFAULT 'pending',
+    items_processed INTEGER NOT NULL DEFAULT 0,
+    items_total INTEGER NOT NULL DEFAULT 0,
+    error TEXT, -- Job-level failure reason
+    item_errors JSONB DEFAULT '[]', -- Per-item failures: [{"item": "string", "error": "string"}]
+    timings JSONB DEFAULT '{}', -- Phase durations in ms: {"fetchMs": 0, "groupingMs": 0, "processingMs": 0}
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_ingestion_jobs_source_id ON ingestion_jobs(source_id);
+CREATE INDEX idx_ingestion_jobs_organization_id ON ingestion_jobs(organization_id);
+CREATE INDEX idx_ingestion_jobs_status ON ingestion_jobs(status);
+CREATE INDEX idx_ingestion_jobs_started_at ON ingestion_jobs(started_at DESC);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at BEFORE UPDATE ON ingestion_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Managers can view ingestion history for their organization
+CREATE POLICY "Managers can view ingestion jobs in their organization" ON ingestion_jobs
+    FOR SELECT USING (organization_id = get_user_organization_id() AND is_manager());
+
+-- Jobs are written by the ingestion service using the service role, which bypasses RLS
+
+GRANT ALL ON ingestion_jobs TO authenticated;
+GRANT ALL ON ingestion_jobs TO service_role;
+
+COMMENT ON TABLE ingestion_jobs IS 'History of content ingestion runs per connected source, including per-item errors and phase timings.';
@@ -0,0 +1,8 @@
+-- Migration: Add incremental sync cursors to connected sources
+-- Lets ingestion resume from where the previous sync left off instead of re-pulling everything
+
+-- Format: {"teamsChannels": {"teamId/channelId": "<Graph deltaLink>"}, "driveFolders": {"folderId": "<Drive changes page token>"}}
+ALTER TABLE connected_sources
+ADD COLUMN sync_cursors JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN connected_sources.sync_cursors IS 'Per-channel Graph delta links and per-folder Drive changes page tokens. Format: {"teamsChannels": {"teamId/channelId": "string"}, "driveFolders": {"folderId": "string"}}';
@@ -0,0 +1,16 @@
+-- Migration: Per-source background sync schedules
+-- Lets the ingestion scheduler run each connected source on its own cadence
+
+-- Format: {"type": "interval", "intervalMinutes": 60, "jitterSeconds": 120}
+--      or {"type": "cron", "expression": "0 6 * * 1-5", "jitterSeconds": 120}
+-- NULL means the source is only synced on demand
+ALTER TABLE connected_sources
+ADD COLUMN sync_schedule JSONB,
+ADD COLUMN sync_paused BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN connected_sources.sync_schedule IS 'Background sync schedule. Format: {"type": "interval", "intervalMinutes": number, "jitterSeconds"?: number} or {"type": "cron", "expression": "string", "jitterSeconds"?: number}. Cron expressions are evaluated in UTC.';
+COMMENT ON COLUMN connected_sources.sync_paused IS 'When true the scheduler skips this source until it is resumed.';
+
+-- Scheduler scans active, scheduled sources on every tick
+CREATE INDEX IF NOT EXISTS idx_connected_sources_scheduled
+ON connected_sources(is_active, sync_paused) WHERE sync_schedule IS NOT NULL;
@@ -0,0 +1,42 @@
+-- Migration: Content fingerprint registry for deduplication across ingestion runs
+-- Each source item (Teams message, Drive file, ...) is fingerprinted by a hash of its normalized content
+-- so unchanged items are skipped and changed items update the draft or document they produced before
+
+CREATE TABLE content_fingerprints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_id UUID NOT NULL REFERENCES connected_sources(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    item_key TEXT NOT NULL, -- Stable content chunk id, e.g. teams_<messageId> or drive_<fileId>
+    content_hash TEXT NOT NULL, -- SHA-256 of the normalized item content
+    draft_document_id UUID REFERENCES draft_documents(id) ON DELETE SET NULL,
+    approved_document_id UUID REFERENCES approved_documents(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (source_id, item_key)
+);
+
+CREATE INDEX idx_content_fingerprints_organization_id ON content_fingerprints(organization_id);
+CREATE INDEX idx_content_fingerprints_draft_document_id ON content_fingerprints(draft_document_id);
+CREATE INDEX idx_content_fingerprints_approved_document_id ON content_fingerprints(approved_document_id);
+
+CREATE TRIGGER update_content_fingerprints_updated_at BEFORE UPDATE ON content_fingerprints FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Drafts produced from changed items of an already-approved document point back at that document
+ALTER TABLE draft_documents
+ADD COLUMN supersedes_document_id UUID REFERENCES approved_documents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_draft_documents_supersedes_document_id ON draft_documents(supersedes_document_id) WHERE supersedes_document_id IS NOT NULL;
+
+-- Row Level Security
+ALTER TABLE content_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view content fingerprints in their organization" ON content_fingerprints
+    FOR SELECT USING (organization_id = get_user_organization_id() AND is_manager());
+
+-- Fingerprints are written by the ingestion service using the service role, which bypasses RLS
+
+GRANT ALL ON content_fingerprints TO authenticated;
+GRANT ALL ON content_fingerprints TO service_role;
+
+COMMENT ON TABLE content_fingerprints IS 'Hash of the normalized content of every ingested source item, linked to the draft or approved document it produced.';
+COMMENT ON COLUMN draft_documents.supersedes_document_id IS 'Approved document this draft would update, set when a previously ingested item changes after approval.';
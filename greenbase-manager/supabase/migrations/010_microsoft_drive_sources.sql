@@ -0,0 +1,13 @@
+-- Migration: OneDrive and SharePoint as ingestion source types
+-- Both connect through the Microsoft OAuth flow and ingest files from selected drive folders
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'onedrive';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'sharepoint';
+
+-- Folders picked from OneDrive or SharePoint document libraries. Unlike Google Drive folder ids,
+-- Graph item ids are only unique within a drive, so each selection carries its drive (and site)
+-- Format: [{"driveId": "b!abc", "itemId": "01XYZ", "siteId": "contoso.sharepoint.com,...", "displayName": "Policies"}]
+ALTER TABLE connected_sources
+ADD COLUMN selected_drive_folders JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN connected_sources.selected_drive_folders IS 'Stores OneDrive/SharePoint folder selections. Format: [{"driveId": "string", "itemId": "string", "siteId"?: "string", "displayName": "string"}]. itemId "root" selects a whole drive or document library.';
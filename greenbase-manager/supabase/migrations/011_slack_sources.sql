@@ -0,0 +1,10 @@
+-- Migration: Slack workspaces as an ingestion source type
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'slack';
+
+-- Add a column to store workspace-channel mappings, mirroring selected_team_channels
+-- Format: [{"teamId": "T024BE7LD", "channelId": "C012AB3CD", "displayName": "Acme - #engineering"}]
+ALTER TABLE connected_sources
+ADD COLUMN selected_slack_channels JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN connected_sources.selected_slack_channels IS 'Stores workspace-channel mappings for Slack. Format: [{"teamId": "string", "channelId": "string", "displayName": "string"}]';
@@ -0,0 +1,36 @@
+-- Migration: Manual file uploads and pasted text as an ingestion source
+-- Managers can add knowledge that does not live in a connected system; each upload is kept as an
+-- artifact so the drafts it produces can reference it
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'upload';
+
+CREATE TABLE uploaded_artifacts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('file', 'paste')),
+    file_name TEXT NOT NULL, -- Original file name, or the title given to pasted text
+    mime_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    content_hash TEXT NOT NULL, -- SHA-256 of the normalized extracted text, used to reject duplicate uploads
+    redacted_text TEXT NOT NULL, -- Extracted text after PII redaction; the raw text is never stored
+    draft_document_id UUID REFERENCES draft_documents(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (organization_id, content_hash)
+);
+
+CREATE INDEX idx_uploaded_artifacts_organization_id ON uploaded_artifacts(organization_id, created_at DESC);
+CREATE INDEX idx_uploaded_artifacts_draft_document_id ON uploaded_artifacts(draft_document_id);
+
+-- Row Level Security
+ALTER TABLE uploaded_artifacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view uploaded artifacts in their organization" ON uploaded_artifacts
+    FOR SELECT USING (organization_id = get_user_organization_id() AND is_manager());
+
+-- Artifacts are written by the upload service using the service role, which bypasses RLS
+
+GRANT ALL ON uploaded_artifacts TO authenticated;
+GRANT ALL ON uploaded_artifacts TO service_role;
+
+COMMENT ON TABLE uploaded_artifacts IS 'Files and pasted text added by managers, with the redacted text extracted from them and the draft they produced.';
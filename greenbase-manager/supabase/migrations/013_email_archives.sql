@@ -0,0 +1,10 @@
+-- Migration: Email archives (mbox or .eml files) as an ingestion source
+-- Archives are uploaded like other files; each reconstructed thread is stored as its own artifact and draft
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'email';
+
+ALTER TABLE uploaded_artifacts DROP CONSTRAINT uploaded_artifacts_kind_check;
+ALTER TABLE uploaded_artifacts ADD CONSTRAINT uploaded_artifacts_kind_check
+    CHECK (kind IN ('file', 'paste', 'email_thread'));
+
+COMMENT ON COLUMN uploaded_artifacts.file_name IS 'Original file name, the title given to pasted text, or the subject of an email thread';
@@ -0,0 +1,7 @@
+-- Migration: Per-source strategy for grouping ingested content into drafts
+
+ALTER TABLE connected_sources
+ADD COLUMN grouping_strategy TEXT NOT NULL DEFAULT 'time_window'
+  CHECK (grouping_strategy IN ('semantic', 'time_window'));
+
+COMMENT ON COLUMN connected_sources.grouping_strategy IS 'How new content is grouped into drafts. time_window, the default, groups by source and 1-hour windows; semantic, opted into per source, clusters threads and messages by embedding similarity across channels and time.';
@@ -0,0 +1,50 @@
+-- Migration: Cancellation, per-group retry and resume for ingestion jobs
+
+ALTER TYPE ingestion_job_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE ingestion_jobs
+ADD COLUMN cancel_requested_at TIMESTAMPTZ,
+ADD COLUMN processing_options JSONB DEFAULT '{}',
+ADD COLUMN pending_cursors JSONB;
+
+COMMENT ON COLUMN ingestion_jobs.cancel_requested_at IS 'Set when a cancel is requested; the process running the job stops before its next group.';
+COMMENT ON COLUMN ingestion_jobs.processing_options IS 'Content processing options the job was started with, reused when it is resumed or retried.';
+COMMENT ON COLUMN ingestion_jobs.pending_cursors IS 'Sync cursors the job will save once its groups are processed. Set together with the job''s groups as its resume checkpoint.';
+
+-- Each group of fetched content is drafted independently, so outcomes are tracked per group
+CREATE TABLE ingestion_job_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    group_index INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    chunk_ids TEXT[] NOT NULL,
+    items JSONB, -- Chunks and content hashes to process: [{"chunk": {...}, "contentHash": "string"}]. Cleared once drafted.
+    draft_document_id UUID REFERENCES draft_documents(id) ON DELETE SET NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(job_id, group_index)
+);
+
+CREATE INDEX idx_ingestion_job_groups_job_id ON ingestion_job_groups(job_id, status);
+
+CREATE TRIGGER update_ingestion_job_groups_updated_at BEFORE UPDATE ON ingestion_job_groups FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE ingestion_job_groups ENABLE ROW LEVEL SECURITY;
+
+-- Managers can see group outcomes for jobs in their organization
+CREATE POLICY "Managers can view ingestion job groups in their organization" ON ingestion_job_groups
+    FOR SELECT USING (
+        is_manager() AND EXISTS (
+            SELECT 1 FROM ingestion_jobs
+            WHERE ingestion_jobs.id = ingestion_job_groups.job_id
+            AND ingestion_jobs.organization_id = get_user_organization_id()
+        )
+    );
+
+GRANT ALL ON ingestion_job_groups TO authenticated;
+GRANT ALL ON ingestion_job_groups TO service_role;
+
+COMMENT ON TABLE ingestion_job_groups IS 'Per-group outcomes of ingestion jobs, used to retry failed groups and resume interrupted jobs.';
@@ -0,0 +1,7 @@
+-- Migration: Per-organization concurrency for drafting ingested content groups
+
+ALTER TABLE organizations
+ADD COLUMN ingestion_concurrency INTEGER NOT NULL DEFAULT 2
+  CHECK (ingestion_concurrency BETWEEN 1 AND 16);
+
+COMMENT ON COLUMN organizations.ingestion_concurrency IS 'How many content groups of an ingestion job are drafted at once. All organizations share the Azure OpenAI rate limits, so higher values only help while the deployment has quota to spare.';
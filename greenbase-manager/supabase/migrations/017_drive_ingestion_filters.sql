@@ -0,0 +1,6 @@
+-- Migration: Per-source filters for which Google Drive files are ingested
+
+ALTER TABLE connected_sources
+ADD COLUMN drive_filters JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN connected_sources.drive_filters IS 'Google Drive only. {maxDepth, includePatterns, excludePatterns, mimeTypes, maxFileSizeBytes, modifiedSince}; every field is optional. Patterns are globs on the file name, or on the path below the selected folder when they contain a slash.';
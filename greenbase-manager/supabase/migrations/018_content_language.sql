@@ -0,0 +1,18 @@
+-- Migration: Detected content language and per-organization draft language
+
+ALTER TABLE organizations
+ADD COLUMN draft_language_mode TEXT NOT NULL DEFAULT 'source'
+  CHECK (draft_language_mode IN ('source', 'canonical')),
+ADD COLUMN canonical_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (canonical_language IN ('en', 'de', 'es'));
+
+COMMENT ON COLUMN organizations.draft_language_mode IS 'source: drafts are written in the language of their source content. canonical: drafts are translated to canonical_language.';
+COMMENT ON COLUMN organizations.canonical_language IS 'ISO 639-1 code of the language drafts are translated to in canonical mode';
+
+ALTER TABLE draft_documents ADD COLUMN language TEXT;
+ALTER TABLE approved_documents ADD COLUMN language TEXT;
+
+COMMENT ON COLUMN draft_documents.language IS 'ISO 639-1 code of the language detected in the source content; NULL when it could not be told';
+COMMENT ON COLUMN approved_documents.language IS 'Detected source language, carried over from the approved draft';
+
+CREATE INDEX idx_approved_documents_language ON approved_documents(organization_id, language);
@@ -0,0 +1,6 @@
+-- Migration: Teams meetings as an ingestion source type
+-- Transcripts and recordings of meetings the connected user organized are ingested through the Microsoft
+-- OAuth flow. Speaker turns are stored like other chunks; their position in the recording is kept in
+-- source_documents.metadata (mediaOffsetMs).
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'teams_meetings';
@@ -0,0 +1,5 @@
+-- Migration: Heading paths on document chunks
+
+ALTER TABLE document_chunks ADD COLUMN heading_path TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN document_chunks.heading_path IS 'Markdown headings enclosing the chunk, outermost first; content starts with them joined by " > "';
@@ -0,0 +1,7 @@
+-- Migration: Per-organization chunking strategy for approved documents
+
+ALTER TABLE organizations
+ADD COLUMN chunking_strategy TEXT NOT NULL DEFAULT 'markdown'
+  CHECK (chunking_strategy IN ('fixed', 'sentence', 'paragraph', 'markdown', 'semantic'));
+
+COMMENT ON COLUMN organizations.chunking_strategy IS 'How approved documents are split for retrieval. semantic embeds every sentence to find topic shifts, which costs embedding tokens on each approval.';
@@ -0,0 +1,23 @@
+-- Migration: Approved documents remember the draft they were approved from
+-- The approval writes draft_document_id; triggers carry what the draft knows over to the document
+
+ALTER TABLE approved_documents
+ADD COLUMN draft_document_id UUID REFERENCES draft_documents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_approved_documents_draft_document_id ON approved_documents(draft_document_id) WHERE draft_document_id IS NOT NULL;
+
+-- Copy the draft's detected language unless the approval sets one
+CREATE OR REPLACE FUNCTION copy_draft_language()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.language IS NULL AND NEW.draft_document_id IS NOT NULL THEN
+        SELECT language INTO NEW.language FROM draft_documents WHERE id = NEW.draft_document_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER copy_approved_document_language BEFORE INSERT ON approved_documents FOR EACH ROW EXECUTE FUNCTION copy_draft_language();
+
+COMMENT ON COLUMN approved_documents.draft_document_id IS 'Draft this document was approved from; NULL for documents written directly';
+COMMENT ON COLUMN approved_documents.language IS 'Detected source language, copied from the draft in draft_document_id on insert unless set explicitly';
@@ -0,0 +1,16 @@
+-- Migration: Link content fingerprints to the approved document their draft became
+-- Later changes to those items then produce drafts that supersede the document
+
+CREATE OR REPLACE FUNCTION link_approved_fingerprints()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.draft_document_id IS NOT NULL THEN
+        UPDATE content_fingerprints
+        SET approved_document_id = NEW.id
+        WHERE draft_document_id = NEW.draft_document_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER link_approved_document_fingerprints AFTER INSERT ON approved_documents FOR EACH ROW EXECUTE FUNCTION link_approved_fingerprints();
@@ -0,0 +1,7 @@
+-- Migration: Keep only redacted source content
+-- Items are redacted before they are stored with a job, so the raw text is no longer available when source documents are written
+
+ALTER TABLE source_documents ALTER COLUMN original_content DROP NOT NULL;
+
+COMMENT ON COLUMN source_documents.original_content IS 'No longer written; only redacted_content is kept';
+COMMENT ON COLUMN ingestion_job_groups.items IS 'Redacted chunks to process: [{"chunk": {...}, "contentHash": "string", "redaction": {...}}]. Cleared once drafted.';
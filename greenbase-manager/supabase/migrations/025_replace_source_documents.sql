@@ -0,0 +1,23 @@
+-- Migration: Replace a draft's source documents in one transaction
+-- A write that fails part way leaves the previous rows in place rather than a draft without sources
+
+CREATE OR REPLACE FUNCTION replace_source_documents(
+    draft_id uuid,
+    documents jsonb -- Array of {source_type, source_id, redacted_content, metadata}
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM source_documents WHERE draft_document_id = draft_id;
+
+    INSERT INTO source_documents (draft_document_id, source_type, source_id, redacted_content, metadata)
+    SELECT
+        draft_id,
+        (document->>'source_type')::source_type,
+        document->>'source_id',
+        document->>'redacted_content',
+        document->'metadata'
+    FROM jsonb_array_elements(documents) AS document;
+END;
+$$;
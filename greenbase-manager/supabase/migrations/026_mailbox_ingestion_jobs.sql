@@ -0,0 +1,14 @@
+-- Migration: Draft uploaded mailboxes in ingestion jobs
+-- A mailbox can hold thousands of threads, so it is drafted in the background like a sync, with the
+-- same checkpoint, retry and cancel handling. Such jobs have no connected source.
+
+ALTER TABLE ingestion_jobs ALTER COLUMN source_id DROP NOT NULL;
+
+-- Lets a job that was interrupted before its checkpoint release the content hashes it claimed
+ALTER TABLE uploaded_artifacts
+    ADD COLUMN ingestion_job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_uploaded_artifacts_ingestion_job_id ON uploaded_artifacts(ingestion_job_id);
+
+COMMENT ON COLUMN ingestion_jobs.source_id IS 'Connected source being synced; null for a job drafting an uploaded mailbox';
+COMMENT ON COLUMN uploaded_artifacts.ingestion_job_id IS 'Job drafting the artifact, for email threads drafted in the background';
@@ -0,0 +1,23 @@
+-- Migration: Keep the original text of ingested items where only the service role can read it
+-- Jobs and source_documents only hold redacted text, which every member of an organization can see.
+-- The raw text is kept apart so it can still be traced back to for review, but never reaches the app's users.
+
+CREATE TABLE source_document_originals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    source_type source_type NOT NULL,
+    source_id TEXT NOT NULL, -- Item key shared with source_documents and content_fingerprints, e.g. teams_<messageId>
+    content_hash TEXT NOT NULL, -- Matches the contentHash in the metadata of the source documents made from this text
+    original_content TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (organization_id, source_id, content_hash)
+);
+
+-- Row Level Security with no policies: only the service role, which bypasses RLS, can read or write originals
+ALTER TABLE source_document_originals ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON source_document_originals FROM anon, authenticated;
+GRANT ALL ON source_document_originals TO service_role;
+
+COMMENT ON TABLE source_document_originals IS 'Unredacted text of every ingested item, one row per version of its content. Service role only.';
+COMMENT ON COLUMN source_documents.original_content IS 'No longer written; the unredacted text is kept in source_document_originals';
@@ -0,0 +1,19 @@
+-- Migration: At most one pending or running ingestion job per source
+-- The scheduler checks for an active job before starting one, but two processes can both pass the
+-- check; with this index the second job cannot be created
+
+-- Keep only the newest active job of a source that already has several
+UPDATE ingestion_jobs
+SET status = 'failed', error = 'Superseded by a newer job for the same source', completed_at = NOW()
+WHERE status IN ('pending', 'running')
+  AND source_id IS NOT NULL
+  AND id NOT IN (
+      SELECT DISTINCT ON (source_id) id
+      FROM ingestion_jobs
+      WHERE status IN ('pending', 'running') AND source_id IS NOT NULL
+      ORDER BY source_id, started_at DESC
+  );
+
+-- Jobs drafting an uploaded mailbox have no source and are not limited
+CREATE UNIQUE INDEX idx_ingestion_jobs_one_active_per_source ON ingestion_jobs(source_id)
+    WHERE status IN ('pending', 'running');